@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
+import { supabase } from '@/agent1-foundation/database/supabase-client';
 
 interface AnalyticsData {
   totalProducts: number;
@@ -14,6 +15,86 @@ interface AnalyticsData {
   recentActivity: Array<{ action: string; product: string; timestamp: string; user: string }>;
 }
 
+interface AccuracyPoint {
+  dimensionId: string;
+  label: string;
+  bucketStart?: string;
+  counted: number;
+  accurate: number;
+  accuracy: number;
+}
+
+interface AccuracyData {
+  accuracy: number | null;
+  counted: number;
+  trend: AccuracyPoint[];
+  byCategory: AccuracyPoint[];
+  byLocation: AccuracyPoint[];
+  byCounter: AccuracyPoint[];
+  worstProducts: AccuracyPoint[];
+  flagged: Array<{ productId: string; productName: string; category?: string; flaggedAt: string }>;
+}
+
+interface MarketBasketData {
+  basketCount: number;
+  computedAt: string;
+  productNames: Record<string, string>;
+  analysis: {
+    crossSellingOpportunities: Array<{
+      baseProduct: string;
+      suggestedProduct: string;
+      confidence: number;
+      lift: number;
+      expectedIncrease: number;
+    }>;
+    bundles: Array<{ items: string[]; support: number; frequency: number; lift: number }>;
+  };
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    ...(session ? { Authorization: `Bearer ${session.access_token}` } : {})
+  };
+}
+
+function accuracyColor(accuracy: number): string {
+  if (accuracy >= 97) return 'bg-green-500';
+  if (accuracy >= 90) return 'bg-yellow-500';
+  return 'bg-red-500';
+}
+
+function AccuracyBreakdown({ title, rows }: { title: string; rows: AccuracyPoint[] }) {
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 mb-3">{title}</h4>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No counts yet</p>
+      ) : (
+        <div className="space-y-2">
+          {rows.map(row => (
+            <div key={row.dimensionId} className="flex items-center justify-between">
+              <span className="text-sm text-gray-900 truncate mr-3">{row.label}</span>
+              <div className="flex items-center space-x-3">
+                <div className="w-24 bg-gray-200 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full ${accuracyColor(row.accuracy)}`}
+                    style={{ width: `${row.accuracy}%` }}
+                  ></div>
+                </div>
+                <span className="text-sm text-gray-600 w-20 text-right">
+                  {row.accuracy.toFixed(1)}% <span className="text-gray-400">({row.counted})</span>
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 const mockAnalytics: AnalyticsData = {
   totalProducts: 1247,
   totalValue: 45892,
@@ -48,6 +129,10 @@ export default function AnalyticsPage() {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedPeriod, setSelectedPeriod] = useState('30d');
+  const [accuracy, setAccuracy] = useState<AccuracyData | null>(null);
+  const [accuracyError, setAccuracyError] = useState<string | null>(null);
+  const [marketBasket, setMarketBasket] = useState<MarketBasketData | null>(null);
+  const [isMiningBaskets, setIsMiningBaskets] = useState(false);
 
   useEffect(() => {
     // Simulate loading data
@@ -57,6 +142,56 @@ export default function AnalyticsPage() {
     }, 1000);
   }, []);
 
+  useEffect(() => {
+    const loadAccuracy = async () => {
+      try {
+        setAccuracyError(null);
+        const response = await fetch(`/api/analytics/accuracy?period=${selectedPeriod}`, {
+          headers: await authHeaders()
+        });
+        if (!response.ok) throw new Error(`Request failed with ${response.status}`);
+        const data = await response.json();
+        setAccuracy(data.data);
+      } catch (err) {
+        console.error('Failed to load record accuracy:', err);
+        setAccuracyError('Failed to load inventory record accuracy');
+      }
+    };
+
+    loadAccuracy();
+  }, [selectedPeriod]);
+
+  useEffect(() => {
+    const loadMarketBasket = async () => {
+      try {
+        const response = await fetch('/api/analytics/market-basket', { headers: await authHeaders() });
+        if (!response.ok) throw new Error(`Request failed with ${response.status}`);
+        const data = await response.json();
+        setMarketBasket(data.data);
+      } catch (err) {
+        console.error('Failed to load market basket analysis:', err);
+      }
+    };
+
+    loadMarketBasket();
+  }, []);
+
+  const refreshMarketBasket = async () => {
+    setIsMiningBaskets(true);
+    try {
+      const response = await fetch('/api/analytics/market-basket', { method: 'POST', headers: await authHeaders() });
+      if (!response.ok) throw new Error(`Request failed with ${response.status}`);
+      const data = await response.json();
+      setMarketBasket(data.data);
+    } catch (err) {
+      console.error('Failed to refresh market basket analysis:', err);
+    } finally {
+      setIsMiningBaskets(false);
+    }
+  };
+
+  const productName = (productId: string) => marketBasket?.productNames[productId] || productId;
+
   if (isLoading || !analytics) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -245,6 +380,140 @@ export default function AnalyticsPage() {
           </div>
         </div>
 
+        {/* Inventory Record Accuracy */}
+        <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200 mb-8">
+          <div className="flex items-start justify-between mb-6">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Inventory Record Accuracy</h3>
+              <p className="text-sm text-gray-600">Share of counts that matched the system quantity within tolerance</p>
+            </div>
+            {accuracy && (
+              <div className="text-right">
+                <p className="text-2xl font-bold text-gray-900">
+                  {accuracy.accuracy === null ? '—' : `${accuracy.accuracy.toFixed(1)}%`}
+                </p>
+                <p className="text-xs text-gray-500">{accuracy.counted} counts</p>
+              </div>
+            )}
+          </div>
+
+          {accuracyError && <p className="text-sm text-red-600">{accuracyError}</p>}
+
+          {accuracy && (
+            <>
+              {accuracy.trend.length > 0 && (
+                <div className="flex items-end space-x-2 h-24 mb-6">
+                  {accuracy.trend.map(point => (
+                    <div key={point.bucketStart} className="flex-1 flex flex-col items-center justify-end h-full">
+                      <div
+                        className={`w-full rounded-t ${accuracyColor(point.accuracy)}`}
+                        style={{ height: `${point.accuracy}%` }}
+                        title={`${point.accuracy.toFixed(1)}% of ${point.counted} counts`}
+                      ></div>
+                      <span className="text-[10px] text-gray-500 mt-1">
+                        {point.bucketStart ? new Date(point.bucketStart).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }) : ''}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                <AccuracyBreakdown title="By Category" rows={accuracy.byCategory} />
+                <AccuracyBreakdown title="By Location" rows={accuracy.byLocation} />
+                <AccuracyBreakdown title="By Counter" rows={accuracy.byCounter} />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <AccuracyBreakdown title="Least Accurate Products" rows={accuracy.worstProducts} />
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-700 mb-3">Flagged for More Frequent Counting</h4>
+                  {accuracy.flagged.length === 0 ? (
+                    <p className="text-sm text-gray-500">No products flagged</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-200">
+                      {accuracy.flagged.map(product => (
+                        <li key={product.productId} className="py-2 flex items-center justify-between">
+                          <span className="text-sm text-gray-900">{product.productName}</span>
+                          <span className="text-xs text-gray-500">
+                            since {new Date(product.flaggedAt).toLocaleDateString()}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Frequently Bought Together */}
+        <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200 mb-8">
+          <div className="flex items-start justify-between mb-6">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Frequently Bought Together</h3>
+              <p className="text-sm text-gray-600">
+                {marketBasket
+                  ? `From ${marketBasket.basketCount.toLocaleString()} baskets in the last 90 days, updated ${new Date(marketBasket.computedAt).toLocaleDateString()}`
+                  : 'Products sold together more often than chance, from the last 90 days of sales'}
+              </p>
+            </div>
+            <button
+              onClick={refreshMarketBasket}
+              disabled={isMiningBaskets}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {isMiningBaskets ? 'Analyzing...' : 'Refresh'}
+            </button>
+          </div>
+
+          {!marketBasket ? (
+            <p className="text-sm text-gray-500">No analysis yet</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 mb-3">Cross-Selling Opportunities</h4>
+                {marketBasket.analysis.crossSellingOpportunities.length === 0 ? (
+                  <p className="text-sm text-gray-500">No strong associations found</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {marketBasket.analysis.crossSellingOpportunities.slice(0, 10).map(opportunity => (
+                      <li key={`${opportunity.baseProduct}:${opportunity.suggestedProduct}`} className="py-2 flex items-center justify-between">
+                        <span className="text-sm text-gray-900 truncate mr-3">
+                          {productName(opportunity.baseProduct)} <span className="text-gray-400">→</span> {productName(opportunity.suggestedProduct)}
+                        </span>
+                        <span className="text-xs text-gray-500 whitespace-nowrap">
+                          {Math.round(opportunity.confidence * 100)}% · {opportunity.lift.toFixed(1)}x lift
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 mb-3">Bundle and Shelf Placement Ideas</h4>
+                {marketBasket.analysis.bundles.length === 0 ? (
+                  <p className="text-sm text-gray-500">No bundles found</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {marketBasket.analysis.bundles.slice(0, 10).map(bundle => (
+                      <li key={bundle.items.join(':')} className="py-2 flex items-center justify-between">
+                        <span className="text-sm text-gray-900 truncate mr-3">
+                          {bundle.items.map(productName).join(' + ')}
+                        </span>
+                        <span className="text-xs text-gray-500 whitespace-nowrap">
+                          {bundle.frequency} baskets · {bundle.lift.toFixed(1)}x lift
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Recent Activity */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200">
           <div className="px-6 py-4 border-b border-gray-200">
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { inventoryRepository } from '@/agent1-foundation/models/repositories';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+const PERIOD_DAYS: Record<string, number> = { '7d': 7, '30d': 30, '90d': 90, '1y': 365 };
+
+// Inventory record accuracy for ?period=7d|30d|90d|1y (default 30d)
+export const GET = withAuth(async function GET(request: AuthenticatedRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const period = searchParams.get('period') || '30d';
+    const days = PERIOD_DAYS[period];
+    if (!days) {
+      return NextResponse.json({ error: 'Invalid period' }, { status: 400 });
+    }
+
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+    const range = { from, to };
+
+    const [overall, trend, byCategory, byLocation, byCounter, byProduct, flagged] = await Promise.all([
+      inventoryRepository.getRecordAccuracy(request.business.id, range),
+      inventoryRepository.getRecordAccuracy(request.business.id, { ...range, bucket: days > 90 ? 'month' : 'week' }),
+      inventoryRepository.getRecordAccuracy(request.business.id, { ...range, dimension: 'category' }),
+      inventoryRepository.getRecordAccuracy(request.business.id, { ...range, dimension: 'location' }),
+      inventoryRepository.getRecordAccuracy(request.business.id, { ...range, dimension: 'counter' }),
+      inventoryRepository.getRecordAccuracy(request.business.id, { ...range, dimension: 'product' }),
+      inventoryRepository.getAccuracyFlaggedProducts(request.business.id)
+    ]);
+
+    return NextResponse.json({
+      data: {
+        accuracy: overall[0]?.accuracy ?? null,
+        counted: overall[0]?.counted ?? 0,
+        trend,
+        byCategory,
+        byLocation,
+        byCounter,
+        worstProducts: byProduct
+          .filter(p => p.accurate < p.counted)
+          .sort((a, b) => a.accuracy - b.accuracy || b.counted - a.counted)
+          .slice(0, 10),
+        flagged
+      },
+      period
+    });
+  } catch (error) {
+    console.error('Error fetching record accuracy:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch record accuracy' },
+      { status: 500 }
+    );
+  }
+});
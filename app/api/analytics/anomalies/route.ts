@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { anomalyService } from '@/agent3-features/analytics/anomaly-service';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+// Unexpired anomaly insights for the business, newest first
+export const GET = withAuth(async function GET(request: AuthenticatedRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const severity = searchParams.get('severity');
+
+    const insights = await anomalyService.getInsights(request.business.id);
+
+    return NextResponse.json({
+      data: severity ? insights.filter(insight => insight.severity === severity) : insights
+    });
+  } catch (error) {
+    console.error('Error fetching anomalies:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch anomalies' },
+      { status: 500 }
+    );
+  }
+});
+
+// Scan the business now instead of waiting for the next scheduled run
+export const POST = withAuth(async function POST(request: AuthenticatedRequest) {
+  try {
+    const raised = await anomalyService.scanBusiness(request.business.id);
+
+    return NextResponse.json({ data: raised });
+  } catch (error) {
+    console.error('Error scanning for anomalies:', error);
+    return NextResponse.json(
+      { error: 'Failed to scan for anomalies' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { marketBasketService } from '@/agent3-features/analytics/market-basket-service';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+// Latest market basket analysis, or ?productId=...&limit=5 for the products
+// most often bought with one product
+export const GET = withAuth(async function GET(request: AuthenticatedRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const productId = searchParams.get('productId');
+
+    if (productId) {
+      const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 5, 1), 20);
+      const associations = await marketBasketService.getFrequentlyBoughtWith(request.business.id, productId, limit);
+      return NextResponse.json({ data: associations });
+    }
+
+    const stored = await marketBasketService.getAnalysis(request.business.id);
+    return NextResponse.json({ data: stored });
+  } catch (error) {
+    console.error('Error fetching market basket analysis:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch market basket analysis' },
+      { status: 500 }
+    );
+  }
+});
+
+// Re-mine now instead of waiting for the nightly run
+export const POST = withAuth(async function POST(request: AuthenticatedRequest) {
+  try {
+    const stored = await marketBasketService.refresh(request.business.id);
+    return NextResponse.json({ data: stored });
+  } catch (error) {
+    console.error('Error refreshing market basket analysis:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh market basket analysis' },
+      { status: 500 }
+    );
+  }
+});
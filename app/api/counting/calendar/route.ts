@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { countingService } from '@/agent3-features/inventory/counting-service';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+const policySchema = z.object({
+  frequencies: z.object({
+    A: z.number().min(0).max(365),
+    B: z.number().min(0).max(365),
+    C: z.number().min(0).max(365)
+  }).partial().optional(),
+  horizonDays: z.number().int().min(1).max(180).optional(),
+  businessHours: z.object({
+    timezone: z.string().refine(isTimeZone, 'Unknown time zone'),
+    days: z.array(z.number().int().min(0).max(6)).min(1),
+    open: timeSchema,
+    close: timeSchema
+  }).partial().optional(),
+  maxSessionMinutes: z.number().int().min(5).max(720).optional(),
+  dailyCountMinutes: z.number().int().min(5).max(1440).optional(),
+  flaggedFrequencyMultiplier: z.number().min(1).max(10).optional()
+});
+
+const regenerateSchema = z.object({
+  policy: policySchema.optional() // Saved before the calendar is rebuilt
+});
+
+// Saved calendar (?from=&to=, defaults to the policy horizon) or, with
+// ?preview=true, what regenerating would produce
+export const GET = withAuth(async function GET(request: AuthenticatedRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const policy = await countingService.getCycleCountPolicy(request.business.id);
+
+    if (searchParams.get('preview') === 'true') {
+      const entries = await countingService.previewCycleCountCalendar(request.business.id);
+      return NextResponse.json({ data: entries, policy, preview: true });
+    }
+
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : new Date();
+    const to = searchParams.get('to')
+      ? new Date(searchParams.get('to')!)
+      : new Date(from.getTime() + policy.horizonDays * 24 * 60 * 60 * 1000);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const entries = await countingService.getCycleCountCalendar(request.business.id, from, to);
+
+    return NextResponse.json({ data: entries, policy, preview: false });
+  } catch (error) {
+    console.error('Error fetching count calendar:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch count calendar' },
+      { status: 500 }
+    );
+  }
+});
+
+// Supervisors only: optionally update the policy, then rebuild the calendar
+export const POST = withAuth(async function POST(request: AuthenticatedRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { policy: changes } = regenerateSchema.parse(body);
+
+    const policy = changes
+      ? await countingService.updateCycleCountPolicy(request.business.id, request.user.id, changes)
+      : await countingService.getCycleCountPolicy(request.business.id);
+
+    const result = await countingService.regenerateCycleCountCalendar(request.business.id, request.user.id);
+
+    return NextResponse.json({
+      data: result.entries,
+      policy,
+      summary: { removed: result.removed, inserted: result.inserted }
+    });
+  } catch (error) {
+    console.error('Error regenerating count calendar:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message.startsWith('Only supervisors')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to regenerate count calendar' },
+      { status: 500 }
+    );
+  }
+});
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { countingService } from '@/agent3-features/inventory/counting-service';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+// Recounts a supervisor assigned to the caller
+export const GET = withAuth(async function GET(request: AuthenticatedRequest) {
+  try {
+    const tasks = await countingService.getRecountTasks(request.business.id, request.user.id);
+
+    return NextResponse.json({ data: tasks });
+  } catch (error) {
+    console.error('Error fetching recount tasks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch recount tasks' },
+      { status: 500 }
+    );
+  }
+});
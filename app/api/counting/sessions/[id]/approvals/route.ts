@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { countingService } from '@/agent3-features/inventory/counting-service';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+// Supervisor decisions on held lines, applied line by line
+const reviewSchema = z.object({
+  action: z.enum(['approve', 'reject', 'recount']),
+  count_ids: z.array(z.string().uuid()).min(1).max(200),
+  assigned_to: z.string().uuid().optional(), // Required for recounts
+  notes: z.string().max(500).optional()
+}).refine(review => review.action !== 'recount' || review.assigned_to, {
+  message: 'assigned_to is required for a recount',
+  path: ['assigned_to']
+});
+
+// Supervisors only: count lines over the session's approval threshold
+export const GET = withAuth(async function GET(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const queue = await countingService.getApprovalQueue(request.business.id, id, request.user.id);
+
+    return NextResponse.json({ data: queue });
+  } catch (error) {
+    console.error('Error fetching approval queue:', error);
+
+    if (error instanceof Error && error.message === 'Counting session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.startsWith('Only supervisors')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch approval queue' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAuth(async function POST(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const review = reviewSchema.parse(body);
+
+    const results = review.action === 'approve'
+      ? await countingService.approveCounts(request.business.id, id, review.count_ids, request.user.id, review.notes)
+      : review.action === 'reject'
+        ? await countingService.rejectCounts(request.business.id, id, review.count_ids, request.user.id, review.notes)
+        : await countingService.requestRecount(request.business.id, id, review.count_ids, review.assigned_to!, request.user.id, review.notes);
+
+    const failed = results.filter(r => !r.success).length;
+
+    return NextResponse.json({
+      data: results,
+      summary: { total: results.length, succeeded: results.length - failed, failed }
+    });
+  } catch (error) {
+    console.error('Error reviewing counts:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Counting session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.startsWith('Only supervisors')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to review counts' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { countingService } from '@/agent3-features/inventory/counting-service';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+// Supervisors only: expected quantities behind the counts submitted so far
+export const POST = withAuth(async function POST(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const counts = await countingService.revealExpectedValues(request.business.id, id, request.user.id);
+
+    return NextResponse.json({ data: counts });
+  } catch (error) {
+    console.error('Error revealing expected quantities:', error);
+
+    if (error instanceof Error && error.message === 'Counting session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.startsWith('Only supervisors')) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to reveal expected quantities' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { countingService } from '@/agent3-features/inventory/counting-service';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+// What the caller should count; blind sessions omit expected quantities
+export const GET = withAuth(async function GET(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const items = await countingService.getCountSheet(request.business.id, id, request.user.id);
+    const blind = await countingService.isBlindSession(request.business.id, id);
+
+    return NextResponse.json({ data: items, blind });
+  } catch (error) {
+    console.error('Error fetching count sheet:', error);
+
+    if (error instanceof Error && error.message === 'Counting session not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch count sheet' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,12 +1,23 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { z } from 'zod'
+import { supabaseAdmin } from '@/agent1-foundation/database/supabase-client'
+import { countingService } from '@/agent3-features/inventory/counting-service'
+import { withIdempotency } from '@/agent1-foundation/middleware/idempotency'
+import { OPERATION_ID_HEADER } from '@/shared/sync/idempotency'
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth'
 
 // Mobile-optimized validation schema
 const inventoryCountSchema = z.object({
   productId: z.string(),
   product_id: z.string().optional(),
-  quantity: z.number().int().min(0),
+  quantity: z.number().min(0), // Fractional only for products that allow it (enforced by the journal)
+  unit_code: z.string().max(50).optional(), // Barcode of the unit counted, e.g. a case of 24
   location: z.string().optional(),
+  location_id: z.string().uuid().optional(),
+  lot_number: z.string().min(1).max(100).optional(), // Counts a single lot
+  expiry_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD').optional(),
+  // Serialized products: the scanned serials, whose count becomes the quantity
+  serial_numbers: z.array(z.string().min(1).max(100)).max(1000).optional(),
   notes: z.string().max(500).optional(),
   session_id: z.string().uuid().optional(),
   
@@ -33,7 +44,10 @@ const inventoryCountSchema = z.object({
   
   // Conflict resolution
   client_timestamp: z.string().datetime().optional(),
-  expected_previous_quantity: z.number().int().optional()
+  expected_previous_quantity: z.number().optional()
+}).refine(count => !count.expiry_date || count.lot_number, {
+  message: 'expiry_date requires lot_number',
+  path: ['expiry_date']
 })
 
 const batchCountSchema = z.object({
@@ -47,38 +61,174 @@ const batchCountSchema = z.object({
   })
 })
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(withIdempotency(async function POST(request: AuthenticatedRequest) {
   try {
     const body = await request.json()
     const validatedData = inventoryCountSchema.parse(body)
     
-    // For demo purposes, simulate inventory count
-    const inventoryCount = {
-      id: Date.now().toString(),
-      product_id: validatedData.productId || validatedData.product_id,
-      quantity: validatedData.quantity,
-      previous_quantity: 0, // Mock previous quantity
-      counted_by: 'demo-user',
-      location: validatedData.location || 'default',
-      notes: validatedData.notes,
-      counted_at: new Date().toISOString(),
-      device_info: validatedData.device_info || { created_via: 'api', user_agent: 'demo', ip: '127.0.0.1' },
-      offline_synced: true
+    const productId = validatedData.productId || validatedData.product_id
+    const countedBy = request.user.id
+
+    const { data: product } = await supabaseAdmin
+      .from('products')
+      .select('business_id, current_quantity')
+      .eq('id', productId)
+      .maybeSingle()
+
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+    }
+
+    // The caller may belong to several businesses; the product must be in one of them
+    const { data: membership } = await supabaseAdmin
+      .from('team_members')
+      .select('id')
+      .eq('user_id', countedBy)
+      .eq('business_id', product.business_id)
+      .eq('status', 'active')
+      .maybeSingle()
+
+    if (!membership) {
+      return NextResponse.json({ error: 'No access to this product' }, { status: 403 })
+    }
+
+    let blind = false
+    if (validatedData.session_id) {
+      const { data: session } = await supabaseAdmin
+        .from('counting_sessions')
+        .select('business_id, settings')
+        .eq('id', validatedData.session_id)
+        .maybeSingle()
+
+      if (!session || session.business_id !== product.business_id) {
+        return NextResponse.json({ error: 'Counting session not found' }, { status: 404 })
+      }
+      blind = !!session.settings?.allow_blind_counts
+    }
+
+    // Offline counts carry the quantity they were based on; if stock moved
+    // since, the count is returned for review instead of overwriting it.
+    // Blind counters never saw a quantity, so the server's is not sent back.
+    if (validatedData.expected_previous_quantity !== undefined) {
+      const actual = await getOnHand(productId, validatedData.location_id, product.current_quantity)
+      if (actual !== validatedData.expected_previous_quantity) {
+        return NextResponse.json(
+          {
+            error: 'Stock changed since the count was taken',
+            conflict_data: blind
+              ? { expected: validatedData.expected_previous_quantity }
+              : { expected: validatedData.expected_previous_quantity, actual }
+          },
+          { status: 409 }
+        )
+      }
+    }
+
+    // Convert a count of cases or packs into base units
+    let quantity = validatedData.quantity
+    if (validatedData.unit_code) {
+      const { data: unit } = await supabaseAdmin
+        .from('product_units')
+        .select('conversion_factor')
+        .eq('product_id', productId)
+        .eq('barcode', validatedData.unit_code)
+        .maybeSingle()
+
+      if (!unit) {
+        return NextResponse.json({ error: 'Unknown unit barcode for this product' }, { status: 422 })
+      }
+      quantity = quantity * Number(unit.conversion_factor)
+    }
+
+    // Sessions that require approval hold high-variance lines for a supervisor
+    const approval = validatedData.session_id
+      ? await countingService.getCountApproval(product.business_id, validatedData.session_id, {
+          product_id: productId,
+          quantity: validatedData.serial_numbers ? new Set(validatedData.serial_numbers).size : quantity,
+          counted_by: countedBy,
+          location_id: validatedData.location_id || null,
+          lot_number: validatedData.lot_number || null
+        })
+      : null
+
+    // The insert trigger posts a count_correction movement to the stock
+    // journal, which is what actually changes the on-hand balance (unless
+    // the line is held for approval). The operation ID is stored with the
+    // line, so a retry after a failure past this point cannot post it twice.
+    const operationId = request.headers.get(OPERATION_ID_HEADER)
+    let replayed = false
+    let { data: inventoryCount, error } = await supabaseAdmin
+      .from('inventory_counts')
+      .insert({
+        product_id: productId,
+        quantity,
+        counted_by: countedBy,
+        location: validatedData.location || 'default',
+        location_id: validatedData.location_id || null,
+        lot_number: validatedData.lot_number || null,
+        expiry_date: validatedData.expiry_date || null,
+        scanned_serials: validatedData.serial_numbers || null,
+        notes: validatedData.notes,
+        session_id: validatedData.session_id,
+        posting_status: approval?.posting_status || 'posted',
+        recount_of_id: approval?.recount_of_id || null,
+        device_info: validatedData.device_info || { created_via: 'api' },
+        gps_coordinates: validatedData.gps_coordinates,
+        images: validatedData.images,
+        voice_notes: validatedData.voice_notes,
+        sync_priority: validatedData.sync_priority,
+        offline_synced: true,
+        client_operation_id: operationId,
+        counted_at: validatedData.offline_timestamp || new Date().toISOString()
+      })
+      .select()
+      .single()
+
+    if (error?.code === '23505' && operationId) {
+      ({ data: inventoryCount, error } = await supabaseAdmin
+        .from('inventory_counts')
+        .select()
+        .eq('counted_by', countedBy)
+        .eq('client_operation_id', operationId)
+        .single())
+      replayed = true
+    }
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json({ error: 'Failed to record count' }, { status: 500 })
     }
+
+    // The count is posted by now; a missing audit row must not fail the request
+    if (approval?.auto_approved && !replayed) {
+      try {
+        await countingService.recordAutoApproval(product.business_id, validatedData.session_id!, inventoryCount)
+      } catch (approvalError) {
+        console.error(`Failed to record auto-approval of count ${inventoryCount.id}:`, approvalError)
+      }
+    }
+
+    const headers = {
+      'X-Sync-Status': 'synced',
+      'X-Count-ID': inventoryCount.id
+    }
+
+    // Blind counts: the counter gets nothing that reveals the system quantity
+    if (blind) {
+      const { previous_quantity, quantity_difference, missing_serials, unexpected_serials, ...blindCount } = inventoryCount
+      return NextResponse.json({ data: blindCount, blind: true }, { status: 201, headers })
+    }
+
+    // Read quantity back: for serialized products the trigger sets it from the serials
+    const previousQuantity = inventoryCount.previous_quantity || 0
     
     return NextResponse.json(
       { 
         data: inventoryCount,
-        previous_quantity: 0,
-        quantity_change: validatedData.quantity
+        previous_quantity: previousQuantity,
+        quantity_change: inventoryCount.quantity - previousQuantity
       },
-      { 
-        status: 201,
-        headers: {
-          'X-Sync-Status': 'synced',
-          'X-Count-ID': inventoryCount.id
-        }
-      }
+      { status: 201, headers }
     )
 
   } catch (error) {
@@ -96,7 +246,18 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}))
 
+// Balance at the counted location, or across all of them
+async function getOnHand(productId: string, locationId: string | undefined, total: number): Promise<number> {
+  if (!locationId) return Number(total || 0)
 
+  const { data: level } = await supabaseAdmin
+    .from('stock_levels')
+    .select('quantity')
+    .eq('product_id', productId)
+    .eq('location_id', locationId)
+    .maybeSingle()
 
+  return Number(level?.quantity || 0)
+}
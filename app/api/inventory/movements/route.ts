@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { supabaseAdmin } from '@/agent1-foundation/database/supabase-client'
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth'
+
+const movementQuerySchema = z.object({
+  product_id: z.string().uuid(),
+  location_id: z.string().uuid().optional(),
+  as_of: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+})
+
+// Journal history for a product, or the balance as of a point in time
+export const GET = withAuth(async function GET(request: AuthenticatedRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const query = movementQuerySchema.parse({
+      product_id: searchParams.get('product_id') ?? undefined,
+      location_id: searchParams.get('location_id') ?? undefined,
+      as_of: searchParams.get('as_of') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined
+    })
+
+    const { data: product } = await supabaseAdmin
+      .from('products')
+      .select('business_id')
+      .eq('id', query.product_id)
+      .maybeSingle()
+
+    if (!product || product.business_id !== request.business.id) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+    }
+
+    if (query.as_of) {
+      const { data, error } = await supabaseAdmin.rpc('get_stock_quantity_as_of', {
+        p_product_id: query.product_id,
+        p_as_of: query.as_of,
+        p_location_id: query.location_id || null
+      })
+
+      if (error) {
+        console.error('Database error:', error)
+        return NextResponse.json({ error: 'Failed to compute quantity' }, { status: 500 })
+      }
+
+      return NextResponse.json({
+        product_id: query.product_id,
+        location_id: query.location_id || null,
+        as_of: query.as_of,
+        quantity: data ?? 0
+      })
+    }
+
+    let movementsQuery = supabaseAdmin
+      .from('stock_movements')
+      .select('*')
+      .eq('business_id', request.business.id)
+      .eq('product_id', query.product_id)
+      .order('created_at', { ascending: false })
+      .limit(query.limit)
+
+    if (query.location_id) {
+      movementsQuery = movementsQuery.eq('location_id', query.location_id)
+    }
+
+    const { data, error } = await movementsQuery
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json({ error: 'Failed to fetch movements' }, { status: 500 })
+    }
+
+    return NextResponse.json({ data })
+
+  } catch (error) {
+    console.error('Stock movements API error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
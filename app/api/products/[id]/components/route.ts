@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { productRepository } from '@/agent1-foundation/models/repositories';
+import { supabaseAdmin } from '@/agent1-foundation/database/supabase-client';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+// The kit's full bill of materials; saving replaces the previous list
+const kitComponentsSchema = z.object({
+  components: z.array(z.object({
+    component_product_id: z.string().uuid(),
+    quantity: z.number().positive() // Component base units per kit
+  }))
+});
+
+export const GET = withAuth(async function GET(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const kit = await productRepository.findById(id);
+    if (!kit || kit.businessId !== request.business.id) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    const components = await productRepository.getKitComponents(id);
+
+    return NextResponse.json({ data: components });
+  } catch (error) {
+    console.error('Error fetching kit components:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch kit components' },
+      { status: 500 }
+    );
+  }
+});
+
+export const PUT = withAuth(async function PUT(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = kitComponentsSchema.parse(await request.json());
+
+    const componentIds = body.components.map(c => c.component_product_id);
+    if (componentIds.includes(id)) {
+      return NextResponse.json({ error: 'A kit cannot contain itself' }, { status: 422 });
+    }
+    if (new Set(componentIds).size !== componentIds.length) {
+      return NextResponse.json({ error: 'Each component may only be listed once' }, { status: 422 });
+    }
+
+    const kit = await productRepository.findById(id);
+    if (!kit || kit.businessId !== request.business.id) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    const { data: found } = await supabaseAdmin
+      .from('products')
+      .select('id, is_kit')
+      .eq('business_id', request.business.id)
+      .in('id', componentIds.length > 0 ? componentIds : ['00000000-0000-0000-0000-000000000000']);
+
+    if ((found?.length || 0) !== componentIds.length) {
+      return NextResponse.json({ error: 'Unknown component product' }, { status: 422 });
+    }
+    if (found?.some(p => p.is_kit)) {
+      return NextResponse.json({ error: 'Kits cannot be components of other kits' }, { status: 422 });
+    }
+
+    const components = await productRepository.setKitComponents(
+      id,
+      body.components.map(c => ({ componentProductId: c.component_product_id, quantity: c.quantity }))
+    );
+    await productRepository.update(id, { isKit: components.length > 0 });
+
+    return NextResponse.json({ data: components });
+  } catch (error) {
+    console.error('Error saving kit components:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save kit components' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { productRepository } from '@/agent1-foundation/models/repositories';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+// An alternate unit of measure, e.g. a case of 24 with its own barcode
+const productUnitSchema = z.object({
+  name: z.string().min(1).max(50),
+  conversion_factor: z.number().positive(),
+  barcode: z.string().max(50).optional()
+});
+
+export const GET = withAuth(async function GET(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const product = await productRepository.findById(id);
+    if (!product || product.businessId !== request.business.id) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    const units = await productRepository.getUnits(id);
+
+    return NextResponse.json({ data: units });
+  } catch (error) {
+    console.error('Error fetching product units:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch product units' },
+      { status: 500 }
+    );
+  }
+});
+
+export const PUT = withAuth(async function PUT(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = productUnitSchema.parse(await request.json());
+
+    const product = await productRepository.findById(id);
+    if (!product || product.businessId !== request.business.id) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    const unit = await productRepository.upsertUnit({
+      businessId: request.business.id,
+      productId: id,
+      name: body.name,
+      conversionFactor: body.conversion_factor,
+      barcode: body.barcode
+    });
+
+    return NextResponse.json({ data: unit });
+  } catch (error) {
+    console.error('Error saving product unit:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save product unit' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withAuth(async function DELETE(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const unitId = new URL(request.url).searchParams.get('unit_id');
+    if (!unitId) {
+      return NextResponse.json({ error: 'unit_id is required' }, { status: 400 });
+    }
+
+    const units = await productRepository.getUnits(id);
+    if (!units.some(u => u.id === unitId && u.businessId === request.business.id)) {
+      return NextResponse.json({ error: 'Unit not found' }, { status: 404 });
+    }
+
+    const deleted = await productRepository.deleteUnit(unitId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Failed to delete product unit' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting product unit:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete product unit' },
+      { status: 500 }
+    );
+  }
+});
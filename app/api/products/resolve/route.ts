@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { productRepository } from '@/agent1-foundation/models/repositories';
+import { supabaseAdmin } from '@/agent1-foundation/database/supabase-client';
+import { parseGs1, gtinLookupCodes } from '@/shared/barcode/gs1';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+// Resolve a scanned barcode to its product and unit of measure, so a case
+// barcode can be applied as its number of base units
+export const GET = withAuth(async function GET(request: AuthenticatedRequest) {
+  try {
+    const code = new URL(request.url).searchParams.get('code')?.trim();
+    if (!code) {
+      return NextResponse.json({ error: 'code is required' }, { status: 400 });
+    }
+
+    const gs1 = parseGs1(code);
+    const candidates = gs1?.gtin ? gtinLookupCodes(gs1.gtin) : [code];
+
+    for (const candidate of candidates) {
+      const resolution = await productRepository.resolveCode(request.business.id, candidate);
+      if (!resolution) continue;
+
+      const { data: product } = await supabaseAdmin
+        .from('products')
+        .select('id, name, barcode, sku, category, current_quantity, sell_price, base_unit, allow_fractional, is_serialized')
+        .eq('id', resolution.productId)
+        .eq('business_id', request.business.id)
+        .maybeSingle();
+
+      if (!product) continue;
+
+      return NextResponse.json({
+        data: {
+          product: {
+            id: product.id,
+            name: product.name,
+            barcode: product.barcode,
+            sku: product.sku,
+            category: product.category,
+            quantity: product.current_quantity,
+            price: product.sell_price,
+            base_unit: product.base_unit,
+            allow_fractional: product.allow_fractional,
+            is_serialized: product.is_serialized
+          },
+          unit: {
+            id: resolution.unitId || null,
+            name: resolution.unitName,
+            conversion_factor: resolution.conversionFactor
+          },
+          gs1: gs1 || null
+        }
+      });
+    }
+
+    return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+  } catch (error) {
+    console.error('Error resolving scanned code:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve code' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,6 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { productService } from '@/agent3-features/products/product-service';
+import { NextResponse } from 'next/server';
+import { supplierRepository } from '@/agent1-foundation/models/repositories';
+import { supabaseAdmin } from '@/agent1-foundation/database/supabase-client';
+import type { Database } from '@/agent1-foundation/config/supabase-client';
 import { z } from 'zod';
+import { withIdempotency } from '@/agent1-foundation/middleware/idempotency';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+import { OPERATION_ID_HEADER } from '@/shared/sync/idempotency';
+import { threeWayMerge, resolveMergeRules } from '@/shared/sync/field-merge';
+
+type ProductInsert = Database['public']['Tables']['products']['Insert'];
 
 // Validation schemas
 const createProductSchema = z.object({
@@ -9,20 +17,51 @@ const createProductSchema = z.object({
   sku: z.string().optional(),
   category: z.string().optional(),
   description: z.string().optional(),
-  quantity: z.number().int().min(0).default(0),
-  min_stock: z.number().int().min(0).default(0),
-  max_stock: z.number().int().min(0).optional(),
+  quantity: z.number().min(0).default(0),
+  min_stock: z.number().min(0).default(0),
+  max_stock: z.number().min(0).optional(),
   cost: z.number().optional(),
   price: z.number().optional(),
   location: z.string().optional(),
-  supplier: z.string().optional(),
+  is_serialized: z.boolean().optional(),
+  base_unit: z.string().min(1).max(20).optional(), // e.g. 'each', 'kg', 'm'
+  allow_fractional: z.boolean().optional(),
+  parent_product_id: z.string().uuid().optional(), // Makes this product a variant of the parent
+  variant_options: z.array(z.object({
+    name: z.string().min(1).max(50),
+    values: z.array(z.string().min(1).max(100))
+  })).optional(), // Parent only, e.g. [{ name: 'Size', values: ['S', 'M'] }]
+  variant_attributes: z.record(z.string()).optional(), // Variant only, e.g. { Size: 'M' }
+  supplier: z.string().optional(), // Supplier name; matched or created in the directory
+  supplier_id: z.string().uuid().optional(),
   image_url: z.string().url().optional()
 });
 
 const updateProductSchema = createProductSchema.partial().extend({
-  id: z.string().uuid()
+  id: z.string().uuid(),
+  base: z.record(z.unknown()).optional() // Values the edit started from; turns on the field-level merge
 });
 
+// Request fields, and the product column each is stored in (and the merge compares)
+const PRODUCT_COLUMNS: Record<string, string> = {
+  name: 'name',
+  barcode: 'barcode',
+  sku: 'sku',
+  category: 'category',
+  description: 'description',
+  quantity: 'current_quantity',
+  min_stock: 'min_quantity',
+  max_stock: 'max_quantity',
+  cost: 'unit_cost',
+  price: 'sell_price',
+  is_serialized: 'is_serialized',
+  base_unit: 'base_unit',
+  allow_fractional: 'allow_fractional',
+  parent_product_id: 'parent_product_id',
+  variant_options: 'variant_options',
+  variant_attributes: 'variant_attributes'
+};
+
 const queryParamsSchema = z.object({
   page: z.string().transform(val => Math.max(parseInt(val || '1'), 1)).optional(),
   limit: z.string().transform(val => Math.min(parseInt(val || '20'), 100)).optional(),
@@ -31,11 +70,9 @@ const queryParamsSchema = z.object({
   mobile: z.string().transform(val => val === 'true').optional()
 });
 
-// Mock business ID for now (will be replaced with auth)
-const DEMO_BUSINESS_ID = 'demo-business-001';
-
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async function GET(request: AuthenticatedRequest) {
   try {
+    const businessId = request.business.id;
     const url = new URL(request.url);
     const params = queryParamsSchema.parse({
       page: url.searchParams.get('page') || '1',
@@ -68,7 +105,15 @@ export async function GET(request: NextRequest) {
 
     // Handle barcode search
     if (params.barcode) {
-      const product = await productService.getProductByBarcode(params.barcode, DEMO_BUSINESS_ID);
+      const { data: product, error } = await supabaseAdmin
+        .from('products')
+        .select('*')
+        .eq('business_id', businessId)
+        .eq('barcode', params.barcode)
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+
       return NextResponse.json({ 
         data: product ? [product] : [],
         total: product ? 1 : 0
@@ -77,7 +122,14 @@ export async function GET(request: NextRequest) {
 
     // Handle text search
     if (params.search) {
-      const products = await productService.searchProducts(params.search, DEMO_BUSINESS_ID);
+      const { data: products, error } = await supabaseAdmin
+        .from('products')
+        .select('*')
+        .eq('business_id', businessId)
+        .or(`name.ilike.%${params.search}%,sku.ilike.%${params.search}%,barcode.ilike.%${params.search}%`)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+
       return NextResponse.json({ 
         data: products,
         total: products.length
@@ -85,32 +137,38 @@ export async function GET(request: NextRequest) {
     }
 
     // Get paginated products
-    const result = await productService.getProducts(
-      DEMO_BUSINESS_ID,
-      params.page || 1,
-      params.limit || 20
-    );
+    const page = params.page || 1;
+    const limit = params.limit || 20;
+    const { data: products, count, error } = await supabaseAdmin
+      .from('products')
+      .select('*', { count: 'exact' })
+      .eq('business_id', businessId)
+      .order('created_at', { ascending: false })
+      .range((page - 1) * limit, page * limit - 1);
+    if (error) throw error;
+
+    const total = count ?? 0;
 
     // Mobile optimization: reduce data size
     const optimizedData = params.mobile 
-      ? result.products.map(product => ({
+      ? products.map(product => ({
           id: product.id,
           name: product.name,
           barcode: product.barcode,
-          quantity: product.quantity,
+          quantity: product.current_quantity,
           category: product.category,
-          price: product.price,
-          image_url: product.image_url
+          price: product.sell_price,
+          image_url: product.images?.[0]
         }))
-      : result.products;
+      : products;
 
     return NextResponse.json({
       data: optimizedData,
       pagination: {
-        total: result.total,
-        page: result.page,
-        totalPages: result.totalPages,
-        limit: params.limit || 20
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+        limit
       }
     }, {
       headers: {
@@ -126,14 +184,35 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(withIdempotency(async function POST(request: AuthenticatedRequest) {
   try {
     const body = await request.json();
-    const validatedData = createProductSchema.parse(body);
+    const { supplier, supplier_id, ...productData } = createProductSchema.parse(body);
 
-    const product = await productService.createProduct(validatedData, DEMO_BUSINESS_ID);
+    if (productData.parent_product_id && !(await isVariantParent(request.business.id, productData.parent_product_id))) {
+      return NextResponse.json({ error: 'Unknown parent product' }, { status: 422 });
+    }
+
+    if (supplier_id && !(await isOwnSupplier(request.business.id, supplier_id))) {
+      return NextResponse.json({ error: 'Unknown supplier' }, { status: 422 });
+    }
+
+    // The opening quantity is journaled by the insert trigger
+    const { data: product, error } = await supabaseAdmin
+      .from('products')
+      .insert({
+        ...toProductColumns(productData),
+        business_id: request.business.id
+      } as ProductInsert)
+      .select()
+      .single();
+    if (error) throw error;
+
+    if (supplier || supplier_id) {
+      await linkPreferredSupplier(request.business.id, product.id, supplier_id, supplier);
+    }
 
     return NextResponse.json(
       { data: product },
@@ -160,14 +239,59 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}));
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(withIdempotency(async function PUT(request: AuthenticatedRequest) {
   try {
     const body = await request.json();
-    const validatedData = updateProductSchema.parse(body);
+    const { supplier, supplier_id, base, ...productData } = updateProductSchema.parse(body);
+
+    const existing = await getProduct(request.business.id, productData.id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
 
-    const product = await productService.updateProduct(validatedData, DEMO_BUSINESS_ID);
+    if (
+      productData.parent_product_id &&
+      (productData.parent_product_id === productData.id ||
+        !(await isVariantParent(request.business.id, productData.parent_product_id)))
+    ) {
+      return NextResponse.json({ error: 'Unknown parent product' }, { status: 422 });
+    }
+
+    if (supplier_id && !(await isOwnSupplier(request.business.id, supplier_id))) {
+      return NextResponse.json({ error: 'Unknown supplier' }, { status: 422 });
+    }
+
+    if (base) {
+      const response = await mergeProductUpdate(request, productData, base);
+      if (response.ok && (supplier || supplier_id)) {
+        await linkPreferredSupplier(request.business.id, productData.id, supplier_id, supplier);
+      }
+      return response;
+    }
+
+    // A new quantity is set through the stock journal, not written directly.
+    // The operation ID goes with the movement, so a retry cannot post it twice.
+    const { id, quantity, ...fields } = productData;
+    if (quantity !== undefined) {
+      const operationId = request.headers.get(OPERATION_ID_HEADER);
+      const { error } = await supabaseAdmin.rpc('set_stock_quantity', {
+        p_product_id: id,
+        p_quantity: quantity,
+        p_reason: 'adjust',
+        p_user_id: request.user.id,
+        p_reference_type: operationId ? 'client_operation' : null,
+        p_reference_id: operationId
+      });
+      if (error && error.code !== '23505') throw error; // 23505: already posted by this operation
+    }
+
+    const product = await saveProductFields(request.business.id, id, fields);
+
+    if (supplier || supplier_id) {
+      await linkPreferredSupplier(request.business.id, id, supplier_id, supplier);
+    }
 
     return NextResponse.json({ data: product });
 
@@ -186,9 +310,9 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}));
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(withIdempotency(async function DELETE(request: AuthenticatedRequest) {
   try {
     const url = new URL(request.url);
     const id = url.searchParams.get('id');
@@ -200,7 +324,17 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    await productService.deleteProduct(id, DEMO_BUSINESS_ID);
+    const product = await getProduct(request.business.id, id);
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('products')
+      .delete()
+      .eq('id', id)
+      .eq('business_id', request.business.id);
+    if (error) throw error;
 
     return NextResponse.json({ success: true });
 
@@ -211,4 +345,155 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}));
+
+/**
+ * Offline edit replayed with its base values: fields the server has not
+ * changed since are written, fields both sides changed follow the business's
+ * merge rules. Conflicting fields are left as they are and reported with a
+ * 409; the rest is still applied, so replaying the same edit again only
+ * reports the conflicts. A merged quantity is set through the stock
+ * journal, which locks the balance while it posts the difference.
+ */
+async function mergeProductUpdate(
+  request: AuthenticatedRequest,
+  productData: Omit<z.infer<typeof updateProductSchema>, 'supplier' | 'supplier_id' | 'base'>,
+  base: Record<string, unknown>
+): Promise<NextResponse> {
+  const { id, ...local } = productData;
+
+  const [{ data: row, error }, { data: business }] = await Promise.all([
+    supabaseAdmin
+      .from('products')
+      .select(Object.values(PRODUCT_COLUMNS).join(', '))
+      .eq('id', id)
+      .eq('business_id', request.business.id)
+      .maybeSingle(),
+    supabaseAdmin
+      .from('businesses')
+      .select('settings')
+      .eq('id', request.business.id)
+      .single()
+  ]);
+
+  if (error) throw error;
+  if (!row) {
+    return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+  }
+
+  const current = Object.fromEntries(
+    Object.entries(PRODUCT_COLUMNS).map(([field, column]) => [field, row[column]])
+  );
+  const rules = resolveMergeRules(business?.settings?.product_merge_rules);
+  const { changes, conflicts } = threeWayMerge(base, local, current, rules);
+
+  const { quantity, ...fieldChanges } = changes;
+  if (quantity !== undefined) {
+    const operationId = request.headers.get(OPERATION_ID_HEADER);
+    const { error: movementError } = await supabaseAdmin.rpc('set_stock_quantity', {
+      p_product_id: id,
+      p_quantity: Number(quantity),
+      p_reason: 'adjust',
+      p_user_id: request.user.id,
+      p_reference_type: operationId ? 'client_operation' : null,
+      p_reference_id: operationId,
+      p_notes: 'Offline edit'
+    });
+    if (movementError && movementError.code !== '23505') throw movementError; // 23505: already posted by this operation
+  }
+
+  const product = Object.keys(changes).length > 0
+    ? await saveProductFields(request.business.id, id, fieldChanges)
+    : null;
+
+  if (conflicts.length > 0) {
+    return NextResponse.json(
+      {
+        error: `Changed on the server since this edit: ${conflicts.map(c => c.field).join(', ')}`,
+        code: 'merge_conflict',
+        conflicts,
+        applied: Object.keys(changes)
+      },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ data: product ?? { id, ...current } });
+}
+
+// Product columns for the request fields given
+function toProductColumns(fields: Record<string, any>): Record<string, any> {
+  const { location, image_url, ...rest } = fields;
+  const columns: Record<string, any> = Object.fromEntries(
+    Object.entries(rest)
+      .filter(([field]) => field in PRODUCT_COLUMNS)
+      .map(([field, value]) => [PRODUCT_COLUMNS[field], value])
+  );
+
+  if (image_url !== undefined) columns.images = [image_url];
+  if (location !== undefined) columns.locations = [location];
+  return columns;
+}
+
+async function getProduct(businessId: string, id: string) {
+  const { data, error } = await supabaseAdmin
+    .from('products')
+    .select('*')
+    .eq('id', id)
+    .eq('business_id', businessId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// A product of the business that is not itself a variant
+async function isVariantParent(businessId: string, parentId: string): Promise<boolean> {
+  const parent = await getProduct(businessId, parentId);
+  return !!parent && !parent.parent_product_id;
+}
+
+// Writes fields other than the quantity; returns the product as it is now
+async function saveProductFields(businessId: string, id: string, fields: Record<string, any>) {
+  const columns = toProductColumns(fields);
+  if (Object.keys(columns).length === 0) return getProduct(businessId, id);
+
+  const { data, error } = await supabaseAdmin
+    .from('products')
+    .update(columns)
+    .eq('id', id)
+    .eq('business_id', businessId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+async function isOwnSupplier(businessId: string, supplierId: string): Promise<boolean> {
+  const supplier = await supplierRepository.findById(supplierId);
+  return supplier?.businessId === businessId;
+}
+
+// supplierId must already be checked with isOwnSupplier
+async function linkPreferredSupplier(
+  businessId: string,
+  productId: string,
+  supplierId?: string,
+  supplierName?: string
+): Promise<void> {
+  let resolvedId = supplierId;
+
+  if (!resolvedId && supplierName) {
+    const suppliers = await supplierRepository.list(businessId);
+    const existing = suppliers.find(s => s.name.toLowerCase() === supplierName.trim().toLowerCase());
+    resolvedId = existing?.id
+      ?? (await supplierRepository.create({ businessId, name: supplierName.trim() })).id;
+  }
+
+  await supplierRepository.upsertProductSupplier({
+    supplierId: resolvedId,
+    productId,
+    isPreferred: true
+  });
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { purchaseOrderService } from '@/agent3-features/purchasing/purchase-order-service';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+const receiveSchema = z.object({
+  barcode: z.string().min(1).max(255), // GS1 element strings can be long
+  // In the scanned unit (a case barcode receives its base units); negative reverses a mis-scan
+  quantity: z.number().refine(q => q !== 0, 'Quantity cannot be zero').default(1),
+  location_id: z.string().uuid().optional(),
+  allow_unexpected: z.boolean().default(true),
+  lot_number: z.string().min(1).max(100).optional(),
+  expiry_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD').optional(),
+  serial_number: z.string().min(1).max(100).optional()
+});
+
+export const POST = withAuth(async function POST(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = receiveSchema.parse(await request.json());
+
+    const receipt = await purchaseOrderService.receiveScan(request.business.id, id, body.barcode, {
+      quantity: body.quantity,
+      userId: request.user.id,
+      locationId: body.location_id,
+      allowUnexpected: body.allow_unexpected,
+      lotNumber: body.lot_number,
+      expiryDate: body.expiry_date,
+      serialNumber: body.serial_number
+    });
+
+    return NextResponse.json({ data: receipt }, { status: 201 });
+  } catch (error) {
+    console.error('Error receiving against purchase order:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Purchase order not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    // Unknown barcode, product not on the order, order not open
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to record receipt' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { purchaseOrderService } from '@/agent3-features/purchasing/purchase-order-service';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+const updateStatusSchema = z.object({
+  status: z.enum(['sent', 'closed'])
+});
+
+export const GET = withAuth(async function GET(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const purchaseOrder = await purchaseOrderService.getPurchaseOrder(request.business.id, id);
+
+    if (!purchaseOrder) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    const discrepancies = await purchaseOrderService.getReceivingDiscrepancies(request.business.id, id);
+
+    return NextResponse.json({ data: purchaseOrder, discrepancies });
+  } catch (error) {
+    console.error('Error fetching purchase order:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch purchase order' },
+      { status: 500 }
+    );
+  }
+});
+
+export const PATCH = withAuth(async function PATCH(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { status } = updateStatusSchema.parse(await request.json());
+
+    const purchaseOrder = await purchaseOrderService.updateStatus(request.business.id, id, status);
+
+    return NextResponse.json({ data: purchaseOrder });
+  } catch (error) {
+    console.error('Error updating purchase order:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Purchase order not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.startsWith('Cannot change')) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update purchase order' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,153 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { purchaseOrderService, PurchaseOrderStatus, NewPurchaseOrderLine } from '@/agent3-features/purchasing/purchase-order-service';
+import type { ReorderSuggestion } from '@/agent3-features/inventory/types';
+import { supplierRepository } from '@/agent1-foundation/models/repositories';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+const lineSchema = z.object({
+  product_id: z.string().uuid(),
+  quantity_ordered: z.number().positive(),
+  unit_cost: z.number().min(0).optional(),
+  expected_date: z.string().date().optional(),
+  notes: z.string().max(500).optional()
+});
+
+const suggestionSchema = z.object({
+  productId: z.string().uuid(),
+  currentStock: z.number(),
+  suggestedReorderPoint: z.number(),
+  suggestedReorderQuantity: z.number(),
+  reasonCode: z.enum([
+    'low_stock',
+    'high_velocity',
+    'seasonal_demand',
+    'promotional_planning',
+    'supplier_minimum',
+    'bulk_discount'
+  ]),
+  confidence: z.number(),
+  projectedStockoutDate: z.coerce.date().optional(),
+  monthlySalesVelocity: z.number(),
+  seasonalityFactor: z.number(),
+  leadTimeDays: z.number().int().min(0),
+  supplierId: z.string().uuid().optional(),
+  supplierName: z.string().optional(),
+  unitCost: z.number().optional(),
+  minOrderQuantity: z.number().optional(),
+  packSize: z.number().optional()
+});
+
+const createPurchaseOrderSchema = z.object({
+  supplier_id: z.string().uuid().optional(),
+  supplier_name: z.string().min(1).max(255).optional(),
+  expected_date: z.string().date().optional(),
+  receive_location_id: z.string().uuid().optional(),
+  notes: z.string().max(1000).optional(),
+  lines: z.array(lineSchema).min(1).optional(),
+  // Reorder suggestions from InventoryService.getSuggestedReorderPoint
+  suggestions: z.array(suggestionSchema).min(1).optional()
+}).refine(body => body.lines || body.suggestions, {
+  message: 'Provide either lines or suggestions'
+}).refine(body => body.suggestions || body.supplier_id || body.supplier_name, {
+  message: 'Manual purchase orders need a supplier'
+});
+
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['sent', 'partially_received', 'received'];
+
+export const GET = withAuth(async function GET(request: AuthenticatedRequest) {
+  try {
+    // ?status=open is shorthand for everything that can still be received
+    const statusParam = request.nextUrl.searchParams.get('status');
+    const status = statusParam === 'open'
+      ? OPEN_STATUSES
+      : statusParam?.split(',') as PurchaseOrderStatus[] | undefined;
+
+    const purchaseOrders = await purchaseOrderService.listPurchaseOrders(request.business.id, status);
+
+    return NextResponse.json({ data: purchaseOrders });
+  } catch (error) {
+    console.error('Error fetching purchase orders:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch purchase orders' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAuth(async function POST(request: AuthenticatedRequest) {
+  try {
+    const body = createPurchaseOrderSchema.parse(await request.json());
+
+    const supplierIds = new Set(body.suggestions?.map(s => s.supplierId).filter(Boolean) as string[]);
+    if (body.supplier_id) supplierIds.add(body.supplier_id);
+
+    const supplierNames = new Map<string, string>();
+    for (const supplierId of supplierIds) {
+      const supplier = await supplierRepository.findById(supplierId);
+      if (!supplier || supplier.businessId !== request.business.id) {
+        return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+      }
+      supplierNames.set(supplierId, supplier.name);
+    }
+
+    // Without an explicit supplier, suggestions are split by preferred supplier
+    if (body.suggestions && !body.supplier_id && !body.supplier_name) {
+      const { orders, unassigned } = await purchaseOrderService.createDraftsBySupplier(
+        request.business.id,
+        body.suggestions as ReorderSuggestion[],
+        { created_by: request.user.id, receive_location_id: body.receive_location_id }
+      );
+
+      return NextResponse.json({ data: orders, unassigned }, { status: 201 });
+    }
+
+    let supplierName = body.supplier_name;
+    if (!supplierName && body.supplier_id) {
+      supplierName = supplierNames.get(body.supplier_id);
+    }
+
+    const purchaseOrder = body.suggestions
+      ? await purchaseOrderService.createDraftFromSuggestions(
+          request.business.id,
+          body.suggestions as ReorderSuggestion[],
+          {
+            supplier_id: body.supplier_id,
+            supplier_name: supplierName!,
+            created_by: request.user.id,
+            receive_location_id: body.receive_location_id,
+            notes: body.notes
+          }
+        )
+      : await purchaseOrderService.createPurchaseOrder({
+          business_id: request.business.id,
+          supplier_id: body.supplier_id,
+          supplier_name: supplierName!,
+          expected_date: body.expected_date,
+          receive_location_id: body.receive_location_id,
+          notes: body.notes,
+          created_by: request.user.id,
+          lines: body.lines as NewPurchaseOrderLine[]
+        });
+
+    return NextResponse.json({ data: purchaseOrder }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating purchase order:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Unknown product on purchase order') {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create purchase order' },
+      { status: 500 }
+    );
+  }
+});
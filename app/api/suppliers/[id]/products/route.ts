@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supplierRepository, productRepository } from '@/agent1-foundation/models/repositories';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+// Purchasing terms for one product from this supplier
+const supplierProductSchema = z.object({
+  product_id: z.string().uuid(),
+  supplier_sku: z.string().max(100).optional(),
+  unit_cost: z.number().min(0).optional(),
+  min_order_quantity: z.number().int().min(1).default(1),
+  pack_size: z.number().int().min(1).default(1),
+  lead_time_days: z.number().int().min(0).max(365).optional(),
+  is_preferred: z.boolean().default(false)
+});
+
+export const PUT = withAuth(async function PUT(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = supplierProductSchema.parse(await request.json());
+
+    const [supplier, product] = await Promise.all([
+      supplierRepository.findById(id),
+      productRepository.findById(body.product_id)
+    ]);
+    if (!supplier || supplier.businessId !== request.business.id) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+    if (!product || product.businessId !== request.business.id) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    const terms = await supplierRepository.upsertProductSupplier({
+      supplierId: id,
+      productId: body.product_id,
+      supplierSku: body.supplier_sku,
+      unitCost: body.unit_cost,
+      minOrderQuantity: body.min_order_quantity,
+      packSize: body.pack_size,
+      leadTimeDays: body.lead_time_days,
+      isPreferred: body.is_preferred
+    });
+
+    return NextResponse.json({ data: terms });
+  } catch (error) {
+    console.error('Error saving supplier product terms:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save supplier product terms' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supplierRepository } from '@/agent1-foundation/models/repositories';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+const updateSupplierSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  contact_name: z.string().max(255).optional(),
+  email: z.string().email().optional(),
+  phone: z.string().max(50).optional(),
+  address: z.string().max(1000).optional(),
+  website: z.string().url().optional(),
+  default_lead_time_days: z.number().int().min(0).max(365).optional(),
+  notes: z.string().max(1000).optional(),
+  active: z.boolean().optional()
+});
+
+export const GET = withAuth(async function GET(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supplier = await supplierRepository.findById(id);
+
+    if (!supplier || supplier.businessId !== request.business.id) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: supplier });
+  } catch (error) {
+    console.error('Error fetching supplier:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch supplier' },
+      { status: 500 }
+    );
+  }
+});
+
+export const PATCH = withAuth(async function PATCH(
+  request: AuthenticatedRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = updateSupplierSchema.parse(await request.json());
+
+    const existing = await supplierRepository.findById(id);
+    if (!existing || existing.businessId !== request.business.id) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    const supplier = await supplierRepository.update(id, {
+      name: body.name,
+      contactName: body.contact_name,
+      email: body.email,
+      phone: body.phone,
+      address: body.address,
+      website: body.website,
+      defaultLeadTimeDays: body.default_lead_time_days,
+      notes: body.notes,
+      active: body.active
+    });
+
+    return NextResponse.json({ data: supplier });
+  } catch (error) {
+    console.error('Error updating supplier:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update supplier' },
+      { status: 500 }
+    );
+  }
+});
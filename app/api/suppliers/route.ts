@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supplierRepository } from '@/agent1-foundation/models/repositories';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+const createSupplierSchema = z.object({
+  name: z.string().min(1).max(255),
+  contact_name: z.string().max(255).optional(),
+  email: z.string().email().optional(),
+  phone: z.string().max(50).optional(),
+  address: z.string().max(1000).optional(),
+  website: z.string().url().optional(),
+  default_lead_time_days: z.number().int().min(0).max(365).default(7),
+  notes: z.string().max(1000).optional()
+});
+
+export const GET = withAuth(async function GET(request: AuthenticatedRequest) {
+  try {
+    const suppliers = await supplierRepository.list(request.business.id);
+
+    return NextResponse.json({ data: suppliers });
+  } catch (error) {
+    console.error('Error fetching suppliers:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch suppliers' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAuth(async function POST(request: AuthenticatedRequest) {
+  try {
+    const body = createSupplierSchema.parse(await request.json());
+
+    const supplier = await supplierRepository.create({
+      businessId: request.business.id,
+      name: body.name,
+      contactName: body.contact_name,
+      email: body.email,
+      phone: body.phone,
+      address: body.address,
+      website: body.website,
+      defaultLeadTimeDays: body.default_lead_time_days,
+      notes: body.notes
+    });
+
+    return NextResponse.json({ data: supplier }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating supplier:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create supplier' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/agent1-foundation/database/supabase-client';
+import {
+  SyncChange,
+  SyncPage,
+  decodeSyncCursor,
+  encodeSyncCursor,
+  TOMBSTONE_RETENTION_MS
+} from '@/shared/sync/delta-sync';
+import { withAuth, AuthenticatedRequest } from '@/agent1-foundation/middleware/auth';
+
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 1000;
+
+// Product, location and stock level changes since ?cursor (omit for everything),
+// ?limit per page. Keep pulling with the returned cursor while has_more.
+export const GET = withAuth(async function GET(request: AuthenticatedRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '') || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    let cursor = null;
+    let reset = false;
+    const cursorParam = searchParams.get('cursor');
+    if (cursorParam) {
+      cursor = decodeSyncCursor(cursorParam);
+      if (!cursor) {
+        return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+      }
+
+      // Deletes since then may be gone, or the data belongs to another business
+      if (cursor.businessId !== request.business.id || Date.now() - cursor.issuedAt > TOMBSTONE_RETENTION_MS) {
+        cursor = null;
+        reset = true;
+      }
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('get_sync_changes', {
+      p_business_id: request.business.id,
+      p_after_txid: cursor?.txid ?? null,
+      p_after_entity: cursor?.entity ?? '',
+      p_after_record: cursor?.record ?? '00000000-0000-0000-0000-000000000000',
+      p_limit: limit
+    });
+
+    if (error) throw error;
+
+    const rows = data.changes;
+    const hasMore = rows.length === limit;
+    const last = rows[rows.length - 1];
+
+    // At the end, the next pull starts at the horizon rather than after the
+    // last change, so an empty page still moves the cursor forward
+    const position = hasMore
+      ? { txid: last.txid, entity: last.entity_type, record: last.record_id }
+      : { txid: data.horizon, entity: '', record: '00000000-0000-0000-0000-000000000000' };
+
+    const page: SyncPage = {
+      changes: rows.map((row): SyncChange => ({
+        entity_type: row.entity_type,
+        record_id: row.record_id,
+        deleted: row.deleted,
+        data: row.data
+      })),
+      cursor: encodeSyncCursor({ businessId: request.business.id, ...position, issuedAt: Date.now() }),
+      has_more: hasMore,
+      reset
+    };
+
+    return compressedJson(request, { data: page });
+  } catch (error) {
+    console.error('Error pulling sync changes:', error);
+    return NextResponse.json(
+      { error: 'Failed to pull sync changes' },
+      { status: 500 }
+    );
+  }
+});
+
+// Gzip the page when the client accepts it; catalogs compress well
+function compressedJson(request: NextRequest, body: unknown): NextResponse {
+  const json = JSON.stringify(body);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    'Vary': 'Accept-Encoding'
+  };
+
+  if (!/\bgzip\b/.test(request.headers.get('accept-encoding') || '')) {
+    return new NextResponse(json, { headers });
+  }
+
+  const stream = new Blob([json]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new NextResponse(stream, { headers: { ...headers, 'Content-Encoding': 'gzip' } });
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useId } from 'react';
 import Link from 'next/link';
+import { supabase } from '@/agent1-foundation/database/supabase-client';
 
 interface CountSession {
   id: string;
@@ -11,6 +12,7 @@ interface CountSession {
   status: 'active' | 'completed' | 'paused';
   itemsCounted: number;
   totalItems: number;
+  blind: boolean; // Counters don't see expected quantities
 }
 
 interface CountItem {
@@ -39,6 +41,14 @@ const mockProducts = [
   { id: '5', name: 'Smartphone Case', sku: 'SC-005', expectedQuantity: 89 }
 ];
 
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    ...(session ? { Authorization: `Bearer ${session.access_token}` } : {})
+  };
+}
+
 export default function CountingPage() {
   const [currentSession, setCurrentSession] = useState<CountSession | null>(null);
   const [selectedLocation, setSelectedLocation] = useState('');
@@ -46,9 +56,16 @@ export default function CountingPage() {
   const [countItems, setCountItems] = useState<CountItem[]>([]);
   const [isScanning, setIsScanning] = useState(false);
   const [scanResult, setScanResult] = useState('');
+  const [blindMode, setBlindMode] = useState(false);
+  const [expectedRevealed, setExpectedRevealed] = useState(false);
+  const [revealError, setRevealError] = useState('');
   
   // Generate unique IDs
   const sessionNameId = useId();
+  const blindModeId = useId();
+
+  // Blind sessions keep the system quantity hidden until a supervisor reveals it
+  const showExpected = !currentSession?.blind || expectedRevealed;
 
   useEffect(() => {
     // Auto-generate session name
@@ -69,10 +86,13 @@ export default function CountingPage() {
       startTime: new Date().toISOString(),
       status: 'active',
       itemsCounted: 0,
-      totalItems: mockProducts.length
+      totalItems: mockProducts.length,
+      blind: blindMode
     };
 
     setCurrentSession(newSession);
+    setExpectedRevealed(false);
+    setRevealError('');
     
     // Initialize count items
     const initialItems = mockProducts.map(product => ({
@@ -103,6 +123,11 @@ export default function CountingPage() {
   const completeSession = () => {
     if (currentSession) {
       setCurrentSession({ ...currentSession, status: 'completed' });
+
+      if (currentSession.blind) {
+        alert(`Session completed!\n\nItems Counted: ${currentSession.itemsCounted}\nVariance will be reviewed by a supervisor.`);
+        return;
+      }
       
       // Calculate summary
       const totalExpected = countItems.reduce((sum, item) => sum + item.expectedQuantity, 0);
@@ -113,6 +138,37 @@ export default function CountingPage() {
     }
   };
 
+  const revealExpected = async () => {
+    if (!currentSession) return;
+    setRevealError('');
+
+    try {
+      const response = await fetch(`/api/counting/sessions/${currentSession.id}/reveal`, {
+        method: 'POST',
+        headers: await authHeaders()
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setRevealError(data.error || 'Failed to reveal expected quantities');
+        return;
+      }
+
+      // Server-side expected quantities replace what the page started with
+      const expectedByProduct = new Map<string, number>(
+        (data.data || []).map((c: { product_id: string; expected: number }) => [c.product_id, c.expected])
+      );
+      setCountItems(prev => prev.map(item => {
+        const expectedQuantity = expectedByProduct.get(item.id) ?? item.expectedQuantity;
+        return { ...item, expectedQuantity, difference: item.actualQuantity - expectedQuantity };
+      }));
+      setExpectedRevealed(true);
+    } catch (err) {
+      console.error('Failed to reveal expected quantities:', err);
+      setRevealError('Failed to reveal expected quantities');
+    }
+  };
+
   const simulateScan = () => {
     setIsScanning(true);
     setScanResult('Scanning...');
@@ -240,6 +296,20 @@ export default function CountingPage() {
                 </div>
               </div>
 
+              <div className="flex items-start space-x-3">
+                <input
+                  id={blindModeId}
+                  type="checkbox"
+                  checked={blindMode}
+                  onChange={(e) => setBlindMode(e.target.checked)}
+                  className="mt-1 h-4 w-4 text-[#0066cc] border-gray-300 rounded"
+                />
+                <label htmlFor={blindModeId} className="text-sm text-gray-700">
+                  <span className="font-medium">Blind count</span>
+                  <span className="block text-gray-500">Counters won&apos;t see expected quantities or earlier counts. Only supervisors can reveal them after submission.</span>
+                </label>
+              </div>
+
               <button
                 type="button"
                 onClick={startSession}
@@ -284,6 +354,11 @@ export default function CountingPage() {
               </nav>
             </div>
             <div className="flex items-center space-x-3">
+              {currentSession.blind && (
+                <span className="px-3 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                  Blind Count
+                </span>
+              )}
               <span className={`px-3 py-1 rounded-full text-xs font-medium ${
                 currentSession.status === 'active' ? 'bg-green-100 text-green-800' :
                 currentSession.status === 'paused' ? 'bg-yellow-100 text-yellow-800' :
@@ -347,8 +422,22 @@ export default function CountingPage() {
                   </button>
                 </>
               )}
+              {currentSession.status === 'completed' && currentSession.blind && !expectedRevealed && (
+                <button
+                  type="button"
+                  onClick={revealExpected}
+                  className="px-4 py-2 border border-purple-300 text-purple-700 rounded-lg hover:bg-purple-50 transition-colors"
+                >
+                  Reveal Expected (Supervisor)
+                </button>
+              )}
             </div>
           </div>
+          {revealError && (
+            <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-2 rounded-md text-sm">
+              {revealError}
+            </div>
+          )}
         </div>
 
         {/* Scanner Demo */}
@@ -387,15 +476,19 @@ export default function CountingPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     SKU
                   </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Expected
-                  </th>
+                  {showExpected && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Expected
+                    </th>
+                  )}
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Actual
                   </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Difference
-                  </th>
+                  {showExpected && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Difference
+                    </th>
+                  )}
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Notes
                   </th>
@@ -410,9 +503,11 @@ export default function CountingPage() {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-mono">
                       {item.sku}
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {item.expectedQuantity}
-                    </td>
+                    {showExpected && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {item.expectedQuantity}
+                      </td>
+                    )}
                     <td className="px-6 py-4 whitespace-nowrap">
                       <input
                         type="number"
@@ -422,14 +517,16 @@ export default function CountingPage() {
                         min="0"
                       />
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`text-sm font-medium ${
-                        item.difference === 0 ? 'text-green-600' :
-                        item.difference > 0 ? 'text-blue-600' : 'text-red-600'
-                      }`}>
-                        {item.difference > 0 ? '+' : ''}{item.difference}
-                      </span>
-                    </td>
+                    {showExpected && (
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`text-sm font-medium ${
+                          item.difference === 0 ? 'text-green-600' :
+                          item.difference > 0 ? 'text-blue-600' : 'text-red-600'
+                        }`}>
+                          {item.difference > 0 ? '+' : ''}{item.difference}
+                        </span>
+                      </td>
+                    )}
                     <td className="px-6 py-4 whitespace-nowrap">
                       <input
                         type="text"
@@ -452,18 +549,29 @@ export default function CountingPage() {
             <div className="text-2xl font-bold text-[#0066cc]">{currentSession.itemsCounted}</div>
             <div className="text-sm text-gray-600">Items Counted</div>
           </div>
-          <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200 text-center">
-            <div className="text-2xl font-bold text-green-600">
-              {countItems.filter(item => item.difference === 0).length}
-            </div>
-            <div className="text-sm text-gray-600">Exact Matches</div>
-          </div>
-          <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200 text-center">
-            <div className="text-2xl font-bold text-red-600">
-              {countItems.filter(item => item.difference !== 0).length}
+          {showExpected ? (
+            <>
+              <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200 text-center">
+                <div className="text-2xl font-bold text-green-600">
+                  {countItems.filter(item => item.difference === 0).length}
+                </div>
+                <div className="text-sm text-gray-600">Exact Matches</div>
+              </div>
+              <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200 text-center">
+                <div className="text-2xl font-bold text-red-600">
+                  {countItems.filter(item => item.difference !== 0).length}
+                </div>
+                <div className="text-sm text-gray-600">Discrepancies</div>
+              </div>
+            </>
+          ) : (
+            <div className="md:col-span-2 bg-white rounded-lg p-6 shadow-sm border border-gray-200 text-center">
+              <div className="text-2xl font-bold text-purple-600">
+                {currentSession.totalItems - currentSession.itemsCounted}
+              </div>
+              <div className="text-sm text-gray-600">Items Remaining</div>
             </div>
-            <div className="text-sm text-gray-600">Discrepancies</div>
-          </div>
+          )}
         </div>
       </main>
     </div>
@@ -1,28 +1,113 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { BarcodeScanner } from '@/agent2-interface/components/BarcodeScanner';
+import { supabase } from '@/agent1-foundation/database/supabase-client';
+import type { PurchaseOrder, ReceiptResult } from '@/agent3-features/purchasing/purchase-order-service';
+import type { Gs1ParseResult } from '@/shared/barcode/gs1';
+
+type ScanMode = 'lookup' | 'receive';
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    ...(session ? { Authorization: `Bearer ${session.access_token}` } : {})
+  };
+}
 
 export default function ScanPage() {
   const [scannedCode, setScannedCode] = useState<string>('');
   const [manualCode, setManualCode] = useState('');
   const [product, setProduct] = useState<any>(null);
+  // Unit the scanned barcode belongs to; a case barcode steps by its base units
+  const [scannedUnit, setScannedUnit] = useState<{ name: string; conversion_factor: number } | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Receiving mode
+  const [mode, setMode] = useState<ScanMode>('lookup');
+  const [openOrders, setOpenOrders] = useState<PurchaseOrder[]>([]);
+  const [selectedOrderId, setSelectedOrderId] = useState('');
+  const [receiveQuantity, setReceiveQuantity] = useState(1);
+  const [receipts, setReceipts] = useState<(ReceiptResult & { barcode: string; quantity: number })[]>([]);
+
+  useEffect(() => {
+    if (mode !== 'receive') return;
+
+    const loadOpenOrders = async () => {
+      try {
+        const response = await fetch('/api/purchase-orders?status=open', {
+          headers: await authHeaders()
+        });
+        const data = await response.json();
+        setOpenOrders(data.data || []);
+      } catch (err) {
+        console.error('Failed to load purchase orders:', err);
+        setError('Failed to load open purchase orders');
+      }
+    };
+
+    loadOpenOrders();
+  }, [mode]);
+
+  const receiveBarcode = useCallback(async (
+    barcode: string,
+    quantity: number,
+    isUndo = false,
+    lot?: { lot_number?: string | null; expiry_date?: string | null }
+  ) => {
+    if (!barcode || !selectedOrderId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/purchase-orders/${selectedOrderId}/receive`, {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({
+          barcode,
+          quantity,
+          lot_number: lot?.lot_number || undefined,
+          expiry_date: lot?.expiry_date || undefined
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to record receipt');
+        return;
+      }
+
+      setReceipts(prev => isUndo
+        ? prev.slice(1)
+        : [{ ...data.data, barcode, quantity }, ...prev].slice(0, 20));
+    } catch (err) {
+      console.error('Receiving failed:', err);
+      setError('Failed to record receipt');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedOrderId]);
+
   const lookupProduct = useCallback(async (barcode: string) => {
     if (!barcode) return;
     
     setLoading(true);
     setError(null);
     setProduct(null);
+    setScannedUnit(null);
     
     try {
-      const response = await fetch(`/api/products?barcode=${barcode}&mobile=true`);
+      const response = await fetch(`/api/products/resolve?code=${encodeURIComponent(barcode)}`, {
+        headers: await authHeaders()
+      });
       const data = await response.json();
       
-      if (data.data && data.data.length > 0) {
-        setProduct(data.data[0]);
+      if (response.ok && data.data) {
+        setProduct(data.data.product);
+        setScannedUnit(data.data.unit);
       } else {
         setError('Product not found. Would you like to add it?');
       }
@@ -34,20 +119,38 @@ export default function ScanPage() {
     }
   }, []);
 
-  const handleScanSuccess = useCallback((code: string) => {
+  const handleScanSuccess = useCallback((code: string, gs1?: Gs1ParseResult) => {
     setScannedCode(code);
     setManualCode(code);
-    lookupProduct(code);
-  }, [lookupProduct]);
+    if (mode === 'receive') {
+      receiveBarcode(code, receiveQuantity, false, {
+        lot_number: gs1?.lotNumber,
+        expiry_date: gs1?.expiryDate
+      });
+    } else {
+      lookupProduct(code);
+    }
+  }, [mode, receiveBarcode, receiveQuantity, lookupProduct]);
 
   const handleManualSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (manualCode) {
       setScannedCode(manualCode);
-      lookupProduct(manualCode);
+      if (mode === 'receive') {
+        receiveBarcode(manualCode, receiveQuantity);
+      } else {
+        lookupProduct(manualCode);
+      }
     }
   };
 
+  const handleUndoReceipt = () => {
+    const last = receipts[0];
+    if (!last) return;
+    // Reverse against the same lot the scan went into
+    receiveBarcode(last.barcode, -last.quantity, true, last);
+  };
+
   const handleUpdateQuantity = async (newQuantity: number) => {
     if (!product) return;
     
@@ -70,6 +173,8 @@ export default function ScanPage() {
     }
   };
 
+  const unitStep = scannedUnit?.conversion_factor || 1;
+
   const handleAddProduct = () => {
     // Navigate to add product page with barcode pre-filled
     window.location.href = `/products/new?barcode=${scannedCode}`;
@@ -82,9 +187,52 @@ export default function ScanPage() {
         <div className="px-4 py-3">
           <h1 className="text-xl font-bold">Barcode Scanner</h1>
         </div>
+        <div className="px-4 pb-3 grid grid-cols-2 gap-2">
+          <button
+            onClick={() => setMode('lookup')}
+            className={`py-2 rounded-lg text-sm font-medium ${mode === 'lookup' ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700'}`}
+          >
+            Look Up
+          </button>
+          <button
+            onClick={() => { setMode('receive'); setProduct(null); }}
+            className={`py-2 rounded-lg text-sm font-medium ${mode === 'receive' ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700'}`}
+          >
+            Receive PO
+          </button>
+        </div>
       </div>
 
       <div className="p-4 max-w-md mx-auto">
+        {/* Purchase order selection for receiving */}
+        {mode === 'receive' && (
+          <div className="mb-6 space-y-3">
+            <select
+              value={selectedOrderId}
+              onChange={(e) => { setSelectedOrderId(e.target.value); setReceipts([]); }}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-white"
+            >
+              <option value="">Select a purchase order…</option>
+              {openOrders.map(order => (
+                <option key={order.id} value={order.id}>
+                  {order.po_number} · {order.supplier_name}
+                  {order.expected_date ? ` · due ${order.expected_date}` : ''}
+                </option>
+              ))}
+            </select>
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600 text-sm">Quantity per scan:</span>
+              <input
+                type="number"
+                min={1}
+                value={receiveQuantity}
+                onChange={(e) => setReceiveQuantity(Math.max(1, parseInt(e.target.value) || 1))}
+                className="w-20 px-3 py-1 border border-gray-300 rounded-lg text-center"
+              />
+            </div>
+          </div>
+        )}
+
         {/* Scanner Component */}
         <BarcodeScanner
           onScanSuccess={handleScanSuccess}
@@ -141,6 +289,51 @@ export default function ScanPage() {
           </div>
         )}
 
+        {/* Receipts recorded in this receiving session */}
+        {mode === 'receive' && receipts.length > 0 && (
+          <div className="mb-6 bg-white rounded-lg shadow-md divide-y">
+            {receipts.map((receipt, index) => (
+              <div key={index} className="p-3 flex items-center justify-between">
+                <div>
+                  <p className="font-medium">{receipt.product_name}</p>
+                  <p className="text-sm text-gray-600">
+                    {receipt.quantity > 0 ? '+' : ''}{receipt.quantity}
+                    {receipt.base_quantity !== receipt.quantity && ` ${receipt.unit_name} (${receipt.base_quantity})`}
+                    {' · '}{receipt.quantity_received} of {receipt.quantity_ordered} received
+                  </p>
+                  {receipt.lot_number && (
+                    <p className="text-xs text-gray-500">
+                      Lot {receipt.lot_number}{receipt.expiry_date ? ` · Exp ${receipt.expiry_date}` : ''}
+                    </p>
+                  )}
+                </div>
+                <span className={`px-2 py-1 rounded text-xs font-medium ${
+                  receipt.unexpected || receipt.receipt_status === 'over'
+                    ? 'bg-orange-100 text-orange-700'
+                    : receipt.receipt_status === 'complete'
+                      ? 'bg-green-100 text-green-700'
+                      : 'bg-yellow-100 text-yellow-700'
+                }`}>
+                  {receipt.unexpected
+                    ? 'Not ordered'
+                    : receipt.receipt_status === 'over'
+                      ? `Over by ${receipt.variance}`
+                      : receipt.receipt_status === 'under'
+                        ? `${-receipt.variance} to go`
+                        : 'Complete'}
+                </span>
+              </div>
+            ))}
+            <button
+              onClick={handleUndoReceipt}
+              disabled={loading}
+              className="w-full py-2 text-sm text-red-600 hover:bg-red-50"
+            >
+              Undo last scan
+            </button>
+          </div>
+        )}
+
         {/* Product Details */}
         {product && !loading && (
           <div className="bg-white rounded-lg shadow-md p-4">
@@ -187,10 +380,17 @@ export default function ScanPage() {
             {/* Quantity Controls */}
             <div className="mt-4 pt-4 border-t">
               <div className="flex items-center justify-between">
-                <span className="text-gray-600">Quantity:</span>
+                <span className="text-gray-600">
+                  Quantity{product.base_unit ? ` (${product.base_unit})` : ''}:
+                  {unitStep !== 1 && (
+                    <span className="block text-xs text-blue-600">
+                      1 {scannedUnit?.name} = {unitStep} {product.base_unit || 'units'}
+                    </span>
+                  )}
+                </span>
                 <div className="flex items-center gap-2">
                   <button
-                    onClick={() => handleUpdateQuantity(Math.max(0, product.quantity - 1))}
+                    onClick={() => handleUpdateQuantity(Math.max(0, product.quantity - unitStep))}
                     className="w-10 h-10 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors flex items-center justify-center"
                   >
                     -
@@ -199,7 +399,7 @@ export default function ScanPage() {
                     {product.quantity}
                   </span>
                   <button
-                    onClick={() => handleUpdateQuantity(product.quantity + 1)}
+                    onClick={() => handleUpdateQuantity(product.quantity + unitStep)}
                     className="w-10 h-10 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors flex items-center justify-center"
                   >
                     +
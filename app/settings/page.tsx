@@ -332,6 +332,17 @@ export default function SettingsPage() {
                     className="w-5 h-5 text-blue-600 rounded"
                   />
                 </label>
+
+                <button
+                  onClick={() => router.push('/sync')}
+                  className="w-full p-3 bg-white rounded-xl border border-neutral-200 text-left flex items-center justify-between"
+                >
+                  <div>
+                    <div className="font-medium text-neutral-900">Sync Issues</div>
+                    <div className="text-sm text-neutral-600">Retry, edit or discard changes that failed to sync</div>
+                  </div>
+                  <span className="text-neutral-400">›</span>
+                </button>
               </div>
             </div>
 
@@ -0,0 +1,208 @@
+'use client';
+
+import { useState } from 'react';
+import { MobileLayout } from '../../src/agent2-interface/layouts/MobileLayout';
+import { useOfflineSync } from '../../src/agent2-interface/hooks/useOfflineSync';
+import { conflictDiff, FailedOperation } from '../../src/agent3-features/offline/offline-service';
+
+const ENTITY_LABELS: Record<string, string> = {
+  product: 'Product',
+  inventory_count: 'Inventory count',
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  CREATE: 'Create',
+  UPDATE: 'Update',
+  DELETE: 'Delete',
+};
+
+function formatValue(value: any): string {
+  if (value === undefined) return '';
+  if (value === null) return 'null';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function FailedOperationCard({
+  operation,
+  onRetry,
+  onDiscard,
+}: {
+  operation: FailedOperation;
+  onRetry: (id: string, data?: any) => Promise<void>;
+  onDiscard: (id: string) => Promise<void>;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const diff = conflictDiff(operation);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const startEditing = () => {
+    setDraft(JSON.stringify(operation.data, null, 2));
+    setDraftError(null);
+    setIsEditing(true);
+  };
+
+  const saveAndRetry = () => {
+    let data: any;
+    try {
+      data = JSON.parse(draft);
+    } catch {
+      setDraftError('Not valid JSON');
+      return;
+    }
+    run(() => onRetry(operation.id, data));
+  };
+
+  const discard = () => {
+    if (!confirm('Discard this change? It will not be sent to the server.')) return;
+    run(() => onDiscard(operation.id));
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-neutral-200 p-4" data-testid="failed-operation">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="font-medium text-neutral-900">
+            {TYPE_LABELS[operation.type] || operation.type} {(ENTITY_LABELS[operation.entity] || operation.entity).toLowerCase()}
+          </div>
+          <div className="text-sm text-neutral-600">
+            Queued {new Date(operation.created_at).toLocaleString()} · failed {new Date(operation.failed_at).toLocaleString()}
+          </div>
+        </div>
+        <span className={`
+          px-2 py-1 rounded-lg text-xs font-medium whitespace-nowrap
+          ${operation.status === 409 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-700'}
+        `}>
+          {operation.status === 409 ? 'Conflict' : operation.status ? `Error ${operation.status}` : 'Network error'}
+        </span>
+      </div>
+
+      <p className="mt-2 text-sm text-red-700">{operation.reason}</p>
+
+      {/* Side-by-side diff for server conflicts */}
+      {diff.length > 0 && (
+        <table className="mt-3 w-full text-sm table-fixed" data-testid="conflict-diff">
+          <thead>
+            <tr className="text-left text-neutral-600">
+              <th className="py-1 pr-2 font-medium">Field</th>
+              <th className="py-1 pr-2 font-medium">Your change</th>
+              <th className="py-1 font-medium">On the server</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-neutral-100">
+            {diff.map(row => (
+              <tr key={row.field} className={row.differs ? 'bg-yellow-50' : ''}>
+                <td className="py-1 pr-2 text-neutral-600 truncate">{row.field}</td>
+                <td className="py-1 pr-2 text-neutral-900 break-words">{formatValue(row.local)}</td>
+                <td className="py-1 text-neutral-900 break-words">{formatValue(row.server)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {isEditing ? (
+        <div className="mt-3">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={8}
+            className="w-full p-2 border border-neutral-300 rounded-lg font-mono text-xs"
+          />
+          {draftError && <p className="text-sm text-red-600 mt-1">{draftError}</p>}
+          <div className="flex gap-2 mt-2">
+            <button
+              onClick={saveAndRetry}
+              disabled={isBusy}
+              className="flex-1 py-2 px-4 bg-blue-600 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+            >
+              Save and retry
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              disabled={isBusy}
+              className="flex-1 py-2 px-4 bg-neutral-100 text-neutral-700 rounded-lg text-sm font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2 mt-3">
+          <button
+            onClick={() => run(() => onRetry(operation.id))}
+            disabled={isBusy}
+            className="flex-1 py-2 px-4 bg-blue-600 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+          >
+            Retry
+          </button>
+          <button
+            onClick={startEditing}
+            disabled={isBusy}
+            className="flex-1 py-2 px-4 bg-neutral-100 text-neutral-700 rounded-lg text-sm font-medium disabled:opacity-50"
+          >
+            Edit
+          </button>
+          <button
+            onClick={discard}
+            disabled={isBusy}
+            className="flex-1 py-2 px-4 bg-red-50 text-red-700 rounded-lg text-sm font-medium disabled:opacity-50"
+          >
+            Discard
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function SyncIssuesPage() {
+  const {
+    isOnline,
+    pendingOperations,
+    failedOperations,
+    retryFailedOperation,
+    discardFailedOperation,
+  } = useOfflineSync({ enableRealtime: false });
+
+  return (
+    <MobileLayout>
+      {/* Header */}
+      <div className="bg-white border-b border-neutral-200 px-4 py-3">
+        <h1 className="text-xl font-bold text-neutral-900">Sync Issues</h1>
+        <p className="text-sm text-neutral-600">
+          {isOnline ? 'Online' : 'Offline'} · {pendingOperations} waiting to sync
+        </p>
+      </div>
+
+      <div className="p-4 space-y-3">
+        {failedOperations.length === 0 ? (
+          <div className="bg-white rounded-xl border border-neutral-200 p-6 text-center">
+            <div className="text-4xl mb-2">✅</div>
+            <p className="font-medium text-neutral-900">Nothing failed to sync</p>
+            <p className="text-sm text-neutral-600">Changes the server rejects will be kept here until you deal with them</p>
+          </div>
+        ) : (
+          failedOperations.map(operation => (
+            <FailedOperationCard
+              key={operation.id}
+              operation={operation}
+              onRetry={retryFailedOperation}
+              onDiscard={discardFailedOperation}
+            />
+          ))
+        )}
+      </div>
+    </MobileLayout>
+  );
+}
@@ -0,0 +1,9 @@
+// Start server-side background jobs once per Node.js server process
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { anomalyService } = await import('@/agent3-features/analytics/anomaly-service');
+    const { marketBasketService } = await import('@/agent3-features/analytics/market-basket-service');
+    anomalyService.start();
+    marketBasketService.start();
+  }
+}
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
 import { cookies } from 'next/headers'
-import { Database } from '../../../config/supabase'
 import { z } from 'zod'
 
 // Mobile-optimized validation schema
@@ -51,7 +50,7 @@ const batchCountSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    const supabase = createRouteHandlerClient<Database>({ cookies })
+    const supabase = createRouteHandlerClient({ cookies })
     
     // Verify authentication
     const { data: { user }, error: authError } = await supabase.auth.getUser()
@@ -295,7 +294,7 @@ async function handleBatchCount(supabase: any, user: any, teamMember: any, body:
 // GET endpoint for retrieving recent counts
 export async function GET(request: NextRequest) {
   try {
-    const supabase = createRouteHandlerClient<Database>({ cookies })
+    const supabase = createRouteHandlerClient({ cookies })
     
     // Verify authentication
     const { data: { user }, error: authError } = await supabase.auth.getUser()
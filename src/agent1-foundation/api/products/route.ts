@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
 import { cookies } from 'next/headers'
-import { Database } from '../../config/supabase'
 import { z } from 'zod'
 
 // Mobile-optimized validation schemas
@@ -31,7 +30,7 @@ const queryParamsSchema = z.object({
 
 export async function GET(request: NextRequest) {
   try {
-    const supabase = createRouteHandlerClient<Database>({ cookies })
+    const supabase = createRouteHandlerClient({ cookies })
     
     // Verify authentication
     const { data: { user }, error: authError } = await supabase.auth.getUser()
@@ -134,7 +133,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const supabase = createRouteHandlerClient<Database>({ cookies })
+    const supabase = createRouteHandlerClient({ cookies })
     
     // Verify authentication
     const { data: { user }, error: authError } = await supabase.auth.getUser()
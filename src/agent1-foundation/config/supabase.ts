@@ -100,6 +100,7 @@ export interface Database {
           settings?: Record<string, any>
           updated_at?: string
         }
+        Relationships: []
       }
       products: {
         Row: {
@@ -110,6 +111,14 @@ export interface Database {
           sku: string | null
           category: string | null
           current_quantity: number
+          is_serialized: boolean
+          base_unit: string
+          allow_fractional: boolean
+          parent_product_id: string | null
+          variant_options: Array<{ name: string; values: string[] }>
+          variant_attributes: Record<string, string>
+          is_kit: boolean
+          accuracy_flagged_at: string | null
           images: string[] | null
           ai_metadata: Record<string, any> | null
           created_at: string
@@ -123,6 +132,14 @@ export interface Database {
           sku?: string | null
           category?: string | null
           current_quantity?: number
+          is_serialized?: boolean
+          base_unit?: string
+          allow_fractional?: boolean
+          parent_product_id?: string | null
+          variant_options?: Array<{ name: string; values: string[] }>
+          variant_attributes?: Record<string, string>
+          is_kit?: boolean
+          accuracy_flagged_at?: string | null
           images?: string[] | null
           ai_metadata?: Record<string, any> | null
           created_at?: string
@@ -136,10 +153,19 @@ export interface Database {
           sku?: string | null
           category?: string | null
           current_quantity?: number
+          is_serialized?: boolean
+          base_unit?: string
+          allow_fractional?: boolean
+          parent_product_id?: string | null
+          variant_options?: Array<{ name: string; values: string[] }>
+          variant_attributes?: Record<string, string>
+          is_kit?: boolean
+          accuracy_flagged_at?: string | null
           images?: string[] | null
           ai_metadata?: Record<string, any> | null
           updated_at?: string
         }
+        Relationships: []
       }
       inventory_counts: {
         Row: {
@@ -147,9 +173,22 @@ export interface Database {
           product_id: string
           quantity: number
           previous_quantity: number | null
+          location: string | null
+          location_id: string | null
+          lot_number: string | null
+          expiry_date: string | null
+          scanned_serials: string[] | null
+          missing_serials: string[] | null
+          unexpected_serials: string[] | null
           counted_by: string
+          posting_status: 'posted' | 'pending_approval' | 'approved' | 'rejected' | 'superseded'
+          recount_of_id: string | null
+          session_id: string | null
+          conflict_resolved: boolean
+          conflict_data: Record<string, any> | null
           device_info: Record<string, any> | null
           offline_synced: boolean
+          client_operation_id: string | null
           counted_at: string
           synced_at: string | null
         }
@@ -158,9 +197,18 @@ export interface Database {
           product_id: string
           quantity: number
           previous_quantity?: number | null
+          location?: string | null
+          location_id?: string | null
+          lot_number?: string | null
+          expiry_date?: string | null
+          scanned_serials?: string[] | null
           counted_by: string
+          posting_status?: 'posted' | 'pending_approval'
+          recount_of_id?: string | null
+          session_id?: string | null
           device_info?: Record<string, any> | null
           offline_synced?: boolean
+          client_operation_id?: string | null
           counted_at?: string
           synced_at?: string | null
         }
@@ -170,10 +218,383 @@ export interface Database {
           quantity?: number
           previous_quantity?: number | null
           counted_by?: string
+          posting_status?: 'posted' | 'pending_approval' | 'approved' | 'rejected' | 'superseded'
           device_info?: Record<string, any> | null
           offline_synced?: boolean
           synced_at?: string | null
         }
+        Relationships: []
+      }
+      locations: {
+        Row: {
+          id: string
+          business_id: string
+          name: string
+          code: string | null
+          type: 'warehouse' | 'backroom' | 'sales_floor' | 'bin' | 'other'
+          parent_id: string | null
+          is_default: boolean
+          active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          business_id: string
+          name: string
+          code?: string | null
+          type?: 'warehouse' | 'backroom' | 'sales_floor' | 'bin' | 'other'
+          parent_id?: string | null
+          is_default?: boolean
+          active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          name?: string
+          code?: string | null
+          type?: 'warehouse' | 'backroom' | 'sales_floor' | 'bin' | 'other'
+          parent_id?: string | null
+          is_default?: boolean
+          active?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      stock_levels: {
+        Row: {
+          id: string
+          business_id: string
+          product_id: string
+          location_id: string
+          quantity: number
+          last_counted: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          business_id: string
+          product_id: string
+          location_id: string
+          quantity?: number
+          last_counted?: string | null
+          updated_at?: string
+        }
+        Update: {
+          quantity?: number
+          last_counted?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      stock_lots: {
+        Row: {
+          id: string
+          business_id: string
+          product_id: string
+          location_id: string | null
+          lot_number: string
+          expiry_date: string | null
+          quantity: number
+          first_received_at: string
+          updated_at: string
+        }
+        Insert: {
+          [_ in never]: never // Maintained by the stock_movements trigger
+        }
+        Update: {
+          [_ in never]: never
+        }
+        Relationships: []
+      }
+      product_units: {
+        Row: {
+          id: string
+          business_id: string
+          product_id: string
+          name: string
+          conversion_factor: number
+          barcode: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          business_id: string
+          product_id: string
+          name: string
+          conversion_factor: number
+          barcode?: string | null
+        }
+        Update: {
+          name?: string
+          conversion_factor?: number
+          barcode?: string | null
+        }
+        Relationships: []
+      }
+      product_external_refs: {
+        Row: {
+          id: string
+          business_id: string
+          product_id: string
+          provider: string
+          external_id: string
+          external_parent_id: string | null
+          synced_at: string
+        }
+        Insert: {
+          id?: string
+          business_id: string
+          product_id: string
+          provider: string
+          external_id: string
+          external_parent_id?: string | null
+          synced_at?: string
+        }
+        Update: {
+          external_id?: string
+          external_parent_id?: string | null
+          synced_at?: string
+        }
+        Relationships: []
+      }
+      kit_components: {
+        Row: {
+          id: string
+          business_id: string
+          kit_product_id: string
+          component_product_id: string
+          quantity: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          business_id: string
+          kit_product_id: string
+          component_product_id: string
+          quantity: number
+        }
+        Update: {
+          quantity?: number
+        }
+        Relationships: []
+      }
+      serial_numbers: {
+        Row: {
+          id: string
+          business_id: string
+          product_id: string
+          serial_number: string
+          location_id: string | null
+          status: 'in_stock' | 'missing' | 'sold' | 'removed'
+          received_at: string
+          last_seen_at: string
+          last_count_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          business_id: string
+          product_id: string
+          serial_number: string
+          location_id?: string | null
+          status?: 'in_stock' | 'missing' | 'sold' | 'removed'
+        }
+        Update: {
+          location_id?: string | null
+          status?: 'in_stock' | 'missing' | 'sold' | 'removed'
+          last_seen_at?: string
+        }
+        Relationships: []
+      }
+      stock_movements: {
+        Row: {
+          id: string
+          business_id: string
+          product_id: string
+          location_id: string | null
+          reason: 'receive' | 'sell' | 'adjust' | 'count_correction' | 'transfer_in' | 'transfer_out' | 'write_off' | 'kit_assembly' | 'kit_disassembly'
+          quantity_change: number
+          quantity_after: number | null
+          lot_number: string | null
+          expiry_date: string | null
+          reference_type: string | null
+          reference_id: string | null
+          performed_by: string | null
+          notes: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          business_id?: string
+          product_id: string
+          location_id?: string | null
+          reason: 'receive' | 'sell' | 'adjust' | 'count_correction' | 'transfer_in' | 'transfer_out' | 'write_off' | 'kit_assembly' | 'kit_disassembly'
+          quantity_change: number
+          lot_number?: string | null
+          expiry_date?: string | null
+          reference_type?: string | null
+          reference_id?: string | null
+          performed_by?: string | null
+          notes?: string | null
+          created_at?: string
+        }
+        Update: {
+          [_ in never]: never // Append-only
+        }
+        Relationships: []
+      }
+      suppliers: {
+        Row: {
+          id: string
+          business_id: string
+          name: string
+          contact_name: string | null
+          email: string | null
+          phone: string | null
+          address: string | null
+          website: string | null
+          default_lead_time_days: number
+          notes: string | null
+          active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          business_id: string
+          name: string
+          contact_name?: string | null
+          email?: string | null
+          phone?: string | null
+          address?: string | null
+          website?: string | null
+          default_lead_time_days?: number
+          notes?: string | null
+          active?: boolean
+        }
+        Update: {
+          name?: string
+          contact_name?: string | null
+          email?: string | null
+          phone?: string | null
+          address?: string | null
+          website?: string | null
+          default_lead_time_days?: number
+          notes?: string | null
+          active?: boolean
+        }
+        Relationships: []
+      }
+      supplier_products: {
+        Row: {
+          id: string
+          supplier_id: string
+          product_id: string
+          supplier_sku: string | null
+          unit_cost: number | null
+          min_order_quantity: number
+          pack_size: number
+          lead_time_days: number | null
+          is_preferred: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          supplier_id: string
+          product_id: string
+          supplier_sku?: string | null
+          unit_cost?: number | null
+          min_order_quantity?: number
+          pack_size?: number
+          lead_time_days?: number | null
+          is_preferred?: boolean
+        }
+        Update: {
+          supplier_sku?: string | null
+          unit_cost?: number | null
+          min_order_quantity?: number
+          pack_size?: number
+          lead_time_days?: number | null
+          is_preferred?: boolean
+        }
+        Relationships: []
+      }
+      purchase_orders: {
+        Row: {
+          id: string
+          business_id: string
+          po_number: string
+          supplier_id: string | null
+          supplier_name: string
+          status: 'draft' | 'sent' | 'partially_received' | 'received' | 'closed'
+          expected_date: string | null
+          receive_location_id: string | null
+          notes: string | null
+          created_by: string | null
+          sent_at: string | null
+          received_at: string | null
+          closed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          business_id: string
+          po_number?: string // Assigned by the assign_po_number trigger
+          supplier_id?: string | null
+          supplier_name: string
+          status?: 'draft' | 'sent' | 'partially_received' | 'received' | 'closed'
+          expected_date?: string | null
+          receive_location_id?: string | null
+          notes?: string | null
+          created_by?: string | null
+        }
+        Update: {
+          supplier_name?: string
+          status?: 'draft' | 'sent' | 'partially_received' | 'received' | 'closed'
+          expected_date?: string | null
+          receive_location_id?: string | null
+          notes?: string | null
+          sent_at?: string | null
+          closed_at?: string | null
+        }
+        Relationships: []
+      }
+      purchase_order_lines: {
+        Row: {
+          id: string
+          purchase_order_id: string
+          product_id: string
+          quantity_ordered: number
+          quantity_received: number
+          unit_cost: number | null
+          expected_date: string | null
+          source: 'manual' | 'reorder_suggestion' | 'unexpected'
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          purchase_order_id: string
+          product_id: string
+          quantity_ordered: number
+          unit_cost?: number | null
+          expected_date?: string | null
+          source?: 'manual' | 'reorder_suggestion' | 'unexpected'
+          notes?: string | null
+        }
+        Update: {
+          quantity_ordered?: number
+          unit_cost?: number | null
+          expected_date?: string | null
+          notes?: string | null
+        }
+        Relationships: []
       }
       team_members: {
         Row: {
@@ -202,44 +623,381 @@ export interface Database {
           joined_at?: string | null
           status?: 'pending' | 'active' | 'inactive'
         }
+        Relationships: []
       }
       counting_sessions: {
         Row: {
           id: string
           business_id: string
           name: string
+          description: string | null
           created_by: string
           participants: string[]
-          status: 'active' | 'paused' | 'completed'
+          status: 'planning' | 'active' | 'paused' | 'completed' | 'cancelled'
           settings: Record<string, any>
+          zones: any[]
+          progress: Record<string, any>
+          expected_duration: number | null
           started_at: string
           completed_at: string | null
+          created_at: string
+          updated_at: string
         }
         Insert: {
           id?: string
           business_id: string
           name: string
+          description?: string | null
           created_by: string
           participants?: string[]
-          status?: 'active' | 'paused' | 'completed'
+          status?: 'planning' | 'active' | 'paused' | 'completed' | 'cancelled'
           settings?: Record<string, any>
+          zones?: any[]
+          progress?: Record<string, any>
+          expected_duration?: number | null
           started_at?: string
           completed_at?: string | null
         }
         Update: {
           name?: string
+          description?: string | null
           participants?: string[]
-          status?: 'active' | 'paused' | 'completed'
+          status?: 'planning' | 'active' | 'paused' | 'completed' | 'cancelled'
           settings?: Record<string, any>
+          zones?: any[]
+          progress?: Record<string, any>
+          expected_duration?: number | null
+          started_at?: string
           completed_at?: string | null
         }
+        Relationships: []
+      }
+      counting_session_presence: {
+        Row: {
+          session_id: string
+          user_id: string
+          user_name: string | null
+          role: 'admin' | 'user' | 'viewer' | null
+          status: 'active' | 'idle' | 'counting' | 'offline'
+          current_zone: string | null
+          current_product: string | null
+          device_info: Record<string, any> | null
+          location: Record<string, any> | null
+          last_activity: string
+        }
+        Insert: {
+          session_id: string
+          user_id: string
+          user_name?: string | null
+          role?: 'admin' | 'user' | 'viewer' | null
+          status?: 'active' | 'idle' | 'counting' | 'offline'
+          current_zone?: string | null
+          current_product?: string | null
+          device_info?: Record<string, any> | null
+          location?: Record<string, any> | null
+          last_activity?: string
+        }
+        Update: {
+          user_name?: string | null
+          role?: 'admin' | 'user' | 'viewer' | null
+          status?: 'active' | 'idle' | 'counting' | 'offline'
+          current_zone?: string | null
+          current_product?: string | null
+          device_info?: Record<string, any> | null
+          location?: Record<string, any> | null
+          last_activity?: string
+        }
+        Relationships: []
+      }
+      counting_product_locks: {
+        Row: {
+          session_id: string
+          product_id: string
+          user_id: string
+          lock_type: 'count' | 'edit' | 'transfer'
+          locked_at: string
+          expires_at: string
+        }
+        Insert: {
+          session_id: string
+          product_id: string
+          user_id: string
+          lock_type?: 'count' | 'edit' | 'transfer'
+          locked_at?: string
+          expires_at: string
+        }
+        Update: {
+          user_id?: string
+          lock_type?: 'count' | 'edit' | 'transfer'
+          expires_at?: string
+        }
+        Relationships: []
+      }
+      counting_conflicts: {
+        Row: {
+          id: string
+          session_id: string
+          type: 'simultaneous_count' | 'quantity_mismatch' | 'zone_overlap'
+          status: 'pending' | 'resolved' | 'escalated'
+          participants: string[]
+          product_id: string | null
+          zone_id: string | null
+          data: Record<string, any>
+          resolution: Record<string, any> | null
+          detected_at: string
+          resolved_at: string | null
+        }
+        Insert: {
+          id?: string
+          session_id: string
+          type: 'simultaneous_count' | 'quantity_mismatch' | 'zone_overlap'
+          status?: 'pending' | 'resolved' | 'escalated'
+          participants?: string[]
+          product_id?: string | null
+          zone_id?: string | null
+          data?: Record<string, any>
+          resolution?: Record<string, any> | null
+          detected_at?: string
+          resolved_at?: string | null
+        }
+        Update: {
+          status?: 'pending' | 'resolved' | 'escalated'
+          participants?: string[]
+          data?: Record<string, any>
+          resolution?: Record<string, any> | null
+          resolved_at?: string | null
+        }
+        Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      product_family_stock: {
+        Row: {
+          product_id: string
+          business_id: string
+          variant_count: number
+          total_quantity: number
+          total_value: number
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      set_stock_quantity: {
+        Args: {
+          p_product_id: string
+          p_quantity: number
+          p_reason: string
+          p_user_id: string | null
+          p_location_id?: string | null
+          p_reference_type?: string | null
+          p_reference_id?: string | null
+          p_notes?: string | null
+          p_lot_number?: string | null
+          p_expiry_date?: string | null
+        }
+        Returns: {
+          movement_id: string
+          previous_quantity: number
+          quantity_after: number
+        }
+      }
+      resolve_count_conflict: {
+        Args: {
+          p_count_ids: string[]
+          p_final_quantity: number
+          p_method: 'newest_wins' | 'highest_authority' | 'average' | 'manual_review'
+          p_user_id: string | null
+          p_notes?: string | null
+        }
+        Returns: {
+          movement_id: string
+          previous_quantity: number
+          quantity_after: number
+        }
+      }
+      claim_counting_lock: {
+        Args: {
+          p_session_id: string
+          p_product_id: string
+          p_user_id: string
+          p_expires_at: string
+          p_lock_type?: 'count' | 'edit' | 'transfer'
+        }
+        Returns: {
+          acquired: boolean
+          user_id: string
+          lock_type: 'count' | 'edit' | 'transfer'
+          locked_at: string
+          expires_at: string
+        }
+      }
+      resolve_scanned_code: {
+        Args: {
+          p_business_id: string
+          p_code: string
+        }
+        Returns: {
+          product_id: string
+          unit_id: string | null
+          unit_name: string
+          conversion_factor: number
+        } | null
+      }
+      get_stock_quantity_as_of: {
+        Args: {
+          p_product_id: string
+          p_as_of: string
+          p_location_id?: string | null
+        }
+        Returns: number
+      }
+      get_daily_demand: {
+        Args: {
+          p_business_id: string
+          p_from: string
+          p_to: string
+          p_product_ids?: string[] | null
+        }
+        Returns: Array<{
+          product_id: string
+          day: string
+          quantity: number
+        }>
+      }
+      get_sale_baskets: {
+        Args: {
+          p_business_id: string
+          p_from: string
+          p_to: string
+          p_session_gap?: string
+        }
+        Returns: Array<{
+          basket_id: string
+          product_ids: string[]
+        }>
+      }
+      get_sync_changes: {
+        Args: {
+          p_business_id: string
+          p_after_txid?: string | null
+          p_after_entity?: string
+          p_after_record?: string
+          p_limit?: number
+        }
+        Returns: {
+          changes: Array<{
+            entity_type: 'product' | 'location' | 'stock_level'
+            record_id: string
+            deleted: boolean
+            txid: string
+            data: Record<string, any> | null
+          }>
+          horizon: string
+        }
+      }
+      transfer_stock: {
+        Args: {
+          p_product_id: string
+          p_from_location_id: string
+          p_to_location_id: string
+          p_quantity: number
+          p_user_id: string
+          p_notes?: string | null
+          p_batch_id?: string | null
+        }
+        Returns: {
+          transfer_id: string
+          from_quantity: number
+          to_quantity: number
+        }
+      }
+      process_kit: {
+        Args: {
+          p_kit_product_id: string
+          p_operation: 'assemble' | 'disassemble' | 'sell'
+          p_quantity: number
+          p_user_id: string | null
+          p_location_id?: string | null
+          p_notes?: string | null
+        }
+        Returns: {
+          reference_id: string
+          kit_quantity_change: number
+          kit_quantity_after: number
+          built_from_components: number
+          components: Array<{
+            product_id: string
+            quantity_change: number
+            quantity_after: number
+          }>
+        }
+      }
+      review_inventory_count: {
+        Args: {
+          p_count_id: string
+          p_decision: 'approve' | 'reject' | 'recount'
+          p_user_id: string
+          p_assigned_to?: string | null
+          p_notes?: string | null
+        }
+        Returns: {
+          count_id: string
+          decision: 'approved' | 'rejected' | 'recount_requested'
+          posting_status: string
+          movement_id: string | null
+          recount_task_id: string | null
+        }
+      }
+      get_inventory_record_accuracy: {
+        Args: {
+          p_business_id: string
+          p_from: string
+          p_to: string
+          p_dimension?: 'business' | 'product' | 'category' | 'location' | 'counter'
+          p_bucket?: 'day' | 'week' | 'month' | 'none'
+        }
+        Returns: Array<{
+          dimension_id: string
+          dimension_label: string | null
+          bucket_start: string | null
+          counted: number
+          accurate: number
+          accuracy: number
+        }>
+      }
+      replace_cycle_count_calendar: {
+        Args: {
+          p_business_id: string
+          p_from: string
+          p_entries: any[]
+          p_user_id: string
+        }
+        Returns: {
+          removed: number
+          inserted: number
+        }
+      }
+      receive_purchase_order_line: {
+        Args: {
+          p_line_id: string
+          p_quantity: number
+          p_user_id: string | null
+          p_location_id?: string | null
+          p_barcode?: string | null
+          p_lot_number?: string | null
+          p_expiry_date?: string | null
+          p_serial_number?: string | null
+        }
+        Returns: {
+          receipt_id: string
+          movement_id: string
+          quantity_ordered: number
+          quantity_received: number
+          quantity_after: number
+          order_status: 'sent' | 'partially_received' | 'received'
+        }
+      }
     }
     Enums: {
       [_ in never]: never
@@ -52,9 +52,20 @@ CREATE TABLE IF NOT EXISTS products (
     sku VARCHAR(100),
     category VARCHAR(100),
     description TEXT,
-    current_quantity INTEGER DEFAULT 0,
-    min_quantity INTEGER DEFAULT 0,
-    max_quantity INTEGER,
+    current_quantity NUMERIC(14,3) DEFAULT 0,
+    min_quantity NUMERIC(14,3) DEFAULT 0,
+    max_quantity NUMERIC(14,3),
+    is_serialized BOOLEAN DEFAULT false, -- Counted by scanning each serial number
+    base_unit VARCHAR(20) DEFAULT 'each', -- Unit all quantities are stored in
+    allow_fractional BOOLEAN DEFAULT false, -- Weighed or measured goods (e.g. 1.250 kg)
+    
+    -- Variant families: a parent lists its dimensions, each variant picks a value per dimension
+    parent_product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    variant_options JSONB DEFAULT '[]', -- Parent only, e.g. [{"name": "Size", "values": ["S", "M"]}]
+    variant_attributes JSONB DEFAULT '{}', -- Variant only, e.g. {"Size": "M", "Color": "Red"}
+    is_kit BOOLEAN DEFAULT false, -- Assembled from the components in kit_components
+    accuracy_flagged_at TIMESTAMPTZ, -- Repeatedly miscounted; counted more often until it comes right
+    
     unit_cost DECIMAL(10,2),
     sell_price DECIMAL(10,2),
     
@@ -70,7 +81,7 @@ CREATE TABLE IF NOT EXISTS products (
     last_accessed TIMESTAMPTZ DEFAULT NOW(),
     access_count INTEGER DEFAULT 0,
     
-    -- Location tracking
+    -- Location tracking (legacy; per-location balances live in stock_levels)
     locations JSONB DEFAULT '[]', -- Array of warehouse locations
     
     -- Timestamps
@@ -79,7 +90,21 @@ CREATE TABLE IF NOT EXISTS products (
     
     -- Constraints
     CONSTRAINT positive_quantity CHECK (current_quantity >= 0),
-    CONSTRAINT valid_min_max CHECK (min_quantity <= max_quantity OR max_quantity IS NULL)
+    CONSTRAINT valid_min_max CHECK (min_quantity <= max_quantity OR max_quantity IS NULL),
+    CONSTRAINT not_own_parent CHECK (parent_product_id IS NULL OR parent_product_id <> id)
+);
+
+-- Identifiers of a product in external systems (Shopify product/variant ids, ...)
+CREATE TABLE IF NOT EXISTS product_external_refs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    provider VARCHAR(50) NOT NULL, -- 'shopify', 'quickbooks', ...
+    external_id VARCHAR(100) NOT NULL,
+    external_parent_id VARCHAR(100), -- e.g. the Shopify product id of a variant
+    synced_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(business_id, provider, external_id),
+    UNIQUE(product_id, provider)
 );
 
 -- Product categories for efficient filtering
@@ -94,6 +119,256 @@ CREATE TABLE IF NOT EXISTS product_categories (
     UNIQUE(business_id, name)
 );
 
+-- =============================================
+-- LOCATIONS & PER-LOCATION STOCK
+-- =============================================
+
+-- Physical stock locations (warehouse, back room, sales floor, bins)
+CREATE TABLE IF NOT EXISTS locations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    code VARCHAR(50), -- Short code printed on shelf labels
+    type VARCHAR(20) DEFAULT 'warehouse' CHECK (type IN ('warehouse', 'backroom', 'sales_floor', 'bin', 'other')),
+    parent_id UUID REFERENCES locations(id), -- Bins nest inside rooms
+    is_default BOOLEAN DEFAULT false,
+    active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(business_id, name)
+);
+
+-- Per-product, per-location balances (cached; derived from stock_movements)
+CREATE TABLE IF NOT EXISTS stock_levels (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+    quantity NUMERIC(14,3) NOT NULL DEFAULT 0,
+    last_counted TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(product_id, location_id),
+    CONSTRAINT positive_stock_level CHECK (quantity >= 0)
+);
+
+-- Lot / batch balances with expiry (cached; derived from stock_movements).
+-- A lot without a location_id is stock not tracked by location.
+CREATE TABLE IF NOT EXISTS stock_lots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+    lot_number VARCHAR(100) NOT NULL,
+    expiry_date DATE,
+    quantity NUMERIC(14,3) NOT NULL DEFAULT 0,
+    first_received_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT positive_lot_quantity CHECK (quantity >= 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_lots_identity ON stock_lots(
+    product_id,
+    COALESCE(location_id, '00000000-0000-0000-0000-000000000000'::UUID),
+    lot_number
+);
+
+-- Alternate units of measure (case, inner pack, ...), each with its own barcode.
+-- conversion_factor is the number of base units in one of this unit.
+CREATE TABLE IF NOT EXISTS product_units (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    name VARCHAR(50) NOT NULL,
+    conversion_factor NUMERIC(14,3) NOT NULL,
+    barcode VARCHAR(50),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(product_id, name),
+    CONSTRAINT positive_conversion_factor CHECK (conversion_factor > 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_units_barcode ON product_units(business_id, barcode) WHERE barcode IS NOT NULL;
+
+-- Bill of materials: how much of each component goes into one kit
+CREATE TABLE IF NOT EXISTS kit_components (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    kit_product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    component_product_id UUID REFERENCES products(id) ON DELETE RESTRICT,
+    quantity NUMERIC(14,3) NOT NULL, -- Component base units per kit
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(kit_product_id, component_product_id),
+    CONSTRAINT positive_component_quantity CHECK (quantity > 0),
+    CONSTRAINT kit_not_own_component CHECK (kit_product_id <> component_product_id)
+);
+
+-- Individually tracked units of serialized products
+CREATE TABLE IF NOT EXISTS serial_numbers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    serial_number VARCHAR(100) NOT NULL,
+    location_id UUID REFERENCES locations(id),
+    status VARCHAR(20) NOT NULL DEFAULT 'in_stock' CHECK (status IN ('in_stock', 'missing', 'sold', 'removed')),
+    received_at TIMESTAMPTZ DEFAULT NOW(),
+    last_seen_at TIMESTAMPTZ DEFAULT NOW(), -- Last time a count or receipt scanned it
+    last_count_id UUID,
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(product_id, serial_number)
+);
+
+-- Inter-location transfers (both balances change in one transaction)
+CREATE TABLE IF NOT EXISTS stock_transfers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    from_location_id UUID REFERENCES locations(id),
+    to_location_id UUID REFERENCES locations(id),
+    quantity NUMERIC(14,3) NOT NULL,
+    transferred_by UUID REFERENCES auth.users(id),
+    notes TEXT,
+    batch_id VARCHAR(100), -- Set when part of a bulk_transfer batch operation
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT positive_transfer CHECK (quantity > 0),
+    CONSTRAINT distinct_transfer_locations CHECK (from_location_id <> to_location_id)
+);
+
+-- =============================================
+-- STOCK MOVEMENT JOURNAL
+-- =============================================
+
+-- Append-only journal of every stock change. stock_levels.quantity and
+-- products.current_quantity are running totals of these rows.
+CREATE TABLE IF NOT EXISTS stock_movements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    location_id UUID REFERENCES locations(id), -- NULL for stock not tracked by location
+    reason VARCHAR(20) NOT NULL CHECK (reason IN ('receive', 'sell', 'adjust', 'count_correction', 'transfer_in', 'transfer_out', 'write_off', 'kit_assembly', 'kit_disassembly')),
+    quantity_change NUMERIC(14,3) NOT NULL, -- Signed delta
+    quantity_after NUMERIC(14,3), -- Balance after this movement (filled by trigger)
+    lot_number VARCHAR(100), -- Also moves the matching stock_lots row when set
+    expiry_date DATE,
+    
+    -- What caused the movement
+    reference_type VARCHAR(50), -- 'inventory_count', 'stock_transfer', 'batch_operation', ...
+    reference_id VARCHAR(100),
+    performed_by UUID REFERENCES auth.users(id),
+    notes TEXT,
+    
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =============================================
+-- SUPPLIERS
+-- =============================================
+
+-- Supplier directory
+CREATE TABLE IF NOT EXISTS suppliers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    contact_name VARCHAR(255),
+    email VARCHAR(255),
+    phone VARCHAR(50),
+    address TEXT,
+    website VARCHAR(255),
+    default_lead_time_days INTEGER DEFAULT 7, -- Used when a product has no specific lead time
+    notes TEXT,
+    active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(business_id, name),
+    CONSTRAINT non_negative_default_lead_time CHECK (default_lead_time_days >= 0)
+);
+
+-- Per-product purchasing terms from each supplier
+CREATE TABLE IF NOT EXISTS supplier_products (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    supplier_id UUID REFERENCES suppliers(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    supplier_sku VARCHAR(100),
+    unit_cost DECIMAL(10,2),
+    min_order_quantity INTEGER DEFAULT 1,
+    pack_size INTEGER DEFAULT 1, -- Orders are placed in whole packs
+    lead_time_days INTEGER, -- NULL falls back to suppliers.default_lead_time_days
+    is_preferred BOOLEAN DEFAULT false,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(supplier_id, product_id),
+    CONSTRAINT positive_min_order CHECK (min_order_quantity >= 1),
+    CONSTRAINT positive_pack_size CHECK (pack_size >= 1),
+    CONSTRAINT non_negative_lead_time CHECK (lead_time_days IS NULL OR lead_time_days >= 0)
+);
+
+-- =============================================
+-- PURCHASING & RECEIVING
+-- =============================================
+
+-- Purchase orders: draft -> sent -> partially_received -> received -> closed
+CREATE TABLE IF NOT EXISTS purchase_orders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    po_number VARCHAR(50) NOT NULL,
+    supplier_id UUID REFERENCES suppliers(id),
+    supplier_name VARCHAR(255) NOT NULL, -- Snapshot at time of ordering
+    status VARCHAR(20) DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'closed')),
+    expected_date DATE,
+    receive_location_id UUID REFERENCES locations(id), -- Where scanned receipts are put away by default
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    sent_at TIMESTAMPTZ,
+    received_at TIMESTAMPTZ,
+    closed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(business_id, po_number)
+);
+
+-- One line per product; quantity_received may exceed quantity_ordered (over-receipt)
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    purchase_order_id UUID REFERENCES purchase_orders(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    quantity_ordered NUMERIC(14,3) NOT NULL DEFAULT 0,
+    quantity_received NUMERIC(14,3) NOT NULL DEFAULT 0,
+    unit_cost DECIMAL(10,2),
+    expected_date DATE, -- Overrides the order's date for split deliveries
+    source VARCHAR(20) DEFAULT 'manual' CHECK (source IN ('manual', 'reorder_suggestion', 'unexpected')),
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(purchase_order_id, product_id),
+    CONSTRAINT non_negative_ordered CHECK (quantity_ordered >= 0),
+    CONSTRAINT non_negative_received CHECK (quantity_received >= 0)
+);
+
+-- Individual receiving events (one per scan or keyed quantity)
+CREATE TABLE IF NOT EXISTS purchase_order_receipts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    purchase_order_id UUID REFERENCES purchase_orders(id) ON DELETE CASCADE,
+    line_id UUID REFERENCES purchase_order_lines(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    quantity NUMERIC(14,3) NOT NULL, -- Negative to reverse a mis-scan
+    location_id UUID REFERENCES locations(id),
+    lot_number VARCHAR(100),
+    expiry_date DATE,
+    serial_number VARCHAR(100),
+    movement_id UUID REFERENCES stock_movements(id),
+    scanned_barcode VARCHAR(255), -- Full GS1 element string when scanned from one
+    received_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT non_zero_receipt CHECK (quantity <> 0)
+);
+
+-- Last purchase order number issued per business; only written by the
+-- assign_po_number trigger
+CREATE TABLE IF NOT EXISTS purchase_order_counters (
+    business_id UUID PRIMARY KEY REFERENCES businesses(id) ON DELETE CASCADE,
+    last_number INTEGER NOT NULL
+);
+
 -- =============================================
 -- INVENTORY TRACKING & REAL-TIME SYNC
 -- =============================================
@@ -105,19 +380,31 @@ CREATE TABLE IF NOT EXISTS inventory_counts (
     session_id UUID, -- Links to counting sessions
     
     -- Count details
-    quantity INTEGER NOT NULL,
-    previous_quantity INTEGER,
-    quantity_difference INTEGER GENERATED ALWAYS AS (quantity - COALESCE(previous_quantity, 0)) STORED,
+    quantity NUMERIC(14,3) NOT NULL,
+    previous_quantity NUMERIC(14,3),
+    quantity_difference NUMERIC(14,3) GENERATED ALWAYS AS (quantity - COALESCE(previous_quantity, 0)) STORED,
     
     -- Location and user tracking
     location VARCHAR(100),
+    location_id UUID REFERENCES locations(id), -- Targets a stock_levels row when set
+    lot_number VARCHAR(100), -- Counts a single lot when set
+    expiry_date DATE,
+    scanned_serials TEXT[], -- Serialized products: quantity is the number of serials
+    missing_serials TEXT[], -- On hand before the count but not scanned (set by trigger)
+    unexpected_serials TEXT[], -- Scanned but not on hand here (set by trigger)
     counted_by UUID REFERENCES auth.users(id),
+    
+    -- Approval workflow: pending lines only reach stock once a supervisor approves them
+    posting_status VARCHAR(20) DEFAULT 'posted' CHECK (posting_status IN ('posted', 'pending_approval', 'approved', 'rejected', 'superseded')),
+    recount_of_id UUID REFERENCES inventory_counts(id), -- The line this recount replaces
+    
     device_info JSONB DEFAULT '{}', -- Mobile device metadata
     gps_coordinates JSONB, -- For warehouse location tracking
     
     -- Mobile sync management
     offline_synced BOOLEAN DEFAULT false,
     sync_batch_id UUID,
+    client_operation_id VARCHAR(255), -- Idempotency-Key of the offline operation that recorded it
     conflict_resolved BOOLEAN DEFAULT false,
     conflict_data JSONB,
     
@@ -137,6 +424,62 @@ CREATE TABLE IF NOT EXISTS inventory_counts (
     CONSTRAINT positive_count CHECK (quantity >= 0)
 );
 
+-- Recounts a supervisor ordered for individual count lines
+CREATE TABLE IF NOT EXISTS recount_tasks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    session_id UUID,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    original_count_id UUID REFERENCES inventory_counts(id) ON DELETE CASCADE,
+    location_id UUID REFERENCES locations(id),
+    lot_number VARCHAR(100),
+    assigned_to UUID REFERENCES auth.users(id), -- Never the original counter
+    requested_by UUID REFERENCES auth.users(id),
+    status VARCHAR(20) DEFAULT 'open' CHECK (status IN ('open', 'completed', 'cancelled')),
+    recount_id UUID REFERENCES inventory_counts(id),
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+-- Audit trail of every decision taken on a count line (written by review functions only)
+CREATE TABLE IF NOT EXISTS count_review_decisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    session_id UUID,
+    count_id UUID REFERENCES inventory_counts(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    decision VARCHAR(20) NOT NULL CHECK (decision IN ('auto_approved', 'approved', 'rejected', 'recount_requested', 'superseded')),
+    decided_by UUID REFERENCES auth.users(id), -- NULL for automatic approvals
+    assigned_to UUID REFERENCES auth.users(id), -- Recount counter
+    counted_quantity NUMERIC(14,3),
+    expected_quantity NUMERIC(14,3),
+    variance NUMERIC(14,3),
+    movement_id UUID REFERENCES stock_movements(id), -- Set when the decision posted stock
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Each count line scored against the record it was compared with, for
+-- inventory record accuracy (IRA) history. Written by trigger only, using the
+-- business tolerance in force when the line was counted.
+CREATE TABLE IF NOT EXISTS count_accuracy_results (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    count_id UUID UNIQUE REFERENCES inventory_counts(id) ON DELETE CASCADE,
+    session_id UUID,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    category VARCHAR(100), -- Product category when counted
+    location_id UUID REFERENCES locations(id) ON DELETE SET NULL,
+    counted_by UUID REFERENCES auth.users(id),
+    expected_quantity NUMERIC(14,3) NOT NULL,
+    counted_quantity NUMERIC(14,3) NOT NULL,
+    tolerance NUMERIC(14,3) NOT NULL, -- Largest difference still counted as a match
+    within_tolerance BOOLEAN NOT NULL,
+    counts_toward_record BOOLEAN NOT NULL DEFAULT true, -- False once the line is rejected or superseded
+    counted_at TIMESTAMPTZ NOT NULL
+);
+
 -- Counting sessions for collaboration
 CREATE TABLE IF NOT EXISTS counting_sessions (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -149,9 +492,14 @@ CREATE TABLE IF NOT EXISTS counting_sessions (
     participants JSONB DEFAULT '[]', -- Array of user IDs
     
     -- Status and settings
-    status VARCHAR(20) DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed', 'cancelled')),
+    status VARCHAR(20) DEFAULT 'active' CHECK (status IN ('planning', 'active', 'paused', 'completed', 'cancelled')),
     settings JSONB DEFAULT '{"allow_negative": false, "require_photos": false, "voice_enabled": true}',
     
+    -- Live collaboration state, so any server instance can pick the session up
+    zones JSONB DEFAULT '[]', -- Zones with their assigned counter and status
+    progress JSONB DEFAULT '{}', -- Totals plus per-participant progress
+    expected_duration INTEGER, -- Minutes
+    
     -- Location constraints
     allowed_locations JSONB DEFAULT '[]',
     gps_fence JSONB, -- Geofencing data
@@ -163,7 +511,103 @@ CREATE TABLE IF NOT EXISTS counting_sessions (
     -- Statistics
     total_counts INTEGER DEFAULT 0,
     unique_products INTEGER DEFAULT 0,
-    total_participants INTEGER DEFAULT 0
+    total_participants INTEGER DEFAULT 0,
+    
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Who is in a live session and what they are doing
+CREATE TABLE IF NOT EXISTS counting_session_presence (
+    session_id UUID REFERENCES counting_sessions(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    user_name VARCHAR(255),
+    role VARCHAR(20),
+    status VARCHAR(20) DEFAULT 'active' CHECK (status IN ('active', 'idle', 'counting', 'offline')),
+    current_zone VARCHAR(100),
+    current_product UUID,
+    device_info JSONB,
+    location JSONB,
+    last_activity TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (session_id, user_id)
+);
+
+-- One counter per product per session; claim_counting_lock takes over expired locks
+CREATE TABLE IF NOT EXISTS counting_product_locks (
+    session_id UUID REFERENCES counting_sessions(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    lock_type VARCHAR(20) DEFAULT 'count' CHECK (lock_type IN ('count', 'edit', 'transfer')),
+    locked_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (session_id, product_id)
+);
+
+-- Open and settled conflicts between counters in a session
+CREATE TABLE IF NOT EXISTS counting_conflicts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID REFERENCES counting_sessions(id) ON DELETE CASCADE,
+    type VARCHAR(30) NOT NULL CHECK (type IN ('simultaneous_count', 'quantity_mismatch', 'zone_overlap')),
+    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'resolved', 'escalated')),
+    participants JSONB DEFAULT '[]',
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    zone_id VARCHAR(100),
+    data JSONB DEFAULT '{}', -- Submissions and strategy details
+    resolution JSONB, -- Method, value and who resolved it
+    detected_at TIMESTAMPTZ DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ
+);
+
+-- Rolling calendar of planned cycle counts (regenerated from ABC classes and business hours)
+CREATE TABLE IF NOT EXISTS cycle_count_calendar (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    scheduled_date DATE NOT NULL, -- Business-local day
+    scheduled_for TIMESTAMPTZ NOT NULL,
+    ends_at TIMESTAMPTZ NOT NULL,
+    location_id UUID REFERENCES locations(id) ON DELETE SET NULL,
+    location_name VARCHAR(255),
+    items JSONB NOT NULL DEFAULT '[]', -- [{product_id, product_name, category}]
+    class_counts JSONB DEFAULT '{}', -- Items per ABC class
+    estimated_seconds INTEGER NOT NULL DEFAULT 0,
+    status VARCHAR(20) DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'started', 'completed', 'skipped')),
+    session_id UUID, -- Set once the entry is started as a session
+    generated_by UUID REFERENCES auth.users(id),
+    generated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Insights raised by the anomaly detector; the fingerprint keeps a finding
+-- from being raised again by later scans
+CREATE TABLE IF NOT EXISTS analytics_insights (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+    fingerprint VARCHAR(255) NOT NULL,
+    type VARCHAR(50) NOT NULL,
+    category VARCHAR(50) NOT NULL,
+    severity VARCHAR(20) CHECK (severity IN ('minor', 'moderate', 'severe')),
+    impact VARCHAR(10) NOT NULL CHECK (impact IN ('high', 'medium', 'low')),
+    title TEXT NOT NULL,
+    description TEXT,
+    confidence NUMERIC(4,3),
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    location_id UUID REFERENCES locations(id) ON DELETE SET NULL,
+    user_id UUID REFERENCES auth.users(id), -- The counter or adjuster concerned
+    data JSONB DEFAULT '{}',
+    recommended_actions JSONB DEFAULT '[]',
+    generated_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ,
+    UNIQUE (business_id, fingerprint)
+);
+
+-- Latest market basket analysis per business, rebuilt by the nightly job
+CREATE TABLE IF NOT EXISTS market_basket_analyses (
+    business_id UUID PRIMARY KEY REFERENCES businesses(id) ON DELETE CASCADE,
+    period_start TIMESTAMPTZ NOT NULL,
+    period_end TIMESTAMPTZ NOT NULL,
+    basket_count INTEGER NOT NULL DEFAULT 0,
+    analysis JSONB NOT NULL DEFAULT '{}', -- {rules, frequentItemsets, crossSellingOpportunities, bundles}
+    product_names JSONB DEFAULT '{}', -- Product id => name for every product in the analysis
+    computed_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 -- =============================================
@@ -207,6 +651,38 @@ CREATE TABLE IF NOT EXISTS sync_queue (
     INDEX idx_sync_queue_user_device ON sync_queue(user_id, device_id)
 );
 
+-- Client operation IDs already handled by the API, with the original response
+-- so a replayed request (e.g. a retry after a timeout) is answered without
+-- being applied twice. 'processing' rows are claims on in-flight requests.
+CREATE TABLE IF NOT EXISTS processed_operations (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    device_id VARCHAR(255) NOT NULL DEFAULT '',
+    operation_id VARCHAR(255) NOT NULL,
+    method VARCHAR(10) NOT NULL,
+    path TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+    response_status INTEGER,
+    response_body JSONB,
+    response_headers JSONB DEFAULT '{}',
+    claimed_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    PRIMARY KEY (user_id, device_id, operation_id)
+);
+
+-- Change log for delta sync: one row per synced record, rewritten on every
+-- change, so a device pulls each record once however often it changed.
+-- Deletes stay as tombstones until every device has had time to see them.
+-- txid orders the log by writing transaction (see get_sync_changes).
+CREATE TABLE IF NOT EXISTS sync_changes (
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('product', 'location', 'stock_level')),
+    record_id UUID NOT NULL,
+    deleted BOOLEAN NOT NULL DEFAULT false,
+    txid XID8 NOT NULL DEFAULT pg_current_xact_id(),
+    changed_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (entity_type, record_id)
+);
+
 -- =============================================
 -- MOBILE PERFORMANCE OPTIMIZATION
 -- =============================================
@@ -217,12 +693,45 @@ CREATE INDEX IF NOT EXISTS idx_products_business_sku ON products(business_id, sk
 CREATE INDEX IF NOT EXISTS idx_products_business_name ON products(business_id, name);
 CREATE INDEX IF NOT EXISTS idx_products_business_category ON products(business_id, category) WHERE category IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_products_last_accessed ON products(business_id, last_accessed DESC);
+CREATE INDEX IF NOT EXISTS idx_products_parent ON products(parent_product_id) WHERE parent_product_id IS NOT NULL;
+
+-- Location and stock level indexes
+CREATE INDEX IF NOT EXISTS idx_locations_business ON locations(business_id, active);
+CREATE INDEX IF NOT EXISTS idx_stock_levels_location ON stock_levels(location_id, product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_product ON stock_transfers(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_lots_expiry ON stock_lots(business_id, expiry_date) WHERE quantity > 0;
+CREATE INDEX IF NOT EXISTS idx_kit_components_component ON kit_components(component_product_id);
+CREATE INDEX IF NOT EXISTS idx_serial_numbers_product ON serial_numbers(product_id, status, location_id);
+
+-- Movement journal indexes (as-of queries scan by product and time)
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product_time ON stock_movements(product_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_location_time ON stock_movements(location_id, created_at) WHERE location_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_stock_movements_reference ON stock_movements(reference_type, reference_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_movements_client_operation ON stock_movements(performed_by, reference_id) WHERE reference_type = 'client_operation';
+CREATE INDEX IF NOT EXISTS idx_stock_movements_losses ON stock_movements(business_id, created_at) WHERE reason IN ('adjust', 'write_off', 'count_correction');
+CREATE INDEX IF NOT EXISTS idx_stock_movements_sales ON stock_movements(business_id, created_at) WHERE reason = 'sell';
+
+-- Supplier indexes
+CREATE INDEX IF NOT EXISTS idx_suppliers_business ON suppliers(business_id, active);
+CREATE INDEX IF NOT EXISTS idx_supplier_products_product ON supplier_products(product_id, is_preferred DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supplier_products_one_preferred ON supplier_products(product_id) WHERE is_preferred;
+
+-- Purchasing indexes
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_business_status ON purchase_orders(business_id, status, expected_date);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_product ON purchase_order_lines(product_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_receipts_order ON purchase_order_receipts(purchase_order_id, created_at DESC);
 
 -- Real-time sync indexes
 CREATE INDEX IF NOT EXISTS idx_counts_sync ON inventory_counts(offline_synced, sync_priority DESC, counted_at ASC);
 CREATE INDEX IF NOT EXISTS idx_counts_product_recent ON inventory_counts(product_id, counted_at DESC);
 CREATE INDEX IF NOT EXISTS idx_counts_session ON inventory_counts(session_id, counted_at DESC) WHERE session_id IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_counts_user_device ON inventory_counts(counted_by, device_info) WHERE offline_synced = false;
+CREATE INDEX IF NOT EXISTS idx_counts_pending_approval ON inventory_counts(session_id, counted_at) WHERE posting_status = 'pending_approval';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_counts_client_operation ON inventory_counts(counted_by, client_operation_id) WHERE client_operation_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_recount_tasks_assignee ON recount_tasks(assigned_to, status) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_count_review_decisions_count ON count_review_decisions(count_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_count_accuracy_business ON count_accuracy_results(business_id, counted_at);
+CREATE INDEX IF NOT EXISTS idx_count_accuracy_product ON count_accuracy_results(product_id, counted_at DESC) WHERE counts_toward_record;
 
 -- Business and team indexes
 CREATE INDEX IF NOT EXISTS idx_team_members_business ON team_members(business_id, status) WHERE status = 'active';
@@ -231,6 +740,15 @@ CREATE INDEX IF NOT EXISTS idx_team_members_user ON team_members(user_id, status
 -- Session management indexes
 CREATE INDEX IF NOT EXISTS idx_sessions_business_active ON counting_sessions(business_id, status, started_at DESC) WHERE status = 'active';
 CREATE INDEX IF NOT EXISTS idx_sessions_participant ON counting_sessions USING GIN(participants);
+CREATE INDEX IF NOT EXISTS idx_sessions_live ON counting_sessions(status) WHERE status IN ('planning', 'active', 'paused');
+CREATE INDEX IF NOT EXISTS idx_sessions_completed ON counting_sessions(business_id, completed_at DESC) WHERE status = 'completed';
+CREATE INDEX IF NOT EXISTS idx_counting_locks_expiry ON counting_product_locks(expires_at);
+CREATE INDEX IF NOT EXISTS idx_counting_conflicts_open ON counting_conflicts(session_id, detected_at) WHERE status <> 'resolved';
+CREATE INDEX IF NOT EXISTS idx_cycle_count_calendar_business ON cycle_count_calendar(business_id, scheduled_for);
+CREATE INDEX IF NOT EXISTS idx_analytics_insights_business ON analytics_insights(business_id, generated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_processed_operations_claimed ON processed_operations(claimed_at);
+CREATE INDEX IF NOT EXISTS idx_sync_changes_position ON sync_changes(business_id, txid, entity_type, record_id);
+CREATE INDEX IF NOT EXISTS idx_sync_changes_tombstones ON sync_changes(changed_at) WHERE deleted;
 
 -- =============================================
 -- ROW LEVEL SECURITY POLICIES
@@ -242,8 +760,34 @@ ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
 ALTER TABLE products ENABLE ROW LEVEL SECURITY;
 ALTER TABLE product_categories ENABLE ROW LEVEL SECURITY;
 ALTER TABLE inventory_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recount_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE count_review_decisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE count_accuracy_results ENABLE ROW LEVEL SECURITY;
 ALTER TABLE counting_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE counting_session_presence ENABLE ROW LEVEL SECURITY;
+ALTER TABLE counting_product_locks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE counting_conflicts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cycle_count_calendar ENABLE ROW LEVEL SECURITY;
+ALTER TABLE analytics_insights ENABLE ROW LEVEL SECURITY;
+ALTER TABLE market_basket_analyses ENABLE ROW LEVEL SECURITY;
 ALTER TABLE sync_queue ENABLE ROW LEVEL SECURITY;
+ALTER TABLE processed_operations ENABLE ROW LEVEL SECURITY; -- Service role only
+ALTER TABLE sync_changes ENABLE ROW LEVEL SECURITY; -- Service role only
+ALTER TABLE locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_levels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE serial_numbers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_units ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_external_refs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kit_components ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE supplier_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_counters ENABLE ROW LEVEL SECURITY;
 
 -- Businesses policies
 CREATE POLICY "Users can view their own businesses" ON businesses
@@ -330,8 +874,7 @@ CREATE POLICY "Users with count permissions can create counts" ON inventory_coun
         )
     );
 
--- Counting sessions policies
-CREATE POLICY "Team members can view sessions" ON counting_sessions
+CREATE POLICY "Team members can view recount tasks" ON recount_tasks
     FOR SELECT USING (
         business_id IN (
             SELECT business_id FROM team_members 
@@ -339,54 +882,652 @@ CREATE POLICY "Team members can view sessions" ON counting_sessions
         )
     );
 
--- Sync queue policies (users can only access their own sync queue)
-CREATE POLICY "Users can manage their own sync queue" ON sync_queue
-    FOR ALL USING (user_id = auth.uid());
+CREATE POLICY "Admins can manage recount tasks" ON recount_tasks
+    FOR ALL USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() 
+            AND status = 'active'
+            AND (role = 'admin' OR (permissions->>'admin')::boolean = true)
+        )
+    );
 
--- =============================================
--- REAL-TIME SUBSCRIPTIONS
--- =============================================
+CREATE POLICY "Team members can view the count calendar" ON cycle_count_calendar
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
 
--- Enable real-time for inventory counts (critical for mobile sync)
-ALTER PUBLICATION supabase_realtime ADD TABLE inventory_counts;
-ALTER PUBLICATION supabase_realtime ADD TABLE products;
-ALTER PUBLICATION supabase_realtime ADD TABLE counting_sessions;
+CREATE POLICY "Admins can manage the count calendar" ON cycle_count_calendar
+    FOR ALL USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() 
+            AND status = 'active'
+            AND (role = 'admin' OR (permissions->>'admin')::boolean = true)
+        )
+    );
 
--- =============================================
--- FUNCTIONS AND TRIGGERS
--- =============================================
+-- Review decisions are append-only and written by review_inventory_count;
+-- automatic approvals are recorded by the server after posting a count
+CREATE POLICY "Team members can view count review decisions" ON count_review_decisions
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
 
--- Update timestamps trigger function
-CREATE OR REPLACE FUNCTION update_updated_at_column()
-RETURNS TRIGGER AS $$
-BEGIN
-    NEW.updated_at = NOW();
-    RETURN NEW;
-END;
-$$ language 'plpgsql';
+-- Accuracy results are written by score_count_accuracy only
+CREATE POLICY "Team members can view count accuracy" ON count_accuracy_results
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
 
--- Apply update triggers
-CREATE TRIGGER update_businesses_updated_at BEFORE UPDATE ON businesses
-    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+-- Insights are written by the anomaly detector with the service role
+CREATE POLICY "Team members can view insights" ON analytics_insights
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
 
-CREATE TRIGGER update_products_updated_at BEFORE UPDATE ON products
-    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+-- Rebuilt by the market basket job with the service role
+CREATE POLICY "Team members can view market basket analyses" ON market_basket_analyses
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
 
--- Update product quantity on inventory count
-CREATE OR REPLACE FUNCTION update_product_quantity()
-RETURNS TRIGGER AS $$
-BEGIN
-    -- Store previous quantity for audit
-    NEW.previous_quantity = (
-        SELECT current_quantity FROM products 
-        WHERE id = NEW.product_id
+-- Counting sessions policies
+CREATE POLICY "Team members can view sessions" ON counting_sessions
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
     );
+
+CREATE POLICY "Users with count permissions can manage sessions" ON counting_sessions
+    FOR ALL USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() 
+            AND status = 'active'
+            AND (permissions->>'count')::boolean = true
+        )
+    );
+
+CREATE POLICY "Team members can view session presence" ON counting_session_presence
+    FOR SELECT USING (
+        session_id IN (
+            SELECT id FROM counting_sessions 
+            WHERE business_id IN (
+                SELECT business_id FROM team_members 
+                WHERE user_id = auth.uid() AND status = 'active'
+            )
+        )
+    );
+
+CREATE POLICY "Users can manage their own session presence" ON counting_session_presence
+    FOR ALL USING (user_id = auth.uid())
+    WITH CHECK (
+        user_id = auth.uid()
+        AND session_id IN (
+            SELECT id FROM counting_sessions 
+            WHERE business_id IN (
+                SELECT business_id FROM team_members 
+                WHERE user_id = auth.uid() AND status = 'active'
+            )
+        )
+    );
+
+CREATE POLICY "Team members can view product locks" ON counting_product_locks
+    FOR SELECT USING (
+        session_id IN (
+            SELECT id FROM counting_sessions 
+            WHERE business_id IN (
+                SELECT business_id FROM team_members 
+                WHERE user_id = auth.uid() AND status = 'active'
+            )
+        )
+    );
+
+CREATE POLICY "Users can release their own product locks" ON counting_product_locks
+    FOR DELETE USING (user_id = auth.uid());
+
+CREATE POLICY "Team members can view counting conflicts" ON counting_conflicts
+    FOR SELECT USING (
+        session_id IN (
+            SELECT id FROM counting_sessions 
+            WHERE business_id IN (
+                SELECT business_id FROM team_members 
+                WHERE user_id = auth.uid() AND status = 'active'
+            )
+        )
+    );
+
+-- Counters report conflicts; resolving them goes through the server
+CREATE POLICY "Users with count permissions can report counting conflicts" ON counting_conflicts
+    FOR INSERT WITH CHECK (
+        session_id IN (
+            SELECT id FROM counting_sessions 
+            WHERE business_id IN (
+                SELECT business_id FROM team_members 
+                WHERE user_id = auth.uid() 
+                AND status = 'active'
+                AND (permissions->>'count')::boolean = true
+            )
+        )
+    );
+
+-- Sync queue policies (users can only access their own sync queue)
+CREATE POLICY "Users can manage their own sync queue" ON sync_queue
+    FOR ALL USING (user_id = auth.uid());
+
+-- Location and stock level policies
+CREATE POLICY "Team members can view locations" ON locations
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "Admins can manage locations" ON locations
+    FOR ALL USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND role = 'admin' AND status = 'active'
+        )
+    );
+
+CREATE POLICY "Team members can view stock levels" ON stock_levels
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "Team members can view stock lots" ON stock_lots
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "Team members can view product units" ON product_units
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "Users with edit permissions can manage product units" ON product_units
+    FOR ALL USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() 
+            AND status = 'active'
+            AND (permissions->>'edit')::boolean = true
+        )
+    );
+
+CREATE POLICY "Team members can view product external refs" ON product_external_refs
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "Users with edit permissions can manage product external refs" ON product_external_refs
+    FOR ALL USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() 
+            AND status = 'active'
+            AND (permissions->>'edit')::boolean = true
+        )
+    );
+
+CREATE POLICY "Team members can view kit components" ON kit_components
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "Users with edit permissions can manage kit components" ON kit_components
+    FOR ALL USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() 
+            AND status = 'active'
+            AND (permissions->>'edit')::boolean = true
+        )
+    );
+
+CREATE POLICY "Team members can view serial numbers" ON serial_numbers
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "Team members can view stock transfers" ON stock_transfers
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Movements are read-only for clients; they are posted by server functions
+CREATE POLICY "Team members can view stock movements" ON stock_movements
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+-- Supplier policies
+CREATE POLICY "Team members can view suppliers" ON suppliers
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "Users with edit permissions can manage suppliers" ON suppliers
+    FOR ALL USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() 
+            AND status = 'active'
+            AND (permissions->>'edit')::boolean = true
+        )
+    );
+
+CREATE POLICY "Team members can view supplier products" ON supplier_products
+    FOR SELECT USING (
+        supplier_id IN (
+            SELECT id FROM suppliers 
+            WHERE business_id IN (
+                SELECT business_id FROM team_members 
+                WHERE user_id = auth.uid() AND status = 'active'
+            )
+        )
+    );
+
+CREATE POLICY "Users with edit permissions can manage supplier products" ON supplier_products
+    FOR ALL USING (
+        supplier_id IN (
+            SELECT id FROM suppliers 
+            WHERE business_id IN (
+                SELECT business_id FROM team_members 
+                WHERE user_id = auth.uid() 
+                AND status = 'active'
+                AND (permissions->>'edit')::boolean = true
+            )
+        )
+    );
+
+-- Purchase order policies (receipts are posted by receive_purchase_order_line)
+CREATE POLICY "Team members can view purchase orders" ON purchase_orders
+    FOR SELECT USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "Users with edit permissions can manage purchase orders" ON purchase_orders
+    FOR ALL USING (
+        business_id IN (
+            SELECT business_id FROM team_members 
+            WHERE user_id = auth.uid() 
+            AND status = 'active'
+            AND (permissions->>'edit')::boolean = true
+        )
+    );
+
+CREATE POLICY "Team members can view purchase order lines" ON purchase_order_lines
+    FOR SELECT USING (
+        purchase_order_id IN (
+            SELECT id FROM purchase_orders 
+            WHERE business_id IN (
+                SELECT business_id FROM team_members 
+                WHERE user_id = auth.uid() AND status = 'active'
+            )
+        )
+    );
+
+CREATE POLICY "Users with edit permissions can manage purchase order lines" ON purchase_order_lines
+    FOR ALL USING (
+        purchase_order_id IN (
+            SELECT id FROM purchase_orders 
+            WHERE business_id IN (
+                SELECT business_id FROM team_members 
+                WHERE user_id = auth.uid() 
+                AND status = 'active'
+                AND (permissions->>'edit')::boolean = true
+            )
+        )
+    );
+
+CREATE POLICY "Team members can view purchase order receipts" ON purchase_order_receipts
+    FOR SELECT USING (
+        purchase_order_id IN (
+            SELECT id FROM purchase_orders 
+            WHERE business_id IN (
+                SELECT business_id FROM team_members 
+                WHERE user_id = auth.uid() AND status = 'active'
+            )
+        )
+    );
+
+-- =============================================
+-- REAL-TIME SUBSCRIPTIONS
+-- =============================================
+
+-- Enable real-time for inventory counts (critical for mobile sync)
+ALTER PUBLICATION supabase_realtime ADD TABLE inventory_counts;
+ALTER PUBLICATION supabase_realtime ADD TABLE products;
+ALTER PUBLICATION supabase_realtime ADD TABLE counting_sessions;
+ALTER PUBLICATION supabase_realtime ADD TABLE counting_session_presence;
+ALTER PUBLICATION supabase_realtime ADD TABLE counting_product_locks;
+ALTER PUBLICATION supabase_realtime ADD TABLE stock_levels;
+ALTER PUBLICATION supabase_realtime ADD TABLE stock_lots;
+ALTER PUBLICATION supabase_realtime ADD TABLE stock_movements;
+ALTER PUBLICATION supabase_realtime ADD TABLE purchase_order_lines;
+
+-- =============================================
+-- FUNCTIONS AND TRIGGERS
+-- =============================================
+
+-- Update timestamps trigger function
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- SECURITY DEFINER functions bypass RLS and take ids from the caller. API
+-- routes call them with the service role; any other caller must be an active
+-- member of the business and may only act as themselves.
+CREATE OR REPLACE FUNCTION assert_business_access(p_business_id UUID, p_user_id UUID DEFAULT NULL)
+RETURNS VOID AS $$
+BEGIN
+    -- No JWT at all: a direct database connection or pg_cron
+    IF COALESCE(auth.role(), 'service_role') = 'service_role' THEN
+        RETURN;
+    END IF;
+
+    IF p_user_id IS NOT NULL AND p_user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Cannot act on behalf of another user' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM team_members
+        WHERE user_id = auth.uid() AND business_id = p_business_id AND status = 'active'
+    ) THEN
+        RAISE EXCEPTION 'Not a member of business %', p_business_id USING ERRCODE = '42501';
+    END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Apply update triggers
+CREATE TRIGGER update_businesses_updated_at BEFORE UPDATE ON businesses
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_products_updated_at BEFORE UPDATE ON products
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_counting_sessions_updated_at BEFORE UPDATE ON counting_sessions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_suppliers_updated_at BEFORE UPDATE ON suppliers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_supplier_products_updated_at BEFORE UPDATE ON supplier_products
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_purchase_orders_updated_at BEFORE UPDATE ON purchase_orders
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Number new purchase orders per business (PO-00001, PO-00002, ...). The
+-- counter row lock serialises concurrent inserts, so two orders can't be
+-- given the same number. A business's first order continues from any orders
+-- created before the counter existed.
+CREATE OR REPLACE FUNCTION assign_po_number()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_number INTEGER;
+BEGIN
+    IF NEW.po_number IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO purchase_order_counters (business_id, last_number)
+    VALUES (
+        NEW.business_id,
+        (SELECT COUNT(*) + 1 FROM purchase_orders WHERE business_id = NEW.business_id)
+    )
+    ON CONFLICT (business_id) DO UPDATE
+        SET last_number = purchase_order_counters.last_number + 1
+    RETURNING last_number INTO v_number;
+
+    NEW.po_number := 'PO-' || LPAD(v_number::TEXT, 5, '0');
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER assign_purchase_order_number BEFORE INSERT ON purchase_orders
+    FOR EACH ROW EXECUTE FUNCTION assign_po_number();
+
+CREATE TRIGGER update_purchase_order_lines_updated_at BEFORE UPDATE ON purchase_order_lines
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_serial_numbers_updated_at BEFORE UPDATE ON serial_numbers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_product_units_updated_at BEFORE UPDATE ON product_units
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_kit_components_updated_at BEFORE UPDATE ON kit_components
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Record a change to a synced table in the delta sync log. TG_ARGV[0] is the
+-- entity type. Updates that only touch bookkeeping columns (timestamps,
+-- access tracking) are not changes a device needs to pull.
+CREATE OR REPLACE FUNCTION record_sync_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_row JSONB := to_jsonb(CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END);
+BEGIN
+    IF TG_OP = 'UPDATE' AND
+       to_jsonb(NEW) - 'updated_at' - 'last_accessed' - 'access_count' =
+       to_jsonb(OLD) - 'updated_at' - 'last_accessed' - 'access_count' THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_row->>'business_id' IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO sync_changes (business_id, entity_type, record_id, deleted)
+    VALUES ((v_row->>'business_id')::UUID, TG_ARGV[0], (v_row->>'id')::UUID, TG_OP = 'DELETE')
+    ON CONFLICT (entity_type, record_id) DO UPDATE SET
+        business_id = EXCLUDED.business_id,
+        deleted = EXCLUDED.deleted,
+        txid = pg_current_xact_id(),
+        changed_at = NOW();
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER record_products_sync_change AFTER INSERT OR UPDATE OR DELETE ON products
+    FOR EACH ROW EXECUTE FUNCTION record_sync_change('product');
+
+CREATE TRIGGER record_locations_sync_change AFTER INSERT OR UPDATE OR DELETE ON locations
+    FOR EACH ROW EXECUTE FUNCTION record_sync_change('location');
+
+CREATE TRIGGER record_stock_levels_sync_change AFTER INSERT OR UPDATE OR DELETE ON stock_levels
+    FOR EACH ROW EXECUTE FUNCTION record_sync_change('stock_level');
+
+-- Rows that predate the log
+INSERT INTO sync_changes (business_id, entity_type, record_id)
+SELECT business_id, 'product', id FROM products WHERE business_id IS NOT NULL
+UNION ALL
+SELECT business_id, 'location', id FROM locations WHERE business_id IS NOT NULL
+UNION ALL
+SELECT business_id, 'stock_level', id FROM stock_levels WHERE business_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Lock a product's stock and read the balance a count or adjustment targets:
+-- the lot's, the location's or the product total. Every movement updates the
+-- product row, so holding its lock keeps the balance stable until commit.
+CREATE OR REPLACE FUNCTION lock_stock_balance(
+    p_product_id UUID,
+    p_location_id UUID DEFAULT NULL,
+    p_lot_number VARCHAR(100) DEFAULT NULL
+)
+RETURNS NUMERIC(14,3) AS $$
+DECLARE
+    v_current NUMERIC(14,3);
+BEGIN
+    SELECT current_quantity INTO v_current FROM products
+    WHERE id = p_product_id
+    FOR UPDATE;
+
+    IF p_lot_number IS NOT NULL THEN
+        SELECT quantity INTO v_current FROM stock_lots
+        WHERE product_id = p_product_id
+        AND location_id IS NOT DISTINCT FROM p_location_id
+        AND lot_number = p_lot_number;
+    ELSIF p_location_id IS NOT NULL THEN
+        SELECT quantity INTO v_current FROM stock_levels
+        WHERE product_id = p_product_id AND location_id = p_location_id;
+    END IF;
+
+    RETURN COALESCE(v_current, 0);
+END;
+$$ language 'plpgsql';
+
+-- Post a count line to stock: the difference goes to the movement journal and
+-- serial statuses follow the scan. Returns the movement id. The difference is
+-- taken against the balance now, which for a line approved later is not the
+-- previous_quantity it was counted against.
+CREATE OR REPLACE FUNCTION post_count_adjustment(p_count inventory_counts)
+RETURNS UUID AS $$
+DECLARE
+    v_movement_id UUID;
+BEGIN
+    INSERT INTO stock_movements (
+        product_id, location_id, reason, quantity_change,
+        lot_number, expiry_date,
+        reference_type, reference_id, performed_by, notes
+    ) VALUES (
+        p_count.product_id, p_count.location_id, 'count_correction',
+        p_count.quantity - lock_stock_balance(p_count.product_id, p_count.location_id, p_count.lot_number),
+        p_count.lot_number, p_count.expiry_date,
+        'inventory_count', p_count.id::TEXT, p_count.counted_by, p_count.notes
+    )
+    RETURNING id INTO v_movement_id;
     
-    -- Update product's current quantity
-    UPDATE products 
-    SET current_quantity = NEW.quantity,
-        updated_at = NOW()
-    WHERE id = NEW.product_id;
+    IF p_count.location_id IS NOT NULL THEN
+        UPDATE stock_levels
+        SET last_counted = NOW()
+        WHERE product_id = p_count.product_id AND location_id = p_count.location_id;
+    END IF;
+
+    IF p_count.missing_serials IS NOT NULL THEN
+        UPDATE serial_numbers
+        SET status = 'missing', last_count_id = p_count.id
+        WHERE product_id = p_count.product_id
+        AND serial_number = ANY(p_count.missing_serials);
+
+        INSERT INTO serial_numbers (business_id, product_id, serial_number, location_id, last_count_id)
+        SELECT p.business_id, p_count.product_id, s, p_count.location_id, p_count.id
+        FROM unnest(p_count.scanned_serials) AS s, products p
+        WHERE p.id = p_count.product_id
+        ON CONFLICT (product_id, serial_number)
+        DO UPDATE SET status = 'in_stock',
+                      location_id = COALESCE(EXCLUDED.location_id, serial_numbers.location_id),
+                      last_seen_at = NOW(),
+                      last_count_id = EXCLUDED.last_count_id;
+    END IF;
+
+    RETURN v_movement_id;
+END;
+$$ language 'plpgsql';
+
+-- Update product quantity on inventory count
+CREATE OR REPLACE FUNCTION update_product_quantity()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_serialized BOOLEAN;
+BEGIN
+    SELECT COALESCE(is_serialized, false) INTO v_serialized FROM products WHERE id = NEW.product_id;
+
+    -- Serialized products are counted by scanning every unit
+    IF v_serialized THEN
+        IF NEW.scanned_serials IS NULL THEN
+            RAISE EXCEPTION 'Product % is serialized; count it by scanning serial numbers', NEW.product_id;
+        END IF;
+
+        SELECT COALESCE(array_agg(DISTINCT s), '{}') INTO NEW.scanned_serials
+        FROM unnest(NEW.scanned_serials) AS s;
+        NEW.quantity = cardinality(NEW.scanned_serials);
+    END IF;
+
+    -- Store previous quantity for audit (the lot's or location's balance when
+    -- targeted). The lock holds until the line is posted below.
+    NEW.previous_quantity = lock_stock_balance(NEW.product_id, NEW.location_id, NEW.lot_number);
+
+    -- Reconcile serials: the count scope is the location when given, else everywhere
+    IF v_serialized THEN
+        SELECT COALESCE(array_agg(serial_number ORDER BY serial_number), '{}') INTO NEW.missing_serials
+        FROM serial_numbers
+        WHERE product_id = NEW.product_id
+        AND status = 'in_stock'
+        AND (NEW.location_id IS NULL OR location_id = NEW.location_id)
+        AND serial_number <> ALL(NEW.scanned_serials);
+
+        SELECT COALESCE(array_agg(s ORDER BY s), '{}') INTO NEW.unexpected_serials
+        FROM unnest(NEW.scanned_serials) AS s
+        WHERE NOT EXISTS (
+            SELECT 1 FROM serial_numbers
+            WHERE product_id = NEW.product_id
+            AND serial_number = s
+            AND status = 'in_stock'
+            AND (NEW.location_id IS NULL OR location_id = NEW.location_id)
+        );
+    END IF;
+
+    -- Lines awaiting supervisor approval are posted by review_inventory_count
+    IF COALESCE(NEW.posting_status, 'posted') = 'posted' THEN
+        PERFORM post_count_adjustment(NEW);
+    END IF;
     
     -- Update session statistics
     IF NEW.session_id IS NOT NULL THEN
@@ -395,14 +1536,1209 @@ BEGIN
             updated_at = NOW()
         WHERE id = NEW.session_id;
     END IF;
-    
+    
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_product_quantity_trigger
+    BEFORE INSERT ON inventory_counts
+    FOR EACH ROW EXECUTE FUNCTION update_product_quantity();
+
+-- A recount replaces the line it was ordered for and closes the task
+CREATE OR REPLACE FUNCTION complete_recount_task()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_original inventory_counts;
+    v_business_id UUID;
+BEGIN
+    SELECT * INTO v_original FROM inventory_counts
+    WHERE id = NEW.recount_of_id
+    FOR UPDATE;
+
+    IF v_original.posting_status = 'pending_approval' THEN
+        UPDATE inventory_counts SET posting_status = 'superseded' WHERE id = v_original.id;
+
+        SELECT business_id INTO v_business_id FROM products WHERE id = NEW.product_id;
+
+        INSERT INTO count_review_decisions (
+            business_id, session_id, count_id, product_id, decision, decided_by,
+            counted_quantity, expected_quantity, variance, notes
+        ) VALUES (
+            v_business_id, v_original.session_id, v_original.id, v_original.product_id, 'superseded', NEW.counted_by,
+            v_original.quantity, v_original.previous_quantity,
+            v_original.quantity - COALESCE(v_original.previous_quantity, 0),
+            'Replaced by recount ' || NEW.id::TEXT
+        );
+    END IF;
+
+    UPDATE recount_tasks
+    SET status = 'completed', recount_id = NEW.id, completed_at = NOW()
+    WHERE original_count_id = NEW.recount_of_id AND status = 'open';
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER complete_recount_task_trigger
+    AFTER INSERT ON inventory_counts
+    FOR EACH ROW WHEN (NEW.recount_of_id IS NOT NULL)
+    EXECUTE FUNCTION complete_recount_task();
+
+-- Score a count line against its expected quantity. The tolerance comes from
+-- businesses.settings.count_accuracy: {"tolerance_percent": 2, "tolerance_units": 0}
+CREATE OR REPLACE FUNCTION score_count_accuracy()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_product products;
+    v_settings JSONB;
+    v_expected NUMERIC(14,3);
+    v_tolerance NUMERIC(14,3);
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        -- Rejected and superseded lines stay on the counter's record but no
+        -- longer speak for the stock record
+        UPDATE count_accuracy_results
+        SET counts_toward_record = NEW.posting_status NOT IN ('rejected', 'superseded')
+        WHERE count_id = NEW.id;
+    ELSE
+        SELECT * INTO v_product FROM products WHERE id = NEW.product_id;
+        SELECT COALESCE(settings->'count_accuracy', '{}') INTO v_settings
+        FROM businesses WHERE id = v_product.business_id;
+
+        v_expected := COALESCE(NEW.previous_quantity, 0);
+        v_tolerance := GREATEST(
+            COALESCE((v_settings->>'tolerance_units')::NUMERIC, 0),
+            ABS(v_expected) * COALESCE((v_settings->>'tolerance_percent')::NUMERIC, 2) / 100
+        );
+
+        INSERT INTO count_accuracy_results (
+            business_id, count_id, session_id, product_id, category, location_id, counted_by,
+            expected_quantity, counted_quantity, tolerance, within_tolerance, counts_toward_record, counted_at
+        ) VALUES (
+            v_product.business_id, NEW.id, NEW.session_id, NEW.product_id, v_product.category, NEW.location_id, NEW.counted_by,
+            v_expected, NEW.quantity, v_tolerance, ABS(NEW.quantity - v_expected) <= v_tolerance,
+            COALESCE(NEW.posting_status, 'posted') NOT IN ('rejected', 'superseded'),
+            COALESCE(NEW.counted_at, NOW())
+        )
+        ON CONFLICT (count_id) DO NOTHING;
+    END IF;
+
+    PERFORM refresh_accuracy_flag(NEW.product_id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER score_count_accuracy_trigger
+    AFTER INSERT OR UPDATE OF posting_status ON inventory_counts
+    FOR EACH ROW EXECUTE FUNCTION score_count_accuracy();
+
+-- Flag a product for more frequent counting when two of its last three
+-- counts missed; clear the flag after three matches in a row
+CREATE OR REPLACE FUNCTION refresh_accuracy_flag(p_product_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_scored INTEGER;
+    v_misses INTEGER;
+BEGIN
+    SELECT COUNT(*), COUNT(*) FILTER (WHERE NOT within_tolerance)
+    INTO v_scored, v_misses
+    FROM (
+        SELECT within_tolerance FROM count_accuracy_results
+        WHERE product_id = p_product_id AND counts_toward_record
+        ORDER BY counted_at DESC
+        LIMIT 3
+    ) recent;
+
+    IF v_misses >= 2 THEN
+        UPDATE products SET accuracy_flagged_at = NOW()
+        WHERE id = p_product_id AND accuracy_flagged_at IS NULL;
+    ELSIF v_scored = 3 AND v_misses = 0 THEN
+        UPDATE products SET accuracy_flagged_at = NULL
+        WHERE id = p_product_id AND accuracy_flagged_at IS NOT NULL;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Inventory record accuracy: share of scored count lines within tolerance,
+-- grouped by one dimension and bucketed over time ('none' for one row per
+-- group). The counter dimension keeps rejected and superseded lines, since
+-- those are the counter's misses.
+CREATE OR REPLACE FUNCTION get_inventory_record_accuracy(
+    p_business_id UUID,
+    p_from TIMESTAMPTZ,
+    p_to TIMESTAMPTZ,
+    p_dimension VARCHAR(20) DEFAULT 'business', -- 'business', 'product', 'category', 'location' or 'counter'
+    p_bucket VARCHAR(10) DEFAULT 'none' -- 'day', 'week', 'month' or 'none'
+)
+RETURNS TABLE (
+    dimension_id TEXT,
+    dimension_label TEXT,
+    bucket_start TIMESTAMPTZ,
+    counted INTEGER,
+    accurate INTEGER,
+    accuracy NUMERIC
+) AS $$
+    SELECT assert_business_access(p_business_id);
+
+    SELECT
+        CASE p_dimension
+            WHEN 'product' THEN r.product_id::TEXT
+            WHEN 'category' THEN COALESCE(r.category, 'Uncategorized')
+            WHEN 'location' THEN COALESCE(r.location_id::TEXT, 'unassigned')
+            WHEN 'counter' THEN r.counted_by::TEXT
+            ELSE p_business_id::TEXT
+        END,
+        MAX(CASE p_dimension
+            WHEN 'product' THEN p.name
+            WHEN 'category' THEN COALESCE(r.category, 'Uncategorized')
+            WHEN 'location' THEN COALESCE(l.name, 'Unassigned')
+            WHEN 'counter' THEN COALESCE(u.raw_user_meta_data->>'full_name', u.email)
+            ELSE 'All counts'
+        END),
+        CASE WHEN p_bucket = 'none' THEN NULL ELSE date_trunc(p_bucket, r.counted_at) END,
+        COUNT(*)::INTEGER,
+        (COUNT(*) FILTER (WHERE r.within_tolerance))::INTEGER,
+        ROUND(100.0 * COUNT(*) FILTER (WHERE r.within_tolerance) / COUNT(*), 2)
+    FROM count_accuracy_results r
+    LEFT JOIN products p ON p.id = r.product_id
+    LEFT JOIN locations l ON l.id = r.location_id
+    LEFT JOIN auth.users u ON u.id = r.counted_by
+    WHERE r.business_id = p_business_id
+    AND r.counted_at >= p_from
+    AND r.counted_at < p_to
+    AND (r.counts_toward_record OR p_dimension = 'counter')
+    GROUP BY 1, 3
+    ORDER BY 3 NULLS FIRST, 6, 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Apply a journal row to the cached balances and record the resulting quantity
+CREATE OR REPLACE FUNCTION apply_stock_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_product_total NUMERIC(14,3);
+    v_allow_fractional BOOLEAN;
+BEGIN
+    SELECT COALESCE(NEW.business_id, business_id), COALESCE(allow_fractional, false)
+    INTO NEW.business_id, v_allow_fractional
+    FROM products WHERE id = NEW.product_id;
+
+    -- Opening balances journal stock the cached balances already hold
+    IF current_setting('scanstock.opening_balance', true) = 'on' THEN
+        NEW.quantity_after = CASE
+            WHEN NEW.location_id IS NULL THEN (SELECT current_quantity FROM products WHERE id = NEW.product_id)
+            ELSE (SELECT quantity FROM stock_levels WHERE product_id = NEW.product_id AND location_id = NEW.location_id)
+        END;
+        RETURN NEW;
+    END IF;
+
+    -- Only weighed/measured goods may hold part units
+    IF NOT v_allow_fractional AND NEW.quantity_change <> trunc(NEW.quantity_change) THEN
+        RAISE EXCEPTION 'Product % is counted in whole units', NEW.product_id;
+    END IF;
+
+    -- The only update guard_current_quantity lets through
+    PERFORM set_config('scanstock.applying_movement', 'on', true);
+    UPDATE products
+    SET current_quantity = current_quantity + NEW.quantity_change,
+        updated_at = NOW()
+    WHERE id = NEW.product_id
+    RETURNING current_quantity INTO v_product_total;
+    PERFORM set_config('scanstock.applying_movement', 'off', true);
+
+    -- Stock without a location is the total less what locations hold; a
+    -- movement without a location can't take more than that
+    IF NEW.location_id IS NULL AND NEW.quantity_change < 0 AND v_product_total < (
+        SELECT COALESCE(SUM(quantity), 0) FROM stock_levels WHERE product_id = NEW.product_id
+    ) THEN
+        RAISE EXCEPTION 'Product % is stocked by location; give the location to take stock from', NEW.product_id;
+    END IF;
+
+    IF NEW.location_id IS NOT NULL THEN
+        INSERT INTO stock_levels (business_id, product_id, location_id, quantity)
+        VALUES (NEW.business_id, NEW.product_id, NEW.location_id, NEW.quantity_change)
+        ON CONFLICT (product_id, location_id)
+        DO UPDATE SET quantity = stock_levels.quantity + EXCLUDED.quantity,
+                      updated_at = NOW()
+        RETURNING quantity INTO NEW.quantity_after;
+    ELSE
+        NEW.quantity_after = v_product_total;
+    END IF;
+
+    IF NEW.lot_number IS NOT NULL THEN
+        INSERT INTO stock_lots (business_id, product_id, location_id, lot_number, expiry_date, quantity)
+        VALUES (NEW.business_id, NEW.product_id, NEW.location_id, NEW.lot_number, NEW.expiry_date, NEW.quantity_change)
+        ON CONFLICT (product_id, COALESCE(location_id, '00000000-0000-0000-0000-000000000000'::UUID), lot_number)
+        DO UPDATE SET quantity = stock_lots.quantity + EXCLUDED.quantity,
+                      expiry_date = COALESCE(EXCLUDED.expiry_date, stock_lots.expiry_date),
+                      updated_at = NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER apply_stock_movement_trigger
+    BEFORE INSERT ON stock_movements
+    FOR EACH ROW EXECUTE FUNCTION apply_stock_movement();
+
+-- The journal is append-only: mistakes are fixed with a correcting movement
+CREATE OR REPLACE FUNCTION prevent_stock_movement_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Rows may only disappear together with their product (ON DELETE CASCADE)
+    IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM products WHERE id = OLD.product_id) THEN
+        RETURN OLD;
+    END IF;
+
+    RAISE EXCEPTION 'stock_movements is append-only; post a correcting movement instead';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER stock_movements_append_only
+    BEFORE UPDATE OR DELETE ON stock_movements
+    FOR EACH ROW EXECUTE FUNCTION prevent_stock_movement_changes();
+
+-- current_quantity is a running total of the journal: it only changes by
+-- posting a movement
+CREATE OR REPLACE FUNCTION guard_current_quantity()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.current_quantity IS DISTINCT FROM OLD.current_quantity
+    AND current_setting('scanstock.applying_movement', true) IS DISTINCT FROM 'on' THEN
+        RAISE EXCEPTION 'current_quantity changes only through stock_movements; post a movement instead';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER guard_products_current_quantity
+    BEFORE UPDATE OF current_quantity ON products
+    FOR EACH ROW EXECUTE FUNCTION guard_current_quantity();
+
+-- A product created with stock gets that stock as its first journal entry
+CREATE OR REPLACE FUNCTION record_opening_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF COALESCE(NEW.current_quantity, 0) <> 0 THEN
+        PERFORM set_config('scanstock.opening_balance', 'on', true);
+        INSERT INTO stock_movements (
+            business_id, product_id, reason, quantity_change, reference_type, reference_id, performed_by
+        ) VALUES (
+            NEW.business_id, NEW.id, 'receive', NEW.current_quantity, 'opening_balance', NEW.id::TEXT, auth.uid()
+        );
+        PERFORM set_config('scanstock.opening_balance', 'off', true);
+    END IF;
+
     RETURN NEW;
 END;
 $$ language 'plpgsql';
 
-CREATE TRIGGER update_product_quantity_trigger
-    BEFORE INSERT ON inventory_counts
-    FOR EACH ROW EXECUTE FUNCTION update_product_quantity();
+CREATE TRIGGER record_products_opening_stock
+    AFTER INSERT ON products
+    FOR EACH ROW EXECUTE FUNCTION record_opening_stock();
+
+-- Balances that predate the journal become one opening adjustment per product
+-- and location, so the journal sums to the cached balances. Re-running posts
+-- nothing once they agree.
+DO $$
+BEGIN
+    PERFORM set_config('scanstock.opening_balance', 'on', true);
+
+    INSERT INTO stock_movements (business_id, product_id, location_id, reason, quantity_change, reference_type, notes)
+    SELECT b.business_id, b.product_id, b.location_id, 'adjust', b.quantity - COALESCE(j.quantity, 0),
+           'opening_balance', 'Balance before the stock movement journal'
+    FROM (
+        SELECT business_id, product_id, location_id, quantity FROM stock_levels
+        UNION ALL
+        -- Stock not tracked by location: the total less what locations hold
+        SELECT p.business_id, p.id, NULL, COALESCE(p.current_quantity, 0) - COALESCE(SUM(sl.quantity), 0)
+        FROM products p
+        LEFT JOIN stock_levels sl ON sl.product_id = p.id
+        GROUP BY p.id, p.business_id, p.current_quantity
+    ) b
+    LEFT JOIN (
+        SELECT product_id, location_id, SUM(quantity_change) AS quantity
+        FROM stock_movements
+        GROUP BY product_id, location_id
+    ) j ON j.product_id = b.product_id AND j.location_id IS NOT DISTINCT FROM b.location_id
+    WHERE b.quantity <> COALESCE(j.quantity, 0);
+
+    PERFORM set_config('scanstock.opening_balance', 'off', true);
+END;
+$$;
+
+-- Set a balance to an absolute quantity by posting the difference to the journal
+CREATE OR REPLACE FUNCTION set_stock_quantity(
+    p_product_id UUID,
+    p_quantity NUMERIC(14,3),
+    p_reason VARCHAR(20),
+    p_user_id UUID,
+    p_location_id UUID DEFAULT NULL,
+    p_reference_type VARCHAR(50) DEFAULT NULL,
+    p_reference_id VARCHAR(100) DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL,
+    p_lot_number VARCHAR(100) DEFAULT NULL,
+    p_expiry_date DATE DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_business_id UUID;
+    v_current NUMERIC(14,3);
+    v_movement_id UUID;
+    v_quantity_after NUMERIC(14,3);
+BEGIN
+    SELECT business_id INTO v_business_id FROM products WHERE id = p_product_id;
+    PERFORM assert_business_access(v_business_id, p_user_id);
+
+    -- Setting a balance outright skips count approval, so clients need edit
+    -- rights; the service role is trusted to have checked its caller
+    IF COALESCE(auth.role(), 'service_role') <> 'service_role' AND NOT EXISTS (
+        SELECT 1 FROM team_members
+        WHERE business_id = v_business_id
+        AND user_id = auth.uid()
+        AND status = 'active'
+        AND (
+            role = 'admin'
+            OR (permissions->>'admin')::boolean = true
+            OR (permissions->>'edit')::boolean = true
+        )
+    ) THEN
+        RAISE EXCEPTION 'Only team members with edit rights can set stock quantities' USING ERRCODE = '42501';
+    END IF;
+
+    -- Lock the balance so the difference is computed against a stable value
+    v_current := lock_stock_balance(p_product_id, p_location_id, p_lot_number);
+
+    INSERT INTO stock_movements (
+        product_id, location_id, reason, quantity_change,
+        lot_number, expiry_date,
+        reference_type, reference_id, performed_by, notes
+    ) VALUES (
+        p_product_id, p_location_id, p_reason, p_quantity - v_current,
+        p_lot_number, p_expiry_date,
+        p_reference_type, p_reference_id, p_user_id, p_notes
+    )
+    RETURNING id, quantity_after INTO v_movement_id, v_quantity_after;
+
+    RETURN jsonb_build_object(
+        'movement_id', v_movement_id,
+        'previous_quantity', v_current,
+        'quantity_after', v_quantity_after
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Settle teammates' disagreeing counts of one product: every count records the
+-- outcome in conflict_data and the balance is set to the agreed quantity
+CREATE OR REPLACE FUNCTION resolve_count_conflict(
+    p_count_ids UUID[],
+    p_final_quantity NUMERIC(14,3),
+    p_method VARCHAR(20), -- 'newest_wins', 'highest_authority', 'average' or 'manual_review'
+    p_user_id UUID,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_latest inventory_counts;
+    v_business_id UUID;
+    v_products INTEGER;
+    v_result JSONB;
+BEGIN
+    IF p_method NOT IN ('newest_wins', 'highest_authority', 'average', 'manual_review') THEN
+        RAISE EXCEPTION 'Unknown conflict resolution method %', p_method;
+    END IF;
+
+    IF p_final_quantity < 0 THEN
+        RAISE EXCEPTION 'Resolved quantity cannot be negative';
+    END IF;
+
+    SELECT COUNT(DISTINCT product_id) INTO v_products
+    FROM inventory_counts WHERE id = ANY(p_count_ids);
+
+    IF v_products <> 1 THEN
+        RAISE EXCEPTION 'Conflicting counts must all be for the same product';
+    END IF;
+
+    -- The newest count decides which balance (location, lot) is corrected
+    SELECT * INTO v_latest FROM inventory_counts
+    WHERE id = ANY(p_count_ids)
+    ORDER BY counted_at DESC
+    LIMIT 1;
+
+    SELECT business_id INTO v_business_id FROM products WHERE id = v_latest.product_id;
+
+    -- p_user_id is trusted from the service role only; anyone else resolves as
+    -- themselves. A session's automatic strategy resolves with no user.
+    PERFORM assert_business_access(v_business_id, p_user_id);
+
+    IF (p_user_id IS NOT NULL OR COALESCE(auth.role(), 'service_role') <> 'service_role') AND NOT EXISTS (
+        SELECT 1 FROM team_members
+        WHERE business_id = v_business_id
+        AND user_id = p_user_id
+        AND status = 'active'
+        AND (role = 'admin' OR (permissions->>'admin')::boolean = true)
+    ) THEN
+        RAISE EXCEPTION 'Only supervisors can resolve count conflicts';
+    END IF;
+
+    v_result := set_stock_quantity(
+        v_latest.product_id, p_final_quantity, 'count_correction', p_user_id,
+        v_latest.location_id, 'count_conflict', v_latest.id::TEXT,
+        COALESCE(p_notes, 'Count conflict resolved by ' || p_method),
+        v_latest.lot_number, v_latest.expiry_date
+    );
+
+    UPDATE inventory_counts
+    SET conflict_resolved = true,
+        conflict_data = COALESCE(conflict_data, '{}'::jsonb) || jsonb_build_object(
+            'method', p_method,
+            'final_quantity', p_final_quantity,
+            'resolved_by', p_user_id,
+            'resolved_at', NOW(),
+            'count_ids', to_jsonb(p_count_ids),
+            'movement_id', v_result->'movement_id'
+        )
+    WHERE id = ANY(p_count_ids);
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Claim a product for counting. Succeeds when the product is free, the lock
+-- has expired or the caller already holds it; returns whoever holds it after.
+CREATE OR REPLACE FUNCTION claim_counting_lock(
+    p_session_id UUID,
+    p_product_id UUID,
+    p_user_id UUID,
+    p_expires_at TIMESTAMPTZ,
+    p_lock_type VARCHAR(20) DEFAULT 'count'
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_lock counting_product_locks;
+BEGIN
+    PERFORM assert_business_access((SELECT business_id FROM counting_sessions WHERE id = p_session_id), p_user_id);
+
+    IF NOT EXISTS (
+        SELECT 1 FROM products p
+        JOIN counting_sessions cs ON cs.business_id = p.business_id
+        WHERE p.id = p_product_id AND cs.id = p_session_id
+    ) THEN
+        RAISE EXCEPTION 'Product % is not part of session %''s business', p_product_id, p_session_id;
+    END IF;
+
+    INSERT INTO counting_product_locks (session_id, product_id, user_id, lock_type, locked_at, expires_at)
+    VALUES (p_session_id, p_product_id, p_user_id, p_lock_type, NOW(), p_expires_at)
+    ON CONFLICT (session_id, product_id) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+        lock_type = EXCLUDED.lock_type,
+        locked_at = CASE WHEN counting_product_locks.user_id = EXCLUDED.user_id
+                         THEN counting_product_locks.locked_at ELSE NOW() END,
+        expires_at = EXCLUDED.expires_at
+    WHERE counting_product_locks.user_id = EXCLUDED.user_id
+       OR counting_product_locks.expires_at <= NOW();
+
+    SELECT * INTO v_lock FROM counting_product_locks
+    WHERE session_id = p_session_id AND product_id = p_product_id;
+
+    RETURN jsonb_build_object(
+        'acquired', v_lock.user_id = p_user_id,
+        'user_id', v_lock.user_id,
+        'lock_type', v_lock.lock_type,
+        'locked_at', v_lock.locked_at,
+        'expires_at', v_lock.expires_at
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Resolve a scanned code to a product and unit: unit barcodes first, then the
+-- product's own barcode or SKU as one base unit
+CREATE OR REPLACE FUNCTION resolve_scanned_code(
+    p_business_id UUID,
+    p_code VARCHAR(100)
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_result JSONB;
+BEGIN
+    PERFORM assert_business_access(p_business_id);
+
+    SELECT jsonb_build_object(
+        'product_id', pu.product_id,
+        'unit_id', pu.id,
+        'unit_name', pu.name,
+        'conversion_factor', pu.conversion_factor
+    ) INTO v_result
+    FROM product_units pu
+    WHERE pu.business_id = p_business_id AND pu.barcode = p_code
+    LIMIT 1;
+
+    IF v_result IS NULL THEN
+        SELECT jsonb_build_object(
+            'product_id', p.id,
+            'unit_id', NULL,
+            'unit_name', COALESCE(p.base_unit, 'each'),
+            'conversion_factor', 1
+        ) INTO v_result
+        FROM products p
+        WHERE p.business_id = p_business_id AND (p.barcode = p_code OR p.sku = p_code)
+        ORDER BY (p.barcode = p_code) DESC
+        LIMIT 1;
+    END IF;
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Quantity on hand at any past moment, replayed from the journal
+CREATE OR REPLACE FUNCTION get_stock_quantity_as_of(
+    p_product_id UUID,
+    p_as_of TIMESTAMPTZ,
+    p_location_id UUID DEFAULT NULL
+)
+RETURNS NUMERIC(14,3) AS $$
+    SELECT assert_business_access((SELECT business_id FROM products WHERE id = p_product_id));
+
+    SELECT COALESCE(SUM(quantity_change), 0)::NUMERIC(14,3)
+    FROM stock_movements
+    WHERE product_id = p_product_id
+    AND created_at <= p_as_of
+    AND (p_location_id IS NULL OR location_id = p_location_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Units sold per product per UTC day, for demand forecasting. Days without
+-- sales are left out; all products when p_product_ids is NULL.
+CREATE OR REPLACE FUNCTION get_daily_demand(
+    p_business_id UUID,
+    p_from TIMESTAMPTZ,
+    p_to TIMESTAMPTZ,
+    p_product_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+    product_id UUID,
+    day DATE,
+    quantity NUMERIC(14,3)
+) AS $$
+    SELECT assert_business_access(p_business_id);
+
+    SELECT
+        m.product_id,
+        (m.created_at AT TIME ZONE 'UTC')::DATE,
+        SUM(-m.quantity_change)::NUMERIC(14,3)
+    FROM stock_movements m
+    WHERE m.business_id = p_business_id
+    AND m.reason = 'sell'
+    AND m.created_at >= p_from
+    AND m.created_at < p_to
+    AND (p_product_ids IS NULL OR m.product_id = ANY(p_product_ids))
+    GROUP BY 1, 2
+    ORDER BY 1, 2;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Products sold together, one row per basket. Sales sharing a reference
+-- (a receipt or order) are one basket; unreferenced sales by the same user at
+-- the same location are one basket until a gap longer than p_session_gap.
+-- Kit sales are left out: the kit already is a bundle, and its component
+-- movements record what it contains rather than what the customer chose.
+CREATE OR REPLACE FUNCTION get_sale_baskets(
+    p_business_id UUID,
+    p_from TIMESTAMPTZ,
+    p_to TIMESTAMPTZ,
+    p_session_gap INTERVAL DEFAULT INTERVAL '5 minutes'
+)
+RETURNS TABLE (
+    basket_id TEXT,
+    product_ids UUID[]
+) AS $$
+    SELECT assert_business_access(p_business_id);
+
+    WITH sales AS (
+        SELECT product_id, reference_type, reference_id, performed_by, location_id, created_at
+        FROM stock_movements
+        WHERE business_id = p_business_id
+        AND reason = 'sell'
+        AND reference_type IS DISTINCT FROM 'kit_sale'
+        AND created_at >= p_from
+        AND created_at < p_to
+    ),
+    unreferenced AS (
+        SELECT
+            product_id,
+            performed_by,
+            location_id,
+            SUM(CASE WHEN gap IS NULL OR gap > p_session_gap THEN 1 ELSE 0 END)
+                OVER (PARTITION BY performed_by, location_id ORDER BY created_at) AS session
+        FROM (
+            SELECT *, created_at - LAG(created_at) OVER (PARTITION BY performed_by, location_id ORDER BY created_at) AS gap
+            FROM sales
+            WHERE reference_id IS NULL
+        ) s
+    )
+    SELECT basket_id, ARRAY_AGG(DISTINCT product_id)
+    FROM (
+        SELECT COALESCE(reference_type, '') || ':' || reference_id AS basket_id, product_id
+        FROM sales
+        WHERE reference_id IS NOT NULL
+        UNION ALL
+        SELECT 'session:' || COALESCE(performed_by::TEXT, '') || ':' || COALESCE(location_id::TEXT, '') || ':' || session, product_id
+        FROM unreferenced
+    ) b
+    GROUP BY basket_id
+    ORDER BY basket_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Balances recomputed from the journal, for reconciling the cached totals
+CREATE OR REPLACE VIEW stock_balances_from_journal AS
+SELECT
+    product_id,
+    location_id,
+    SUM(quantity_change)::NUMERIC(14,3) AS quantity,
+    MAX(created_at) AS last_movement_at
+FROM stock_movements
+GROUP BY product_id, location_id;
+
+-- Stock of each product family: the parent's own stock plus all of its variants
+CREATE OR REPLACE VIEW product_family_stock AS
+SELECT
+    parent.id AS product_id,
+    parent.business_id,
+    COUNT(variant.id) AS variant_count,
+    (COALESCE(parent.current_quantity, 0) + COALESCE(SUM(variant.current_quantity), 0))::NUMERIC(14,3) AS total_quantity,
+    (COALESCE(parent.current_quantity * parent.unit_cost, 0) + COALESCE(SUM(variant.current_quantity * variant.unit_cost), 0))::DECIMAL(12,2) AS total_value
+FROM products parent
+LEFT JOIN products variant ON variant.parent_product_id = parent.id
+WHERE parent.parent_product_id IS NULL
+GROUP BY parent.id, parent.business_id, parent.current_quantity, parent.unit_cost;
+
+-- Families are one level deep and stay within a business
+CREATE OR REPLACE FUNCTION check_variant_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.parent_product_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM products
+        WHERE id = NEW.parent_product_id
+        AND business_id = NEW.business_id
+        AND parent_product_id IS NULL
+    ) THEN
+        RAISE EXCEPTION 'Parent product must belong to the same business and not be a variant';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM products WHERE parent_product_id = NEW.id) THEN
+        RAISE EXCEPTION 'A product with variants cannot be a variant';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_products_variant_parent
+    BEFORE INSERT OR UPDATE OF parent_product_id, business_id ON products
+    FOR EACH ROW EXECUTE FUNCTION check_variant_parent();
+
+-- Atomic inter-location transfer: both balances change or neither does
+CREATE OR REPLACE FUNCTION transfer_stock(
+    p_product_id UUID,
+    p_from_location_id UUID,
+    p_to_location_id UUID,
+    p_quantity NUMERIC(14,3),
+    p_user_id UUID,
+    p_notes TEXT DEFAULT NULL,
+    p_batch_id VARCHAR(100) DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_business_id UUID;
+    v_available NUMERIC(14,3);
+    v_transfer_id UUID;
+    v_from_after NUMERIC(14,3);
+    v_to_after NUMERIC(14,3);
+BEGIN
+    IF p_quantity <= 0 THEN
+        RAISE EXCEPTION 'Transfer quantity must be positive';
+    END IF;
+
+    IF p_from_location_id = p_to_location_id THEN
+        RAISE EXCEPTION 'Source and destination locations must differ';
+    END IF;
+
+    SELECT business_id INTO v_business_id FROM products WHERE id = p_product_id;
+    PERFORM assert_business_access(v_business_id, p_user_id);
+
+    IF EXISTS (
+        SELECT 1 FROM locations
+        WHERE id IN (p_from_location_id, p_to_location_id)
+        AND business_id IS DISTINCT FROM v_business_id
+    ) THEN
+        RAISE EXCEPTION 'Both locations must belong to the product''s business';
+    END IF;
+
+    -- Lock the source row so concurrent transfers cannot oversell it
+    SELECT quantity INTO v_available
+    FROM stock_levels
+    WHERE product_id = p_product_id AND location_id = p_from_location_id
+    FOR UPDATE;
+
+    IF COALESCE(v_available, 0) < p_quantity THEN
+        RAISE EXCEPTION 'Insufficient stock at source location (% available, % requested)',
+            COALESCE(v_available, 0), p_quantity;
+    END IF;
+
+    INSERT INTO stock_transfers (
+        business_id, product_id, from_location_id, to_location_id,
+        quantity, transferred_by, notes, batch_id
+    ) VALUES (
+        v_business_id, p_product_id, p_from_location_id, p_to_location_id,
+        p_quantity, p_user_id, p_notes, p_batch_id
+    )
+    RETURNING id INTO v_transfer_id;
+
+    -- Both legs go through the journal in this same transaction
+    INSERT INTO stock_movements (
+        business_id, product_id, location_id, reason, quantity_change,
+        reference_type, reference_id, performed_by, notes
+    ) VALUES (
+        v_business_id, p_product_id, p_from_location_id, 'transfer_out', -p_quantity,
+        'stock_transfer', v_transfer_id::TEXT, p_user_id, p_notes
+    )
+    RETURNING quantity_after INTO v_from_after;
+
+    INSERT INTO stock_movements (
+        business_id, product_id, location_id, reason, quantity_change,
+        reference_type, reference_id, performed_by, notes
+    ) VALUES (
+        v_business_id, p_product_id, p_to_location_id, 'transfer_in', p_quantity,
+        'stock_transfer', v_transfer_id::TEXT, p_user_id, p_notes
+    )
+    RETURNING quantity_after INTO v_to_after;
+
+    RETURN jsonb_build_object(
+        'transfer_id', v_transfer_id,
+        'from_quantity', v_from_after,
+        'to_quantity', v_to_after
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Assemble, disassemble or sell kits. The kit's movement and every component
+-- movement share one reference and commit together. Sales use assembled kits
+-- first and build the remainder from components.
+CREATE OR REPLACE FUNCTION process_kit(
+    p_kit_product_id UUID,
+    p_operation VARCHAR(20), -- 'assemble', 'disassemble' or 'sell'
+    p_quantity NUMERIC(14,3),
+    p_user_id UUID,
+    p_location_id UUID DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_business_id UUID;
+    v_is_kit BOOLEAN;
+    v_reference_id UUID := uuid_generate_v4();
+    v_reference_type VARCHAR(50);
+    v_component_reason VARCHAR(20);
+    v_kit_on_hand NUMERIC(14,3);
+    v_kit_change NUMERIC(14,3);
+    v_kit_after NUMERIC(14,3);
+    v_built_from_components NUMERIC(14,3); -- Kits' worth of components consumed (negative when returned)
+    v_component RECORD;
+    v_available NUMERIC(14,3);
+    v_quantity_after NUMERIC(14,3);
+    v_components JSONB := '[]';
+BEGIN
+    IF p_quantity <= 0 THEN
+        RAISE EXCEPTION 'Kit quantity must be positive';
+    END IF;
+
+    IF p_operation NOT IN ('assemble', 'disassemble', 'sell') THEN
+        RAISE EXCEPTION 'Unknown kit operation %', p_operation;
+    END IF;
+
+    SELECT business_id, COALESCE(is_kit, false) INTO v_business_id, v_is_kit
+    FROM products WHERE id = p_kit_product_id;
+    PERFORM assert_business_access(v_business_id, p_user_id);
+
+    IF NOT COALESCE(v_is_kit, false) THEN
+        RAISE EXCEPTION 'Product % is not a kit', p_kit_product_id;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM kit_components WHERE kit_product_id = p_kit_product_id) THEN
+        RAISE EXCEPTION 'Kit % has no components', p_kit_product_id;
+    END IF;
+
+    -- Lock the kit's balance so concurrent sales cannot both use the same assembled kits
+    IF p_location_id IS NOT NULL THEN
+        SELECT quantity INTO v_kit_on_hand FROM stock_levels
+        WHERE product_id = p_kit_product_id AND location_id = p_location_id
+        FOR UPDATE;
+    ELSE
+        SELECT current_quantity INTO v_kit_on_hand FROM products
+        WHERE id = p_kit_product_id
+        FOR UPDATE;
+    END IF;
+
+    v_kit_on_hand := COALESCE(v_kit_on_hand, 0);
+
+    IF p_operation = 'assemble' THEN
+        v_reference_type := 'kit_assembly';
+        v_component_reason := 'kit_assembly';
+        v_kit_change := p_quantity;
+        v_built_from_components := p_quantity;
+    ELSIF p_operation = 'disassemble' THEN
+        IF v_kit_on_hand < p_quantity THEN
+            RAISE EXCEPTION 'Only % assembled kits on hand (% requested)', v_kit_on_hand, p_quantity;
+        END IF;
+        v_reference_type := 'kit_disassembly';
+        v_component_reason := 'kit_disassembly';
+        v_kit_change := -p_quantity;
+        v_built_from_components := -p_quantity;
+    ELSE
+        v_reference_type := 'kit_sale';
+        v_component_reason := 'sell';
+        v_kit_change := -LEAST(v_kit_on_hand, p_quantity);
+        v_built_from_components := p_quantity + v_kit_change;
+    END IF;
+
+    -- Components in a fixed order so concurrent kit operations lock rows consistently
+    FOR v_component IN
+        SELECT component_product_id, quantity FROM kit_components
+        WHERE kit_product_id = p_kit_product_id
+        ORDER BY component_product_id
+    LOOP
+        CONTINUE WHEN v_built_from_components = 0;
+
+        IF v_built_from_components > 0 THEN
+            IF p_location_id IS NOT NULL THEN
+                SELECT quantity INTO v_available FROM stock_levels
+                WHERE product_id = v_component.component_product_id AND location_id = p_location_id
+                FOR UPDATE;
+            ELSE
+                SELECT current_quantity INTO v_available FROM products
+                WHERE id = v_component.component_product_id
+                FOR UPDATE;
+            END IF;
+
+            IF COALESCE(v_available, 0) < v_component.quantity * v_built_from_components THEN
+                RAISE EXCEPTION 'Insufficient stock of component % (% available, % needed)',
+                    v_component.component_product_id, COALESCE(v_available, 0), v_component.quantity * v_built_from_components;
+            END IF;
+        END IF;
+
+        INSERT INTO stock_movements (
+            business_id, product_id, location_id, reason, quantity_change,
+            reference_type, reference_id, performed_by, notes
+        ) VALUES (
+            v_business_id, v_component.component_product_id, p_location_id, v_component_reason,
+            -(v_component.quantity * v_built_from_components),
+            v_reference_type, v_reference_id::TEXT, p_user_id, p_notes
+        )
+        RETURNING quantity_after INTO v_quantity_after;
+
+        v_components := v_components || jsonb_build_object(
+            'product_id', v_component.component_product_id,
+            'quantity_change', -(v_component.quantity * v_built_from_components),
+            'quantity_after', v_quantity_after
+        );
+    END LOOP;
+
+    IF v_kit_change <> 0 THEN
+        INSERT INTO stock_movements (
+            business_id, product_id, location_id, reason, quantity_change,
+            reference_type, reference_id, performed_by, notes
+        ) VALUES (
+            v_business_id, p_kit_product_id, p_location_id, v_component_reason, v_kit_change, v_reference_type, v_reference_id::TEXT, p_user_id, p_notes
+        )
+        RETURNING quantity_after INTO v_kit_after;
+    ELSE
+        v_kit_after := v_kit_on_hand;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'reference_id', v_reference_id,
+        'kit_quantity_change', v_kit_change,
+        'kit_quantity_after', v_kit_after,
+        'built_from_components', v_built_from_components,
+        'components', v_components
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Supervisor decision on a count line held for approval: approve posts it to
+-- stock, reject discards it, recount hands it to another counter. Every
+-- decision is written to count_review_decisions.
+CREATE OR REPLACE FUNCTION review_inventory_count(
+    p_count_id UUID,
+    p_decision VARCHAR(20), -- 'approve', 'reject' or 'recount'
+    p_user_id UUID,
+    p_assigned_to UUID DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_count inventory_counts;
+    v_business_id UUID;
+    v_movement_id UUID;
+    v_task_id UUID;
+    v_status VARCHAR(20);
+    v_logged VARCHAR(20);
+BEGIN
+    IF p_decision NOT IN ('approve', 'reject', 'recount') THEN
+        RAISE EXCEPTION 'Unknown review decision %', p_decision;
+    END IF;
+
+    SELECT * INTO v_count FROM inventory_counts WHERE id = p_count_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Count % not found', p_count_id;
+    END IF;
+
+    SELECT business_id INTO v_business_id FROM products WHERE id = v_count.product_id;
+
+    -- p_user_id is trusted from the service role only; anyone else reviews as themselves
+    PERFORM assert_business_access(v_business_id, p_user_id);
+
+    IF NOT EXISTS (
+        SELECT 1 FROM team_members
+        WHERE business_id = v_business_id
+        AND user_id = p_user_id
+        AND status = 'active'
+        AND (role = 'admin' OR (permissions->>'admin')::boolean = true)
+    ) THEN
+        RAISE EXCEPTION 'Only supervisors can review counts';
+    END IF;
+
+    IF v_count.posting_status <> 'pending_approval' THEN
+        RAISE EXCEPTION 'Count % is not awaiting approval (status %)', p_count_id, v_count.posting_status;
+    END IF;
+
+    IF p_decision = 'recount' THEN
+        IF p_assigned_to IS NULL THEN
+            RAISE EXCEPTION 'A recount must be assigned to a counter';
+        END IF;
+        IF p_assigned_to = v_count.counted_by THEN
+            RAISE EXCEPTION 'A recount must be assigned to a different counter';
+        END IF;
+
+        -- Only one open recount per line; a new request reassigns it
+        UPDATE recount_tasks SET status = 'cancelled', completed_at = NOW()
+        WHERE original_count_id = p_count_id AND status = 'open';
+
+        INSERT INTO recount_tasks (
+            business_id, session_id, product_id, original_count_id,
+            location_id, lot_number, assigned_to, requested_by, notes
+        ) VALUES (
+            v_business_id, v_count.session_id, v_count.product_id, p_count_id,
+            v_count.location_id, v_count.lot_number, p_assigned_to, p_user_id, p_notes
+        )
+        RETURNING id INTO v_task_id;
+
+        v_status := v_count.posting_status;
+        v_logged := 'recount_requested';
+    ELSE
+        IF p_decision = 'approve' THEN
+            v_movement_id := post_count_adjustment(v_count);
+            v_status := 'approved';
+            v_logged := 'approved';
+        ELSE
+            v_status := 'rejected';
+            v_logged := 'rejected';
+        END IF;
+
+        UPDATE inventory_counts SET posting_status = v_status WHERE id = p_count_id;
+
+        UPDATE recount_tasks SET status = 'cancelled', completed_at = NOW()
+        WHERE original_count_id = p_count_id AND status = 'open';
+    END IF;
+
+    INSERT INTO count_review_decisions (
+        business_id, session_id, count_id, product_id, decision, decided_by, assigned_to,
+        counted_quantity, expected_quantity, variance, movement_id, notes
+    ) VALUES (
+        v_business_id, v_count.session_id, p_count_id, v_count.product_id, v_logged, p_user_id, p_assigned_to,
+        v_count.quantity, v_count.previous_quantity,
+        v_count.quantity - COALESCE(v_count.previous_quantity, 0),
+        v_movement_id, p_notes
+    );
+
+    RETURN jsonb_build_object(
+        'count_id', p_count_id,
+        'decision', v_logged,
+        'posting_status', v_status,
+        'movement_id', v_movement_id,
+        'recount_task_id', v_task_id
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Swap the not-yet-started part of a business's count calendar for a new plan.
+-- Entries already started or completed are kept.
+CREATE OR REPLACE FUNCTION replace_cycle_count_calendar(
+    p_business_id UUID,
+    p_from TIMESTAMPTZ,
+    p_entries JSONB,
+    p_user_id UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_removed INTEGER;
+    v_inserted INTEGER;
+BEGIN
+    -- p_user_id is trusted from the service role only; anyone else plans as themselves
+    PERFORM assert_business_access(p_business_id, p_user_id);
+
+    IF NOT EXISTS (
+        SELECT 1 FROM team_members
+        WHERE business_id = p_business_id
+        AND user_id = p_user_id
+        AND status = 'active'
+        AND (role = 'admin' OR (permissions->>'admin')::boolean = true)
+    ) THEN
+        RAISE EXCEPTION 'Only supervisors can regenerate the count calendar';
+    END IF;
+
+    DELETE FROM cycle_count_calendar
+    WHERE business_id = p_business_id
+    AND status = 'scheduled'
+    AND scheduled_for >= p_from;
+    GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+    INSERT INTO cycle_count_calendar (
+        business_id, scheduled_date, scheduled_for, ends_at, location_id, location_name,
+        items, class_counts, estimated_seconds, generated_by
+    )
+    SELECT
+        p_business_id, e.scheduled_date, e.scheduled_for, e.ends_at, e.location_id, e.location_name,
+        e.items, e.class_counts, e.estimated_seconds, p_user_id
+    FROM jsonb_to_recordset(p_entries) AS e(
+        scheduled_date DATE,
+        scheduled_for TIMESTAMPTZ,
+        ends_at TIMESTAMPTZ,
+        location_id UUID,
+        location_name VARCHAR(255),
+        items JSONB,
+        class_counts JSONB,
+        estimated_seconds INTEGER
+    );
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+    RETURN jsonb_build_object('removed', v_removed, 'inserted', v_inserted);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Receive stock against a purchase order line and post it to the journal
+CREATE OR REPLACE FUNCTION receive_purchase_order_line(
+    p_line_id UUID,
+    p_quantity NUMERIC(14,3),
+    p_user_id UUID,
+    p_location_id UUID DEFAULT NULL,
+    p_barcode VARCHAR(255) DEFAULT NULL,
+    p_lot_number VARCHAR(100) DEFAULT NULL,
+    p_expiry_date DATE DEFAULT NULL,
+    p_serial_number VARCHAR(100) DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_line purchase_order_lines%ROWTYPE;
+    v_order purchase_orders%ROWTYPE;
+    v_location_id UUID;
+    v_movement_id UUID;
+    v_quantity_after NUMERIC(14,3);
+    v_receipt_id UUID;
+    v_status VARCHAR(20);
+BEGIN
+    IF p_quantity = 0 THEN
+        RAISE EXCEPTION 'Receipt quantity cannot be zero';
+    END IF;
+
+    IF p_serial_number IS NOT NULL AND abs(p_quantity) <> 1 THEN
+        RAISE EXCEPTION 'A serial number identifies a single unit';
+    END IF;
+
+    SELECT * INTO v_line FROM purchase_order_lines WHERE id = p_line_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Purchase order line % not found', p_line_id;
+    END IF;
+
+    SELECT * INTO v_order FROM purchase_orders WHERE id = v_line.purchase_order_id FOR UPDATE;
+    PERFORM assert_business_access(v_order.business_id, p_user_id);
+
+    IF v_order.status NOT IN ('sent', 'partially_received', 'received') THEN
+        RAISE EXCEPTION 'Purchase order % is % and cannot be received against', v_order.po_number, v_order.status;
+    END IF;
+
+    IF v_line.quantity_received + p_quantity < 0 THEN
+        RAISE EXCEPTION 'Cannot reverse more than was received (% received)', v_line.quantity_received;
+    END IF;
+
+    v_location_id := COALESCE(p_location_id, v_order.receive_location_id);
+
+    INSERT INTO stock_movements (
+        business_id, product_id, location_id, reason, quantity_change,
+        lot_number, expiry_date,
+        reference_type, reference_id, performed_by
+    ) VALUES (
+        v_order.business_id, v_line.product_id, v_location_id, 'receive', p_quantity,
+        p_lot_number, p_expiry_date,
+        'purchase_order', v_order.id::TEXT, p_user_id
+    )
+    RETURNING id, quantity_after INTO v_movement_id, v_quantity_after;
+
+    INSERT INTO purchase_order_receipts (
+        purchase_order_id, line_id, product_id, quantity,
+        location_id, lot_number, expiry_date, serial_number,
+        movement_id, scanned_barcode, received_by
+    ) VALUES (
+        v_order.id, v_line.id, v_line.product_id, p_quantity,
+        v_location_id, p_lot_number, p_expiry_date, p_serial_number,
+        v_movement_id, p_barcode, p_user_id
+    )
+    RETURNING id INTO v_receipt_id;
+
+    IF p_serial_number IS NOT NULL THEN
+        INSERT INTO serial_numbers (business_id, product_id, serial_number, location_id, status)
+        VALUES (
+            v_order.business_id, v_line.product_id, p_serial_number, v_location_id,
+            CASE WHEN p_quantity > 0 THEN 'in_stock' ELSE 'removed' END
+        )
+        ON CONFLICT (product_id, serial_number)
+        DO UPDATE SET status = EXCLUDED.status,
+                      location_id = EXCLUDED.location_id,
+                      last_seen_at = NOW();
+    END IF;
+
+    UPDATE purchase_order_lines
+    SET quantity_received = quantity_received + p_quantity
+    WHERE id = v_line.id;
+
+    -- Fully received once every line has at least what was ordered
+    SELECT CASE
+        WHEN bool_and(quantity_received >= quantity_ordered) THEN 'received'
+        WHEN bool_or(quantity_received > 0) THEN 'partially_received'
+        ELSE 'sent'
+    END INTO v_status
+    FROM purchase_order_lines
+    WHERE purchase_order_id = v_order.id;
+
+    UPDATE purchase_orders
+    SET status = v_status,
+        received_at = CASE WHEN v_status = 'received' THEN COALESCE(received_at, NOW()) ELSE NULL END
+    WHERE id = v_order.id;
+
+    RETURN jsonb_build_object(
+        'receipt_id', v_receipt_id,
+        'movement_id', v_movement_id,
+        'quantity_ordered', v_line.quantity_ordered,
+        'quantity_received', v_line.quantity_received + p_quantity,
+        'quantity_after', v_quantity_after,
+        'order_status', v_status
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
 
 -- Mobile access tracking for products
 CREATE OR REPLACE FUNCTION track_product_access()
@@ -435,7 +2771,7 @@ RETURNS TABLE (
     name VARCHAR(255),
     barcode VARCHAR(50),
     sku VARCHAR(100),
-    current_quantity INTEGER,
+    current_quantity NUMERIC(14,3),
     category VARCHAR(100),
     last_counted TIMESTAMPTZ,
     images JSONB
@@ -468,6 +2804,66 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- One page of delta sync changes after a cursor position, with the current
+-- row for upserts and no data for tombstones. Positions are
+-- (txid, entity_type, record_id). Only transactions older than every one
+-- still running are returned: their txids are below the snapshot's xmin, so
+-- nothing can commit behind the returned position later. A long-running
+-- transaction therefore holds back sync until it ends. 'horizon' is where
+-- the next pull starts once this one has reached the end.
+CREATE OR REPLACE FUNCTION get_sync_changes(
+    p_business_id UUID,
+    p_after_txid XID8 DEFAULT NULL,
+    p_after_entity VARCHAR(20) DEFAULT '',
+    p_after_record UUID DEFAULT '00000000-0000-0000-0000-000000000000',
+    p_limit INTEGER DEFAULT 500
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_horizon XID8 := pg_snapshot_xmin(pg_current_snapshot());
+    v_changes JSONB;
+BEGIN
+    PERFORM assert_business_access(p_business_id);
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'entity_type', c.entity_type,
+        'record_id', c.record_id,
+        'deleted', c.deleted,
+        'txid', c.txid::TEXT,
+        'data', c.data
+    ) ORDER BY c.txid, c.entity_type, c.record_id), '[]'::jsonb)
+    INTO v_changes
+    FROM (
+        SELECT
+            s.entity_type,
+            s.record_id,
+            s.deleted,
+            s.txid,
+            CASE
+                WHEN s.deleted THEN NULL
+                WHEN s.entity_type = 'product' THEN (
+                    SELECT to_jsonb(p) - 'ai_metadata' - 'last_accessed' - 'access_count'
+                    FROM products p WHERE p.id = s.record_id
+                )
+                WHEN s.entity_type = 'location' THEN (
+                    SELECT to_jsonb(l) FROM locations l WHERE l.id = s.record_id
+                )
+                ELSE (
+                    SELECT to_jsonb(sl) FROM stock_levels sl WHERE sl.id = s.record_id
+                )
+            END AS data
+        FROM sync_changes s
+        WHERE s.business_id = p_business_id
+        AND s.txid < v_horizon
+        AND (p_after_txid IS NULL OR (s.txid, s.entity_type, s.record_id) > (p_after_txid, p_after_entity, p_after_record))
+        ORDER BY s.txid, s.entity_type, s.record_id
+        LIMIT p_limit
+    ) c;
+
+    RETURN jsonb_build_object('changes', v_changes, 'horizon', v_horizon::TEXT);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
 -- Function for batch sync operations (mobile offline sync)
 CREATE OR REPLACE FUNCTION process_sync_batch(
     p_user_id UUID,
@@ -529,6 +2925,20 @@ SELECT cron.schedule('cleanup-sync-queue', '0 2 * * *', $$
     AND processed_at < NOW() - INTERVAL '7 days';
 $$);
 
+-- Forget processed operation IDs once no device could still be replaying them (daily at 2:30 AM)
+SELECT cron.schedule('cleanup-processed-operations', '30 2 * * *', $$
+    DELETE FROM processed_operations
+    WHERE claimed_at < NOW() - INTERVAL '30 days';
+$$);
+
+-- Drop delete tombstones after 30 days; devices that last synced before
+-- that are told to start over (run daily at 2:45 AM)
+SELECT cron.schedule('cleanup-sync-tombstones', '45 2 * * *', $$
+    DELETE FROM sync_changes
+    WHERE deleted
+    AND changed_at < NOW() - INTERVAL '30 days';
+$$);
+
 -- Update business usage metrics (run hourly)
 SELECT cron.schedule('update-usage-metrics', '0 * * * *', $$
     UPDATE businesses SET 
@@ -556,4 +2966,7 @@ ON CONFLICT DO NOTHING;
 -- Grant necessary permissions
 GRANT ALL ON ALL TABLES IN SCHEMA public TO authenticated;
 GRANT ALL ON ALL SEQUENCES IN SCHEMA public TO authenticated;
-GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA public TO authenticated;
\ No newline at end of file
+GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA public TO authenticated;
+
+-- Only called from triggers; not part of the API
+REVOKE EXECUTE ON FUNCTION refresh_accuracy_flag(UUID) FROM PUBLIC, authenticated;
@@ -19,10 +19,18 @@ export type { AuthState, BusinessInfo, SignUpData } from './auth/supabase-auth'
 export { 
   SupabaseProductRepository,
   SupabaseInventoryRepository, 
+  SupabaseLocationRepository,
+  SupabaseStockMovementRepository,
+  SupabaseSupplierRepository,
+  SupabaseCollaborationRepository,
   SupabaseBusinessRepository,
   repositoryFactory,
   productRepository,
   inventoryRepository,
+  locationRepository,
+  stockMovementRepository,
+  supplierRepository,
+  collaborationRepository,
   businessRepository
 } from './models/repositories'
 
@@ -169,6 +177,10 @@ export const foundationToFeatures: Foundation_To_Features = {
     products: repositoryFactory.getProductRepository(),
     inventory: repositoryFactory.getInventoryRepository(),
     businesses: repositoryFactory.getBusinessRepository(),
+    locations: repositoryFactory.getLocationRepository(),
+    movements: repositoryFactory.getStockMovementRepository(),
+    suppliers: repositoryFactory.getSupplierRepository(),
+    collaboration: repositoryFactory.getCollaborationRepository(),
     query: async (sql: string) => {
       // Raw SQL execution - use with caution
       throw new Error('Raw SQL queries not implemented for security reasons')
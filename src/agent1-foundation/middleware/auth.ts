@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
 import { cookies } from 'next/headers'
-import { Database } from '../config/supabase'
+import { supabaseAdmin } from '../database/supabase-client'
+
+// Selects the business for callers who belong to more than one
+export const BUSINESS_ID_HEADER = 'X-Business-ID'
+
+// The second argument Next.js passes route handlers
+export interface RouteContext<P extends Record<string, string> = Record<string, string>> {
+  params: Promise<P>
+}
 
 export interface AuthenticatedRequest extends NextRequest {
   user: {
@@ -19,21 +27,28 @@ export interface AuthenticatedRequest extends NextRequest {
 
 /**
  * Authentication middleware for API routes
- * Verifies user authentication and business context
+ * Verifies user authentication and business context. Pages authenticate
+ * with the session cookie; offline replays and the service worker send a
+ * bearer token instead. The business is the one named in the X-Business-ID
+ * header, which must be one of the caller's; without it, the business the
+ * caller joined first.
  */
-export async function withAuth(
-  handler: (req: AuthenticatedRequest) => Promise<NextResponse>,
+export function withAuth<P extends Record<string, string> = Record<string, string>>(
+  handler: (req: AuthenticatedRequest, context: RouteContext<P>) => Promise<NextResponse>,
   options: {
     requirePermission?: string
     allowedRoles?: ('admin' | 'user' | 'viewer')[]
   } = {}
 ) {
-  return async (request: NextRequest) => {
+  return async (request: NextRequest, context: RouteContext<P>) => {
     try {
-      const supabase = createRouteHandlerClient<Database>({ cookies })
+      const authHeader = request.headers.get('authorization')
+      const supabase = authHeader ? supabaseAdmin : createRouteHandlerClient({ cookies })
       
       // Verify authentication
-      const { data: { user }, error: authError } = await supabase.auth.getUser()
+      const { data: { user }, error: authError } = authHeader
+        ? await supabaseAdmin.auth.getUser(authHeader.replace('Bearer ', ''))
+        : await supabase.auth.getUser()
       
       if (authError || !user) {
         return NextResponse.json(
@@ -43,7 +58,8 @@ export async function withAuth(
       }
 
       // Get user's business context and permissions
-      const { data: teamMember, error: teamError } = await supabase
+      const businessId = request.headers.get(BUSINESS_ID_HEADER)
+      let membership = supabase
         .from('team_members')
         .select(`
           business_id,
@@ -58,7 +74,13 @@ export async function withAuth(
         `)
         .eq('user_id', user.id)
         .eq('status', 'active')
-        .single()
+      if (businessId) membership = membership.eq('business_id', businessId)
+
+      const { data: teamMember, error: teamError } = await membership
+        .order('joined_at', { ascending: true, nullsFirst: false })
+        .order('business_id', { ascending: true })
+        .limit(1)
+        .maybeSingle()
 
       if (teamError || !teamMember) {
         return NextResponse.json(
@@ -97,7 +119,7 @@ export async function withAuth(
         permissions: teamMember.permissions
       }
 
-      return await handler(authenticatedRequest)
+      return await handler(authenticatedRequest, context)
     } catch (error) {
       console.error('Auth middleware error:', error)
       return NextResponse.json(
@@ -234,7 +256,7 @@ export function createAPIHandler(
     }
   } = { requireAuth: true }
 ) {
-  let composedHandler = handler
+  let composedHandler: (req: AuthenticatedRequest, context?: RouteContext) => Promise<NextResponse> = handler
   
   // Apply error handling (outermost)
   composedHandler = withErrorHandling(composedHandler)
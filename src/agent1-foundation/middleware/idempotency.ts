@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '../database/supabase-client'
+import { AuthenticatedRequest, RouteContext } from './auth'
+import { OPERATION_ID_HEADER, DEVICE_ID_HEADER } from '../../shared/sync/idempotency'
+
+// A claim older than this belongs to a request that died mid-way and may be taken over
+const PROCESSING_TIMEOUT_MS = 2 * 60 * 1000
+
+type RouteHandler<P extends Record<string, string>> = (request: AuthenticatedRequest, context: RouteContext<P>) => Promise<NextResponse>
+
+type OperationKey = { user_id: string; device_id: string; operation_id: string }
+
+/**
+ * Exactly-once handling of client operations
+ * Requests carrying an operation ID (and the device that queued it) are
+ * applied once per user; a replay gets the original response back with an
+ * Idempotent-Replayed header. Only successful responses are kept, so a
+ * request that failed can be retried under the same ID. A handler whose
+ * write must not repeat when it fails after committing stores the operation
+ * ID with the write (see inventory_counts.client_operation_id). Requests
+ * without an operation ID pass straight through. Goes inside withAuth.
+ */
+export function withIdempotency<P extends Record<string, string> = Record<string, string>>(handler: RouteHandler<P>): RouteHandler<P> {
+  return async (request: AuthenticatedRequest, context: RouteContext<P>) => {
+    const operationId = request.headers.get(OPERATION_ID_HEADER)
+    if (!operationId) return handler(request, context)
+
+    const deviceId = request.headers.get(DEVICE_ID_HEADER) || ''
+    const key: OperationKey = { user_id: request.user.id, device_id: deviceId, operation_id: operationId }
+    const method = request.method
+    const path = new URL(request.url).pathname
+
+    const { error: claimError } = await supabaseAdmin
+      .from('processed_operations')
+      .insert({ ...key, method, path })
+
+    if (claimError) {
+      // 23505: the operation was seen before
+      if (claimError.code !== '23505') throw claimError
+
+      const { data: existing, error } = await supabaseAdmin
+        .from('processed_operations')
+        .select('*')
+        .match(key)
+        .single()
+
+      if (error) throw error
+
+      if (existing.method !== method || existing.path !== path) {
+        return NextResponse.json(
+          { error: 'Operation ID was already used for a different request' },
+          { status: 422 }
+        )
+      }
+
+      if (existing.status === 'completed') {
+        return NextResponse.json(existing.response_body, {
+          status: existing.response_status,
+          headers: { ...existing.response_headers, 'Idempotent-Replayed': 'true' }
+        })
+      }
+
+      if (!(await takeOverStaleClaim(key, existing.claimed_at))) {
+        return NextResponse.json(
+          { error: 'Operation is still being processed', code: 'operation_in_progress' },
+          { status: 409, headers: { 'Retry-After': '5' } }
+        )
+      }
+    }
+
+    let response: NextResponse
+    try {
+      response = await handler(request, context)
+    } catch (error) {
+      await releaseClaim(key)
+      throw error
+    }
+
+    if (!response.ok) {
+      await releaseClaim(key)
+      return response
+    }
+
+    const body = await response.clone().json().catch(() => null)
+    const headers: Record<string, string> = {}
+    response.headers.forEach((value, name) => {
+      if (name.startsWith('x-')) headers[name] = value
+    })
+
+    const { error: completeError } = await supabaseAdmin
+      .from('processed_operations')
+      .update({
+        status: 'completed',
+        response_status: response.status,
+        response_body: body,
+        response_headers: headers,
+        completed_at: new Date().toISOString()
+      })
+      .match(key)
+
+    // The change is applied either way; log so a later double-apply can be traced
+    if (completeError) {
+      console.error(`Failed to record processed operation ${operationId}:`, completeError)
+    }
+
+    return response
+  }
+}
+
+async function takeOverStaleClaim(
+  key: OperationKey,
+  claimedAt: string
+): Promise<boolean> {
+  if (Date.now() - new Date(claimedAt).getTime() < PROCESSING_TIMEOUT_MS) return false
+
+  // Conditional on the old claim time, so only one request takes it over
+  const { data } = await supabaseAdmin
+    .from('processed_operations')
+    .update({ claimed_at: new Date().toISOString() })
+    .match({ ...key, status: 'processing', claimed_at: claimedAt })
+    .select('operation_id')
+
+  return (data || []).length > 0
+}
+
+async function releaseClaim(key: OperationKey): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('processed_operations')
+    .delete()
+    .match({ ...key, status: 'processing' })
+
+  if (error) console.error(`Failed to release operation ${key.operation_id}:`, error)
+}
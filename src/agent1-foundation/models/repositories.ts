@@ -4,9 +4,43 @@ import {
   ProductRepository, 
   InventoryRepository, 
   BusinessRepository,
+  LocationRepository,
+  StockMovementRepository,
+  SupplierRepository,
   ProductSchema,
+  ProductUnitSchema,
+  ScannedCodeResolution,
+  ProductFamilyStock,
+  ProductExternalRefSchema,
+  KitComponentSchema,
+  KitOperation,
+  KitOperationResult,
   InventorySchema,
+  ConflictResolutionMethod,
+  CountConflictResolution,
+  AccuracyDimension,
+  AccuracyBucket,
+  RecordAccuracyPoint,
+  AccuracyFlaggedProduct,
   BusinessSchema,
+  LocationSchema,
+  StockLevelSchema,
+  StockLotSchema,
+  StockTransferResult,
+  StockMovementSchema,
+  StockMovementReason,
+  StockMovementOptions,
+  DailyDemandPoint,
+  SaleBasket,
+  SetQuantityResult,
+  SupplierSchema,
+  SupplierProductSchema,
+  CollaborationRepository,
+  CollaborationSessionSchema,
+  SessionPresenceSchema,
+  CountingLockSchema,
+  CountingConflictSchema,
+  SessionCountSchema,
   User
 } from '../../shared/contracts/agent-interfaces'
 
@@ -40,7 +74,14 @@ export class SupabaseProductRepository extends BaseRepository implements Product
           barcode: data.barcode || null,
           category: data.category || null,
           business_id: data.businessId!,
-          current_quantity: data.currentQuantity || 0,
+          current_quantity: data.currentQuantity || 0, // Journaled as an opening receipt (record_opening_stock)
+          is_serialized: data.isSerialized || false,
+          base_unit: data.baseUnit || 'each',
+          allow_fractional: data.allowFractional || false,
+          parent_product_id: data.parentId || null,
+          variant_options: data.variantOptions || [],
+          variant_attributes: data.variantAttributes || {},
+          is_kit: data.isKit || false,
           created_at: new Date().toISOString()
         })
         .select()
@@ -102,6 +143,13 @@ export class SupabaseProductRepository extends BaseRepository implements Product
       if (data.sku !== undefined) updateData.sku = data.sku
       if (data.barcode !== undefined) updateData.barcode = data.barcode
       if (data.category !== undefined) updateData.category = data.category
+      if (data.isSerialized !== undefined) updateData.is_serialized = data.isSerialized
+      if (data.baseUnit !== undefined) updateData.base_unit = data.baseUnit
+      if (data.allowFractional !== undefined) updateData.allow_fractional = data.allowFractional
+      if (data.parentId !== undefined) updateData.parent_product_id = data.parentId || null
+      if (data.variantOptions !== undefined) updateData.variant_options = data.variantOptions
+      if (data.variantAttributes !== undefined) updateData.variant_attributes = data.variantAttributes
+      if (data.isKit !== undefined) updateData.is_kit = data.isKit
 
       const { data: product, error } = await this.supabase
         .from('products')
@@ -184,175 +232,1540 @@ export class SupabaseProductRepository extends BaseRepository implements Product
     }
   }
 
+  async getUnits(productId: string): Promise<ProductUnitSchema[]> {
+    try {
+      const { data: units, error } = await this.supabase
+        .from('product_units')
+        .select('*')
+        .eq('product_id', productId)
+        .order('conversion_factor')
+
+      if (error) throw error
+
+      return units?.map(u => this.transformUnit(u)) || []
+    } catch (error) {
+      this.handleError(error, 'get product units')
+    }
+  }
+
+  async upsertUnit(data: Partial<ProductUnitSchema>): Promise<ProductUnitSchema> {
+    try {
+      const { data: unit, error } = await this.supabase
+        .from('product_units')
+        .upsert({
+          business_id: data.businessId!,
+          product_id: data.productId!,
+          name: data.name!,
+          conversion_factor: data.conversionFactor!,
+          barcode: data.barcode || null
+        }, { onConflict: 'product_id,name' })
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return this.transformUnit(unit)
+    } catch (error) {
+      this.handleError(error, 'upsert product unit')
+    }
+  }
+
+  async deleteUnit(id: string): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('product_units')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      return true
+    } catch (error) {
+      console.error('Delete product unit error:', error)
+      return false
+    }
+  }
+
+  async resolveCode(businessId: string, code: string): Promise<ScannedCodeResolution | null> {
+    try {
+      // Unit barcodes win over product barcodes (see resolve_scanned_code in schema.sql)
+      const { data, error } = await this.supabase.rpc('resolve_scanned_code', {
+        p_business_id: businessId,
+        p_code: code
+      })
+
+      if (error) throw error
+      if (!data) return null
+
+      return {
+        productId: data.product_id,
+        unitId: data.unit_id || undefined,
+        unitName: data.unit_name,
+        conversionFactor: Number(data.conversion_factor)
+      }
+    } catch (error) {
+      this.handleError(error, 'resolve scanned code')
+    }
+  }
+
+  async getVariants(parentId: string): Promise<ProductSchema[]> {
+    try {
+      const { data: variants, error } = await this.supabase
+        .from('products')
+        .select('*')
+        .eq('parent_product_id', parentId)
+        .order('name')
+
+      if (error) throw error
+
+      return variants?.map(v => this.transformProduct(v)) || []
+    } catch (error) {
+      this.handleError(error, 'get product variants')
+    }
+  }
+
+  async getFamilyStock(businessId: string): Promise<ProductFamilyStock[]> {
+    try {
+      const { data: families, error } = await this.supabase
+        .from('product_family_stock')
+        .select('*')
+        .eq('business_id', businessId)
+        .gt('variant_count', 0)
+
+      if (error) throw error
+
+      return families?.map(f => ({
+        productId: f.product_id,
+        variantCount: Number(f.variant_count),
+        totalQuantity: Number(f.total_quantity),
+        totalValue: Number(f.total_value)
+      })) || []
+    } catch (error) {
+      this.handleError(error, 'get product family stock')
+    }
+  }
+
+  async findByExternalRef(businessId: string, provider: string, externalId: string): Promise<ProductSchema | null> {
+    try {
+      const { data: ref, error } = await this.supabase
+        .from('product_external_refs')
+        .select('products:product_id (*)')
+        .eq('business_id', businessId)
+        .eq('provider', provider)
+        .eq('external_id', externalId)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') return null // Not found
+        throw error
+      }
+
+      const product = (ref as any)?.products
+      return product ? this.transformProduct(product) : null
+    } catch (error) {
+      this.handleError(error, 'find product by external ref')
+    }
+  }
+
+  async getExternalRef(productId: string, provider: string): Promise<ProductExternalRefSchema | null> {
+    try {
+      const { data: ref, error } = await this.supabase
+        .from('product_external_refs')
+        .select('*')
+        .eq('product_id', productId)
+        .eq('provider', provider)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') return null // Not found
+        throw error
+      }
+
+      return this.transformExternalRef(ref)
+    } catch (error) {
+      this.handleError(error, 'get product external ref')
+    }
+  }
+
+  async setExternalRef(data: Partial<ProductExternalRefSchema>): Promise<ProductExternalRefSchema> {
+    try {
+      const { data: ref, error } = await this.supabase
+        .from('product_external_refs')
+        .upsert({
+          business_id: data.businessId!,
+          product_id: data.productId!,
+          provider: data.provider!,
+          external_id: data.externalId!,
+          external_parent_id: data.externalParentId || null,
+          synced_at: new Date().toISOString()
+        }, { onConflict: 'product_id,provider' })
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return this.transformExternalRef(ref)
+    } catch (error) {
+      this.handleError(error, 'set product external ref')
+    }
+  }
+
+  async getKitComponents(kitProductId: string): Promise<KitComponentSchema[]> {
+    try {
+      const { data: components, error } = await this.supabase
+        .from('kit_components')
+        .select('*')
+        .eq('kit_product_id', kitProductId)
+
+      if (error) throw error
+
+      return components?.map(c => this.transformKitComponent(c)) || []
+    } catch (error) {
+      this.handleError(error, 'get kit components')
+    }
+  }
+
+  async setKitComponents(
+    kitProductId: string,
+    components: Array<{ componentProductId: string; quantity: number }>
+  ): Promise<KitComponentSchema[]> {
+    try {
+      const { data: kit, error: kitError } = await this.supabase
+        .from('products')
+        .select('business_id')
+        .eq('id', kitProductId)
+        .single()
+
+      if (kitError) throw kitError
+      if (!kit) throw new Error('Kit product not found')
+
+      // Replace the whole bill of materials: drop components no longer listed, upsert the rest
+      const keep = components.map(c => c.componentProductId)
+      let removal = this.supabase
+        .from('kit_components')
+        .delete()
+        .eq('kit_product_id', kitProductId)
+      if (keep.length > 0) {
+        removal = removal.not('component_product_id', 'in', `(${keep.join(',')})`)
+      }
+
+      const { error: deleteError } = await removal
+      if (deleteError) throw deleteError
+
+      if (components.length === 0) return []
+
+      const { data: saved, error } = await this.supabase
+        .from('kit_components')
+        .upsert(components.map(c => ({
+          business_id: kit.business_id,
+          kit_product_id: kitProductId,
+          component_product_id: c.componentProductId,
+          quantity: c.quantity
+        })), { onConflict: 'kit_product_id,component_product_id' })
+        .select()
+
+      if (error) throw error
+
+      return saved?.map(c => this.transformKitComponent(c)) || []
+    } catch (error) {
+      this.handleError(error, 'set kit components')
+    }
+  }
+
+  async findKitsUsingComponent(componentProductId: string): Promise<KitComponentSchema[]> {
+    try {
+      const { data: components, error } = await this.supabase
+        .from('kit_components')
+        .select('*')
+        .eq('component_product_id', componentProductId)
+
+      if (error) throw error
+
+      return components?.map(c => this.transformKitComponent(c)) || []
+    } catch (error) {
+      this.handleError(error, 'find kits using component')
+    }
+  }
+
+  private transformKitComponent(component: any): KitComponentSchema {
+    return {
+      id: component.id,
+      businessId: component.business_id,
+      kitProductId: component.kit_product_id,
+      componentProductId: component.component_product_id,
+      quantity: Number(component.quantity)
+    }
+  }
+
+  private transformExternalRef(ref: any): ProductExternalRefSchema {
+    return {
+      id: ref.id,
+      businessId: ref.business_id,
+      productId: ref.product_id,
+      provider: ref.provider,
+      externalId: ref.external_id,
+      externalParentId: ref.external_parent_id || undefined
+    }
+  }
+
+  private transformUnit(unit: any): ProductUnitSchema {
+    return {
+      id: unit.id,
+      businessId: unit.business_id,
+      productId: unit.product_id,
+      name: unit.name,
+      conversionFactor: Number(unit.conversion_factor),
+      barcode: unit.barcode || undefined
+    }
+  }
+
   private transformProduct(product: any): ProductSchema {
     return {
-      id: product.id,
-      name: product.name,
-      sku: product.sku || '',
-      barcode: product.barcode || '',
-      category: product.category || '',
-      businessId: product.business_id,
-      createdAt: new Date(product.created_at),
-      updatedAt: new Date(product.updated_at)
+      id: product.id,
+      name: product.name,
+      sku: product.sku || '',
+      barcode: product.barcode || '',
+      category: product.category || '',
+      businessId: product.business_id,
+      currentQuantity: Number(product.current_quantity) || 0,
+      isSerialized: product.is_serialized || false,
+      baseUnit: product.base_unit || 'each',
+      allowFractional: product.allow_fractional || false,
+      parentId: product.parent_product_id || undefined,
+      variantOptions: product.variant_options || [],
+      variantAttributes: product.variant_attributes || {},
+      isKit: product.is_kit || false,
+      createdAt: new Date(product.created_at),
+      updatedAt: new Date(product.updated_at)
+    }
+  }
+}
+
+// Inventory Repository Implementation
+export class SupabaseInventoryRepository extends BaseRepository implements InventoryRepository {
+  async create(data: Partial<InventorySchema>): Promise<InventorySchema> {
+    try {
+      const { data: inventory, error } = await this.supabase
+        .from('inventory_counts')
+        .insert({
+          product_id: data.productId!,
+          quantity: data.quantity!,
+          location: data.location || null,
+          location_id: data.locationId || null,
+          counted_at: new Date().toISOString()
+        })
+        .select(`
+          id,
+          product_id,
+          quantity,
+          location,
+          location_id,
+          counted_at,
+          products:product_id (business_id)
+        `)
+        .single()
+
+      if (error) throw error
+
+      return this.transformInventory(inventory)
+    } catch (error) {
+      this.handleError(error, 'create inventory record')
+    }
+  }
+
+  async findByProduct(productId: string): Promise<InventorySchema[]> {
+    try {
+      const { data: inventory, error } = await this.supabase
+        .from('inventory_counts')
+        .select(`
+          id,
+          product_id,
+          quantity,
+          location,
+          location_id,
+          counted_at,
+          products:product_id (business_id)
+        `)
+        .eq('product_id', productId)
+        .order('counted_at', { ascending: false })
+        .limit(100)
+
+      if (error) throw error
+
+      return inventory?.map(i => this.transformInventory(i)) || []
+    } catch (error) {
+      this.handleError(error, 'find inventory by product')
+    }
+  }
+
+  async update(id: string, data: Partial<InventorySchema>): Promise<InventorySchema> {
+    try {
+      const updateData: any = {}
+      if (data.quantity !== undefined) updateData.quantity = data.quantity
+      if (data.location !== undefined) updateData.location = data.location
+
+      const { data: inventory, error } = await this.supabase
+        .from('inventory_counts')
+        .update(updateData)
+        .eq('id', id)
+        .select(`
+          id,
+          product_id,
+          quantity,
+          location,
+          location_id,
+          counted_at,
+          products:product_id (business_id)
+        `)
+        .single()
+
+      if (error) throw error
+
+      return this.transformInventory(inventory)
+    } catch (error) {
+      this.handleError(error, 'update inventory')
+    }
+  }
+
+  async getHistory(productId: string, days: number = 30): Promise<InventorySchema[]> {
+    try {
+      const cutoffDate = new Date()
+      cutoffDate.setDate(cutoffDate.getDate() - days)
+
+      const { data: inventory, error } = await this.supabase
+        .from('inventory_counts')
+        .select(`
+          id,
+          product_id,
+          quantity,
+          location,
+          location_id,
+          counted_at,
+          products:product_id (business_id)
+        `)
+        .eq('product_id', productId)
+        .gte('counted_at', cutoffDate.toISOString())
+        .order('counted_at', { ascending: false })
+
+      if (error) throw error
+
+      return inventory?.map(i => this.transformInventory(i)) || []
+    } catch (error) {
+      this.handleError(error, 'get inventory history')
+    }
+  }
+
+  async bulkUpdate(updates: Array<{ id: string; quantity: number }>): Promise<InventorySchema[]> {
+    try {
+      const results: InventorySchema[] = []
+
+      // Process in batches for mobile optimization
+      const batchSize = 10
+      for (let i = 0; i < updates.length; i += batchSize) {
+        const batch = updates.slice(i, i + batchSize)
+        
+        const batchPromises = batch.map(async update => {
+          const { data: count, error } = await this.supabase
+            .from('inventory_counts')
+            .select(`
+              id,
+              product_id,
+              quantity,
+              location,
+              location_id,
+              counted_at,
+              products:product_id (business_id)
+            `)
+            .eq('id', update.id)
+            .single()
+
+          if (error) throw error
+          if (!count) throw new Error(`Inventory count ${update.id} not found`)
+
+          // Balances only change through the movement journal; the count
+          // snapshot itself is left untouched as part of the audit trail
+          const { data: result, error: movementError } = await this.supabase.rpc('set_stock_quantity', {
+            p_product_id: count.product_id,
+            p_quantity: update.quantity,
+            p_reason: 'adjust',
+            p_user_id: null,
+            p_location_id: count.location_id || null,
+            p_reference_type: 'inventory_count',
+            p_reference_id: update.id
+          })
+
+          if (movementError) throw movementError
+          if (!result) throw new Error('Stock adjustment returned no result')
+
+          return { ...this.transformInventory(count), quantity: result.quantity_after }
+        })
+
+        const batchResults = await Promise.all(batchPromises)
+        results.push(...batchResults)
+      }
+
+      return results
+    } catch (error) {
+      this.handleError(error, 'bulk update inventory')
+    }
+  }
+
+  async resolveCountConflict(
+    countIds: string[],
+    finalQuantity: number,
+    method: ConflictResolutionMethod,
+    resolvedBy: string | null,
+    notes?: string
+  ): Promise<CountConflictResolution> {
+    try {
+      // Records the outcome on every count and sets the balance in one transaction
+      const { data, error } = await this.supabase.rpc('resolve_count_conflict', {
+        p_count_ids: countIds,
+        p_final_quantity: finalQuantity,
+        p_method: method,
+        p_user_id: resolvedBy,
+        p_notes: notes || null
+      })
+
+      if (error) throw error
+      if (!data) throw new Error('Count conflict resolution returned no result')
+
+      return {
+        movementId: data.movement_id,
+        previousQuantity: Number(data.previous_quantity),
+        quantityAfter: Number(data.quantity_after)
+      }
+    } catch (error) {
+      this.handleError(error, 'resolve count conflict')
+    }
+  }
+
+  async getRecordAccuracy(
+    businessId: string,
+    options: { from: Date; to: Date; dimension?: AccuracyDimension; bucket?: AccuracyBucket }
+  ): Promise<RecordAccuracyPoint[]> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_inventory_record_accuracy', {
+        p_business_id: businessId,
+        p_from: options.from.toISOString(),
+        p_to: options.to.toISOString(),
+        p_dimension: options.dimension || 'business',
+        p_bucket: options.bucket || 'none'
+      })
+
+      if (error) throw error
+
+      return (data || []).map(row => ({
+        dimensionId: row.dimension_id,
+        label: row.dimension_label || row.dimension_id,
+        bucketStart: row.bucket_start ? new Date(row.bucket_start) : undefined,
+        counted: row.counted,
+        accurate: row.accurate,
+        accuracy: Number(row.accuracy)
+      }))
+    } catch (error) {
+      this.handleError(error, 'get record accuracy')
+    }
+  }
+
+  async getAccuracyFlaggedProducts(businessId: string): Promise<AccuracyFlaggedProduct[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('products')
+        .select('id, name, category, accuracy_flagged_at')
+        .eq('business_id', businessId)
+        .not('accuracy_flagged_at', 'is', null)
+        .order('accuracy_flagged_at', { ascending: true })
+
+      if (error) throw error
+
+      return (data || []).map(product => ({
+        productId: product.id,
+        productName: product.name,
+        category: product.category || undefined,
+        flaggedAt: new Date(product.accuracy_flagged_at)
+      }))
+    } catch (error) {
+      this.handleError(error, 'get accuracy flagged products')
+    }
+  }
+
+  private transformInventory(inventory: any): InventorySchema {
+    return {
+      id: inventory.id,
+      productId: inventory.product_id,
+      quantity: inventory.quantity,
+      location: inventory.location || '',
+      locationId: inventory.location_id || undefined,
+      lastCounted: new Date(inventory.counted_at),
+      businessId: inventory.products.business_id
+    }
+  }
+}
+
+// Location Repository Implementation
+export class SupabaseLocationRepository extends BaseRepository implements LocationRepository {
+  async create(data: Partial<LocationSchema>): Promise<LocationSchema> {
+    try {
+      const { data: location, error } = await this.supabase
+        .from('locations')
+        .insert({
+          business_id: data.businessId!,
+          name: data.name!,
+          code: data.code || null,
+          type: data.type || 'warehouse',
+          parent_id: data.parentId || null,
+          is_default: data.isDefault || false
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return this.transformLocation(location)
+    } catch (error) {
+      this.handleError(error, 'create location')
+    }
+  }
+
+  async findById(id: string): Promise<LocationSchema | null> {
+    try {
+      const { data: location, error } = await this.supabase
+        .from('locations')
+        .select('*')
+        .eq('id', id)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') return null // Not found
+        throw error
+      }
+
+      return this.transformLocation(location)
+    } catch (error) {
+      this.handleError(error, 'find location by id')
+    }
+  }
+
+  async list(businessId: string): Promise<LocationSchema[]> {
+    try {
+      const { data: locations, error } = await this.supabase
+        .from('locations')
+        .select('*')
+        .eq('business_id', businessId)
+        .eq('active', true)
+        .order('name')
+
+      if (error) throw error
+
+      return locations?.map(l => this.transformLocation(l)) || []
+    } catch (error) {
+      this.handleError(error, 'list locations')
+    }
+  }
+
+  async getStockLevels(productId: string): Promise<StockLevelSchema[]> {
+    try {
+      const { data: levels, error } = await this.supabase
+        .from('stock_levels')
+        .select('*')
+        .eq('product_id', productId)
+
+      if (error) throw error
+
+      return levels?.map(l => this.transformStockLevel(l)) || []
+    } catch (error) {
+      this.handleError(error, 'get stock levels')
+    }
+  }
+
+  async getStockLevel(productId: string, locationId: string): Promise<StockLevelSchema | null> {
+    try {
+      const { data: level, error } = await this.supabase
+        .from('stock_levels')
+        .select('*')
+        .eq('product_id', productId)
+        .eq('location_id', locationId)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') return null // No stock at this location yet
+        throw error
+      }
+
+      return this.transformStockLevel(level)
+    } catch (error) {
+      this.handleError(error, 'get stock level')
+    }
+  }
+
+  async getLots(productId: string, locationId?: string): Promise<StockLotSchema[]> {
+    try {
+      let query = this.supabase
+        .from('stock_lots')
+        .select('*')
+        .eq('product_id', productId)
+        .gt('quantity', 0)
+
+      if (locationId) query = query.eq('location_id', locationId)
+
+      // Earliest expiry first; lots without an expiry date go last
+      const { data: lots, error } = await query
+        .order('expiry_date', { ascending: true, nullsFirst: false })
+        .order('first_received_at', { ascending: true })
+
+      if (error) throw error
+
+      return lots?.map(l => this.transformLot(l)) || []
+    } catch (error) {
+      this.handleError(error, 'get stock lots')
+    }
+  }
+
+  async getExpiringLots(businessId: string, withinDays: number): Promise<StockLotSchema[]> {
+    try {
+      const cutoff = new Date()
+      cutoff.setDate(cutoff.getDate() + withinDays)
+
+      // Includes lots that have already expired but are still on hand
+      const { data: lots, error } = await this.supabase
+        .from('stock_lots')
+        .select('*')
+        .eq('business_id', businessId)
+        .gt('quantity', 0)
+        .lte('expiry_date', cutoff.toISOString().split('T')[0])
+        .order('expiry_date', { ascending: true })
+
+      if (error) throw error
+
+      return lots?.map(l => this.transformLot(l)) || []
+    } catch (error) {
+      this.handleError(error, 'get expiring lots')
+    }
+  }
+
+  async transferStock(
+    productId: string,
+    fromLocationId: string,
+    toLocationId: string,
+    quantity: number,
+    userId: string,
+    notes?: string,
+    batchId?: string
+  ): Promise<StockTransferResult> {
+    try {
+      // Runs as a single database transaction (see transfer_stock in schema.sql)
+      const { data, error } = await this.supabase.rpc('transfer_stock', {
+        p_product_id: productId,
+        p_from_location_id: fromLocationId,
+        p_to_location_id: toLocationId,
+        p_quantity: quantity,
+        p_user_id: userId,
+        p_notes: notes || null,
+        p_batch_id: batchId || null
+      })
+
+      if (error) throw error
+      if (!data) throw new Error('Transfer returned no result')
+
+      return {
+        transferId: data.transfer_id,
+        fromQuantity: data.from_quantity,
+        toQuantity: data.to_quantity
+      }
+    } catch (error) {
+      this.handleError(error, 'transfer stock')
+    }
+  }
+
+  private transformLocation(location: any): LocationSchema {
+    return {
+      id: location.id,
+      businessId: location.business_id,
+      name: location.name,
+      code: location.code || undefined,
+      type: location.type,
+      parentId: location.parent_id || undefined,
+      isDefault: location.is_default,
+      active: location.active,
+      createdAt: new Date(location.created_at)
+    }
+  }
+
+  private transformStockLevel(level: any): StockLevelSchema {
+    return {
+      id: level.id,
+      productId: level.product_id,
+      locationId: level.location_id,
+      quantity: level.quantity,
+      lastCounted: level.last_counted ? new Date(level.last_counted) : undefined,
+      businessId: level.business_id,
+      updatedAt: new Date(level.updated_at)
+    }
+  }
+
+  private transformLot(lot: any): StockLotSchema {
+    return {
+      id: lot.id,
+      businessId: lot.business_id,
+      productId: lot.product_id,
+      locationId: lot.location_id || undefined,
+      lotNumber: lot.lot_number,
+      expiryDate: lot.expiry_date || undefined,
+      quantity: lot.quantity,
+      firstReceivedAt: new Date(lot.first_received_at),
+      updatedAt: new Date(lot.updated_at)
+    }
+  }
+}
+
+// Stock Movement Repository Implementation (append-only journal)
+export class SupabaseStockMovementRepository extends BaseRepository implements StockMovementRepository {
+  async record(
+    productId: string,
+    quantityChange: number,
+    reason: StockMovementReason,
+    options: StockMovementOptions = {}
+  ): Promise<StockMovementSchema> {
+    try {
+      const { data: movement, error } = await this.supabase
+        .from('stock_movements')
+        .insert({
+          product_id: productId,
+          location_id: options.locationId || null,
+          reason,
+          quantity_change: quantityChange,
+          lot_number: options.lotNumber || null,
+          expiry_date: options.expiryDate || null,
+          reference_type: options.referenceType || null,
+          reference_id: options.referenceId || null,
+          performed_by: options.userId || null,
+          notes: options.notes || null
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return this.transformMovement(movement)
+    } catch (error) {
+      this.handleError(error, 'record stock movement')
+    }
+  }
+
+  async setQuantity(
+    productId: string,
+    quantity: number,
+    reason: StockMovementReason,
+    options: StockMovementOptions = {}
+  ): Promise<SetQuantityResult> {
+    try {
+      // The difference is computed under a row lock (see set_stock_quantity in schema.sql)
+      const { data, error } = await this.supabase.rpc('set_stock_quantity', {
+        p_product_id: productId,
+        p_quantity: quantity,
+        p_reason: reason,
+        p_user_id: options.userId || null,
+        p_location_id: options.locationId || null,
+        p_reference_type: options.referenceType || null,
+        p_reference_id: options.referenceId || null,
+        p_notes: options.notes || null,
+        p_lot_number: options.lotNumber || null,
+        p_expiry_date: options.expiryDate || null
+      })
+
+      if (error) throw error
+      if (!data) throw new Error('Quantity update returned no result')
+
+      return {
+        movementId: data.movement_id,
+        previousQuantity: data.previous_quantity,
+        quantityAfter: data.quantity_after
+      }
+    } catch (error) {
+      this.handleError(error, 'set stock quantity')
+    }
+  }
+
+  async listByProduct(
+    productId: string,
+    filters: { locationId?: string; since?: Date; until?: Date; limit?: number } = {}
+  ): Promise<StockMovementSchema[]> {
+    try {
+      let query = this.supabase
+        .from('stock_movements')
+        .select('*')
+        .eq('product_id', productId)
+
+      if (filters.locationId) query = query.eq('location_id', filters.locationId)
+      if (filters.since) query = query.gte('created_at', filters.since.toISOString())
+      if (filters.until) query = query.lte('created_at', filters.until.toISOString())
+
+      const { data: movements, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(filters.limit || 100)
+
+      if (error) throw error
+
+      return movements?.map(m => this.transformMovement(m)) || []
+    } catch (error) {
+      this.handleError(error, 'list stock movements')
+    }
+  }
+
+  async getQuantityAsOf(productId: string, asOf: Date, locationId?: string): Promise<number> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_stock_quantity_as_of', {
+        p_product_id: productId,
+        p_as_of: asOf.toISOString(),
+        p_location_id: locationId || null
+      })
+
+      if (error) throw error
+
+      return data || 0
+    } catch (error) {
+      this.handleError(error, 'get quantity as of')
+    }
+  }
+
+  async getDailyDemand(
+    businessId: string,
+    options: { from: Date; to: Date; productIds?: string[] }
+  ): Promise<DailyDemandPoint[]> {
+    try {
+      const pageSize = 1000
+      const points: DailyDemandPoint[] = []
+
+      // A product-day per row, so long histories run past one page
+      for (let offset = 0; ; offset += pageSize) {
+        const { data, error } = await this.supabase
+          .rpc('get_daily_demand', {
+            p_business_id: businessId,
+            p_from: options.from.toISOString(),
+            p_to: options.to.toISOString(),
+            p_product_ids: options.productIds || null
+          })
+          .range(offset, offset + pageSize - 1)
+
+        if (error) throw error
+
+        for (const row of data || []) {
+          points.push({ productId: row.product_id, date: row.day, quantity: Number(row.quantity) })
+        }
+        if (!data || data.length < pageSize) return points
+      }
+    } catch (error) {
+      this.handleError(error, 'get daily demand')
+    }
+  }
+
+  async getSaleBaskets(
+    businessId: string,
+    options: { from: Date; to: Date; sessionGapMinutes?: number }
+  ): Promise<SaleBasket[]> {
+    try {
+      const pageSize = 1000
+      const baskets: SaleBasket[] = []
+
+      for (let offset = 0; ; offset += pageSize) {
+        const { data, error } = await this.supabase
+          .rpc('get_sale_baskets', {
+            p_business_id: businessId,
+            p_from: options.from.toISOString(),
+            p_to: options.to.toISOString(),
+            ...(options.sessionGapMinutes ? { p_session_gap: `${options.sessionGapMinutes} minutes` } : {})
+          })
+          .range(offset, offset + pageSize - 1)
+
+        if (error) throw error
+
+        for (const row of data || []) {
+          baskets.push({ basketId: row.basket_id, productIds: row.product_ids })
+        }
+        if (!data || data.length < pageSize) return baskets
+      }
+    } catch (error) {
+      this.handleError(error, 'get sale baskets')
+    }
+  }
+
+  async processKit(
+    kitProductId: string,
+    operation: KitOperation,
+    quantity: number,
+    options: { userId?: string; locationId?: string; notes?: string } = {}
+  ): Promise<KitOperationResult> {
+    try {
+      // Kit and component movements commit together (see process_kit in schema.sql)
+      const { data, error } = await this.supabase.rpc('process_kit', {
+        p_kit_product_id: kitProductId,
+        p_operation: operation,
+        p_quantity: quantity,
+        p_user_id: options.userId || null,
+        p_location_id: options.locationId || null,
+        p_notes: options.notes || null
+      })
+
+      if (error) throw error
+      if (!data) throw new Error('Kit operation returned no result')
+
+      return {
+        referenceId: data.reference_id,
+        kitQuantityChange: Number(data.kit_quantity_change),
+        kitQuantityAfter: Number(data.kit_quantity_after),
+        builtFromComponents: Number(data.built_from_components),
+        components: (data.components || []).map((c: any) => ({
+          productId: c.product_id,
+          quantityChange: Number(c.quantity_change),
+          quantityAfter: Number(c.quantity_after)
+        }))
+      }
+    } catch (error) {
+      this.handleError(error, `process kit (${operation})`)
+    }
+  }
+
+  private transformMovement(movement: any): StockMovementSchema {
+    return {
+      id: movement.id,
+      businessId: movement.business_id,
+      productId: movement.product_id,
+      locationId: movement.location_id || undefined,
+      reason: movement.reason,
+      quantityChange: movement.quantity_change,
+      quantityAfter: movement.quantity_after,
+      lotNumber: movement.lot_number || undefined,
+      expiryDate: movement.expiry_date || undefined,
+      referenceType: movement.reference_type || undefined,
+      referenceId: movement.reference_id || undefined,
+      performedBy: movement.performed_by || undefined,
+      notes: movement.notes || undefined,
+      createdAt: new Date(movement.created_at)
+    }
+  }
+}
+
+// Supplier Repository Implementation
+export class SupabaseSupplierRepository extends BaseRepository implements SupplierRepository {
+  async create(data: Partial<SupplierSchema>): Promise<SupplierSchema> {
+    try {
+      const { data: supplier, error } = await this.supabase
+        .from('suppliers')
+        .insert({
+          business_id: data.businessId!,
+          name: data.name!,
+          contact_name: data.contactName || null,
+          email: data.email || null,
+          phone: data.phone || null,
+          address: data.address || null,
+          website: data.website || null,
+          default_lead_time_days: data.defaultLeadTimeDays ?? 7,
+          notes: data.notes || null
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return this.transformSupplier(supplier)
+    } catch (error) {
+      this.handleError(error, 'create supplier')
+    }
+  }
+
+  async findById(id: string): Promise<SupplierSchema | null> {
+    try {
+      const { data: supplier, error } = await this.supabase
+        .from('suppliers')
+        .select('*')
+        .eq('id', id)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') return null // Not found
+        throw error
+      }
+
+      return this.transformSupplier(supplier)
+    } catch (error) {
+      this.handleError(error, 'find supplier by id')
+    }
+  }
+
+  async update(id: string, data: Partial<SupplierSchema>): Promise<SupplierSchema> {
+    try {
+      const updateData: any = {}
+      if (data.name !== undefined) updateData.name = data.name
+      if (data.contactName !== undefined) updateData.contact_name = data.contactName
+      if (data.email !== undefined) updateData.email = data.email
+      if (data.phone !== undefined) updateData.phone = data.phone
+      if (data.address !== undefined) updateData.address = data.address
+      if (data.website !== undefined) updateData.website = data.website
+      if (data.defaultLeadTimeDays !== undefined) updateData.default_lead_time_days = data.defaultLeadTimeDays
+      if (data.notes !== undefined) updateData.notes = data.notes
+      if (data.active !== undefined) updateData.active = data.active
+
+      const { data: supplier, error } = await this.supabase
+        .from('suppliers')
+        .update(updateData)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return this.transformSupplier(supplier)
+    } catch (error) {
+      this.handleError(error, 'update supplier')
+    }
+  }
+
+  async list(businessId: string): Promise<SupplierSchema[]> {
+    try {
+      const { data: suppliers, error } = await this.supabase
+        .from('suppliers')
+        .select('*')
+        .eq('business_id', businessId)
+        .eq('active', true)
+        .order('name')
+
+      if (error) throw error
+
+      return suppliers?.map(s => this.transformSupplier(s)) || []
+    } catch (error) {
+      this.handleError(error, 'list suppliers')
+    }
+  }
+
+  async getProductSuppliers(productId: string): Promise<SupplierProductSchema[]> {
+    try {
+      const { data: terms, error } = await this.supabase
+        .from('supplier_products')
+        .select('*, supplier:suppliers(*)')
+        .eq('product_id', productId)
+        .order('is_preferred', { ascending: false })
+
+      if (error) throw error
+
+      return terms?.map(t => this.transformSupplierProduct(t)) || []
+    } catch (error) {
+      this.handleError(error, 'get product suppliers')
+    }
+  }
+
+  async getPreferredSupplier(productId: string): Promise<SupplierProductSchema | null> {
+    try {
+      // Falls back to the first active supplier when none is marked preferred
+      const suppliers = await this.getProductSuppliers(productId)
+      return suppliers.find(s => s.supplier?.active !== false) || null
+    } catch (error) {
+      this.handleError(error, 'get preferred supplier')
+    }
+  }
+
+  async upsertProductSupplier(data: Partial<SupplierProductSchema>): Promise<SupplierProductSchema> {
+    try {
+      // Only one preferred supplier per product (enforced by a partial unique index)
+      if (data.isPreferred) {
+        const { error: clearError } = await this.supabase
+          .from('supplier_products')
+          .update({ is_preferred: false })
+          .eq('product_id', data.productId!)
+          .neq('supplier_id', data.supplierId!)
+
+        if (clearError) throw clearError
+      }
+
+      // Only provided fields are written so existing terms are not reset to defaults
+      const upsertData: any = {
+        supplier_id: data.supplierId!,
+        product_id: data.productId!
+      }
+      if (data.supplierSku !== undefined) upsertData.supplier_sku = data.supplierSku
+      if (data.unitCost !== undefined) upsertData.unit_cost = data.unitCost
+      if (data.minOrderQuantity !== undefined) upsertData.min_order_quantity = data.minOrderQuantity
+      if (data.packSize !== undefined) upsertData.pack_size = data.packSize
+      if (data.leadTimeDays !== undefined) upsertData.lead_time_days = data.leadTimeDays
+      if (data.isPreferred !== undefined) upsertData.is_preferred = data.isPreferred
+
+      const { data: terms, error } = await this.supabase
+        .from('supplier_products')
+        .upsert(upsertData, { onConflict: 'supplier_id,product_id' })
+        .select('*, supplier:suppliers(*)')
+        .single()
+
+      if (error) throw error
+
+      return this.transformSupplierProduct(terms)
+    } catch (error) {
+      this.handleError(error, 'upsert product supplier')
+    }
+  }
+
+  private transformSupplier(supplier: any): SupplierSchema {
+    return {
+      id: supplier.id,
+      businessId: supplier.business_id,
+      name: supplier.name,
+      contactName: supplier.contact_name || undefined,
+      email: supplier.email || undefined,
+      phone: supplier.phone || undefined,
+      address: supplier.address || undefined,
+      website: supplier.website || undefined,
+      defaultLeadTimeDays: supplier.default_lead_time_days,
+      notes: supplier.notes || undefined,
+      active: supplier.active,
+      createdAt: new Date(supplier.created_at)
+    }
+  }
+
+  private transformSupplierProduct(terms: any): SupplierProductSchema {
+    return {
+      id: terms.id,
+      supplierId: terms.supplier_id,
+      productId: terms.product_id,
+      supplierSku: terms.supplier_sku || undefined,
+      unitCost: terms.unit_cost ?? undefined,
+      minOrderQuantity: terms.min_order_quantity,
+      packSize: terms.pack_size,
+      leadTimeDays: terms.lead_time_days ?? undefined,
+      isPreferred: terms.is_preferred,
+      supplier: terms.supplier ? this.transformSupplier(terms.supplier) : undefined
     }
   }
 }
 
-// Inventory Repository Implementation
-export class SupabaseInventoryRepository extends BaseRepository implements InventoryRepository {
-  async create(data: Partial<InventorySchema>): Promise<InventorySchema> {
+// Collaboration Repository Implementation (live counting session state)
+export class SupabaseCollaborationRepository extends BaseRepository implements CollaborationRepository {
+  async saveSession(session: CollaborationSessionSchema): Promise<void> {
     try {
-      const { data: inventory, error } = await this.supabase
-        .from('inventory_counts')
-        .insert({
-          product_id: data.productId!,
-          quantity: data.quantity!,
-          location: data.location || null,
-          counted_at: new Date().toISOString()
+      const { error } = await this.supabase
+        .from('counting_sessions')
+        .upsert({
+          id: session.id,
+          business_id: session.businessId,
+          name: session.name,
+          description: session.description || null,
+          // Only written on create so later saves keep the original author
+          ...(session.createdBy ? { created_by: session.createdBy } : {}),
+          participants: session.participants,
+          status: session.status,
+          settings: session.settings,
+          zones: session.zones,
+          progress: session.progress,
+          expected_duration: session.expectedDuration,
+          started_at: session.startedAt?.toISOString(),
+          completed_at: session.completedAt?.toISOString() || null
         })
-        .select(`
-          id,
-          product_id,
-          quantity,
-          location,
-          counted_at,
-          products:product_id (business_id)
-        `)
+
+      if (error) throw error
+    } catch (error) {
+      this.handleError(error, 'save collaboration session')
+    }
+  }
+
+  async findSession(id: string): Promise<CollaborationSessionSchema | null> {
+    try {
+      const { data: session, error } = await this.supabase
+        .from('counting_sessions')
+        .select('*')
+        .eq('id', id)
         .single()
 
+      if (error) {
+        if (error.code === 'PGRST116') return null // Not found
+        throw error
+      }
+
+      return this.transformSession(session)
+    } catch (error) {
+      this.handleError(error, 'find collaboration session')
+    }
+  }
+
+  async listLiveSessions(businessId?: string): Promise<CollaborationSessionSchema[]> {
+    try {
+      let query = this.supabase
+        .from('counting_sessions')
+        .select('*')
+        .in('status', ['planning', 'active', 'paused'])
+
+      if (businessId) query = query.eq('business_id', businessId)
+
+      const { data: sessions, error } = await query
+
       if (error) throw error
 
-      return this.transformInventory(inventory)
+      return sessions?.map(s => this.transformSession(s)) || []
     } catch (error) {
-      this.handleError(error, 'create inventory record')
+      this.handleError(error, 'list live collaboration sessions')
     }
   }
 
-  async findByProduct(productId: string): Promise<InventorySchema[]> {
+  async listCompletedSessions(businessId: string, limit = 20): Promise<CollaborationSessionSchema[]> {
     try {
-      const { data: inventory, error } = await this.supabase
-        .from('inventory_counts')
-        .select(`
-          id,
-          product_id,
-          quantity,
-          location,
-          counted_at,
-          products:product_id (business_id)
-        `)
-        .eq('product_id', productId)
-        .order('counted_at', { ascending: false })
-        .limit(100)
+      const { data: sessions, error } = await this.supabase
+        .from('counting_sessions')
+        .select('*')
+        .eq('business_id', businessId)
+        .eq('status', 'completed')
+        .order('completed_at', { ascending: false })
+        .limit(limit)
 
       if (error) throw error
 
-      return inventory?.map(i => this.transformInventory(i)) || []
+      return sessions?.map(s => this.transformSession(s)) || []
     } catch (error) {
-      this.handleError(error, 'find inventory by product')
+      this.handleError(error, 'list completed collaboration sessions')
     }
   }
 
-  async update(id: string, data: Partial<InventorySchema>): Promise<InventorySchema> {
+  async savePresence(presence: SessionPresenceSchema): Promise<void> {
     try {
-      const updateData: any = {}
-      if (data.quantity !== undefined) updateData.quantity = data.quantity
-      if (data.location !== undefined) updateData.location = data.location
+      const { error } = await this.supabase
+        .from('counting_session_presence')
+        .upsert({
+          session_id: presence.sessionId,
+          user_id: presence.userId,
+          user_name: presence.userName,
+          role: presence.role || null,
+          status: presence.status,
+          current_zone: presence.currentZone || null,
+          current_product: presence.currentProduct || null,
+          device_info: presence.deviceInfo || null,
+          location: presence.location || null,
+          last_activity: presence.lastActivity.toISOString()
+        })
 
-      const { data: inventory, error } = await this.supabase
-        .from('inventory_counts')
-        .update(updateData)
-        .eq('id', id)
-        .select(`
-          id,
-          product_id,
-          quantity,
-          location,
-          counted_at,
-          products:product_id (business_id)
-        `)
-        .single()
+      if (error) throw error
+    } catch (error) {
+      this.handleError(error, 'save session presence')
+    }
+  }
+
+  async removePresence(sessionId: string, userId: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('counting_session_presence')
+        .delete()
+        .eq('session_id', sessionId)
+        .eq('user_id', userId)
+
+      if (error) throw error
+    } catch (error) {
+      this.handleError(error, 'remove session presence')
+    }
+  }
+
+  async getPresence(sessionId: string): Promise<SessionPresenceSchema[]> {
+    try {
+      const { data: presence, error } = await this.supabase
+        .from('counting_session_presence')
+        .select('*')
+        .eq('session_id', sessionId)
 
       if (error) throw error
 
-      return this.transformInventory(inventory)
+      return presence?.map(p => ({
+        sessionId: p.session_id,
+        userId: p.user_id,
+        userName: p.user_name || p.user_id,
+        role: p.role || undefined,
+        status: p.status,
+        currentZone: p.current_zone || undefined,
+        currentProduct: p.current_product || undefined,
+        deviceInfo: p.device_info || undefined,
+        location: p.location || undefined,
+        lastActivity: new Date(p.last_activity)
+      })) || []
     } catch (error) {
-      this.handleError(error, 'update inventory')
+      this.handleError(error, 'get session presence')
     }
   }
 
-  async getHistory(productId: string, days: number = 30): Promise<InventorySchema[]> {
+  async claimLock(lock: Omit<CountingLockSchema, 'lockedAt'>): Promise<{ acquired: boolean; lock: CountingLockSchema }> {
     try {
-      const cutoffDate = new Date()
-      cutoffDate.setDate(cutoffDate.getDate() - days)
+      // Atomic across server instances: only a free, expired or own lock is taken
+      const { data, error } = await this.supabase.rpc('claim_counting_lock', {
+        p_session_id: lock.sessionId,
+        p_product_id: lock.productId,
+        p_user_id: lock.userId,
+        p_expires_at: lock.expiresAt.toISOString(),
+        p_lock_type: lock.lockType
+      })
 
-      const { data: inventory, error } = await this.supabase
-        .from('inventory_counts')
-        .select(`
-          id,
-          product_id,
-          quantity,
-          location,
-          counted_at,
-          products:product_id (business_id)
-        `)
+      if (error) throw error
+      if (!data) throw new Error('Lock claim returned no result')
+
+      return {
+        acquired: data.acquired,
+        lock: {
+          sessionId: lock.sessionId,
+          productId: lock.productId,
+          userId: data.user_id,
+          lockType: data.lock_type,
+          lockedAt: new Date(data.locked_at),
+          expiresAt: new Date(data.expires_at)
+        }
+      }
+    } catch (error) {
+      this.handleError(error, 'claim counting lock')
+    }
+  }
+
+  async releaseLock(sessionId: string, productId: string, userId?: string): Promise<void> {
+    try {
+      let query = this.supabase
+        .from('counting_product_locks')
+        .delete()
+        .eq('session_id', sessionId)
         .eq('product_id', productId)
-        .gte('counted_at', cutoffDate.toISOString())
-        .order('counted_at', { ascending: false })
+
+      if (userId) query = query.eq('user_id', userId)
+
+      const { error } = await query
 
       if (error) throw error
+    } catch (error) {
+      this.handleError(error, 'release counting lock')
+    }
+  }
 
-      return inventory?.map(i => this.transformInventory(i)) || []
+  async getLocks(sessionId: string): Promise<CountingLockSchema[]> {
+    try {
+      const { data: locks, error } = await this.supabase
+        .from('counting_product_locks')
+        .select('*')
+        .eq('session_id', sessionId)
+        .gt('expires_at', new Date().toISOString())
+
+      if (error) throw error
+
+      return locks?.map(l => this.transformLock(l)) || []
     } catch (error) {
-      this.handleError(error, 'get inventory history')
+      this.handleError(error, 'get counting locks')
     }
   }
 
-  async bulkUpdate(updates: Array<{ id: string; quantity: number }>): Promise<InventorySchema[]> {
+  async deleteExpiredLocks(): Promise<CountingLockSchema[]> {
     try {
-      const results: InventorySchema[] = []
+      const { data: locks, error } = await this.supabase
+        .from('counting_product_locks')
+        .delete()
+        .lte('expires_at', new Date().toISOString())
+        .select()
 
-      // Process in batches for mobile optimization
-      const batchSize = 10
-      for (let i = 0; i < updates.length; i += batchSize) {
-        const batch = updates.slice(i, i + batchSize)
-        
-        const batchPromises = batch.map(async update => {
-          const { data, error } = await this.supabase
-            .from('inventory_counts')
-            .update({ quantity: update.quantity })
-            .eq('id', update.id)
-            .select(`
-              id,
-              product_id,
-              quantity,
-              location,
-              counted_at,
-              products:product_id (business_id)
-            `)
-            .single()
+      if (error) throw error
 
-          if (error) throw error
-          return this.transformInventory(data)
+      return locks?.map(l => this.transformLock(l)) || []
+    } catch (error) {
+      this.handleError(error, 'delete expired counting locks')
+    }
+  }
+
+  async saveConflict(conflict: CountingConflictSchema): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('counting_conflicts')
+        .upsert({
+          id: conflict.id,
+          session_id: conflict.sessionId,
+          type: conflict.type,
+          status: conflict.status,
+          participants: conflict.participants,
+          product_id: conflict.productId || null,
+          zone_id: conflict.zoneId || null,
+          data: conflict.data,
+          resolution: conflict.resolution || null,
+          detected_at: conflict.detectedAt.toISOString(),
+          resolved_at: conflict.resolvedAt?.toISOString() || null
         })
 
-        const batchResults = await Promise.all(batchPromises)
-        results.push(...batchResults)
-      }
+      if (error) throw error
+    } catch (error) {
+      this.handleError(error, 'save counting conflict')
+    }
+  }
 
-      return results
+  async getOpenConflicts(sessionId: string): Promise<CountingConflictSchema[]> {
+    try {
+      const { data: conflicts, error } = await this.supabase
+        .from('counting_conflicts')
+        .select('*')
+        .eq('session_id', sessionId)
+        .neq('status', 'resolved')
+        .order('detected_at', { ascending: true })
+
+      if (error) throw error
+
+      return conflicts?.map(c => ({
+        id: c.id,
+        sessionId: c.session_id,
+        type: c.type,
+        status: c.status,
+        participants: c.participants || [],
+        productId: c.product_id || undefined,
+        zoneId: c.zone_id || undefined,
+        data: c.data || {},
+        resolution: c.resolution || undefined,
+        detectedAt: new Date(c.detected_at),
+        resolvedAt: c.resolved_at ? new Date(c.resolved_at) : undefined
+      })) || []
     } catch (error) {
-      this.handleError(error, 'bulk update inventory')
+      this.handleError(error, 'get open counting conflicts')
     }
   }
 
-  private transformInventory(inventory: any): InventorySchema {
+  async getUnresolvedCounts(sessionId: string): Promise<SessionCountSchema[]> {
+    try {
+      const { data: counts, error } = await this.supabase
+        .from('inventory_counts')
+        .select('id, product_id, counted_by, quantity, counted_at')
+        .eq('session_id', sessionId)
+        .eq('conflict_resolved', false)
+        .order('counted_at', { ascending: true })
+
+      if (error) throw error
+
+      return counts?.map(c => ({
+        id: c.id,
+        productId: c.product_id,
+        userId: c.counted_by,
+        quantity: Number(c.quantity),
+        countedAt: new Date(c.counted_at)
+      })) || []
+    } catch (error) {
+      this.handleError(error, 'get unresolved session counts')
+    }
+  }
+
+  private transformSession(session: any): CollaborationSessionSchema {
     return {
-      id: inventory.id,
-      productId: inventory.product_id,
-      quantity: inventory.quantity,
-      location: inventory.location || '',
-      lastCounted: new Date(inventory.counted_at),
-      businessId: inventory.products.business_id
+      id: session.id,
+      businessId: session.business_id,
+      name: session.name,
+      description: session.description || undefined,
+      createdBy: session.created_by || undefined,
+      status: session.status,
+      participants: session.participants || [],
+      zones: session.zones || [],
+      progress: session.progress || {},
+      settings: session.settings || {},
+      expectedDuration: session.expected_duration || 0,
+      startedAt: session.started_at ? new Date(session.started_at) : undefined,
+      completedAt: session.completed_at ? new Date(session.completed_at) : undefined,
+      updatedAt: session.updated_at ? new Date(session.updated_at) : undefined
+    }
+  }
+
+  private transformLock(lock: any): CountingLockSchema {
+    return {
+      sessionId: lock.session_id,
+      productId: lock.product_id,
+      userId: lock.user_id,
+      lockType: lock.lock_type,
+      lockedAt: new Date(lock.locked_at),
+      expiresAt: new Date(lock.expires_at)
     }
   }
 }
@@ -506,6 +1919,38 @@ export class RepositoryFactory {
     return this.repositories.get(key)
   }
 
+  getLocationRepository(supabaseClient?: SupabaseClient<Database>): LocationRepository {
+    const key = 'locations'
+    if (!this.repositories.has(key)) {
+      this.repositories.set(key, new SupabaseLocationRepository(supabaseClient))
+    }
+    return this.repositories.get(key)
+  }
+
+  getStockMovementRepository(supabaseClient?: SupabaseClient<Database>): StockMovementRepository {
+    const key = 'movements'
+    if (!this.repositories.has(key)) {
+      this.repositories.set(key, new SupabaseStockMovementRepository(supabaseClient))
+    }
+    return this.repositories.get(key)
+  }
+
+  getSupplierRepository(supabaseClient?: SupabaseClient<Database>): SupplierRepository {
+    const key = 'suppliers'
+    if (!this.repositories.has(key)) {
+      this.repositories.set(key, new SupabaseSupplierRepository(supabaseClient))
+    }
+    return this.repositories.get(key)
+  }
+
+  getCollaborationRepository(supabaseClient?: SupabaseClient<Database>): CollaborationRepository {
+    const key = 'collaboration'
+    if (!this.repositories.has(key)) {
+      this.repositories.set(key, new SupabaseCollaborationRepository(supabaseClient))
+    }
+    return this.repositories.get(key)
+  }
+
   getBusinessRepository(supabaseClient?: SupabaseClient<Database>): BusinessRepository {
     const key = 'business'
     if (!this.repositories.has(key)) {
@@ -525,4 +1970,8 @@ export const repositoryFactory = RepositoryFactory.getInstance()
 // Export individual repositories for direct use
 export const productRepository = repositoryFactory.getProductRepository()
 export const inventoryRepository = repositoryFactory.getInventoryRepository()
+export const locationRepository = repositoryFactory.getLocationRepository()
+export const stockMovementRepository = repositoryFactory.getStockMovementRepository()
+export const supplierRepository = repositoryFactory.getSupplierRepository()
+export const collaborationRepository = repositoryFactory.getCollaborationRepository()
 export const businessRepository = repositoryFactory.getBusinessRepository()
\ No newline at end of file
@@ -4,6 +4,7 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import { BrowserMultiFormatReader, DecodeHintType, BarcodeFormat } from '@zxing/library';
 import Webcam from 'react-webcam';
 import type { BarcodeData, ImageData } from '../../shared/contracts/agent-interfaces';
+import { parseGs1 } from '../../shared/barcode/gs1';
 
 interface BarcodeScannerProps {
   onScanComplete: (data: BarcodeData) => void;
@@ -157,6 +158,7 @@ export const BarcodeScanner = ({
           format: result.getBarcodeFormat().toString(),
           confidence: 1.0, // ZXing doesn't provide confidence
           timestamp: new Date(),
+          gs1: parseGs1(result.getText()) || undefined,
         };
         
         setLastScanTime(now);
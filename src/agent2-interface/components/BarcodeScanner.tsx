@@ -2,9 +2,11 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { BrowserMultiFormatReader, NotFoundException, Result } from '@zxing/library';
+import { parseGs1, Gs1ParseResult } from '../../shared/barcode/gs1';
 
 interface BarcodeScannerProps {
-  onScanSuccess: (code: string) => void;
+  // For GS1 labels the code is the GTIN; lot and expiry are in gs1
+  onScanSuccess: (code: string, gs1?: Gs1ParseResult) => void;
   onScanError?: (error: string) => void;
   className?: string;
 }
@@ -83,7 +85,8 @@ export function BarcodeScanner({ onScanSuccess, onScanError, className = '' }: B
           if (result) {
             const text = result.getText();
             console.log('Scanned:', text);
-            onScanSuccess(text);
+            const gs1 = parseGs1(text);
+            onScanSuccess(gs1?.gtin || text, gs1 || undefined);
             
             // Vibrate on successful scan (mobile)
             if ('vibrate' in navigator) {
@@ -2,7 +2,7 @@
 
 import { useState, useRef, useCallback } from 'react';
 import Image from 'next/image';
-import type { Product } from '../../../shared/contracts/agent-interfaces';
+import type { Product, ProductAssociation } from '../../../shared/contracts/agent-interfaces';
 
 interface ProductCardProps {
   product: Product;
@@ -11,6 +11,7 @@ interface ProductCardProps {
   onSelect?: (product: Product) => void;
   className?: string;
   showActions?: boolean;
+  frequentlyBoughtWith?: ProductAssociation[];
 }
 
 export const ProductCard = ({
@@ -20,12 +21,20 @@ export const ProductCard = ({
   onSelect,
   className = '',
   showActions = true,
+  frequentlyBoughtWith = [],
 }: ProductCardProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [swipeDistance, setSwipeDistance] = useState(0);
   const [isImageLoading, setIsImageLoading] = useState(true);
   const [imageError, setImageError] = useState(false);
   
+  // A family parent shows the stock of all its variants
+  const variants = product.variants || [];
+  const stockQuantity = variants.reduce(
+    (total, variant) => total + variant.currentQuantity,
+    product.currentQuantity
+  );
+  
   const startXRef = useRef<number>(0);
   const currentXRef = useRef<number>(0);
   const isDraggingRef = useRef(false);
@@ -202,18 +211,28 @@ export const ProductCard = ({
               📊 {product.barcode}
             </p>
           )}
+          {variants.length > 0 && (
+            <p className="text-mobile-xs md:text-sm text-warehouse-600 truncate">
+              {variants.length} variant{variants.length === 1 ? '' : 's'}
+            </p>
+          )}
+          {product.variantAttributes && Object.keys(product.variantAttributes).length > 0 && (
+            <p className="text-mobile-xs md:text-sm text-neutral-500 truncate">
+              {formatVariantAttributes(product.variantAttributes)}
+            </p>
+          )}
         </div>
 
         {/* Stock Info */}
         <div className="flex flex-col items-end gap-1">
           <div className={`
             px-2 py-1 md:px-3 md:py-2 rounded-mobile text-mobile-xs md:text-sm font-medium
-            ${getStockLevelColor(product.currentQuantity)}
+            ${getStockLevelColor(stockQuantity)}
           `}>
-            {product.currentQuantity}
+            {stockQuantity}
           </div>
           <span className="text-mobile-xs md:text-sm text-neutral-500">
-            {getStockLevelLabel(product.currentQuantity)}
+            {getStockLevelLabel(stockQuantity)}
           </span>
         </div>
 
@@ -242,6 +261,47 @@ export const ProductCard = ({
             </div>
           </div>
           
+          {/* Variant Breakdown */}
+          {variants.length > 0 && (
+            <ul className="mt-warehouse-md divide-y divide-neutral-200 text-mobile-sm md:text-base" data-testid="product-variants">
+              {variants.map(variant => (
+                <li key={variant.id} className="flex items-center justify-between py-2 gap-warehouse-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium text-neutral-900 truncate">
+                      {formatVariantAttributes(variant.variantAttributes) || variant.name}
+                    </p>
+                    <p className="text-mobile-xs md:text-sm text-neutral-500 truncate">
+                      {variant.sku}{variant.barcode ? ` · 📊 ${variant.barcode}` : ''}
+                    </p>
+                  </div>
+                  <span className={`
+                    px-2 py-1 rounded-mobile text-mobile-xs md:text-sm font-medium
+                    ${getStockLevelColor(variant.currentQuantity)}
+                  `}>
+                    {variant.currentQuantity}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          
+          {/* Frequently Bought With */}
+          {frequentlyBoughtWith.length > 0 && (
+            <div className="mt-warehouse-md" data-testid="product-frequently-bought-with">
+              <span className="text-mobile-sm md:text-base text-neutral-600">Frequently bought with:</span>
+              <ul className="mt-1 space-y-1 text-mobile-sm md:text-base">
+                {frequentlyBoughtWith.map(association => (
+                  <li key={association.productId} className="flex items-center justify-between gap-warehouse-sm">
+                    <span className="font-medium text-neutral-900 truncate">{association.name}</span>
+                    <span className="text-mobile-xs md:text-sm text-neutral-500 flex-shrink-0">
+                      {Math.round(association.confidence * 100)}% of baskets
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          
           {/* Quick Actions */}
           {showActions && (
             <div className="flex gap-warehouse-sm mt-warehouse-md">
@@ -279,4 +339,7 @@ export const ProductCard = ({
       )}
     </div>
   );
-};
\ No newline at end of file
+};
+
+const formatVariantAttributes = (attributes?: Record<string, string>) =>
+  Object.values(attributes || {}).join(' / ');
@@ -1,10 +1,17 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  offlineService,
+  PendingOperation,
+  MAX_RETRIES,
+} from '../../agent3-features/offline/offline-service';
 
 export interface OfflineOperation {
-  id: string;
-  type: 'count' | 'product_update' | 'product_create' | 'product_delete';
+  id: string; // Sent with every attempt so the server applies the operation once
+  deviceId?: string;
+  // 'request': a write the service worker caught while offline
+  type: 'count' | 'product_update' | 'product_create' | 'product_delete' | 'request';
   data: any;
   timestamp: Date;
   retryCount: number;
@@ -19,10 +26,36 @@ export interface OfflineState {
 }
 
 const STORAGE_KEYS = {
-  OFFLINE_QUEUE: 'scanstock_offline_queue',
+  OFFLINE_QUEUE: 'scanstock_offline_queue', // Queue from before the shared outbox; moved over on load
   LAST_SYNC: 'scanstock_last_sync',
 } as const;
 
+// How each operation type is queued in the outbox
+const OUTBOX_OPERATIONS: Record<Exclude<OfflineOperation['type'], 'request'>, [PendingOperation['type'], string]> = {
+  count: ['CREATE', 'inventory_count'],
+  product_update: ['UPDATE', 'product'],
+  product_create: ['CREATE', 'product'],
+  product_delete: ['DELETE', 'product'],
+};
+
+function toOfflineOperation(operation: PendingOperation): OfflineOperation {
+  const type = (Object.keys(OUTBOX_OPERATIONS) as Array<keyof typeof OUTBOX_OPERATIONS>).find(key =>
+    OUTBOX_OPERATIONS[key][0] === operation.type && OUTBOX_OPERATIONS[key][1] === operation.entity
+  );
+
+  return {
+    id: operation.id,
+    deviceId: operation.device_id,
+    type: type || 'request',
+    data: operation.data,
+    timestamp: new Date(operation.created_at),
+    retryCount: operation.retries,
+    maxRetries: operation.max_retries || MAX_RETRIES,
+  };
+}
+
+// Offline writes go to the outbox shared with useOfflineSync and the
+// service worker; this hook is a view of it in the shape pages expect
 export const useOffline = () => {
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
   const [queue, setQueue] = useState<OfflineOperation[]>([]);
@@ -30,10 +63,24 @@ export const useOffline = () => {
   const [syncInProgress, setSyncInProgress] = useState(false);
   const syncIntervalRef = useRef<NodeJS.Timeout>();
 
-  // Load persisted data on mount
+  const refreshQueue = useCallback(async () => {
+    const operations = await offlineService.getPendingOperations();
+    setQueue(operations.map(toOfflineOperation));
+  }, []);
+
+  // Open the outbox and load persisted data on mount
   useEffect(() => {
+    const load = async () => {
+      await offlineService.initialize();
+      await migrateLegacyQueue();
+      await refreshQueue();
+    };
+
     loadPersistedData();
-  }, []);
+    load();
+
+    return offlineService.onChange(refreshQueue);
+  }, [refreshQueue]);
 
   // Monitor connection status
   useEffect(() => {
@@ -69,16 +116,6 @@ export const useOffline = () => {
 
   const loadPersistedData = useCallback(() => {
     try {
-      // Load offline queue
-      const storedQueue = localStorage.getItem(STORAGE_KEYS.OFFLINE_QUEUE);
-      if (storedQueue) {
-        const parsedQueue = JSON.parse(storedQueue).map((op: any) => ({
-          ...op,
-          timestamp: new Date(op.timestamp),
-        }));
-        setQueue(parsedQueue);
-      }
-
       // Load last sync time
       const storedSyncTime = localStorage.getItem(STORAGE_KEYS.LAST_SYNC);
       if (storedSyncTime) {
@@ -89,14 +126,6 @@ export const useOffline = () => {
     }
   }, []);
 
-  const persistQueue = useCallback((newQueue: OfflineOperation[]) => {
-    try {
-      localStorage.setItem(STORAGE_KEYS.OFFLINE_QUEUE, JSON.stringify(newQueue));
-    } catch (error) {
-      console.error('Failed to persist offline queue:', error);
-    }
-  }, []);
-
   const persistSyncTime = useCallback((time: Date) => {
     try {
       localStorage.setItem(STORAGE_KEYS.LAST_SYNC, time.toISOString());
@@ -106,131 +135,39 @@ export const useOffline = () => {
     }
   }, []);
 
-  const queueOperation = useCallback((operation: Omit<OfflineOperation, 'id' | 'timestamp' | 'retryCount'>) => {
-    const newOperation: OfflineOperation = {
-      id: `offline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      timestamp: new Date(),
-      retryCount: 0,
-      maxRetries: operation.maxRetries || 3,
-      ...operation,
-    };
-
-    const newQueue = [...queue, newOperation];
-    setQueue(newQueue);
-    persistQueue(newQueue);
-
-    // Attempt immediate sync if online
-    if (!isOffline && !syncInProgress) {
-      setTimeout(() => syncQueue(), 1000); // Small delay to ensure state updates
+  const queueOperation = useCallback(async (
+    operation: Omit<OfflineOperation, 'id' | 'deviceId' | 'timestamp' | 'retryCount' | 'maxRetries' | 'type'> & {
+      type: keyof typeof OUTBOX_OPERATIONS;
+      maxRetries?: number;
     }
+  ) => {
+    const [type, entity] = OUTBOX_OPERATIONS[operation.type];
+    return await offlineService.addPendingOperation(type, entity, operation.data, {
+      maxRetries: operation.maxRetries,
+    });
+  }, []);
 
-    return newOperation.id;
-  }, [queue, isOffline, syncInProgress, persistQueue]);
-
-  const removeFromQueue = useCallback((operationId: string) => {
-    const newQueue = queue.filter(op => op.id !== operationId);
-    setQueue(newQueue);
-    persistQueue(newQueue);
-  }, [queue, persistQueue]);
-
-  const processOperation = useCallback(async (operation: OfflineOperation): Promise<boolean> => {
-    try {
-      const baseUrl = '/api';
-      let response: Response;
-
-      switch (operation.type) {
-        case 'count':
-          response = await fetch(`${baseUrl}/inventory/count`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(operation.data),
-          });
-          break;
-
-        case 'product_update':
-          response = await fetch(`${baseUrl}/products/${operation.data.id}`, {
-            method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(operation.data),
-          });
-          break;
-
-        case 'product_create':
-          response = await fetch(`${baseUrl}/products`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(operation.data),
-          });
-          break;
-
-        case 'product_delete':
-          response = await fetch(`${baseUrl}/products/${operation.data.id}`, {
-            method: 'DELETE',
-          });
-          break;
-
-        default:
-          console.error('Unknown operation type:', operation.type);
-          return false;
-      }
-
-      return response.ok;
-    } catch (error) {
-      console.error('Failed to process operation:', error);
-      return false;
-    }
+  const removeFromQueue = useCallback(async (operationId: string) => {
+    await offlineService.removePendingOperation(operationId);
   }, []);
 
   const syncQueue = useCallback(async () => {
-    if (isOffline || syncInProgress || queue.length === 0) {
+    if (isOffline || syncInProgress) {
       return;
     }
 
     setSyncInProgress(true);
-    
-    try {
-      let successCount = 0;
-      let failureCount = 0;
-      const failedOperations: OfflineOperation[] = [];
-
-      // Process operations sequentially to maintain order
-      for (const operation of queue) {
-        const success = await processOperation(operation);
-        
-        if (success) {
-          successCount++;
-        } else {
-          // Increment retry count
-          const updatedOperation = {
-            ...operation,
-            retryCount: operation.retryCount + 1,
-          };
-
-          // Keep in queue if under retry limit
-          if (updatedOperation.retryCount < updatedOperation.maxRetries) {
-            failedOperations.push(updatedOperation);
-          }
-          
-          failureCount++;
-        }
 
-        // Small delay between operations to avoid overwhelming server
-        await new Promise(resolve => setTimeout(resolve, 200));
-      }
-
-      // Update queue with only failed operations
-      setQueue(failedOperations);
-      persistQueue(failedOperations);
+    try {
+      const synced = await offlineService.syncPendingOperations();
 
       // Update sync time if we had any successes
-      if (successCount > 0) {
+      if (synced > 0) {
         persistSyncTime(new Date());
       }
 
-      console.log(`Sync completed: ${successCount} success, ${failureCount} failed`);
-      
       // Haptic feedback for successful sync
-      if (successCount > 0 && 'vibrate' in navigator) {
+      if (synced > 0 && 'vibrate' in navigator) {
         navigator.vibrate([50, 100, 50]);
       }
 
@@ -239,12 +176,11 @@ export const useOffline = () => {
     } finally {
       setSyncInProgress(false);
     }
-  }, [isOffline, syncInProgress, queue, processOperation, persistQueue, persistSyncTime]);
+  }, [isOffline, syncInProgress, persistSyncTime]);
 
-  const clearQueue = useCallback(() => {
-    setQueue([]);
-    persistQueue([]);
-  }, [persistQueue]);
+  const clearQueue = useCallback(async () => {
+    await offlineService.clearPendingOperations();
+  }, []);
 
   const getQueueStats = useCallback(() => {
     const stats = queue.reduce((acc, op) => {
@@ -274,8 +210,31 @@ export const useOffline = () => {
 
     // Utilities
     getQueueStats,
-    
+
     // Queue data (read-only)
     queue: [...queue], // Return copy to prevent direct mutation
   };
-};
\ No newline at end of file
+};
+
+// Move operations from the old localStorage queue into the outbox. They keep
+// their ids: attempts may already have reached the server under them.
+async function migrateLegacyQueue() {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.OFFLINE_QUEUE);
+    if (!stored) return;
+
+    for (const operation of JSON.parse(stored)) {
+      const outbox = OUTBOX_OPERATIONS[operation.type as keyof typeof OUTBOX_OPERATIONS];
+      if (!outbox) continue;
+
+      await offlineService.addPendingOperation(outbox[0], outbox[1], operation.data, {
+        id: operation.id,
+        maxRetries: operation.maxRetries,
+      });
+    }
+
+    localStorage.removeItem(STORAGE_KEYS.OFFLINE_QUEUE);
+  } catch (error) {
+    console.error('Failed to move the offline queue to the outbox:', error);
+  }
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useEffect, useState, useCallback } from 'react';
-import { offlineService } from '@/agent3-features/offline/offline-service';
+import { offlineService, FailedOperation, PendingOperation } from '@/agent3-features/offline/offline-service';
 import { realtimeService } from '@/agent3-features/sync/realtime-service';
 
 interface UseOfflineSyncOptions {
@@ -19,6 +19,16 @@ export function useOfflineSync({
   const [pendingOperations, setPendingOperations] = useState(0);
   const [syncStatus, setSyncStatus] = useState<'idle' | 'syncing' | 'error'>('idle');
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
+  const [outbox, setOutbox] = useState<PendingOperation[]>([]);
+  const [failedOperations, setFailedOperations] = useState<FailedOperation[]>([]);
+
+  // The outbox is shared with useOffline and the service worker
+  const refreshQueues = useCallback(async () => {
+    const operations = await offlineService.getPendingOperations();
+    setOutbox(operations);
+    setPendingOperations(operations.length);
+    setFailedOperations(await offlineService.getFailedOperations());
+  }, []);
 
   // Initialize offline service
   useEffect(() => {
@@ -26,12 +36,18 @@ export function useOfflineSync({
 
     const initOffline = async () => {
       await offlineService.initialize();
-      const count = await offlineService.getPendingOperationsCount();
-      setPendingOperations(count);
+      await refreshQueues();
+      if (navigator.onLine) {
+        offlineService.pullChanges().catch(error => console.error('Failed to pull changes:', error));
+      }
     };
 
     initOffline();
 
+    // Syncs the service or the service worker start on their own (e.g. when
+    // back online) change the outbox too
+    const unsubscribe = offlineService.onChange(refreshQueues);
+
     // Monitor online/offline status
     const handleOnline = () => {
       setIsOnline(true);
@@ -50,10 +66,11 @@ export function useOfflineSync({
     setIsOnline(navigator.onLine);
 
     return () => {
+      unsubscribe();
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
-  }, [enableOffline]);
+  }, [enableOffline, refreshQueues]);
 
   // Initialize real-time subscriptions
   useEffect(() => {
@@ -62,21 +79,18 @@ export function useOfflineSync({
     const setupRealtime = () => {
       realtimeService.subscribeToProducts(businessId, {
         onInsert: (product) => {
-          console.log('New product added:', product);
           // Update local cache
           if (enableOffline) {
             offlineService.cacheProducts([product]);
           }
         },
         onUpdate: (product) => {
-          console.log('Product updated:', product);
           // Update local cache
           if (enableOffline) {
             offlineService.cacheProducts([product]);
           }
         },
-        onDelete: (product) => {
-          console.log('Product deleted:', product);
+        onDelete: () => {
           // Remove from local cache if needed
         }
       });
@@ -96,6 +110,7 @@ export function useOfflineSync({
     setSyncStatus('syncing');
     try {
       await offlineService.syncPendingOperations();
+      await offlineService.pullChanges();
       const count = await offlineService.getPendingOperationsCount();
       setPendingOperations(count);
       setLastSyncTime(new Date());
@@ -121,15 +136,10 @@ export function useOfflineSync({
   ) => {
     if (!enableOffline) return;
 
+    // Syncs through Background Sync, or right away from the page without it
     await offlineService.addPendingOperation(type, entity, data);
-    const count = await offlineService.getPendingOperationsCount();
-    setPendingOperations(count);
-
-    // Try to sync immediately if online
-    if (isOnline) {
-      syncPendingOperations();
-    }
-  }, [enableOffline, isOnline, syncPendingOperations]);
+    await refreshQueues();
+  }, [enableOffline, refreshQueues]);
 
   // Get cached products
   const getCachedProducts = useCallback(async () => {
@@ -137,20 +147,37 @@ export function useOfflineSync({
     return await offlineService.getProducts();
   }, [enableOffline]);
 
+  // Queue a failed operation again, with edited data if given
+  const retryFailedOperation = useCallback(async (id: string, data?: any) => {
+    if (!enableOffline) return;
+    await offlineService.retryFailedOperation(id, data);
+    await refreshQueues();
+  }, [enableOffline, refreshQueues]);
+
+  const discardFailedOperation = useCallback(async (id: string) => {
+    if (!enableOffline) return;
+    await offlineService.discardFailedOperation(id);
+    await refreshQueues();
+  }, [enableOffline, refreshQueues]);
+
   // Clear all cached data
   const clearCache = useCallback(async () => {
     if (!enableOffline) return;
     await offlineService.clearCache();
-    setPendingOperations(0);
-  }, [enableOffline]);
+    await refreshQueues();
+  }, [enableOffline, refreshQueues]);
 
   return {
     isOnline,
     pendingOperations,
+    outbox,
+    failedOperations,
     syncStatus,
     lastSyncTime,
     syncPendingOperations,
     queueOperation,
+    retryFailedOperation,
+    discardFailedOperation,
     getCachedProducts,
     clearCache,
     realtimeStatus: realtimeService.getConnectionStatus()
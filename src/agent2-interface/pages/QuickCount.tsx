@@ -14,6 +14,12 @@ interface CountEntry {
   timestamp: Date;
   location?: string;
   notes?: string;
+  serialNumbers?: string[];
+}
+
+interface ScannedUnit {
+  name: string;
+  conversionFactor: number; // Base units in one of this unit
 }
 
 // Mock product lookup - will be replaced by Agent 3 integration
@@ -33,11 +39,37 @@ const MOCK_PRODUCT_LOOKUP = (barcode: string): Product | null => {
       barcode: '123456789013',
       currentQuantity: 120,
     },
+    '123456789014': {
+      id: '3',
+      name: 'Laptop 14" i7',
+      sku: 'LT-14-I7',
+      barcode: '123456789014',
+      currentQuantity: 4,
+      isSerialized: true,
+    },
+    '2000001234567': {
+      id: '4',
+      name: 'Coffee Beans',
+      sku: 'COF-BEAN-KG',
+      barcode: '2000001234567',
+      currentQuantity: 12.5,
+      baseUnit: 'kg',
+      allowFractional: true,
+    },
   };
   
   return mockProducts[barcode] || null;
 };
 
+// Mock case/pack barcodes - will be replaced by /api/products/resolve
+const MOCK_UNIT_LOOKUP = (barcode: string): { productBarcode: string; unit: ScannedUnit } | null => {
+  const mockUnits: Record<string, { productBarcode: string; unit: ScannedUnit }> = {
+    '10123456789019': { productBarcode: '123456789013', unit: { name: 'case', conversionFactor: 24 } },
+  };
+
+  return mockUnits[barcode] || null;
+};
+
 export default function QuickCount() {
   const [currentProduct, setCurrentProduct] = useState<Product | null>(null);
   const [quantity, setQuantity] = useState(1);
@@ -46,6 +78,14 @@ export default function QuickCount() {
   const [counts, setCounts] = useState<CountEntry[]>([]);
   const [isScanning, setIsScanning] = useState(true);
   const [scanMode, setScanMode] = useState<'barcode' | 'image'>('barcode');
+  const [scannedUnit, setScannedUnit] = useState<ScannedUnit | null>(null);
+
+  // Serialized products are counted by scanning each unit's serial number
+  const [serials, setSerials] = useState<string[]>([]);
+  const [serialInput, setSerialInput] = useState('');
+  const [isScanningSerials, setIsScanningSerials] = useState(false);
+  const isSerialized = !!currentProduct?.isSerialized;
+  const countedQuantity = isSerialized ? serials.length : quantity;
   
   const { queueOperation } = useOffline();
   const locationInputRef = useRef<HTMLInputElement>(null);
@@ -53,14 +93,19 @@ export default function QuickCount() {
   const handleScanComplete = useCallback(async (barcodeData: BarcodeData) => {
     console.log('Barcode scanned in QuickCount:', barcodeData);
     
-    // Look up product by barcode
-    const product = MOCK_PRODUCT_LOOKUP(barcodeData.barcode);
+    // Look up product by barcode; a case barcode counts as its base units
+    const unitMatch = MOCK_UNIT_LOOKUP(barcodeData.barcode);
+    const product = MOCK_PRODUCT_LOOKUP(unitMatch?.productBarcode || barcodeData.barcode);
     
     if (product) {
       setCurrentProduct(product);
+      setScannedUnit(unitMatch?.unit || null);
+      setQuantity(unitMatch?.unit.conversionFactor || 1);
       setIsScanning(false);
-      // Auto-focus location input
-      setTimeout(() => locationInputRef.current?.focus(), 100);
+      // Auto-focus location input (serialized products focus the serial input instead)
+      if (!product.isSerialized) {
+        setTimeout(() => locationInputRef.current?.focus(), 100);
+      }
     } else {
       // Product not found - show error or create new product flow
       alert('Product not found. Please add this product first.');
@@ -68,16 +113,39 @@ export default function QuickCount() {
     }
   }, []);
 
+  const addSerial = useCallback((value: string) => {
+    const serial = value.trim();
+    if (!serial) return;
+
+    setSerials(prev => {
+      if (prev.includes(serial)) {
+        // Already counted - warn instead of double counting
+        if ('vibrate' in navigator) {
+          navigator.vibrate([50, 50, 50]);
+        }
+        return prev;
+      }
+      return [serial, ...prev];
+    });
+    setSerialInput('');
+  }, []);
+
+  const handleSerialScan = useCallback((barcodeData: BarcodeData) => {
+    // GS1 labels carry the serial in AI 21; otherwise the barcode is the serial
+    addSerial(barcodeData.gs1?.serialNumber || barcodeData.barcode);
+  }, [addSerial]);
+
   const handleSubmitCount = useCallback(async () => {
     if (!currentProduct) return;
     
     const countEntry: CountEntry = {
       id: Date.now().toString(),
       product: currentProduct,
-      quantity,
+      quantity: countedQuantity,
       timestamp: new Date(),
       location: location || undefined,
       notes: notes || undefined,
+      serialNumbers: isSerialized ? serials : undefined,
     };
     
     // Add to local counts
@@ -88,9 +156,10 @@ export default function QuickCount() {
       type: 'count',
       data: {
         productId: currentProduct.id,
-        quantity,
+        quantity: countedQuantity,
         location,
         notes,
+        serial_numbers: countEntry.serialNumbers,
         timestamp: countEntry.timestamp.toISOString(),
       },
       maxRetries: 5, // Counts are critical, retry more
@@ -101,6 +170,9 @@ export default function QuickCount() {
     setQuantity(1);
     setLocation('');
     setNotes('');
+    setSerials([]);
+    setIsScanningSerials(false);
+    setScannedUnit(null);
     setIsScanning(true);
     
     // Haptic feedback
@@ -109,13 +181,16 @@ export default function QuickCount() {
     }
     
     console.log('Count submitted:', countEntry);
-  }, [currentProduct, quantity, location, notes, queueOperation]);
+  }, [currentProduct, countedQuantity, isSerialized, serials, location, notes, queueOperation]);
 
   const handleCancel = useCallback(() => {
     setCurrentProduct(null);
     setQuantity(1);
     setLocation('');
     setNotes('');
+    setSerials([]);
+    setIsScanningSerials(false);
+    setScannedUnit(null);
     setIsScanning(true);
   }, []);
 
@@ -219,19 +294,98 @@ export default function QuickCount() {
           
           {/* Form */}
           <div className="flex-1 p-warehouse-md space-y-warehouse-lg">
-            {/* Quantity */}
-            <div>
-              <label className="block text-mobile-base font-semibold text-neutral-900 mb-warehouse-sm">
-                Quantity Counted
-              </label>
-              <QuantityControl
-                value={quantity}
-                onChange={setQuantity}
-                min={0}
-                max={9999}
-                className="w-full"
-              />
-            </div>
+            {/* Quantity, or one scan per unit for serialized products */}
+            {isSerialized ? (
+              <div>
+                <label className="block text-mobile-base font-semibold text-neutral-900 mb-warehouse-sm">
+                  Serial Numbers ({serials.length})
+                </label>
+                <form
+                  onSubmit={(e) => { e.preventDefault(); addSerial(serialInput); }}
+                  className="flex gap-warehouse-sm"
+                >
+                  <input
+                    type="text"
+                    value={serialInput}
+                    onChange={(e) => setSerialInput(e.target.value)}
+                    placeholder="Scan or type serial"
+                    autoFocus
+                    className="
+                      flex-1 p-warehouse-sm border border-neutral-200 rounded-mobile
+                      text-mobile-base placeholder-neutral-500
+                      focus:border-warehouse-500 focus:outline-none focus:ring-2 focus:ring-warehouse-200
+                    "
+                    data-testid="serial-input"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setIsScanningSerials(!isScanningSerials)}
+                    className="thumb-zone bg-neutral-100 rounded-mobile flex items-center justify-center"
+                    data-testid="serial-camera-toggle"
+                  >
+                    📷
+                  </button>
+                </form>
+                {isScanningSerials && (
+                  <div className="mt-warehouse-sm h-48 rounded-mobile overflow-hidden">
+                    <BarcodeScanner
+                      onScanComplete={handleSerialScan}
+                      scanMode="barcode"
+                      className="h-full"
+                    />
+                  </div>
+                )}
+                <ul className="mt-warehouse-sm divide-y divide-neutral-200" data-testid="serial-list">
+                  {serials.map(serial => (
+                    <li key={serial} className="flex items-center justify-between py-1 text-mobile-sm">
+                      <span className="font-mono">{serial}</span>
+                      <button
+                        onClick={() => setSerials(prev => prev.filter(s => s !== serial))}
+                        className="px-2 text-neutral-500"
+                        aria-label={`Remove ${serial}`}
+                      >
+                        ✕
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <div>
+                <label className="block text-mobile-base font-semibold text-neutral-900 mb-warehouse-sm">
+                  Quantity Counted{currentProduct?.baseUnit ? ` (${currentProduct.baseUnit})` : ''}
+                </label>
+                {currentProduct?.allowFractional ? (
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    step="0.001"
+                    min={0}
+                    value={quantity}
+                    onChange={(e) => setQuantity(Math.max(0, parseFloat(e.target.value) || 0))}
+                    className="
+                      w-full p-warehouse-sm border border-neutral-200 rounded-mobile
+                      text-mobile-lg text-center
+                      focus:border-warehouse-500 focus:outline-none focus:ring-2 focus:ring-warehouse-200
+                    "
+                    data-testid="weight-input"
+                  />
+                ) : (
+                  <QuantityControl
+                    value={quantity}
+                    onChange={setQuantity}
+                    min={0}
+                    max={9999}
+                    className="w-full"
+                  />
+                )}
+                {scannedUnit && (
+                  <p className="mt-1 text-mobile-sm text-neutral-600">
+                    Scanned 1 {scannedUnit.name} = {scannedUnit.conversionFactor} {currentProduct?.baseUnit || 'units'}
+                  </p>
+                )}
+              </div>
+            )}
             
             {/* Location */}
             <div>
@@ -301,7 +455,7 @@ export default function QuickCount() {
                 "
                 data-testid="submit-count"
               >
-                Submit Count: {quantity}
+                Submit Count: {countedQuantity}
               </button>
             </div>
           </div>
@@ -17,6 +17,15 @@ const STATIC_ASSETS = [
   // Add critical CSS and JS files when they exist
 ];
 
+// Outbox shared with the page (src/agent3-features/offline/offline-service.ts);
+// keep these in step with it and with src/shared/sync/idempotency.ts
+const OUTBOX_DB = 'scanstock-offline';
+const OUTBOX_SYNC_TAG = 'outbox-sync';
+const OUTBOX_LOCK = 'scanstock-outbox';
+const OUTBOX_MAX_RETRIES = 5;
+const OPERATION_ID_HEADER = 'Idempotency-Key';
+const DEVICE_ID_HEADER = 'X-Device-ID';
+
 // API endpoints that should be cached
 const API_CACHE_PATTERNS = [
   /\/api\/products/,
@@ -158,6 +167,10 @@ async function handleApiRequest(request) {
 
     // For POST/PUT/DELETE requests, try network first
     if (method === 'POST' || method === 'PUT' || method === 'DELETE') {
+      // Outbox replays are already queued; the drain that sent them retries
+      const fromOutbox = request.headers.has(OPERATION_ID_HEADER);
+      const queueable = fromOutbox ? null : request.clone();
+
       try {
         const response = await fetch(request);
         
@@ -168,8 +181,13 @@ async function handleApiRequest(request) {
         
         return response;
       } catch (error) {
-        // Network failed, queue for background sync
-        await queueFailedRequest(request);
+        // Network failed, queue in the outbox for background sync
+        if (!queueable || !(await queueFailedRequest(queueable))) {
+          return new Response(
+            JSON.stringify({ error: 'Network unavailable', offline: true }),
+            { status: 503, headers: { 'Content-Type': 'application/json' } }
+          );
+        }
         
         return new Response(
           JSON.stringify({ 
@@ -208,43 +226,206 @@ async function invalidateRelatedCache(url) {
   await Promise.all(relatedKeys.map(key => cache.delete(key)));
 }
 
-// Queue failed requests for background sync
+// Queue a write the network refused into the outbox, ordered with other
+// writes to the same product. Returns false if it cannot be queued.
 async function queueFailedRequest(request) {
-  // Store in IndexedDB for background sync
-  const requestData = {
-    url: request.url,
-    method: request.method,
-    headers: Object.fromEntries(request.headers.entries()),
-    body: request.method !== 'GET' ? await request.text() : null,
-    timestamp: Date.now(),
-  };
-
-  // This would integrate with the useOffline hook's queue
-  self.postMessage({
-    type: 'QUEUE_REQUEST',
-    data: requestData,
-  });
+  const body = await request.text();
+  let data = null;
+  if (body) {
+    try {
+      data = JSON.parse(body);
+    } catch (error) {
+      return false; // Only JSON bodies can be replayed and edited
+    }
+  }
+
+  const db = await openOutbox();
+  if (!db) return false;
+
+  try {
+    const url = new URL(request.url);
+    const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const entity = url.pathname.replace(/^\/api\//, '');
+    const deviceId = await requestResult(db.transaction('settings').objectStore('settings').get('device_id'));
+
+    const operation = {
+      id,
+      device_id: deviceId || '',
+      type: { POST: 'CREATE', PUT: 'UPDATE', DELETE: 'DELETE' }[request.method],
+      entity,
+      method: request.method,
+      url: url.pathname + url.search,
+      entity_key: entityKey(id, entity, url, data),
+      data,
+      created_at: new Date().toISOString(),
+      retries: 0,
+    };
+
+    const tx = db.transaction('pending_operations', 'readwrite');
+    tx.objectStore('pending_operations').put(operation);
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+
+  await notifyOutboxChanged();
+  if (self.registration.sync) {
+    await self.registration.sync.register(OUTBOX_SYNC_TAG);
+  }
+  return true;
+}
+
+// The same keys the page gives its operations (operationRequest in
+// offline-service.ts): a product's writes replay in the order they were made
+function entityKey(id, entity, url, data) {
+  const productId = entity === 'products'
+    ? (data && data.id) || url.searchParams.get('id')
+    : (data && (data.product_id || data.productId)) || url.searchParams.get('product_id');
+
+  return productId ? `product:${productId}` : `${entity}:${id}`;
 }
 
 // Background sync event
 self.addEventListener('sync', (event) => {
-  if (event.tag === 'background-sync') {
-    event.waitUntil(syncOfflineRequests());
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(withOutboxLock(drainOutbox));
   }
 });
 
-// Sync offline requests when connection is restored
-async function syncOfflineRequests() {
+// Replay the outbox oldest first, the same way the page does: an operation
+// that has to wait holds back later ones for the same entity, rejections go
+// to failed_operations. Throws while anything is left waiting, so the
+// browser schedules another sync.
+async function drainOutbox() {
+  const db = await openOutbox();
+  if (!db) return;
+
+  const waiting = new Set();
+  let changed = false;
+
   try {
-    // This would work with the offline queue from useOffline hook
-    self.postMessage({
-      type: 'SYNC_OFFLINE_QUEUE',
-    });
-  } catch (error) {
-    console.error('Background sync failed:', error);
+    const settings = db.transaction('settings').objectStore('settings');
+    const [token, deviceId] = await Promise.all([
+      requestResult(settings.get('access_token')),
+      requestResult(settings.get('device_id')),
+    ]);
+
+    const operations = await requestResult(
+      db.transaction('pending_operations').objectStore('pending_operations').index('created_at').getAll()
+    );
+
+    for (const operation of operations) {
+      if (waiting.has(operation.entity_key)) continue;
+
+      let response = null;
+      try {
+        response = await fetch(operation.url, {
+          method: operation.method,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            [OPERATION_ID_HEADER]: operation.id,
+            [DEVICE_ID_HEADER]: operation.device_id || deviceId || '',
+          },
+          body: operation.method === 'DELETE' ? undefined : JSON.stringify(operation.data),
+        });
+      } catch (error) {
+        // Still offline
+      }
+
+      changed = true;
+
+      if (response && response.ok) {
+        const tx = db.transaction('pending_operations', 'readwrite');
+        tx.objectStore('pending_operations').delete(operation.id);
+        await transactionDone(tx);
+        continue;
+      }
+
+      const body = response ? await response.json().catch(() => null) : null;
+      operation.retries++;
+
+      if (isRejected(response, body) || operation.retries >= (operation.max_retries || OUTBOX_MAX_RETRIES)) {
+        const tx = db.transaction(['failed_operations', 'pending_operations'], 'readwrite');
+        tx.objectStore('failed_operations').put({
+          ...operation,
+          failed_at: new Date().toISOString(),
+          reason: (body && body.error) || (response ? `Sync failed: ${response.status}` : 'Network unavailable'),
+          status: response ? response.status : null,
+          response: body,
+        });
+        tx.objectStore('pending_operations').delete(operation.id);
+        await transactionDone(tx);
+      } else {
+        const tx = db.transaction('pending_operations', 'readwrite');
+        tx.objectStore('pending_operations').put(operation);
+        await transactionDone(tx);
+        waiting.add(operation.entity_key);
+      }
+    }
+  } finally {
+    db.close();
+  }
+
+  if (changed) await notifyOutboxChanged();
+  if (waiting.size > 0) {
+    throw new Error(`${waiting.size} outbox entities still waiting to sync`);
   }
 }
 
+// Rejections other than expired sessions, timeouts, rate limits and an
+// earlier attempt still in flight fail the same way every time
+function isRejected(response, body) {
+  if (!response) return false;
+  const status = response.status;
+  const inFlight = body && body.code === 'operation_in_progress';
+  return status >= 400 && status < 500 && status !== 401 && status !== 408 && status !== 429 && !inFlight;
+}
+
+// Page and service worker drain the same outbox one at a time. Waiting for
+// the other to finish keeps this sync event open until its own drain has run.
+function withOutboxLock(drain) {
+  if (!self.navigator.locks) return drain();
+  return self.navigator.locks.request(OUTBOX_LOCK, drain);
+}
+
+// The page's database, opened at whatever version the page created. The
+// page owns the schema: before it has created the outbox there is nothing
+// to drain.
+async function openOutbox() {
+  const request = indexedDB.open(OUTBOX_DB);
+  request.onupgradeneeded = () => request.transaction.abort(); // Not created yet; leave it to the page
+
+  const db = await requestResult(request).catch(() => null);
+  if (!db) return null;
+  if (!db.objectStoreNames.contains('pending_operations')) {
+    db.close();
+    return null;
+  }
+  return db;
+}
+
+// Let open pages refresh their outbox state
+async function notifyOutboxChanged() {
+  const windows = await self.clients.matchAll({ type: 'window' });
+  windows.forEach((client) => client.postMessage({ type: 'OUTBOX_CHANGED' }));
+}
+
+function requestResult(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx) {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
 // Push notification event
 self.addEventListener('push', (event) => {
   if (event.data) {
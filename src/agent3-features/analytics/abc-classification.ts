@@ -0,0 +1,42 @@
+// Pareto (ABC) classification shared by analytics and the cycle count scheduler
+
+export type ABCCategory = 'A' | 'B' | 'C';
+
+// Cumulative share of value at which each class ends
+export const ABC_THRESHOLDS = { A: 80, B: 95 };
+
+export interface ABCRanked<T> {
+  item: T;
+  category: ABCCategory;
+  valuePercentage: number;
+  cumulativePercentage: number;
+}
+
+/**
+ * Rank items by value, highest first, and class them by the cumulative share
+ * of total value they account for. Items without value all land in C.
+ */
+export function classifyABC<T>(items: T[], value: (item: T) => number): ABCRanked<T>[] {
+  const sorted = [...items].sort((a, b) => value(b) - value(a));
+  const total = sorted.reduce((sum, item) => sum + value(item), 0);
+  let cumulative = 0;
+
+  return sorted.map(item => {
+    cumulative += value(item);
+    const cumulativePercentage = total > 0 ? (cumulative / total) * 100 : 100;
+
+    return {
+      item,
+      category: abcCategory(cumulativePercentage, value(item)),
+      valuePercentage: total > 0 ? (value(item) / total) * 100 : 0,
+      cumulativePercentage
+    };
+  });
+}
+
+function abcCategory(cumulativePercentage: number, value: number): ABCCategory {
+  if (value <= 0) return 'C';
+  if (cumulativePercentage <= ABC_THRESHOLDS.A) return 'A';
+  if (cumulativePercentage <= ABC_THRESHOLDS.B) return 'B';
+  return 'C';
+}
@@ -1,5 +1,7 @@
 import { Foundation_To_Features, ProductRepository, InventoryRepository, ProductSchema } from '../../shared/contracts/agent-interfaces';
 import { OpenAIService } from '../ai-recognition/openai-service';
+import { classifyABC } from './abc-classification';
+import { dailySeries, forecastDemand, forecastConfidence, DemandForecastResult } from './demand-forecasting';
 import {
   DashboardMetrics,
   Insight,
@@ -8,13 +10,23 @@ import {
   Report,
   ReportType,
   ABCAnalysis,
+  ProductFamilyRollup,
   KPIMetrics,
+  QualityKPIs,
   TimeSeriesData,
   DemandPrediction,
+  SeasonalityData,
   TopMovingProduct,
   BenchmarkData
 } from './types';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FORECAST_HISTORY_DAYS = 730; // Two years, so annual seasonality can be estimated
+const TOP_PRODUCTS_DAYS = 90;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
 export class AnalyticsService {
   constructor(
     private foundation: Foundation_To_Features,
@@ -138,35 +150,47 @@ export class AnalyticsService {
     };
   }
 
-  // Demand predictions with ML
+  // Demand predictions from the forecasting engine, over two years of sales
   async generateDemandPredictions(
     businessId: string,
     limit: number = 50
   ): Promise<DemandPrediction[]> {
     const products = await this.getTopProducts(businessId, limit);
+    if (products.length === 0) return [];
+
+    const to = new Date();
+    const from = new Date(to.getTime() - FORECAST_HISTORY_DAYS * DAY_MS);
+    const demand = await this.foundation.database.movements.getDailyDemand(businessId, {
+      from,
+      to,
+      productIds: products.map(p => p.id)
+    });
     const predictions: DemandPrediction[] = [];
 
     for (const product of products) {
       try {
-        const history = await this.inventoryRepo.getHistory(product.id, 90);
-        const seasonality = this.detectSeasonality(history);
-        const baselineDemand = this.calculateBaselineDemand(history);
-        const seasonalAdjustment = this.calculateSeasonalAdjustment(seasonality);
-        
-        const predictedDemand = Math.round(baselineDemand * seasonalAdjustment);
-        const confidence = this.calculatePredictionConfidence(history, seasonality);
+        const series = dailySeries(demand.filter(d => d.productId === product.id), from, to);
+        const forecast = forecastDemand(series, { horizonDays: 30 });
+        const predictedDemand = Math.round(forecast.total.mean);
         
         // Determine recommended action
-        const currentStock = history[0]?.quantity || 0;
+        const currentStock = product.currentQuantity || 0;
         const recommendedAction = this.getRecommendedAction(currentStock, predictedDemand, product);
         
         predictions.push({
           productId: product.id,
           productName: product.name,
           predictedDemand,
-          confidence,
-          timeHorizon: 30,
-          seasonality,
+          predictionInterval: {
+            lower: Math.floor(forecast.total.lower),
+            upper: Math.ceil(forecast.total.upper),
+            level: forecast.level
+          },
+          forecastMethod: forecast.method,
+          accuracy: forecast.accuracy,
+          confidence: forecastConfidence(forecast),
+          timeHorizon: forecast.horizonDays,
+          seasonality: this.describeSeasonality(forecast),
           recommendedAction,
           reasoning: this.generateReasoningText(recommendedAction, currentStock, predictedDemand)
         });
@@ -178,31 +202,25 @@ export class AnalyticsService {
     return predictions.sort((a, b) => b.confidence - a.confidence);
   }
 
-  // ABC Analysis
-  async performABCAnalysis(businessId: string): Promise<ABCAnalysis[]> {
-    const products = await this.getProductsWithRevenue(businessId);
-    
-    // Sort by revenue descending
-    products.sort((a, b) => b.revenue - a.revenue);
-    
-    const totalRevenue = products.reduce((sum, p) => sum + p.revenue, 0);
-    let cumulativeRevenue = 0;
+  // ABC Analysis (variants are classified as part of their family by default)
+  async performABCAnalysis(
+    businessId: string,
+    options: { rollUpVariants?: boolean } = {}
+  ): Promise<ABCAnalysis[]> {
+    const { rollUpVariants = true } = options;
+    const productsWithRevenue = await this.getProductsWithRevenue(businessId);
+    const products = rollUpVariants
+      ? this.rollUpVariantRevenue(productsWithRevenue)
+      : productsWithRevenue;
     
-    return products.map(product => {
-      cumulativeRevenue += product.revenue;
-      const cumulativePercentage = (cumulativeRevenue / totalRevenue) * 100;
-      
-      let category: 'A' | 'B' | 'C';
+    return classifyABC(products, p => p.revenue).map(({ item: product, category, valuePercentage, cumulativePercentage }) => {
       let managementStrategy: string;
       
-      if (cumulativePercentage <= 80) {
-        category = 'A';
+      if (category === 'A') {
         managementStrategy = 'Tight control, frequent reviews, close supplier relationships';
-      } else if (cumulativePercentage <= 95) {
-        category = 'B';
+      } else if (category === 'B') {
         managementStrategy = 'Moderate control, periodic reviews, economic order quantities';
       } else {
-        category = 'C';
         managementStrategy = 'Simple controls, annual reviews, large order quantities';
       }
 
@@ -211,11 +229,12 @@ export class AnalyticsService {
         productName: product.name,
         category,
         revenue: product.revenue,
-        revenuePercentage: (product.revenue / totalRevenue) * 100,
+        revenuePercentage: valuePercentage,
         cumulativePercentage,
         units: product.units,
         turnoverRate: product.turnoverRate,
         profitMargin: product.profitMargin,
+        variantCount: product.variantCount || undefined,
         classification: {
           reason: `${category} items represent ${category === 'A' ? '80%' : category === 'B' ? '15%' : '5%'} of revenue`,
           recommendation: this.getABCRecommendation(category, product),
@@ -225,6 +244,38 @@ export class AnalyticsService {
     });
   }
 
+  // Variant stock rolled up to each family parent
+  async getProductFamilyRollups(businessId: string): Promise<ProductFamilyRollup[]> {
+    const families = await this.productRepo.getFamilyStock(businessId);
+
+    return Promise.all(families.map(async family => {
+      const [parent, variants] = await Promise.all([
+        this.productRepo.findById(family.productId),
+        this.productRepo.getVariants(family.productId)
+      ]);
+
+      return {
+        productId: family.productId,
+        productName: parent?.name || '',
+        variantCount: family.variantCount,
+        totalQuantity: family.totalQuantity,
+        totalValue: family.totalValue,
+        variants: variants.map(variant => {
+          const quantity = variant.currentQuantity || 0;
+          return {
+            productId: variant.id,
+            productName: variant.name,
+            sku: variant.sku,
+            barcode: variant.barcode,
+            attributes: variant.variantAttributes || {},
+            quantity,
+            share: family.totalQuantity > 0 ? quantity / family.totalQuantity : 0
+          };
+        })
+      };
+    }));
+  }
+
   // Report generation
   async generateReport(
     businessId: string,
@@ -308,6 +359,42 @@ export class AnalyticsService {
     };
   }
 
+  // Inventory record accuracy from scored count lines
+  private async calculateQualityKPIs(businessId: string, period: { start: Date; end: Date }): Promise<QualityKPIs> {
+    const range = { from: period.start, to: period.end };
+
+    const [overall, trend, byCategory, byLocation, byCounter, flaggedProducts] = await Promise.all([
+      this.inventoryRepo.getRecordAccuracy(businessId, range),
+      this.inventoryRepo.getRecordAccuracy(businessId, { ...range, bucket: 'week' }),
+      this.inventoryRepo.getRecordAccuracy(businessId, { ...range, dimension: 'category' }),
+      this.inventoryRepo.getRecordAccuracy(businessId, { ...range, dimension: 'location' }),
+      this.inventoryRepo.getRecordAccuracy(businessId, { ...range, dimension: 'counter' }),
+      this.inventoryRepo.getAccuracyFlaggedProducts(businessId)
+    ]);
+
+    const recordAccuracy = overall[0]?.accuracy ?? 100;
+    const counterLines = byCounter.reduce((sum, c) => sum + c.counted, 0);
+    const counterMisses = byCounter.reduce((sum, c) => sum + c.counted - c.accurate, 0);
+
+    return {
+      countAccuracy: recordAccuracy,
+      discrepancyRate: 100 - recordAccuracy,
+      errorRate: counterLines > 0 ? (counterMisses / counterLines) * 100 : 0,
+      // Not measured yet
+      dataQuality: 0,
+      completeness: 0,
+      timeliness: 0,
+      consistency: 0,
+      validationErrors: 0,
+      inventoryRecordAccuracy: recordAccuracy,
+      accuracyTrend: trend,
+      accuracyByCategory: byCategory,
+      accuracyByLocation: byLocation,
+      accuracyByCounter: byCounter,
+      flaggedProducts
+    };
+  }
+
   // Benchmarking
   async getBenchmarkData(businessId: string): Promise<BenchmarkData> {
     const business = await this.getBusinessInfo(businessId);
@@ -383,6 +470,81 @@ export class AnalyticsService {
     };
   }
 
+  // Merge variant rows into one row per family; rates are weighted by revenue
+  private rollUpVariantRevenue(products: any[]): any[] {
+    const families = new Map<string, any>();
+
+    for (const product of products) {
+      const familyId = product.parentId || product.id;
+      const family = families.get(familyId);
+
+      if (!family) {
+        families.set(familyId, {
+          ...product,
+          id: familyId,
+          name: product.parentId ? (product.parentName || product.name) : product.name,
+          variantCount: product.parentId ? 1 : 0
+        });
+        continue;
+      }
+
+      const revenue = family.revenue + product.revenue;
+      const weight = (value: number, other: number) =>
+        revenue > 0 ? (value * family.revenue + other * product.revenue) / revenue : value;
+
+      family.turnoverRate = weight(family.turnoverRate, product.turnoverRate);
+      family.profitMargin = weight(family.profitMargin, product.profitMargin);
+      family.revenue = revenue;
+      family.units += product.units;
+      if (product.parentId) family.variantCount += 1;
+      if (!product.parentId) family.name = product.name;
+    }
+
+    return Array.from(families.values());
+  }
+
+  // Best sellers by units over the recent window
+  private async getTopProducts(businessId: string, limit: number): Promise<ProductSchema[]> {
+    const to = new Date();
+    const demand = await this.foundation.database.movements.getDailyDemand(businessId, {
+      from: new Date(to.getTime() - TOP_PRODUCTS_DAYS * DAY_MS),
+      to
+    });
+
+    const units = new Map<string, number>();
+    for (const point of demand) {
+      units.set(point.productId, (units.get(point.productId) || 0) + point.quantity);
+    }
+
+    const topIds = Array.from(units.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([productId]) => productId);
+
+    const products = await Promise.all(topIds.map(id => this.productRepo.findById(id)));
+    return products.filter((p): p is ProductSchema => p !== null);
+  }
+
+  // Annual swings take precedence over weekly ones; a period is a peak or
+  // low when it is 15% off the average day
+  private describeSeasonality(forecast: DemandForecastResult): SeasonalityData {
+    const amplitude = (indices: number[]) => Math.max(...indices) - Math.min(...indices);
+    const describe = (pattern: SeasonalityData['pattern'], indices: number[], names: string[]): SeasonalityData => ({
+      pattern,
+      peakPeriods: names.filter((_, i) => indices[i] >= 1.15),
+      lowPeriods: names.filter((_, i) => indices[i] <= 0.85),
+      amplitude: amplitude(indices)
+    });
+
+    if (forecast.monthlyIndices && amplitude(forecast.monthlyIndices) >= 0.3) {
+      return describe('seasonal', forecast.monthlyIndices, MONTH_NAMES);
+    }
+    if (forecast.method === 'holt_winters' && amplitude(forecast.weeklyIndices) >= 0.3) {
+      return describe('weekly', forecast.weeklyIndices, WEEKDAY_NAMES);
+    }
+    return { pattern: 'none', peakPeriods: [], lowPeriods: [], amplitude: amplitude(forecast.weeklyIndices) };
+  }
+
   private generateId(): string {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
   }
@@ -405,10 +567,6 @@ export class AnalyticsService {
   private async generateForecast(history: any[], days: number): Promise<any> { return {}; }
   private detectAnomalies(history: any[]): any[] { return []; }
   private async generateTrendInsights(product: any, trend: any, seasonality: any, forecast: any): Promise<string[]> { return []; }
-  private async getTopProducts(businessId: string, limit: number): Promise<ProductSchema[]> { return []; }
-  private calculateBaselineDemand(history: any[]): number { return 0; }
-  private calculateSeasonalAdjustment(seasonality: any): number { return 1; }
-  private calculatePredictionConfidence(history: any[], seasonality: any): number { return 0.8; }
   private getRecommendedAction(current: number, predicted: number, product: any): any { return 'monitor'; }
   private generateReasoningText(action: any, current: number, predicted: number): string { return ''; }
   private async getProductsWithRevenue(businessId: string): Promise<any[]> { return []; }
@@ -421,7 +579,6 @@ export class AnalyticsService {
   private async calculateInventoryKPIs(businessId: string, period: any): Promise<any> { return {}; }
   private async calculateOperationalKPIs(businessId: string, period: any): Promise<any> { return {}; }
   private async calculateFinancialKPIs(businessId: string, period: any): Promise<any> { return {}; }
-  private async calculateQualityKPIs(businessId: string, period: any): Promise<any> { return {}; }
   private async getBusinessInfo(businessId: string): Promise<any> { return {}; }
   private async getIndustryBenchmarks(industry: string, size: string): Promise<any> { return {}; }
   private async getPeerComparisons(industry: string, size: string): Promise<any[]> { return []; }
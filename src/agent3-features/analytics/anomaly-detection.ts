@@ -0,0 +1,375 @@
+// Anomaly detection on stock movements and counts. Each detector scores what
+// happened in the check window against a baseline (the product's own history
+// or the user's peers) and reports anything far enough outside it, with a
+// fingerprint so a finding is raised once however often the scan runs.
+
+import { StockMovementReason } from '../../shared/contracts/agent-interfaces';
+import { AnomalyDetection, Insight, RecommendedAction } from './types';
+
+export type AnomalyKind = 'stock_drop' | 'count_swing' | 'adjustment_volume' | 'repeated_adjustment';
+
+export interface MovementRecord {
+  id: string;
+  productId: string;
+  locationId?: string | null;
+  reason: StockMovementReason;
+  quantityChange: number;
+  performedBy?: string | null;
+  createdAt: Date;
+}
+
+export interface CountRecord {
+  countId: string;
+  productId: string;
+  locationId?: string | null;
+  expectedQuantity: number;
+  countedQuantity: number;
+  countedBy?: string | null;
+  countedAt: Date;
+}
+
+export interface DetectedAnomaly extends AnomalyDetection {
+  kind: AnomalyKind;
+  fingerprint: string;
+  title: string;
+  productId?: string;
+  locationId?: string;
+  userId?: string;
+}
+
+export interface AnomalyOptions {
+  now: Date;
+  windowDays?: number; // How far back findings are reported
+  baselineDays?: number; // History the window is compared with
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WINDOW_DAYS = 1;
+const DEFAULT_BASELINE_DAYS = 56;
+const ADJUSTMENT_WINDOW_DAYS = 30;
+
+// Scores are distances from the baseline in units of its spread
+const SEVERITY_SCORES = { minor: 3, moderate: 5, severe: 8 };
+
+const MIN_DROP_UNITS = 3;
+const MIN_SWING_UNITS = 5;
+const SWING_TOLERANCE = 0.1; // A swing within 10% of the expected quantity is never flagged
+const MIN_ADJUSTED_UNITS = 10;
+const MIN_PEERS = 3;
+const REPEATED_ADJUSTMENTS = { minor: 3, moderate: 5, severe: 8 };
+
+// Stock that left without a sale, transfer or kit build
+const LOSS_REASONS: StockMovementReason[] = ['adjust', 'write_off', 'count_correction'];
+const MANUAL_REASONS: StockMovementReason[] = ['adjust', 'write_off'];
+
+/**
+ * Days whose unexplained losses of a product are far above its usual daily
+ * losses over the baseline.
+ */
+export function detectStockDrops(movements: MovementRecord[], options: AnomalyOptions): DetectedAnomaly[] {
+  const { now, windowStart, baselineStart } = windows(options);
+  const byProduct = groupBy(
+    movements.filter(m => m.quantityChange < 0 && LOSS_REASONS.includes(m.reason)),
+    m => m.productId
+  );
+  const baselineDays = Math.round((windowStart.getTime() - baselineStart.getTime()) / DAY_MS);
+  const anomalies: DetectedAnomaly[] = [];
+
+  for (const [productId, losses] of byProduct) {
+    const recent = losses.filter(m => m.createdAt >= windowStart && m.createdAt <= now);
+    if (recent.length === 0) continue;
+
+    const lost = recent.reduce((sum, m) => sum - m.quantityChange, 0);
+    const daily = new Array<number>(baselineDays).fill(0);
+    for (const m of losses) {
+      if (m.createdAt < baselineStart || m.createdAt >= windowStart) continue;
+      daily[Math.floor((m.createdAt.getTime() - baselineStart.getTime()) / DAY_MS)] -= m.quantityChange;
+    }
+
+    // Scale the baseline to the window; losses are counts, so the spread is at least Poisson
+    const windowDays = (now.getTime() - windowStart.getTime()) / DAY_MS;
+    const expected = mean(daily) * windowDays;
+    const spread = Math.max(standardDeviation(daily) * Math.sqrt(windowDays), Math.sqrt(expected), 1);
+    const score = (lost - expected) / spread;
+    const severity = severityFor(score, SEVERITY_SCORES);
+    if (!severity || lost < MIN_DROP_UNITS) continue;
+
+    const latest = latestOf(recent);
+    anomalies.push({
+      kind: 'stock_drop',
+      fingerprint: `stock_drop:${productId}:${latest.id}`,
+      title: `Unusual stock loss: ${round(lost)} units`,
+      productId,
+      locationId: latest.locationId || undefined,
+      date: latest.createdAt,
+      actualValue: lost,
+      expectedValue: expected,
+      deviation: score,
+      severity,
+      possibleCauses: ['Theft or shrinkage', 'Unrecorded damage or spoilage', 'Sales or transfers booked as adjustments'],
+      confidence: confidenceFor(score)
+    });
+  }
+
+  return anomalies;
+}
+
+/**
+ * Counts in the window that missed the expected quantity by far more than
+ * the product usually does. A product's history only ever widens the
+ * tolerance: regularly noisy products need a bigger miss to stand out.
+ */
+export function detectCountSwings(counts: CountRecord[], options: AnomalyOptions): DetectedAnomaly[] {
+  const { now, windowStart, baselineStart } = windows(options);
+  const anomalies: DetectedAnomaly[] = [];
+
+  const byItem = groupBy(counts, c => `${c.productId}:${c.locationId || ''}`);
+  for (const itemCounts of byItem.values()) {
+    const history = itemCounts
+      .filter(c => c.countedAt >= baselineStart && c.countedAt < windowStart)
+      .map(c => c.countedQuantity - c.expectedQuantity);
+
+    for (const count of itemCounts) {
+      if (count.countedAt < windowStart || count.countedAt > now) continue;
+
+      const variance = count.countedQuantity - count.expectedQuantity;
+      const expectedVariance = history.length > 0 ? mean(history) : 0;
+      const spread = Math.max(
+        standardDeviation(history),
+        SWING_TOLERANCE * Math.abs(count.expectedQuantity),
+        1
+      );
+      const score = Math.abs(variance - expectedVariance) / spread;
+      const severity = severityFor(score, SEVERITY_SCORES);
+      if (!severity || Math.abs(variance) < MIN_SWING_UNITS) continue;
+
+      anomalies.push({
+        kind: 'count_swing',
+        fingerprint: `count_swing:${count.countId}`,
+        title: `Count ${variance < 0 ? 'short' : 'over'} by ${round(Math.abs(variance))} units`,
+        productId: count.productId,
+        locationId: count.locationId || undefined,
+        userId: count.countedBy || undefined,
+        date: count.countedAt,
+        actualValue: count.countedQuantity,
+        expectedValue: count.expectedQuantity,
+        deviation: score,
+        severity,
+        possibleCauses: variance < 0
+          ? ['Stock missing from the location', 'Items stored elsewhere', 'Miscount or wrong unit of measure']
+          : ['Unrecorded receipt or return', 'Items from another location counted here', 'Miscount or wrong unit of measure'],
+        confidence: confidenceFor(score)
+      });
+    }
+  }
+
+  return anomalies;
+}
+
+/**
+ * Users whose manual adjustments over the last 30 days stand out: removing
+ * far more stock than their peers, or repeatedly adjusting the same product
+ * down.
+ */
+export function detectAdjustmentPatterns(movements: MovementRecord[], options: AnomalyOptions): DetectedAnomaly[] {
+  const now = options.now;
+  const windowStart = new Date(now.getTime() - ADJUSTMENT_WINDOW_DAYS * DAY_MS);
+  const removals = movements.filter(m =>
+    m.performedBy && MANUAL_REASONS.includes(m.reason) && m.quantityChange < 0 &&
+    m.createdAt >= windowStart && m.createdAt <= now
+  );
+  const byUser = groupBy(removals, m => m.performedBy!);
+  const anomalies: DetectedAnomaly[] = [];
+
+  // Volume against peers, once there are enough of them to compare with
+  const removed = new Map(Array.from(byUser, ([userId, ms]) => [userId, ms.reduce((sum, m) => sum - m.quantityChange, 0)]));
+  if (removed.size >= MIN_PEERS) {
+    for (const [userId, units] of removed) {
+      const peers = Array.from(removed).filter(([id]) => id !== userId).map(([, u]) => u);
+      const typical = median(peers);
+      const spread = Math.max(1.4826 * median(peers.map(u => Math.abs(u - typical))), 0.25 * typical, 1);
+      const score = (units - typical) / spread;
+      const severity = severityFor(score, SEVERITY_SCORES);
+      if (!severity || units < MIN_ADJUSTED_UNITS) continue;
+
+      const latest = latestOf(byUser.get(userId)!);
+      anomalies.push({
+        kind: 'adjustment_volume',
+        fingerprint: `adjustment_volume:${userId}:${latest.id}`,
+        title: `Adjustments remove ${round(units)} units, against ${round(typical)} for a typical colleague`,
+        userId,
+        date: latest.createdAt,
+        actualValue: units,
+        expectedValue: typical,
+        deviation: score,
+        severity,
+        possibleCauses: ['Adjustments used to hide losses', 'Sales or transfers booked as adjustments', 'User responsible for damaged goods'],
+        confidence: confidenceFor(score)
+      });
+    }
+  }
+
+  // The same product adjusted down again and again by one user
+  for (const [userId, userRemovals] of byUser) {
+    for (const [productId, productRemovals] of groupBy(userRemovals, m => m.productId)) {
+      const severity = severityFor(productRemovals.length, REPEATED_ADJUSTMENTS);
+      if (!severity) continue;
+
+      const latest = latestOf(productRemovals);
+      const units = productRemovals.reduce((sum, m) => sum - m.quantityChange, 0);
+      anomalies.push({
+        kind: 'repeated_adjustment',
+        fingerprint: `repeated_adjustment:${userId}:${productId}:${latest.id}`,
+        title: `${productRemovals.length} downward adjustments to one product in ${ADJUSTMENT_WINDOW_DAYS} days`,
+        userId,
+        productId,
+        date: latest.createdAt,
+        actualValue: productRemovals.length,
+        expectedValue: REPEATED_ADJUSTMENTS.minor - 1,
+        deviation: productRemovals.length - (REPEATED_ADJUSTMENTS.minor - 1),
+        severity,
+        possibleCauses: [`${round(units)} units removed piecemeal`, 'Recurring loss that needs a root cause', 'Counting or receiving errors being corrected by hand'],
+        confidence: Math.min(0.95, 0.5 + productRemovals.length * 0.05)
+      });
+    }
+  }
+
+  return anomalies;
+}
+
+/**
+ * Run every detector, most severe findings first.
+ */
+export function detectAnomalies(
+  movements: MovementRecord[],
+  counts: CountRecord[],
+  options: AnomalyOptions
+): DetectedAnomaly[] {
+  const rank = { severe: 0, moderate: 1, minor: 2 };
+  return [
+    ...detectStockDrops(movements, options),
+    ...detectCountSwings(counts, options),
+    ...detectAdjustmentPatterns(movements, options)
+  ].sort((a, b) => rank[a.severity] - rank[b.severity] || b.deviation - a.deviation);
+}
+
+/**
+ * The insight raised for an anomaly.
+ */
+export function anomalyInsight(anomaly: DetectedAnomaly, generatedAt: Date = new Date()): Insight {
+  return {
+    id: anomaly.fingerprint,
+    type: anomaly.kind === 'stock_drop' ? 'shrinkage_suspected'
+      : anomaly.kind === 'count_swing' ? 'count_anomaly'
+      : 'adjustment_anomaly',
+    title: anomaly.title,
+    description: describe(anomaly),
+    confidence: anomaly.confidence,
+    impact: anomaly.severity === 'severe' ? 'high' : anomaly.severity === 'moderate' ? 'medium' : 'low',
+    severity: anomaly.severity,
+    category: 'risk_management',
+    data: anomaly,
+    actionable: true,
+    recommendedActions: recommendedActions(anomaly),
+    generatedAt,
+    expiresAt: new Date(generatedAt.getTime() + 30 * DAY_MS),
+    metadata: {
+      aiModel: 'statistical',
+      dataPoints: 1,
+      timeRange: anomaly.kind === 'adjustment_volume' || anomaly.kind === 'repeated_adjustment'
+        ? `${ADJUSTMENT_WINDOW_DAYS}d`
+        : `${DEFAULT_BASELINE_DAYS}d`,
+      businessContext: anomaly.possibleCauses.join('; ')
+    }
+  };
+}
+
+function describe(anomaly: DetectedAnomaly): string {
+  const { actualValue, expectedValue } = anomaly;
+  switch (anomaly.kind) {
+    case 'stock_drop':
+      return `${round(actualValue)} units were written off or adjusted away, against about ${round(expectedValue)} normally.`;
+    case 'count_swing':
+      return `Counted ${round(actualValue)} where ${round(expectedValue)} were expected, well outside this item's usual variance.`;
+    case 'adjustment_volume':
+      return `Manual adjustments by this user removed ${round(actualValue)} units in ${ADJUSTMENT_WINDOW_DAYS} days; colleagues typically remove ${round(expectedValue)}.`;
+    case 'repeated_adjustment':
+      return `This user adjusted the same product down ${actualValue} times in ${ADJUSTMENT_WINDOW_DAYS} days.`;
+  }
+}
+
+function recommendedActions(anomaly: DetectedAnomaly): RecommendedAction[] {
+  const recount: RecommendedAction = {
+    action: 'schedule_recount',
+    description: 'Recount the product to confirm the stock on hand',
+    priority: anomaly.severity === 'minor' ? 'medium' : 'high',
+    estimatedImpact: { metric: 'inventory_record_accuracy', change: 0, timeframe: '24 hours' },
+    difficulty: 'easy',
+    cost: 'low'
+  };
+  const review: RecommendedAction = {
+    action: 'review_adjustments',
+    description: 'Review the adjustment history and notes with the people involved',
+    priority: anomaly.severity === 'severe' ? 'high' : 'medium',
+    estimatedImpact: { metric: 'shrinkage_units', change: -anomaly.actualValue, timeframe: '1 week' },
+    difficulty: 'medium',
+    cost: 'low'
+  };
+
+  return anomaly.kind === 'stock_drop' || anomaly.kind === 'count_swing' ? [recount, review] : [review, recount];
+}
+
+function windows(options: AnomalyOptions) {
+  const now = options.now;
+  const windowStart = new Date(now.getTime() - (options.windowDays ?? DEFAULT_WINDOW_DAYS) * DAY_MS);
+  const baselineStart = new Date(windowStart.getTime() - (options.baselineDays ?? DEFAULT_BASELINE_DAYS) * DAY_MS);
+  return { now, windowStart, baselineStart };
+}
+
+function severityFor(score: number, thresholds: { minor: number; moderate: number; severe: number }): DetectedAnomaly['severity'] | null {
+  if (score >= thresholds.severe) return 'severe';
+  if (score >= thresholds.moderate) return 'moderate';
+  if (score >= thresholds.minor) return 'minor';
+  return null;
+}
+
+// Rises from about 0.67 at the reporting threshold towards 1
+function confidenceFor(score: number): number {
+  return Math.min(0.99, 1 - 1 / Math.max(score, 1));
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k);
+    if (group) group.push(item);
+    else groups.set(k, [item]);
+  }
+  return groups;
+}
+
+function latestOf(movements: MovementRecord[]): MovementRecord {
+  return movements.reduce((latest, m) => (m.createdAt > latest.createdAt ? m : latest));
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - average) ** 2, 0) / (values.length - 1));
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
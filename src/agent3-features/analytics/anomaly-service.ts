@@ -0,0 +1,249 @@
+/**
+ * Anomaly Service
+ * Scans movements and counts for anomalies on a schedule and after each
+ * count, and raises each new finding once as an insight
+ */
+
+import { supabaseAdmin } from '@/agent1-foundation/database/supabase-client';
+import { eventBus } from '@/shared/events/event-bus';
+import {
+  detectAnomalies,
+  detectCountSwings,
+  anomalyInsight,
+  DetectedAnomaly,
+  MovementRecord,
+  CountRecord
+} from './anomaly-detection';
+import { Insight } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SCAN_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const HISTORY_DAYS = 60; // Covers the detectors' baselines and adjustment window
+const PAGE_SIZE = 1000;
+
+class AnomalyService {
+  private scanTimer?: ReturnType<typeof setInterval>;
+  private listening = false;
+
+  /**
+   * Check each submitted count and scan every business periodically
+   */
+  start(intervalMs: number = SCAN_INTERVAL_MS): void {
+    if (!this.listening) {
+      eventBus.on('counting:entry:submitted', (payload: any) => {
+        this.checkLatestCount(payload.data.productId).catch(error =>
+          console.error('Anomaly check after count failed:', error)
+        );
+      });
+      this.listening = true;
+    }
+
+    if (!this.scanTimer) {
+      this.scanTimer = setInterval(() => {
+        this.scanAllBusinesses().catch(error => console.error('Scheduled anomaly scan failed:', error));
+      }, intervalMs);
+    }
+  }
+
+  stop(): void {
+    if (this.scanTimer) clearInterval(this.scanTimer);
+    this.scanTimer = undefined;
+  }
+
+  async scanAllBusinesses(now: Date = new Date()): Promise<void> {
+    const { data: businesses, error } = await supabaseAdmin.from('businesses').select('id');
+    if (error) throw error;
+
+    for (const business of businesses || []) {
+      try {
+        await this.scanBusiness(business.id, now);
+      } catch (error) {
+        console.error(`Anomaly scan failed for business ${business.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Run every detector over the business's recent history. Returns the
+   * insights raised by this scan; findings raised before are skipped.
+   */
+  async scanBusiness(businessId: string, now: Date = new Date()): Promise<Insight[]> {
+    const since = new Date(now.getTime() - HISTORY_DAYS * DAY_MS);
+    const [movements, counts] = await Promise.all([
+      this.getLossMovements(businessId, since),
+      this.getCounts({ businessId }, since)
+    ]);
+
+    return this.raise(businessId, detectAnomalies(movements, counts, { now }), now);
+  }
+
+  /**
+   * Score the product's newest count against its own history
+   */
+  async checkLatestCount(productId: string, now: Date = new Date()): Promise<Insight[]> {
+    const counts = await this.getCounts({ productId }, new Date(now.getTime() - HISTORY_DAYS * DAY_MS));
+    const latest = counts.reduce<CountRecord | null>((a, c) => (!a || c.countedAt > a.countedAt ? c : a), null);
+    if (!latest) return [];
+
+    const { data: product } = await supabaseAdmin
+      .from('products')
+      .select('business_id')
+      .eq('id', productId)
+      .single();
+    if (!product) return [];
+
+    // Window starts at the newest count so earlier ones form the baseline
+    const windowDays = (now.getTime() - latest.countedAt.getTime()) / DAY_MS;
+    const swings = detectCountSwings(counts, { now, windowDays })
+      .filter(anomaly => anomaly.fingerprint === `count_swing:${latest.countId}`);
+
+    return this.raise(product.business_id, swings, now);
+  }
+
+  async getInsights(businessId: string, options: { includeExpired?: boolean } = {}): Promise<Insight[]> {
+    let query = supabaseAdmin
+      .from('analytics_insights')
+      .select('*')
+      .eq('business_id', businessId);
+
+    if (!options.includeExpired) {
+      query = query.or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+    }
+
+    const { data, error } = await query
+      .order('generated_at', { ascending: false })
+      .limit(200);
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      id: row.id,
+      type: row.type,
+      title: row.title,
+      description: row.description || '',
+      confidence: Number(row.confidence),
+      impact: row.impact,
+      severity: row.severity || undefined,
+      category: row.category,
+      data: row.data,
+      actionable: (row.recommended_actions || []).length > 0,
+      recommendedActions: row.recommended_actions || [],
+      generatedAt: new Date(row.generated_at),
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      metadata: {
+        aiModel: 'statistical',
+        dataPoints: 1,
+        timeRange: row.data?.kind || '',
+        businessContext: (row.data?.possibleCauses || []).join('; ')
+      }
+    }));
+  }
+
+  // Store new findings and announce them; ones already raised are ignored
+  private async raise(businessId: string, anomalies: DetectedAnomaly[], now: Date): Promise<Insight[]> {
+    if (anomalies.length === 0) return [];
+
+    const insights = anomalies.map(anomaly => anomalyInsight(anomaly, now));
+    const { data: inserted, error } = await supabaseAdmin
+      .from('analytics_insights')
+      .upsert(insights.map((insight, i) => ({
+        business_id: businessId,
+        fingerprint: anomalies[i].fingerprint,
+        type: insight.type,
+        category: insight.category,
+        severity: insight.severity,
+        impact: insight.impact,
+        title: insight.title,
+        description: insight.description,
+        confidence: insight.confidence,
+        product_id: anomalies[i].productId || null,
+        location_id: anomalies[i].locationId || null,
+        user_id: anomalies[i].userId || null,
+        data: anomalies[i],
+        recommended_actions: insight.recommendedActions,
+        generated_at: insight.generatedAt.toISOString(),
+        expires_at: insight.expiresAt?.toISOString() || null
+      })), { onConflict: 'business_id,fingerprint', ignoreDuplicates: true })
+      .select('id, fingerprint');
+
+    if (error) throw error;
+
+    const raised = (inserted || []).map(row => ({
+      ...insights.find(insight => insight.id === row.fingerprint)!,
+      id: row.id
+    }));
+
+    for (const insight of raised) {
+      eventBus.broadcast('analytics:insight:raised', { businessId, insight });
+    }
+
+    return raised;
+  }
+
+  // Downward adjustments, write-offs and count corrections
+  private async getLossMovements(businessId: string, since: Date): Promise<MovementRecord[]> {
+    const rows = await this.selectAllPages(range => supabaseAdmin
+      .from('stock_movements')
+      .select('id, product_id, location_id, reason, quantity_change, performed_by, created_at')
+      .eq('business_id', businessId)
+      .in('reason', ['adjust', 'write_off', 'count_correction'])
+      .lt('quantity_change', 0)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: true })
+      .range(range.from, range.to)
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      productId: row.product_id,
+      locationId: row.location_id,
+      reason: row.reason,
+      quantityChange: Number(row.quantity_change),
+      performedBy: row.performed_by,
+      createdAt: new Date(row.created_at)
+    }));
+  }
+
+  // Scored count lines, including rejected and superseded ones
+  private async getCounts(scope: { businessId?: string; productId?: string }, since: Date): Promise<CountRecord[]> {
+    const rows = await this.selectAllPages(range => {
+      let query = supabaseAdmin
+        .from('count_accuracy_results')
+        .select('count_id, product_id, location_id, expected_quantity, counted_quantity, counted_by, counted_at')
+        .gte('counted_at', since.toISOString());
+
+      if (scope.businessId) query = query.eq('business_id', scope.businessId);
+      if (scope.productId) query = query.eq('product_id', scope.productId);
+
+      return query
+        .order('counted_at', { ascending: true })
+        .range(range.from, range.to);
+    });
+
+    return rows.map(row => ({
+      countId: row.count_id,
+      productId: row.product_id,
+      locationId: row.location_id,
+      expectedQuantity: Number(row.expected_quantity),
+      countedQuantity: Number(row.counted_quantity),
+      countedBy: row.counted_by,
+      countedAt: new Date(row.counted_at)
+    }));
+  }
+
+  private async selectAllPages(
+    page: (range: { from: number; to: number }) => PromiseLike<{ data: any[] | null; error: any }>
+  ): Promise<any[]> {
+    const rows: any[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await page({ from, to: from + PAGE_SIZE - 1 });
+      if (error) throw error;
+
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) return rows;
+    }
+  }
+}
+
+export const anomalyService = new AnomalyService();
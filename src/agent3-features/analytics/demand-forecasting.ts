@@ -0,0 +1,370 @@
+// Demand forecasting on daily sales. Regular demand uses additive Holt-Winters
+// with a damped trend and weekly seasonality, with an annual adjustment once
+// there are two years of history; intermittent demand uses Croston's method.
+// Every forecast carries prediction intervals and MAPE/MASE from a backtest
+// on the most recent days of history.
+
+export type ForecastMethod = 'holt_winters' | 'croston' | 'insufficient_history';
+
+export type IntervalLevel = 0.8 | 0.9 | 0.95 | 0.99;
+
+export interface DemandSeries {
+  start: Date; // UTC day of the first value
+  values: number[]; // Units sold per day, zeros included
+}
+
+export interface ForecastPoint {
+  date: string; // YYYY-MM-DD (UTC)
+  mean: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastAccuracy {
+  mape: number | null; // Percent, over holdout days with sales; null when none sold
+  mase: number | null; // Below 1 beats the naive forecast; null when it cannot be scaled
+  holdoutDays: number;
+}
+
+export interface DemandForecastResult {
+  method: ForecastMethod;
+  horizonDays: number;
+  level: IntervalLevel;
+  daily: ForecastPoint[];
+  total: { mean: number; lower: number; upper: number };
+  accuracy: ForecastAccuracy;
+  weeklyIndices: number[]; // Sunday first; a weekday's average over the overall daily average
+  monthlyIndices: number[] | null; // January first; null before two years of history
+}
+
+export interface ForecastOptions {
+  horizonDays: number;
+  level?: IntervalLevel;
+  holdoutDays?: number; // Defaults to the horizon, capped at a quarter of the history
+}
+
+interface FittedModel {
+  residuals: number[]; // One-step errors after the warm-up
+  forecast: (steps: number) => number[];
+  variance: (step: number) => number; // Multiplier on the one-step error variance
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK = 7;
+
+export const MIN_HISTORY_DAYS = 14;
+const ANNUAL_HISTORY_DAYS = 730;
+
+// Average days between sales above which demand counts as intermittent (Syntetos-Boylan)
+const INTERMITTENT_INTERVAL = 1.32;
+
+const Z_SCORES: Record<IntervalLevel, number> = { 0.8: 1.2816, 0.9: 1.6449, 0.95: 1.96, 0.99: 2.5758 };
+
+const DAMPING = 0.98;
+const ALPHAS = [0.05, 0.1, 0.2, 0.3, 0.5];
+const BETAS = [0, 0.05, 0.15];
+const GAMMAS = [0.05, 0.15, 0.3];
+const CROSTON_ALPHAS = [0.05, 0.1, 0.2, 0.3];
+
+/**
+ * Daily series from per-day sales, with zeros for days nothing sold. Covers
+ * whole UTC days from `from` up to, not including, the day of `to`.
+ */
+export function dailySeries(points: Array<{ date: string; quantity: number }>, from: Date, to: Date): DemandSeries {
+  const start = utcDay(from);
+  const days = Math.max(0, Math.round((utcDay(to).getTime() - start.getTime()) / DAY_MS));
+  const values = new Array<number>(days).fill(0);
+
+  for (const point of points) {
+    const index = Math.round((utcDay(new Date(point.date)).getTime() - start.getTime()) / DAY_MS);
+    if (index >= 0 && index < days) values[index] += point.quantity;
+  }
+
+  return { start, values };
+}
+
+/**
+ * Forecast daily demand for the horizon following the series.
+ */
+export function forecastDemand(series: DemandSeries, options: ForecastOptions): DemandForecastResult {
+  const level = options.level ?? 0.95;
+  const method = chooseMethod(series.values);
+  const weeklyIndices = weekdayIndices(series);
+  const monthlyIndices = monthlySeasonality(series);
+
+  const daily = project(series, options.horizonDays, level, method, monthlyIndices);
+  const total = sumInterval(daily, level);
+
+  return {
+    method,
+    horizonDays: options.horizonDays,
+    level,
+    daily,
+    total,
+    accuracy: backtest(series, method, level, options.holdoutDays ?? options.horizonDays),
+    weeklyIndices,
+    monthlyIndices
+  };
+}
+
+/**
+ * 0-1 score from the backtest: 1 for a perfect backtest, 0.5 when no better
+ * than the naive forecast and 0 at twice its error or more.
+ */
+export function forecastConfidence(result: DemandForecastResult): number {
+  const { mase } = result.accuracy;
+  if (mase === null) return result.method === 'insufficient_history' ? 0 : 0.5;
+  return Math.max(0, Math.min(1, 1 - mase / 2));
+}
+
+function chooseMethod(values: number[]): ForecastMethod {
+  const demandDays = values.filter(v => v > 0).length;
+  if (values.length < MIN_HISTORY_DAYS || demandDays === 0) return 'insufficient_history';
+  return values.length / demandDays > INTERMITTENT_INTERVAL ? 'croston' : 'holt_winters';
+}
+
+function fit(values: number[], method: ForecastMethod): FittedModel {
+  if (method === 'holt_winters') return fitHoltWinters(values);
+  if (method === 'croston') return fitCroston(values);
+  return fitMean(values);
+}
+
+// Daily forecast with intervals, fitted on the annually adjusted series
+function project(
+  series: DemandSeries,
+  horizonDays: number,
+  level: IntervalLevel,
+  method: ForecastMethod,
+  monthly: number[] | null
+): ForecastPoint[] {
+  const n = series.values.length;
+  const factor = (day: number) => monthly ? monthly[dayDate(series, day).getUTCMonth()] : 1;
+  const adjusted = series.values.map((v, day) => v / Math.max(factor(day), 0.1));
+
+  const model = fit(adjusted, method);
+  const sigma = rootMeanSquare(model.residuals);
+  const z = Z_SCORES[level];
+
+  return model.forecast(horizonDays).map((value, i) => {
+    const day = n + i;
+    const mean = Math.max(0, value * factor(day));
+    const spread = z * sigma * Math.sqrt(model.variance(i + 1)) * factor(day);
+
+    return {
+      date: dayDate(series, day).toISOString().slice(0, 10),
+      mean,
+      lower: Math.max(0, mean - spread),
+      upper: mean + spread
+    };
+  });
+}
+
+// Interval on the horizon total, treating daily errors as independent
+function sumInterval(daily: ForecastPoint[], level: IntervalLevel): { mean: number; lower: number; upper: number } {
+  const z = Z_SCORES[level];
+  const mean = daily.reduce((sum, d) => sum + d.mean, 0);
+  const variance = daily.reduce((sum, d) => sum + ((d.upper - d.mean) / z) ** 2, 0);
+  const spread = z * Math.sqrt(variance);
+
+  return { mean, lower: Math.max(0, mean - spread), upper: mean + spread };
+}
+
+// Refit on all but the most recent days and score the forecast of those days
+function backtest(series: DemandSeries, method: ForecastMethod, level: IntervalLevel, requested: number): ForecastAccuracy {
+  const n = series.values.length;
+  const holdoutDays = Math.min(requested, Math.floor(n / 4), n - MIN_HISTORY_DAYS);
+  if (method === 'insufficient_history' || holdoutDays < 1) {
+    return { mape: null, mase: null, holdoutDays: 0 };
+  }
+
+  const train: DemandSeries = { start: series.start, values: series.values.slice(0, n - holdoutDays) };
+  const actual = series.values.slice(n - holdoutDays);
+  const predicted = project(train, holdoutDays, level, method, monthlySeasonality(train)).map(p => p.mean);
+
+  return {
+    mape: meanAbsolutePercentageError(actual, predicted),
+    mase: meanAbsoluteScaledError(actual, predicted, train.values, method === 'holt_winters' ? WEEK : 1),
+    holdoutDays
+  };
+}
+
+export function meanAbsolutePercentageError(actual: number[], predicted: number[]): number | null {
+  const errors = actual
+    .map((a, i) => (a > 0 ? Math.abs(a - predicted[i]) / a : null))
+    .filter((e): e is number => e !== null);
+  return errors.length > 0 ? (errors.reduce((sum, e) => sum + e, 0) / errors.length) * 100 : null;
+}
+
+// Scaled by the in-sample error of the naive forecast that repeats the value `lag` days back
+export function meanAbsoluteScaledError(actual: number[], predicted: number[], history: number[], lag: number): number | null {
+  if (history.length <= lag) return null;
+
+  let naiveError = 0;
+  for (let t = lag; t < history.length; t++) naiveError += Math.abs(history[t] - history[t - lag]);
+  const scale = naiveError / (history.length - lag);
+  const error = actual.reduce((sum, a, i) => sum + Math.abs(a - predicted[i]), 0) / actual.length;
+
+  // History the naive forecast repeats exactly only has a scale when the forecast is exact too
+  if (scale === 0) return error < 1e-9 ? 0 : null;
+  return error / scale;
+}
+
+// Additive Holt-Winters with a damped trend; smoothing weights picked by
+// one-step squared error over a small grid
+function fitHoltWinters(values: number[]): FittedModel {
+  if (values.length < 2 * WEEK) return fitMean(values);
+
+  let best: { sse: number; model: FittedModel } | null = null;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of GAMMAS) {
+        const model = runHoltWinters(values, alpha, beta, gamma);
+        const sse = model.residuals.reduce((sum, e) => sum + e * e, 0);
+        if (!best || sse < best.sse) best = { sse, model };
+      }
+    }
+  }
+  return best!.model;
+}
+
+function runHoltWinters(values: number[], alpha: number, beta: number, gamma: number): FittedModel {
+  const firstWeek = mean(values.slice(0, WEEK));
+  const secondWeek = mean(values.slice(WEEK, 2 * WEEK));
+  let level = firstWeek;
+  let trend = (secondWeek - firstWeek) / WEEK;
+  const season = values.slice(0, WEEK).map(v => v - firstWeek);
+  const residuals: number[] = [];
+
+  for (let t = WEEK; t < values.length; t++) {
+    const slot = t % WEEK;
+    residuals.push(values[t] - (level + DAMPING * trend + season[slot]));
+
+    const previousLevel = level;
+    level = alpha * (values[t] - season[slot]) + (1 - alpha) * (previousLevel + DAMPING * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * DAMPING * trend;
+    season[slot] = gamma * (values[t] - level) + (1 - gamma) * season[slot];
+  }
+
+  const n = values.length;
+  const dampedSum = (steps: number) => {
+    let sum = 0;
+    for (let j = 1; j <= steps; j++) sum += DAMPING ** j;
+    return sum;
+  };
+
+  return {
+    residuals,
+    forecast: steps => Array.from({ length: steps }, (_, i) =>
+      level + dampedSum(i + 1) * trend + season[(n + i) % WEEK]
+    ),
+    // Approximate h-step variance of the additive damped model
+    variance: step => {
+      let multiplier = 1;
+      for (let j = 1; j < step; j++) {
+        multiplier += (alpha * (1 + dampedSum(j) * beta) + (j % WEEK === 0 ? gamma : 0)) ** 2;
+      }
+      return multiplier;
+    }
+  };
+}
+
+// Croston's method with the Syntetos-Boylan bias correction: smooth the size
+// of each sale and the gap between sales separately
+function fitCroston(values: number[]): FittedModel {
+  let best: { sse: number; model: FittedModel } | null = null;
+  for (const alpha of CROSTON_ALPHAS) {
+    const model = runCroston(values, alpha);
+    const sse = model.residuals.reduce((sum, e) => sum + e * e, 0);
+    if (!best || sse < best.sse) best = { sse, model };
+  }
+  return best!.model;
+}
+
+function runCroston(values: number[], alpha: number): FittedModel {
+  const first = values.findIndex(v => v > 0);
+  if (first < 0) return fitMean(values);
+
+  let size = values[first];
+  let interval = first + 1;
+  let sinceLast = 1;
+  const residuals: number[] = [];
+  const rate = () => (1 - alpha / 2) * (size / interval);
+
+  for (let t = first + 1; t < values.length; t++) {
+    residuals.push(values[t] - rate());
+
+    if (values[t] > 0) {
+      size += alpha * (values[t] - size);
+      interval += alpha * (sinceLast - interval);
+      sinceLast = 1;
+    } else {
+      sinceLast++;
+    }
+  }
+
+  const forecast = rate();
+  return {
+    residuals,
+    forecast: steps => new Array<number>(steps).fill(forecast),
+    variance: () => 1
+  };
+}
+
+// Too little history to model: the average day
+function fitMean(values: number[]): FittedModel {
+  const average = mean(values);
+  return {
+    residuals: values.map(v => v - average),
+    forecast: steps => new Array<number>(steps).fill(average),
+    variance: () => 1
+  };
+}
+
+function weekdayIndices(series: DemandSeries): number[] {
+  const sums = new Array<number>(WEEK).fill(0);
+  const days = new Array<number>(WEEK).fill(0);
+  series.values.forEach((v, day) => {
+    const weekday = dayDate(series, day).getUTCDay();
+    sums[weekday] += v;
+    days[weekday]++;
+  });
+  return ratios(sums, days, mean(series.values));
+}
+
+/**
+ * Each calendar month's average day over the overall average day, January
+ * first. Null before two years of history, when one unusual year would
+ * dominate.
+ */
+export function monthlySeasonality(series: DemandSeries): number[] | null {
+  if (series.values.length < ANNUAL_HISTORY_DAYS) return null;
+
+  const sums = new Array<number>(12).fill(0);
+  const days = new Array<number>(12).fill(0);
+  series.values.forEach((v, day) => {
+    const month = dayDate(series, day).getUTCMonth();
+    sums[month] += v;
+    days[month]++;
+  });
+  return ratios(sums, days, mean(series.values));
+}
+
+function ratios(sums: number[], days: number[], overall: number): number[] {
+  return sums.map((sum, i) => (overall > 0 && days[i] > 0 ? sum / days[i] / overall : 1));
+}
+
+function dayDate(series: DemandSeries, day: number): Date {
+  return new Date(series.start.getTime() + day * DAY_MS);
+}
+
+function utcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function rootMeanSquare(values: number[]): number {
+  return values.length > 0 ? Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / values.length) : 0;
+}
@@ -4,7 +4,22 @@
  */
 
 import { supabase } from '@/agent1-foundation/database/supabase-client';
+import { stockMovementRepository } from '@/agent1-foundation/models/repositories';
 import { eventBus } from '@/shared/events/event-bus';
+import { renderPdfReport, PDF_MIME_TYPE } from '@/shared/reports/pdf';
+import { renderXlsxWorkbook, XLSX_MIME_TYPE } from '@/shared/reports/xlsx';
+import {
+  dailySeries,
+  forecastDemand,
+  forecastConfidence,
+  DemandForecastResult,
+  ForecastMethod
+} from './demand-forecasting';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FORECAST_HORIZON_DAYS = 30;
+const FORECAST_HISTORY_DAYS = 730;
+const TOP_SELLER_DAYS = 90;
 
 export interface DashboardMetrics {
   overview: OverviewMetrics;
@@ -110,8 +125,13 @@ export interface DemandForecast {
   productId: string;
   productName: string;
   currentStock: number;
-  forecastedDemand: number;
-  daysUntilStockout: number;
+  forecastedDemand: number; // Units over the next 30 days
+  forecastLower: number; // 95% prediction interval
+  forecastUpper: number;
+  method: ForecastMethod;
+  mape: number | null; // Backtest error, percent
+  mase: number | null; // Backtest error relative to the naive forecast
+  daysUntilStockout: number | null; // Null when no demand is forecast
   recommendedReorder: number;
   confidence: number;
 }
@@ -493,45 +513,31 @@ class EnhancedAnalyticsService {
       });
     }
 
-    // Mock seasonal patterns
-    const { data: products } = await supabase
-      .from('products')
-      .select('id, name')
-      .eq('business_id', businessId)
-      .limit(5);
+    const forecasts = await this.forecastTopSellers(businessId, 10);
 
-    const seasonalPatterns: SeasonalPattern[] = products?.map(product => ({
-      product: product.name,
-      pattern: ['increasing', 'decreasing', 'stable', 'seasonal'][Math.floor(Math.random() * 4)] as any,
-      peakMonths: [Math.floor(Math.random() * 12), Math.floor(Math.random() * 12)],
-      lowMonths: [Math.floor(Math.random() * 12), Math.floor(Math.random() * 12)]
-    })) || [];
+    const seasonalPatterns: SeasonalPattern[] = forecasts.map(({ product, forecast }) =>
+      this.toSeasonalPattern(product.name, forecast)
+    );
 
-    // Generate demand forecasts
-    const { data: inventory } = await supabase
-      .from('inventory')
-      .select(`
-        *,
-        product:products(name, reorder_point)
-      `)
-      .eq('business_id', businessId)
-      .limit(10);
+    // Reorder enough to cover the upper end of the forecast interval
+    const forecastedDemand: DemandForecast[] = forecasts.map(({ product, forecast }) => {
+      const currentStock = product.current_quantity || 0;
 
-    const forecastedDemand: DemandForecast[] = inventory?.map(item => {
-      const dailyDemand = Math.random() * 10 + 1;
-      const currentStock = item.quantity || 0;
-      const daysUntilStockout = currentStock > 0 ? Math.floor(currentStock / dailyDemand) : 0;
-      
       return {
-        productId: item.product_id,
-        productName: item.product?.name || 'Unknown',
+        productId: product.id,
+        productName: product.name,
         currentStock,
-        forecastedDemand: dailyDemand * 30,
-        daysUntilStockout,
-        recommendedReorder: Math.max(0, (dailyDemand * 45) - currentStock),
-        confidence: Math.random() * 30 + 70
+        forecastedDemand: Math.round(forecast.total.mean),
+        forecastLower: Math.floor(forecast.total.lower),
+        forecastUpper: Math.ceil(forecast.total.upper),
+        method: forecast.method,
+        mape: forecast.accuracy.mape,
+        mase: forecast.accuracy.mase,
+        daysUntilStockout: this.daysUntilStockout(currentStock, forecast),
+        recommendedReorder: Math.max(0, Math.ceil(forecast.total.upper - currentStock)),
+        confidence: forecastConfidence(forecast) * 100
       };
-    }) || [];
+    });
 
     return {
       dailyTrends,
@@ -542,6 +548,83 @@ class EnhancedAnalyticsService {
     };
   }
 
+  /**
+   * Forecast the best sellers of the last 90 days from two years of daily sales
+   */
+  private async forecastTopSellers(
+    businessId: string,
+    limit: number
+  ): Promise<Array<{ product: { id: string; name: string; current_quantity: number }; forecast: DemandForecastResult }>> {
+    const to = new Date();
+    const from = new Date(to.getTime() - FORECAST_HISTORY_DAYS * DAY_MS);
+    const recentFrom = new Date(to.getTime() - TOP_SELLER_DAYS * DAY_MS);
+
+    const recent = await stockMovementRepository.getDailyDemand(businessId, { from: recentFrom, to });
+    const units = new Map<string, number>();
+    recent.forEach(d => units.set(d.productId, (units.get(d.productId) || 0) + d.quantity));
+
+    const topIds = Array.from(units.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([productId]) => productId);
+    if (topIds.length === 0) return [];
+
+    const [{ data: products }, demand] = await Promise.all([
+      supabase
+        .from('products')
+        .select('id, name, current_quantity')
+        .in('id', topIds),
+      stockMovementRepository.getDailyDemand(businessId, { from, to, productIds: topIds })
+    ]);
+
+    return topIds
+      .map(id => products?.find(p => p.id === id))
+      .filter(Boolean)
+      .map(product => ({
+        product,
+        forecast: forecastDemand(
+          dailySeries(demand.filter(d => d.productId === product.id), from, to),
+          { horizonDays: FORECAST_HORIZON_DAYS }
+        )
+      }));
+  }
+
+  private toSeasonalPattern(productName: string, forecast: DemandForecastResult): SeasonalPattern {
+    const months = forecast.monthlyIndices;
+    const monthsWhere = (test: (index: number) => boolean) =>
+      months ? months.map((index, month) => (test(index) ? month : -1)).filter(month => month >= 0) : [];
+
+    const firstHalf = forecast.daily.slice(0, FORECAST_HORIZON_DAYS / 2).reduce((sum, d) => sum + d.mean, 0);
+    const secondHalf = forecast.daily.slice(FORECAST_HORIZON_DAYS / 2).reduce((sum, d) => sum + d.mean, 0);
+    const change = firstHalf > 0 ? (secondHalf - firstHalf) / firstHalf : 0;
+
+    let pattern: SeasonalPattern['pattern'] = 'stable';
+    if (months && Math.max(...months) - Math.min(...months) >= 0.3) pattern = 'seasonal';
+    else if (change > 0.05) pattern = 'increasing';
+    else if (change < -0.05) pattern = 'decreasing';
+
+    return {
+      product: productName,
+      pattern,
+      peakMonths: monthsWhere(index => index >= 1.15),
+      lowMonths: monthsWhere(index => index <= 0.85)
+    };
+  }
+
+  // Walk the daily forecast, then extrapolate at its average rate
+  private daysUntilStockout(currentStock: number, forecast: DemandForecastResult): number | null {
+    if (currentStock <= 0) return 0;
+
+    let remaining = currentStock;
+    for (let day = 0; day < forecast.daily.length; day++) {
+      remaining -= forecast.daily[day].mean;
+      if (remaining <= 0) return day;
+    }
+
+    const rate = forecast.total.mean / forecast.horizonDays;
+    return rate > 0 ? forecast.horizonDays + Math.floor(remaining / rate) : null;
+  }
+
   /**
    * Get alert metrics
    */
@@ -600,9 +683,9 @@ class EnhancedAnalyticsService {
       case 'csv':
         return this.generateCSVReport(metrics);
       case 'pdf':
-        return this.generatePDFReport(metrics);
+        return this.generatePDFReport(metrics, await this.getBusinessName(businessId));
       case 'excel':
-        return this.generateExcelReport(metrics);
+        return this.generateExcelReport(metrics, await this.getBusinessName(businessId));
       default:
         return new Blob([JSON.stringify(metrics, null, 2)], { type: 'application/json' });
     }
@@ -634,16 +717,239 @@ class EnhancedAnalyticsService {
     return new Blob([lines.join('\n')], { type: 'text/csv' });
   }
 
-  private generatePDFReport(metrics: DashboardMetrics): Blob {
-    // Would use jsPDF or similar library
-    // For now, return CSV as fallback
-    return this.generateCSVReport(metrics);
+  private generatePDFReport(metrics: DashboardMetrics, businessName?: string): Blob {
+    const pdf = renderPdfReport({
+      title: 'Analytics Report',
+      subtitle: businessName,
+      brand: 'ScanStock Pro',
+      sections: [
+        {
+          heading: 'Overview',
+          summary: [
+            ['Total products', metrics.overview.totalProducts],
+            ['Total value', `$${metrics.overview.totalValue.toFixed(2)}`],
+            ['Low stock items', metrics.overview.lowStockItems],
+            ['Out of stock items', metrics.overview.outOfStockItems],
+            ['Counts (last 30 days)', metrics.overview.recentCounts],
+            ['Active users', metrics.overview.activeUsers]
+          ]
+        },
+        {
+          heading: 'Inventory',
+          summary: [
+            ['Turnover rate', metrics.inventory.turnoverRate.toFixed(2)],
+            ['Average stock level', Math.round(metrics.inventory.averageStockLevel)],
+            ['Stock accuracy', `${metrics.inventory.stockAccuracy.toFixed(1)}%`],
+            ['Cycle count compliance', `${metrics.inventory.cycleCountCompliance.toFixed(1)}%`]
+          ]
+        },
+        {
+          heading: 'Financial',
+          summary: [
+            ['Total inventory value', `$${metrics.financial.totalInventoryValue.toFixed(2)}`],
+            ['Cost of goods sold', `$${metrics.financial.costOfGoodsSold.toFixed(2)}`],
+            ['Gross margin', `${metrics.financial.grossMargin.toFixed(1)}%`],
+            ['Projected revenue', `$${metrics.financial.projectedRevenue.toFixed(2)}`]
+          ]
+        },
+        {
+          heading: 'Top Moving Products',
+          emptyMessage: 'No movement recorded',
+          table: {
+            columns: [
+              { header: 'Product', width: 3 },
+              { header: 'SKU', width: 1.5 },
+              { header: 'Quantity', align: 'right' },
+              { header: 'Value', align: 'right' },
+              { header: 'Days of Stock', align: 'right' }
+            ],
+            rows: metrics.inventory.topMovingProducts.map(p => [
+              p.productName, p.sku, p.quantity, p.value, Math.round(p.daysOfStock)
+            ])
+          }
+        },
+        {
+          heading: 'Stock by Category',
+          emptyMessage: 'No categories',
+          table: {
+            columns: [
+              { header: 'Category', width: 3 },
+              { header: 'Items', align: 'right' },
+              { header: 'Quantity', align: 'right' },
+              { header: 'Value', align: 'right' },
+              { header: 'Share', align: 'right' }
+            ],
+            rows: metrics.inventory.stockByCategory.map(c => [
+              c.category, c.items, c.quantity, c.value, `${c.percentage.toFixed(1)}%`
+            ])
+          }
+        },
+        {
+          heading: 'Demand Forecast',
+          emptyMessage: 'No forecast available',
+          table: {
+            columns: [
+              { header: 'Product', width: 3 },
+              { header: 'Stock', align: 'right' },
+              { header: 'Forecast', align: 'right' },
+              { header: '95% Range', width: 1.5, align: 'right' },
+              { header: 'MAPE', align: 'right' },
+              { header: 'MASE', align: 'right' },
+              { header: 'Days Left', align: 'right' },
+              { header: 'Reorder', align: 'right' }
+            ],
+            rows: metrics.trends.forecastedDemand.map(f => [
+              f.productName,
+              f.currentStock,
+              f.forecastedDemand,
+              `${f.forecastLower}-${f.forecastUpper}`,
+              f.mape === null ? null : `${f.mape.toFixed(0)}%`,
+              f.mase === null ? null : f.mase.toFixed(2),
+              f.daysUntilStockout,
+              f.recommendedReorder
+            ])
+          }
+        },
+        {
+          heading: 'Open Alerts',
+          summary: [
+            ['Critical', metrics.alerts.critical.length],
+            ['Warning', metrics.alerts.warning.length],
+            ['Info', metrics.alerts.info.length],
+            ['Unresolved', metrics.alerts.unresolvedAlerts]
+          ]
+        }
+      ]
+    });
+
+    return new Blob([pdf as BlobPart], { type: PDF_MIME_TYPE });
+  }
+
+  private generateExcelReport(metrics: DashboardMetrics, businessName?: string): Blob {
+    const movementColumns = [
+      { header: 'Product', width: 32 },
+      { header: 'SKU', width: 16 },
+      { header: 'Movement Rate', type: 'number' as const },
+      { header: 'Quantity', type: 'number' as const },
+      { header: 'Value', type: 'currency' as const },
+      { header: 'Days of Stock', type: 'number' as const }
+    ];
+    const movementRow = (p: ProductMovement) => [
+      p.productName, p.sku, p.movementRate, p.quantity, p.value, p.daysOfStock
+    ];
+
+    const workbook = renderXlsxWorkbook({
+      title: `Analytics Report${businessName ? ` - ${businessName}` : ''}`,
+      sheets: [
+        {
+          name: 'Overview',
+          columns: [{ header: 'Metric', width: 28 }, { header: 'Value', type: 'number', width: 18 }],
+          rows: [
+            ['Total Products', metrics.overview.totalProducts],
+            ['Total Value', metrics.overview.totalValue],
+            ['Low Stock Items', metrics.overview.lowStockItems],
+            ['Out of Stock Items', metrics.overview.outOfStockItems],
+            ['Counts (last 30 days)', metrics.overview.recentCounts],
+            ['Active Users', metrics.overview.activeUsers],
+            ['Turnover Rate', metrics.inventory.turnoverRate],
+            ['Average Stock Level', metrics.inventory.averageStockLevel],
+            ['Stock Accuracy %', metrics.inventory.stockAccuracy],
+            ['Cycle Count Compliance %', metrics.inventory.cycleCountCompliance],
+            ['Total Inventory Value', metrics.financial.totalInventoryValue],
+            ['Cost of Goods Sold', metrics.financial.costOfGoodsSold],
+            ['Gross Margin %', metrics.financial.grossMargin],
+            ['Projected Revenue', metrics.financial.projectedRevenue]
+          ]
+        },
+        {
+          name: 'Top Moving',
+          columns: movementColumns,
+          rows: metrics.inventory.topMovingProducts.map(movementRow)
+        },
+        {
+          name: 'Slow Moving',
+          columns: movementColumns,
+          rows: metrics.inventory.slowMovingProducts.map(movementRow)
+        },
+        {
+          name: 'Categories',
+          columns: [
+            { header: 'Category', width: 24 },
+            { header: 'Items', type: 'integer' },
+            { header: 'Quantity', type: 'number' },
+            { header: 'Value', type: 'currency' },
+            { header: 'Share', type: 'percent' }
+          ],
+          rows: metrics.inventory.stockByCategory.map(c => [
+            c.category, c.items, c.quantity, c.value, c.percentage / 100
+          ])
+        },
+        {
+          name: 'Locations',
+          columns: [
+            { header: 'Location', width: 24 },
+            { header: 'Quantity', type: 'number' },
+            { header: 'Value', type: 'currency' },
+            { header: 'Share', type: 'percent' },
+            { header: 'Last Counted', type: 'datetime', width: 18 }
+          ],
+          rows: metrics.inventory.stockByLocation.map(l => [
+            l.location, l.quantity, l.value, l.percentage / 100, l.lastCounted
+          ])
+        },
+        {
+          name: 'Daily Trends',
+          columns: [
+            { header: 'Date', type: 'date', width: 12 },
+            { header: 'Value', type: 'currency' },
+            { header: 'Quantity', type: 'number' },
+            { header: 'Transactions', type: 'integer' }
+          ],
+          rows: metrics.trends.dailyTrends.map(t => [t.date, t.value, t.quantity, t.transactions])
+        },
+        {
+          name: 'Forecast',
+          columns: [
+            { header: 'Product', width: 32 },
+            { header: 'Current Stock', type: 'number' },
+            { header: 'Forecasted Demand', type: 'number' },
+            { header: 'Forecast Low (95%)', type: 'number' },
+            { header: 'Forecast High (95%)', type: 'number' },
+            { header: 'Method', width: 14 },
+            { header: 'MAPE', type: 'percent' },
+            { header: 'MASE', type: 'number' },
+            { header: 'Days Until Stockout', type: 'number' },
+            { header: 'Recommended Reorder', type: 'number' },
+            { header: 'Confidence', type: 'percent' }
+          ],
+          rows: metrics.trends.forecastedDemand.map(f => [
+            f.productName,
+            f.currentStock,
+            f.forecastedDemand,
+            f.forecastLower,
+            f.forecastUpper,
+            f.method,
+            f.mape === null ? null : f.mape / 100,
+            f.mase,
+            f.daysUntilStockout,
+            f.recommendedReorder,
+            f.confidence / 100
+          ])
+        }
+      ]
+    });
+
+    return new Blob([workbook as BlobPart], { type: XLSX_MIME_TYPE });
   }
 
-  private generateExcelReport(metrics: DashboardMetrics): Blob {
-    // Would use xlsx or similar library
-    // For now, return CSV as fallback
-    return this.generateCSVReport(metrics);
+  private async getBusinessName(businessId: string): Promise<string | undefined> {
+    const { data } = await supabase
+      .from('businesses')
+      .select('name')
+      .eq('id', businessId)
+      .maybeSingle();
+
+    return data?.name || undefined;
   }
 }
 
@@ -0,0 +1,161 @@
+/**
+ * Market Basket Service
+ * Mines the last 90 days of sales for products bought together, nightly
+ * and on demand, and keeps the latest analysis per business
+ */
+
+import { supabaseAdmin } from '@/agent1-foundation/database/supabase-client';
+import { SupabaseStockMovementRepository } from '@/agent1-foundation/models/repositories';
+import { ProductAssociation } from '@/shared/contracts/agent-interfaces';
+import { analyzeMarketBasket, MarketBasketOptions } from './market-basket';
+import { MarketBasketAnalysis } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REFRESH_INTERVAL_MS = DAY_MS;
+const HISTORY_DAYS = 90;
+const MAX_RULES = 200;
+
+export interface StoredMarketBasketAnalysis {
+  businessId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  basketCount: number;
+  analysis: MarketBasketAnalysis;
+  productNames: Record<string, string>;
+  computedAt: Date;
+}
+
+class MarketBasketService {
+  // Reads every business's sales, so it runs with the service role
+  private movements = new SupabaseStockMovementRepository(supabaseAdmin);
+  private refreshTimer?: ReturnType<typeof setInterval>;
+
+  start(intervalMs: number = REFRESH_INTERVAL_MS): void {
+    if (this.refreshTimer) return;
+
+    this.refreshTimer = setInterval(() => {
+      this.refreshAllBusinesses().catch(error => console.error('Scheduled market basket refresh failed:', error));
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    this.refreshTimer = undefined;
+  }
+
+  async refreshAllBusinesses(): Promise<void> {
+    const { data: businesses, error } = await supabaseAdmin.from('businesses').select('id');
+    if (error) throw error;
+
+    for (const business of businesses || []) {
+      try {
+        await this.refresh(business.id);
+      } catch (error) {
+        console.error(`Market basket refresh failed for business ${business.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Re-mine the business's baskets and replace its stored analysis
+   */
+  async refresh(businessId: string, options: MarketBasketOptions = {}): Promise<StoredMarketBasketAnalysis> {
+    const periodEnd = new Date();
+    const periodStart = new Date(periodEnd.getTime() - HISTORY_DAYS * DAY_MS);
+
+    const baskets = await this.movements.getSaleBaskets(businessId, { from: periodStart, to: periodEnd });
+    const productIds = Array.from(new Set(baskets.flatMap(basket => basket.productIds)));
+    const productNames = await this.getProductNames(productIds);
+
+    const analysis = analyzeMarketBasket(baskets.map(basket => basket.productIds), options, productNames);
+    analysis.rules = analysis.rules.slice(0, MAX_RULES);
+
+    // Keep only the names the analysis refers to
+    const referenced = new Set(analysis.frequentItemsets.flatMap(set => set.items));
+    const names = Object.fromEntries(Object.entries(productNames).filter(([id]) => referenced.has(id)));
+
+    const { data, error } = await supabaseAdmin
+      .from('market_basket_analyses')
+      .upsert({
+        business_id: businessId,
+        period_start: periodStart.toISOString(),
+        period_end: periodEnd.toISOString(),
+        basket_count: baskets.length,
+        // Conviction of rules that never failed is Infinity, which JSON stores as null
+        analysis,
+        product_names: names,
+        computed_at: new Date().toISOString()
+      }, { onConflict: 'business_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return this.mapAnalysis(data);
+  }
+
+  async getAnalysis(businessId: string): Promise<StoredMarketBasketAnalysis | null> {
+    const { data, error } = await supabaseAdmin
+      .from('market_basket_analyses')
+      .select('*')
+      .eq('business_id', businessId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data ? this.mapAnalysis(data) : null;
+  }
+
+  /**
+   * Products most often sold with the given one, strongest first
+   */
+  async getFrequentlyBoughtWith(businessId: string, productId: string, limit: number = 5): Promise<ProductAssociation[]> {
+    const stored = await this.getAnalysis(businessId);
+    if (!stored) return [];
+
+    return stored.analysis.crossSellingOpportunities
+      .filter(opportunity => opportunity.baseProduct === productId)
+      .sort((a, b) => b.confidence - a.confidence || b.lift - a.lift)
+      .slice(0, limit)
+      .map(opportunity => ({
+        productId: opportunity.suggestedProduct,
+        name: stored.productNames[opportunity.suggestedProduct] || opportunity.suggestedProduct,
+        confidence: opportunity.confidence,
+        lift: opportunity.lift
+      }));
+  }
+
+  private async getProductNames(productIds: string[]): Promise<Record<string, string>> {
+    const names: Record<string, string> = {};
+
+    // Batched so the id list stays within URL limits
+    for (let i = 0; i < productIds.length; i += 200) {
+      const { data, error } = await supabaseAdmin
+        .from('products')
+        .select('id, name')
+        .in('id', productIds.slice(i, i + 200));
+
+      if (error) throw error;
+      for (const product of data || []) names[product.id] = product.name;
+    }
+
+    return names;
+  }
+
+  private mapAnalysis(row: any): StoredMarketBasketAnalysis {
+    return {
+      businessId: row.business_id,
+      periodStart: new Date(row.period_start),
+      periodEnd: new Date(row.period_end),
+      basketCount: row.basket_count,
+      analysis: {
+        ...row.analysis,
+        rules: (row.analysis.rules || []).map((rule: any) => ({ ...rule, conviction: rule.conviction ?? Infinity }))
+      },
+      productNames: row.product_names || {},
+      computedAt: new Date(row.computed_at)
+    };
+  }
+}
+
+export const marketBasketService = new MarketBasketService();
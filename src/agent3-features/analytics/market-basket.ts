@@ -0,0 +1,213 @@
+// Market basket analysis. Frequent itemsets are mined with FP-Growth: the
+// baskets are compressed into a prefix tree ordered by item frequency, and
+// each item's conditional tree is mined recursively, so no candidate sets
+// are generated. Association rules, cross-sell suggestions and bundles are
+// derived from the itemsets.
+
+import { AssociationRule, MarketBasketAnalysis } from './types';
+
+export interface MarketBasketOptions {
+  minSupport?: number; // Share of baskets an itemset must appear in
+  minBaskets?: number; // ...and never fewer baskets than this
+  minConfidence?: number;
+  minLift?: number;
+  maxItemsetSize?: number;
+}
+
+export interface FrequentItemset {
+  items: string[];
+  support: number;
+  frequency: number;
+}
+
+const DEFAULTS: Required<MarketBasketOptions> = {
+  minSupport: 0.01,
+  minBaskets: 3,
+  minConfidence: 0.2,
+  minLift: 1.2,
+  maxItemsetSize: 3
+};
+
+interface FPNode {
+  item: string | null;
+  count: number;
+  parent: FPNode | null;
+  children: Map<string, FPNode>;
+}
+
+interface WeightedBasket {
+  items: string[];
+  count: number;
+}
+
+/**
+ * Itemsets bought together in at least minSupport of the baskets (and at
+ * least minBaskets of them), up to maxItemsetSize items each.
+ */
+export function mineFrequentItemsets(baskets: string[][], options: MarketBasketOptions = {}): FrequentItemset[] {
+  const { minSupport, minBaskets, maxItemsetSize } = { ...DEFAULTS, ...options };
+  if (baskets.length === 0) return [];
+
+  const minCount = Math.max(Math.ceil(minSupport * baskets.length), minBaskets, 1);
+  const found: Array<{ items: string[]; frequency: number }> = [];
+  const weighted = baskets.map(items => ({ items: Array.from(new Set(items)), count: 1 }));
+
+  growItemsets(weighted, [], minCount, maxItemsetSize, found);
+
+  return found
+    .map(({ items, frequency }) => ({
+      items: items.slice().sort(),
+      support: frequency / baskets.length,
+      frequency
+    }))
+    .sort((a, b) => b.frequency - a.frequency || a.items.length - b.items.length || a.items.join().localeCompare(b.items.join()));
+}
+
+/**
+ * Rules A => B between disjoint parts of each frequent itemset. Support of
+ * every subset is known because subsets of frequent itemsets are frequent.
+ * Conviction is Infinity for rules that never failed.
+ */
+export function associationRules(
+  itemsets: FrequentItemset[],
+  options: MarketBasketOptions = {},
+  productNames: Record<string, string> = {}
+): AssociationRule[] {
+  const { minConfidence, minLift } = { ...DEFAULTS, ...options };
+  const supportOf = new Map(itemsets.map(set => [set.items.join('|'), set.support]));
+  const support = (items: string[]) => supportOf.get(items.slice().sort().join('|')) ?? 0;
+  const rules: AssociationRule[] = [];
+
+  for (const set of itemsets) {
+    if (set.items.length < 2) continue;
+
+    for (const antecedent of properSubsets(set.items)) {
+      const consequent = set.items.filter(item => !antecedent.includes(item));
+      const confidence = set.support / support(antecedent);
+      const consequentSupport = support(consequent);
+      const lift = confidence / consequentSupport;
+      if (confidence < minConfidence || lift < minLift) continue;
+
+      rules.push({
+        antecedent,
+        consequent,
+        support: set.support,
+        confidence,
+        lift,
+        conviction: confidence >= 1 ? Infinity : (1 - consequentSupport) / (1 - confidence),
+        interpretation: `${Math.round(confidence * 100)}% of baskets with ${describeItems(antecedent, productNames)} ` +
+          `also contain ${describeItems(consequent, productNames)}, ${lift.toFixed(1)}x as often as usual`
+      });
+    }
+  }
+
+  return rules.sort((a, b) => b.lift - a.lift || b.confidence - a.confidence || b.support - a.support);
+}
+
+/**
+ * Full analysis of a set of baskets: itemsets, rules, one-to-one cross-sell
+ * suggestions, and bundles of products sold together more often than chance
+ * (candidates for adjacent shelving or a kit).
+ */
+export function analyzeMarketBasket(
+  baskets: string[][],
+  options: MarketBasketOptions = {},
+  productNames: Record<string, string> = {}
+): MarketBasketAnalysis {
+  const { minLift } = { ...DEFAULTS, ...options };
+  const frequentItemsets = mineFrequentItemsets(baskets, options);
+  const rules = associationRules(frequentItemsets, options, productNames);
+  const itemSupport = new Map(frequentItemsets.filter(s => s.items.length === 1).map(s => [s.items[0], s.support]));
+
+  return {
+    rules,
+    frequentItemsets,
+    crossSellingOpportunities: rules
+      .filter(rule => rule.antecedent.length === 1 && rule.consequent.length === 1)
+      .map(rule => ({
+        baseProduct: rule.antecedent[0],
+        suggestedProduct: rule.consequent[0],
+        confidence: rule.confidence,
+        lift: rule.lift,
+        // How much likelier the suggestion is to sell alongside the base product, in percent
+        expectedIncrease: (rule.lift - 1) * 100
+      })),
+    bundles: frequentItemsets
+      .filter(set => set.items.length > 1)
+      .map(set => ({
+        ...set,
+        lift: set.support / set.items.reduce((product, item) => product * itemSupport.get(item)!, 1)
+      }))
+      .filter(bundle => bundle.lift >= minLift)
+      .sort((a, b) => b.frequency - a.frequency || b.lift - a.lift)
+  };
+}
+
+// FP-Growth over a (conditional) database of weighted baskets
+function growItemsets(
+  baskets: WeightedBasket[],
+  suffix: string[],
+  minCount: number,
+  maxSize: number,
+  found: Array<{ items: string[]; frequency: number }>
+): void {
+  const counts = new Map<string, number>();
+  for (const basket of baskets) {
+    for (const item of basket.items) counts.set(item, (counts.get(item) || 0) + basket.count);
+  }
+
+  // Most frequent first (ties by id, so the tree is the same on every run)
+  const order = Array.from(counts)
+    .filter(([, count]) => count >= minCount)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([item]) => item);
+  const rank = new Map(order.map((item, i) => [item, i]));
+
+  const root: FPNode = { item: null, count: 0, parent: null, children: new Map() };
+  const header = new Map<string, FPNode[]>(order.map(item => [item, []]));
+
+  for (const basket of baskets) {
+    let node = root;
+    const items = basket.items.filter(item => rank.has(item)).sort((a, b) => rank.get(a)! - rank.get(b)!);
+    for (const item of items) {
+      let child = node.children.get(item);
+      if (!child) {
+        child = { item, count: 0, parent: node, children: new Map() };
+        node.children.set(item, child);
+        header.get(item)!.push(child);
+      }
+      child.count += basket.count;
+      node = child;
+    }
+  }
+
+  // Least frequent first: each item's prefix paths form its conditional database
+  for (const item of order.slice().reverse()) {
+    const itemset = [item, ...suffix];
+    found.push({ items: itemset, frequency: counts.get(item)! });
+    if (itemset.length >= maxSize) continue;
+
+    const conditional: WeightedBasket[] = [];
+    for (const node of header.get(item)!) {
+      const path: string[] = [];
+      for (let parent = node.parent; parent && parent.item !== null; parent = parent.parent) {
+        path.push(parent.item);
+      }
+      if (path.length > 0) conditional.push({ items: path, count: node.count });
+    }
+
+    if (conditional.length > 0) growItemsets(conditional, itemset, minCount, maxSize, found);
+  }
+}
+
+function properSubsets(items: string[]): string[][] {
+  const subsets: string[][] = [];
+  for (let mask = 1; mask < (1 << items.length) - 1; mask++) {
+    subsets.push(items.filter((_, i) => mask & (1 << i)));
+  }
+  return subsets;
+}
+
+function describeItems(items: string[], productNames: Record<string, string>): string {
+  return items.map(item => productNames[item] || item).join(' + ');
+}
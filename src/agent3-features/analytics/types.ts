@@ -1,5 +1,8 @@
 // Analytics and insights types
 
+import { RecordAccuracyPoint, AccuracyFlaggedProduct } from '../../shared/contracts/agent-interfaces';
+import { ForecastMethod, ForecastAccuracy } from './demand-forecasting';
+
 export interface DashboardMetrics {
   totalValue: number;
   totalValueChange: {
@@ -36,6 +39,9 @@ export interface DemandPrediction {
   productId: string;
   productName: string;
   predictedDemand: number;
+  predictionInterval: { lower: number; upper: number; level: number };
+  forecastMethod: ForecastMethod;
+  accuracy: ForecastAccuracy; // Backtest on the most recent sales
   confidence: number;
   timeHorizon: number; // days
   seasonality: SeasonalityData;
@@ -86,6 +92,7 @@ export interface Insight {
   description: string;
   confidence: number;
   impact: 'high' | 'medium' | 'low';
+  severity?: AnomalyDetection['severity']; // Set on insights raised for anomalies
   category: InsightCategory;
   data: any;
   actionable: boolean;
@@ -110,7 +117,10 @@ export type InsightType =
   | 'dead_stock'
   | 'reorder_optimization'
   | 'margin_improvement'
-  | 'category_trend';
+  | 'category_trend'
+  | 'shrinkage_suspected'
+  | 'count_anomaly'
+  | 'adjustment_anomaly';
 
 export type InsightCategory = 
   | 'inventory_optimization'
@@ -255,6 +265,27 @@ export interface ABCAnalysis {
     recommendation: string;
     managementStrategy: string;
   };
+  variantCount?: number; // Set when variants were rolled up into this parent
+}
+
+// Variant stock rolled up to the family parent
+export interface ProductFamilyRollup {
+  productId: string;
+  productName: string;
+  variantCount: number;
+  totalQuantity: number;
+  totalValue: number;
+  variants: VariantStock[];
+}
+
+export interface VariantStock {
+  productId: string;
+  productName: string;
+  sku: string;
+  barcode: string;
+  attributes: Record<string, string>;
+  quantity: number;
+  share: number; // Fraction of the family's total quantity
 }
 
 export interface CohortAnalysis {
@@ -285,6 +316,12 @@ export interface MarketBasketAnalysis {
     lift: number;
     expectedIncrease: number;
   }>;
+  bundles: Array<{
+    items: string[];
+    support: number;
+    frequency: number;
+    lift: number;
+  }>;
 }
 
 export interface AssociationRule {
@@ -352,6 +389,12 @@ export interface QualityKPIs {
   timeliness: number;
   consistency: number;
   validationErrors: number;
+  inventoryRecordAccuracy: number; // % of count lines within tolerance of the record
+  accuracyTrend: RecordAccuracyPoint[]; // Weekly
+  accuracyByCategory: RecordAccuracyPoint[];
+  accuracyByLocation: RecordAccuracyPoint[];
+  accuracyByCounter: RecordAccuracyPoint[];
+  flaggedProducts: AccuracyFlaggedProduct[]; // Counted more often until accurate again
 }
 
 // Benchmarking
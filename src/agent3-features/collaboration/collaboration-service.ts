@@ -1,4 +1,10 @@
-import { Foundation_To_Features, User } from '../../shared/contracts/agent-interfaces';
+import {
+  Foundation_To_Features,
+  User,
+  ConflictResolutionMethod,
+  CollaborationSessionSchema,
+  CountingConflictSchema
+} from '../../shared/contracts/agent-interfaces';
 import {
   CycleCountSession,
   Zone,
@@ -7,9 +13,17 @@ import {
   ProductLock,
   InventoryCount
 } from '../inventory/types';
+import {
+  planZoneAssignments,
+  participantRate,
+  historicalRate,
+  counterRate,
+  ZoneAssignmentPlan,
+  MIN_LIVE_ITEMS
+} from './zone-assignment';
 
 interface CollaborationEvent {
-  type: 'user_joined' | 'user_left' | 'product_claimed' | 'product_released' | 'count_submitted' | 'zone_completed' | 'session_paused' | 'session_resumed';
+  type: 'user_joined' | 'user_left' | 'product_claimed' | 'product_released' | 'count_submitted' | 'zone_completed' | 'session_paused' | 'session_resumed' | 'conflict_detected' | 'conflict_resolved' | 'zones_reassigned';
   userId: string;
   sessionId: string;
   timestamp: Date;
@@ -19,6 +33,7 @@ interface CollaborationEvent {
 interface TeamPresence {
   userId: string;
   userName: string;
+  role?: User['role'];
   status: 'active' | 'idle' | 'counting' | 'offline';
   currentZone?: string;
   currentProduct?: string;
@@ -42,14 +57,51 @@ interface ConflictResolution {
   zoneId?: string;
   data: any;
   status: 'pending' | 'resolved' | 'escalated';
+  detectedAt?: Date;
   resolution?: {
-    method: 'newest_wins' | 'highest_authority' | 'average' | 'manual_review';
+    method: ConflictResolutionMethod;
     resolvedBy: string;
     resolvedAt: Date;
     finalValue: any;
   };
 }
 
+// One teammate's count of a product within a session
+export interface CountSubmission {
+  countId: string;
+  userId: string;
+  userName: string;
+  role?: User['role'];
+  quantity: number;
+  submittedAt: Date;
+}
+
+// What a supervisor sees for a conflict the session strategy left to them
+export interface ManualReviewItem {
+  conflictId: string;
+  sessionId: string;
+  productId: string;
+  productName: string;
+  submissions: CountSubmission[];
+  detectedAt: Date;
+}
+
+// Everything a reconnecting device needs to carry on where it left off
+export interface SessionSnapshot {
+  session: CycleCountSession;
+  presence: TeamPresence[];
+  locks: ProductLock[];
+  assignedZones: Zone[];
+  openConflicts: ConflictResolution[];
+}
+
+// Higher wins under the highest_authority strategy
+const ROLE_AUTHORITY: Record<User['role'], number> = {
+  admin: 3,
+  user: 2,
+  viewer: 1
+};
+
 interface SessionMetrics {
   sessionId: string;
   startTime: Date;
@@ -61,16 +113,34 @@ interface SessionMetrics {
   averageTimePerItem: number;
   efficiency: number; // 0-1 score
   teamCoordination: number; // 0-1 score
+  participantRates: Record<string, number>; // userId -> items per minute
 }
 
+type RebalanceReason = 'user_joined' | 'user_left' | 'counter_behind';
+
+// A counter is behind when their pace drops this far under the planned rate
+const BEHIND_TOLERANCE = 0.3;
+const BEHIND_REBALANCE_INTERVAL = 2 * 60 * 1000;
+
 export class CollaborationService {
   private activeSessions: Map<string, CycleCountSession> = new Map();
   private sessionChannels: Map<string, any> = new Map();
+  private supervisorChannels: Map<string, any> = new Map(); // sessionId -> channel only supervisors join
   private userPresence: Map<string, TeamPresence[]> = new Map(); // sessionId -> users
   private productLocks: Map<string, ProductLock> = new Map();
   private conflictQueue: Map<string, ConflictResolution> = new Map();
+  private countSubmissions: Map<string, CountSubmission[]> = new Map(); // sessionId:productId -> counts
+  private plannedRates: Map<string, Record<string, number>> = new Map(); // sessionId -> rates the zones were balanced on
+  private lastRebalance: Map<string, number> = new Map();
+  private historicalRates: Map<string, Map<string, number>> = new Map(); // businessId -> userId -> items per minute
+
+  // The maps are a cache over the collaboration tables; every change is
+  // written through so another instance (or this one after a restart) can
+  // pick a live session up
+  private ready: Promise<void>;
 
   constructor(private foundation: Foundation_To_Features) {
+    this.ready = this.rehydrate();
     this.setupGlobalPresenceTracking();
     this.startCleanupScheduler();
   }
@@ -83,6 +153,8 @@ export class CollaborationService {
     zones: Zone[],
     createdBy: string
   ): Promise<CycleCountSession> {
+    await this.ready;
+
     const session: CycleCountSession = {
       id: this.generateId(),
       businessId,
@@ -104,7 +176,8 @@ export class CollaborationService {
         requirePhotos: false,
         requireNotes: false,
         autoReconcile: false,
-        notifyOnCompletion: true
+        notifyOnCompletion: true,
+        conflictStrategy: 'manual_review'
       }
     };
 
@@ -113,7 +186,7 @@ export class CollaborationService {
 
     // Store session
     this.activeSessions.set(session.id, session);
-    await this.persistSession(session);
+    await this.persistSession(session, createdBy);
 
     // Initialize presence tracking
     this.userPresence.set(session.id, []);
@@ -122,7 +195,7 @@ export class CollaborationService {
   }
 
   async joinSession(sessionId: string, user: User): Promise<void> {
-    const session = this.activeSessions.get(sessionId);
+    const session = await this.getSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
     }
@@ -141,14 +214,22 @@ export class CollaborationService {
         itemsCounted: 0,
         zonesCompleted: 0,
         lastActivity: new Date(),
+        joinedAt: new Date(),
         status: 'active'
       });
+    } else {
+      const participantProgress = session.progress.participantProgress.get(user.id);
+      if (participantProgress) {
+        participantProgress.status = 'active';
+        participantProgress.lastActivity = new Date();
+      }
     }
 
     // Add to presence tracking
     const presence: TeamPresence = {
       userId: user.id,
       userName: user.email, // Would be actual name from user profile
+      role: user.role,
       status: 'active',
       lastActivity: new Date(),
       deviceInfo: {
@@ -167,6 +248,7 @@ export class CollaborationService {
     }
     
     this.userPresence.set(sessionId, sessionPresence);
+    await this.persistPresence(sessionId, presence);
 
     // Broadcast user joined event
     await this.broadcastEvent(sessionId, {
@@ -177,14 +259,14 @@ export class CollaborationService {
       data: { userName: user.email }
     });
 
-    // Auto-assign zones if needed
-    await this.autoAssignZones(session);
+    // Give the new counter a share of the remaining zones
+    await this.rebalanceZones(session, 'user_joined', user.id);
     
     await this.persistSession(session);
   }
 
   async leaveSession(sessionId: string, userId: string): Promise<void> {
-    const session = this.activeSessions.get(sessionId);
+    const session = await this.getSession(sessionId);
     if (!session) return;
 
     // Release any product locks
@@ -194,6 +276,7 @@ export class CollaborationService {
     const sessionPresence = this.userPresence.get(sessionId) || [];
     const updatedPresence = sessionPresence.filter(p => p.userId !== userId);
     this.userPresence.set(sessionId, updatedPresence);
+    await this.foundation.database.collaboration.removePresence(sessionId, userId);
 
     // Update participant status
     const participantProgress = session.progress.participantProgress.get(userId);
@@ -210,6 +293,9 @@ export class CollaborationService {
       timestamp: new Date()
     });
 
+    // Hand the leaver's unfinished zones to the rest of the team
+    await this.rebalanceZones(session, 'user_left', userId);
+
     await this.persistSession(session);
   }
 
@@ -220,28 +306,27 @@ export class CollaborationService {
     userId: string,
     estimatedTime: number = 30 // seconds
   ): Promise<boolean> {
+    await this.ready;
     const lockKey = `${sessionId}:${productId}`;
-    const existingLock = this.productLocks.get(lockKey);
-
-    // Check if product is already locked by another user
-    if (existingLock && existingLock.userId !== userId && existingLock.expiresAt > new Date()) {
-      // Detect potential conflict
-      await this.handlePotentialConflict(sessionId, productId, userId, existingLock.userId);
-      return false;
-    }
 
-    // Create new lock
-    const lock: ProductLock = {
+    // The claim is decided by the database so two instances cannot both win
+    const { acquired, lock } = await this.foundation.database.collaboration.claimLock({
       productId,
       userId,
       sessionId,
-      lockedAt: new Date(),
       expiresAt: new Date(Date.now() + estimatedTime * 1000),
       lockType: 'count'
-    };
+    });
 
     this.productLocks.set(lockKey, lock);
 
+    // Check if product is already locked by another user
+    if (!acquired) {
+      // Detect potential conflict
+      await this.handlePotentialConflict(sessionId, productId, userId, lock.userId);
+      return false;
+    }
+
     // Update user presence
     await this.updateUserPresence(sessionId, userId, {
       status: 'counting',
@@ -274,11 +359,12 @@ export class CollaborationService {
     const lockKey = `${sessionId}:${productId}`;
     const lock = this.productLocks.get(lockKey);
 
-    if (!lock || lock.userId !== userId) {
+    if (lock && lock.userId !== userId) {
       return; // Not locked by this user
     }
 
     this.productLocks.delete(lockKey);
+    await this.foundation.database.collaboration.releaseLock(sessionId, productId, userId);
 
     // Update user presence
     await this.updateUserPresence(sessionId, userId, {
@@ -307,7 +393,7 @@ export class CollaborationService {
       countSubmitted?: InventoryCount;
     }
   ): Promise<void> {
-    const session = this.activeSessions.get(sessionId);
+    const session = await this.getSession(sessionId);
     if (!session) return;
 
     const participantProgress = session.progress.participantProgress.get(userId);
@@ -330,6 +416,11 @@ export class CollaborationService {
 
     participantProgress.lastActivity = new Date();
 
+    if (progressUpdate.countSubmitted) {
+      this.markProductCounted(session, progressUpdate.countSubmitted.productId);
+      await this.detectCountConflict(session, userId, progressUpdate.countSubmitted);
+    }
+
     // Recalculate overall progress
     const totalCompleted = Array.from(session.progress.participantProgress.values())
       .reduce((sum, p) => sum + p.itemsCounted, 0);
@@ -353,6 +444,8 @@ export class CollaborationService {
     // Check if session is complete
     if (session.progress.percentage >= 100) {
       await this.completeSession(sessionId);
+    } else if (this.isFallingBehind(session, participantProgress)) {
+      await this.rebalanceZones(session, 'counter_behind', userId);
     }
 
     await this.persistSession(session);
@@ -381,9 +474,31 @@ export class CollaborationService {
   }
 
   async getTeamPresence(sessionId: string): Promise<TeamPresence[]> {
+    await this.getSession(sessionId);
     return this.userPresence.get(sessionId) || [];
   }
 
+  /**
+   * Reconnect a device to a live session: rejoins the user and returns the
+   * team's current state, including the locks and zones the user still holds
+   */
+  async resumeSession(sessionId: string, user: User): Promise<SessionSnapshot> {
+    await this.joinSession(sessionId, user);
+
+    const session = (await this.getSession(sessionId))!;
+    const now = new Date();
+
+    return {
+      session,
+      presence: this.userPresence.get(sessionId) || [],
+      locks: Array.from(this.productLocks.values())
+        .filter(lock => lock.sessionId === sessionId && lock.userId === user.id && lock.expiresAt > now),
+      assignedZones: session.zones.filter(zone => zone.assignedUserId === user.id),
+      openConflicts: Array.from(this.conflictQueue.values())
+        .filter(c => c.data.sessionId === sessionId && c.status !== 'resolved')
+    };
+  }
+
   // Conflict Detection and Resolution
   private async handlePotentialConflict(
     sessionId: string,
@@ -403,10 +518,12 @@ export class CollaborationService {
         attemptedAt: new Date(),
         existingLock: this.productLocks.get(`${sessionId}:${productId}`)
       },
-      status: 'pending'
+      status: 'pending',
+      detectedAt: new Date()
     };
 
     this.conflictQueue.set(conflictId, conflict);
+    await this.persistConflict(conflict);
 
     // Notify both users about the conflict
     await this.notifyConflict(sessionId, conflict);
@@ -420,22 +537,41 @@ export class CollaborationService {
   async resolveConflict(
     conflictId: string,
     resolution: {
-      method: 'newest_wins' | 'highest_authority' | 'average' | 'manual_review';
+      method: ConflictResolutionMethod;
       resolvedBy: string;
       finalValue?: any;
     }
   ): Promise<void> {
     const conflict = this.conflictQueue.get(conflictId);
-    if (!conflict || conflict.status !== 'pending') return;
+    if (!conflict || conflict.status === 'resolved') return;
 
+    // Quantity conflicts need a value: the reviewer's, or the named strategy's
+    let finalValue = resolution.finalValue;
+    if (conflict.type === 'quantity_mismatch' && finalValue === undefined) {
+      if (resolution.method === 'manual_review') {
+        throw new Error('Manual review requires a final quantity');
+      }
+      finalValue = await this.computeResolvedQuantity(conflict, resolution.method);
+    }
+
+    const previousStatus = conflict.status;
     conflict.status = 'resolved';
     conflict.resolution = {
       ...resolution,
+      finalValue,
       resolvedAt: new Date()
     };
 
-    // Apply resolution logic
-    await this.applyConflictResolution(conflict);
+    // Apply resolution logic; a failure leaves the conflict open
+    try {
+      await this.applyConflictResolution(conflict);
+    } catch (error) {
+      conflict.status = previousStatus;
+      conflict.resolution = undefined;
+      throw error;
+    }
+
+    await this.persistConflict(conflict);
 
     // Notify participants
     await this.notifyConflictResolution(conflict);
@@ -443,9 +579,122 @@ export class CollaborationService {
     this.conflictQueue.delete(conflictId);
   }
 
+  /**
+   * Count conflicts the session strategy left for a person to settle, with
+   * every submitted value and who entered it
+   */
+  async getManualReviewQueue(sessionId?: string): Promise<ManualReviewItem[]> {
+    const escalated = Array.from(this.conflictQueue.values())
+      .filter(c => c.type === 'quantity_mismatch' && c.status === 'escalated')
+      .filter(c => !sessionId || c.data.sessionId === sessionId);
+
+    return Promise.all(escalated.map(async conflict => {
+      const product = await this.foundation.database.products.findById(conflict.productId!);
+      return {
+        conflictId: conflict.conflictId,
+        sessionId: conflict.data.sessionId,
+        productId: conflict.productId!,
+        productName: product?.name || 'Unknown',
+        submissions: conflict.data.submissions,
+        detectedAt: conflict.detectedAt || new Date()
+      };
+    }));
+  }
+
+  // A product counted by two teammates with different results is a conflict;
+  // later counts join the open conflict rather than starting another
+  private async detectCountConflict(
+    session: CycleCountSession,
+    userId: string,
+    count: InventoryCount
+  ): Promise<void> {
+    const key = `${session.id}:${count.productId}`;
+    const presence = (this.userPresence.get(session.id) || []).find(p => p.userId === userId);
+    const submission: CountSubmission = {
+      countId: count.id,
+      userId,
+      userName: presence?.userName || userId,
+      role: presence?.role,
+      quantity: count.quantity,
+      submittedAt: count.timestamp || new Date()
+    };
+
+    const submissions = [...(this.countSubmissions.get(key) || []), submission];
+    this.countSubmissions.set(key, submissions);
+
+    const counters = new Set(submissions.map(s => s.userId));
+    const quantities = new Set(submissions.map(s => s.quantity));
+    if (counters.size < 2 || quantities.size < 2) return;
+
+    const open = Array.from(this.conflictQueue.values()).find(c =>
+      c.type === 'quantity_mismatch' &&
+      c.status !== 'resolved' &&
+      c.productId === count.productId &&
+      c.data.sessionId === session.id
+    );
+
+    const conflict: ConflictResolution = open || {
+      conflictId: this.generateId(),
+      type: 'quantity_mismatch',
+      participants: [],
+      productId: count.productId,
+      data: { sessionId: session.id, submissions: [] },
+      status: 'pending',
+      detectedAt: new Date()
+    };
+    conflict.participants = Array.from(counters);
+    conflict.data.submissions = submissions;
+
+    this.conflictQueue.set(conflict.conflictId, conflict);
+
+    const strategy = session.settings.conflictStrategy || 'manual_review';
+    if (strategy === 'manual_review') {
+      conflict.status = 'escalated';
+      await this.persistConflict(conflict);
+      await this.notifyConflict(session.id, conflict);
+      return;
+    }
+
+    await this.persistConflict(conflict);
+    await this.notifyConflict(session.id, conflict);
+    await this.autoResolveConflict(conflict.conflictId);
+  }
+
+  private async computeResolvedQuantity(
+    conflict: ConflictResolution,
+    method: Exclude<ConflictResolutionMethod, 'manual_review'>
+  ): Promise<number> {
+    const submissions: CountSubmission[] = conflict.data.submissions || [];
+    if (submissions.length === 0) {
+      throw new Error('Conflict has no submitted counts');
+    }
+
+    const newest = (candidates: CountSubmission[]) => candidates.reduce((latest, s) =>
+      new Date(s.submittedAt).getTime() >= new Date(latest.submittedAt).getTime() ? s : latest
+    );
+
+    switch (method) {
+      case 'newest_wins':
+        return newest(submissions).quantity;
+
+      case 'highest_authority': {
+        // Equal authority falls back to the most recent count
+        const authority = (s: CountSubmission) => (s.role ? ROLE_AUTHORITY[s.role] : 0);
+        const top = Math.max(...submissions.map(authority));
+        return newest(submissions.filter(s => authority(s) === top)).quantity;
+      }
+
+      case 'average': {
+        const mean = submissions.reduce((sum, s) => sum + s.quantity, 0) / submissions.length;
+        const product = await this.foundation.database.products.findById(conflict.productId!);
+        return product?.allowFractional ? Math.round(mean * 1000) / 1000 : Math.round(mean);
+      }
+    }
+  }
+
   // Session Analytics and Metrics
   async getSessionMetrics(sessionId: string): Promise<SessionMetrics> {
-    const session = this.activeSessions.get(sessionId);
+    const session = await this.getSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
     }
@@ -466,6 +715,12 @@ export class CollaborationService {
     // Calculate team coordination score based on conflicts and overlap
     const teamCoordination = this.calculateTeamCoordination(sessionId);
 
+    const participantRates: Record<string, number> = {};
+    session.progress.participantProgress.forEach((progress, userId) => {
+      const rate = participantRate(progress);
+      if (rate) participantRates[userId] = rate;
+    });
+
     return {
       sessionId,
       startTime: session.startedAt || new Date(),
@@ -476,7 +731,8 @@ export class CollaborationService {
       discrepanciesFound: 0, // Would be calculated from actual data
       averageTimePerItem,
       efficiency: Math.min(efficiency / 10, 1), // Normalize to 0-1
-      teamCoordination
+      teamCoordination,
+      participantRates
     };
   }
 
@@ -494,6 +750,10 @@ export class CollaborationService {
 
     await channel.subscribe();
     this.sessionChannels.set(session.id, channel);
+
+    const supervisorChannel = this.foundation.realtime.channel(`session:${session.id}:supervisors`);
+    await supervisorChannel.subscribe();
+    this.supervisorChannels.set(session.id, supervisorChannel);
   }
 
   private async broadcastEvent(sessionId: string, event: CollaborationEvent): Promise<void> {
@@ -503,6 +763,14 @@ export class CollaborationService {
     }
   }
 
+  // Who counted what is for supervisors; counters only learn that a conflict exists
+  private async notifySupervisors(sessionId: string, event: CollaborationEvent): Promise<void> {
+    const channel = this.supervisorChannels.get(sessionId);
+    if (channel) {
+      channel.send('collaboration', event);
+    }
+  }
+
   private async updateUserPresence(
     sessionId: string,
     userId: string,
@@ -513,6 +781,7 @@ export class CollaborationService {
 
     if (userIndex >= 0) {
       sessionPresence[userIndex] = { ...sessionPresence[userIndex], ...updates };
+      await this.persistPresence(sessionId, sessionPresence[userIndex]);
     }
 
     this.userPresence.set(sessionId, sessionPresence);
@@ -528,19 +797,101 @@ export class CollaborationService {
     }
   }
 
-  private async autoAssignZones(session: CycleCountSession): Promise<void> {
-    const availableZones = session.zones.filter(z => !z.assignedUserId);
-    const availableUsers = session.assignedUsers.filter(userId => 
-      !session.zones.some(z => z.assignedUserId === userId)
-    );
+  // Re-plans zone ownership across the connected counters and tells the
+  // team about every zone that changed hands
+  private async rebalanceZones(
+    session: CycleCountSession,
+    reason: RebalanceReason,
+    triggeredBy: string
+  ): Promise<ZoneAssignmentPlan> {
+    const history = await this.getHistoricalRates(session.businessId);
+    const now = new Date();
+
+    const counters = session.assignedUsers
+      .filter(userId => session.progress.participantProgress.get(userId)?.status !== 'disconnected')
+      .map(userId => ({
+        userId,
+        itemsPerMinute: counterRate(session.progress.participantProgress.get(userId), history.get(userId), now)
+      }));
+
+    const plan = planZoneAssignments(session.zones, counters);
 
-    // Simple round-robin assignment
-    availableUsers.forEach((userId, index) => {
-      if (availableZones[index]) {
-        availableZones[index].assignedUserId = userId;
-        availableZones[index].status = 'pending';
+    for (const zone of session.zones) {
+      if (zone.status === 'completed') continue;
+      zone.assignedUserId = plan.assignments[zone.id];
+    }
+
+    this.plannedRates.set(session.id, Object.fromEntries(counters.map(c => [c.userId, c.itemsPerMinute])));
+    this.lastRebalance.set(session.id, now.getTime());
+
+    if (plan.changes.length > 0) {
+      await this.broadcastEvent(session.id, {
+        type: 'zones_reassigned',
+        userId: triggeredBy,
+        sessionId: session.id,
+        timestamp: now,
+        data: {
+          reason,
+          changes: plan.changes,
+          projectedMinutes: plan.projectedMinutes
+        }
+      });
+    }
+
+    return plan;
+  }
+
+  private isFallingBehind(session: CycleCountSession, progress: ParticipantProgress): boolean {
+    const planned = this.plannedRates.get(session.id)?.[progress.userId];
+    if (!planned || progress.itemsCounted < MIN_LIVE_ITEMS) return false;
+
+    const last = this.lastRebalance.get(session.id) || 0;
+    if (Date.now() - last < BEHIND_REBALANCE_INTERVAL) return false;
+
+    const live = participantRate(progress, new Date());
+    return live !== undefined && live < planned * (1 - BEHIND_TOLERANCE);
+  }
+
+  // Tracks what is left in each zone so rebalancing moves real work
+  private markProductCounted(session: CycleCountSession, productId: string): void {
+    const zone = session.zones.find(z => z.productIds.includes(productId) && z.status !== 'completed');
+    if (!zone) return;
+
+    zone.countedProductIds = zone.countedProductIds || [];
+    if (!zone.countedProductIds.includes(productId)) {
+      zone.countedProductIds.push(productId);
+    }
+    if (zone.status === 'pending') {
+      zone.status = 'in_progress';
+    }
+  }
+
+  // Items per minute each counter managed over the business's recent sessions
+  private async getHistoricalRates(businessId: string): Promise<Map<string, number>> {
+    const cached = this.historicalRates.get(businessId);
+    if (cached) return cached;
+
+    const rates = new Map<string, number>();
+    try {
+      const sessions = await this.foundation.database.collaboration.listCompletedSessions(businessId);
+      const samples = new Map<string, ParticipantProgress[]>();
+
+      for (const record of sessions) {
+        this.fromRecord(record).progress.participantProgress.forEach((progress, userId) => {
+          samples.set(userId, [...(samples.get(userId) || []), progress]);
+        });
       }
-    });
+
+      samples.forEach((userSamples, userId) => {
+        const rate = historicalRate(userSamples);
+        if (rate) rates.set(userId, rate);
+      });
+    } catch (error) {
+      console.error('Failed to load counter history:', error);
+    }
+
+    this.historicalRates.set(businessId, rates);
+    return rates;
   }
 
   private async releaseAllUserLocks(sessionId: string, userId: string): Promise<void> {
@@ -549,6 +900,7 @@ export class CollaborationService {
 
     for (const [lockKey, lock] of locksToRelease) {
       this.productLocks.delete(lockKey);
+      await this.foundation.database.collaboration.releaseLock(sessionId, lock.productId, userId);
       
       await this.broadcastEvent(sessionId, {
         type: 'product_released',
@@ -567,6 +919,11 @@ export class CollaborationService {
     session.status = 'completed';
     session.completedAt = new Date();
 
+    // The next plan for this business should learn from this session
+    this.historicalRates.delete(session.businessId);
+    this.plannedRates.delete(sessionId);
+    this.lastRebalance.delete(sessionId);
+
     // Generate final report
     const metrics = await this.getSessionMetrics(sessionId);
     
@@ -577,6 +934,12 @@ export class CollaborationService {
       this.sessionChannels.delete(sessionId);
     }
 
+    const supervisorChannel = this.supervisorChannels.get(sessionId);
+    if (supervisorChannel) {
+      await supervisorChannel.unsubscribe();
+      this.supervisorChannels.delete(sessionId);
+    }
+
     this.userPresence.delete(sessionId);
 
     // Notify participants
@@ -614,13 +977,19 @@ export class CollaborationService {
     }, 60000);
   }
 
-  private cleanupExpiredLocks(): void {
-    const now = new Date();
-    const expiredLocks = Array.from(this.productLocks.entries())
-      .filter(([_, lock]) => lock.expiresAt <= now);
+  private async cleanupExpiredLocks(): Promise<void> {
+    // Expiry is swept in the database so locks held through another
+    // instance are released too
+    let expiredLocks: ProductLock[];
+    try {
+      expiredLocks = await this.foundation.database.collaboration.deleteExpiredLocks();
+    } catch (error) {
+      console.error('Failed to release expired locks:', error);
+      return;
+    }
 
-    for (const [lockKey, lock] of expiredLocks) {
-      this.productLocks.delete(lockKey);
+    for (const lock of expiredLocks) {
+      this.productLocks.delete(`${lock.sessionId}:${lock.productId}`);
       
       // Notify about auto-release
       this.broadcastEvent(lock.sessionId, {
@@ -649,16 +1018,306 @@ export class CollaborationService {
     }
   }
 
+  private async notifyConflict(sessionId: string, conflict: ConflictResolution): Promise<void> {
+    const event: CollaborationEvent = {
+      type: 'conflict_detected',
+      userId: conflict.participants[conflict.participants.length - 1],
+      sessionId,
+      timestamp: new Date(),
+      data: {
+        conflictId: conflict.conflictId,
+        conflictType: conflict.type,
+        productId: conflict.productId,
+        status: conflict.status
+      }
+    };
+
+    await this.broadcastEvent(sessionId, event);
+    await this.notifySupervisors(sessionId, {
+      ...event,
+      data: {
+        ...event.data,
+        participants: conflict.participants,
+        submissions: conflict.data.submissions
+      }
+    });
+  }
+
+  // Applies the session's strategy; lock collisions need no value and are
+  // settled by the lock itself (first claim keeps the product)
+  private async autoResolveConflict(conflictId: string): Promise<void> {
+    const conflict = this.conflictQueue.get(conflictId);
+    if (!conflict || conflict.status !== 'pending') return;
+
+    if (conflict.type !== 'quantity_mismatch') {
+      conflict.status = 'resolved';
+      await this.persistConflict(conflict);
+      this.conflictQueue.delete(conflictId);
+      return;
+    }
+
+    const session = await this.getSession(conflict.data.sessionId);
+    const strategy = session?.settings.conflictStrategy || 'manual_review';
+
+    if (strategy === 'manual_review') {
+      conflict.status = 'escalated';
+      await this.persistConflict(conflict);
+      return;
+    }
+
+    try {
+      await this.resolveConflict(conflictId, { method: strategy, resolvedBy: 'system' });
+    } catch (error) {
+      // Anything the strategy cannot settle goes to a person
+      console.error('Automatic conflict resolution failed:', error);
+      conflict.status = 'escalated';
+      await this.persistConflict(conflict);
+      await this.notifyConflict(conflict.data.sessionId, conflict);
+    }
+  }
+
+  private async applyConflictResolution(conflict: ConflictResolution): Promise<void> {
+    if (conflict.type !== 'quantity_mismatch' || !conflict.resolution) return;
+
+    const submissions: CountSubmission[] = conflict.data.submissions;
+    const resolvedBy = conflict.resolution.resolvedBy === 'system' ? null : conflict.resolution.resolvedBy;
+
+    const result = await this.foundation.database.inventory.resolveCountConflict(
+      submissions.map(s => s.countId),
+      Number(conflict.resolution.finalValue),
+      conflict.resolution.method,
+      resolvedBy,
+      `Conflict ${conflict.conflictId}: ${submissions.map(s => `${s.userName}=${s.quantity}`).join(', ')}`
+    );
+
+    conflict.data.movementId = result.movementId;
+
+    // Later counts of the product start a fresh comparison
+    this.countSubmissions.delete(`${conflict.data.sessionId}:${conflict.productId}`);
+  }
+
+  private async notifyConflictResolution(conflict: ConflictResolution): Promise<void> {
+    const payload = {
+      conflictId: conflict.conflictId,
+      conflictType: conflict.type,
+      productId: conflict.productId,
+      method: conflict.resolution?.method,
+      finalValue: conflict.resolution?.finalValue,
+      resolvedBy: conflict.resolution?.resolvedBy
+    };
+    const event: CollaborationEvent = {
+      type: 'conflict_resolved',
+      userId: conflict.resolution?.resolvedBy || 'system',
+      sessionId: conflict.data.sessionId,
+      timestamp: new Date(),
+      data: payload
+    };
+
+    await this.broadcastEvent(conflict.data.sessionId, event);
+    await this.notifySupervisors(conflict.data.sessionId, {
+      ...event,
+      data: { ...payload, submissions: conflict.data.submissions }
+    });
+
+    this.foundation.realtime.broadcast('collaboration:conflict:resolved', {
+      sessionId: conflict.data.sessionId,
+      ...payload
+    });
+  }
+
   private generateId(): string {
-    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+    // Sessions and conflicts are keyed by UUID columns
+    return crypto.randomUUID();
+  }
+
+  // Persistence
+
+  // Loads every live session into memory so counters can reconnect to
+  // whichever instance they reach
+  private async rehydrate(): Promise<void> {
+    try {
+      const records = await this.foundation.database.collaboration.listLiveSessions();
+      for (const record of records) {
+        await this.hydrateSession(record);
+      }
+    } catch (error) {
+      console.error('Failed to rehydrate collaboration sessions:', error);
+    }
+  }
+
+  private async getSession(sessionId: string): Promise<CycleCountSession | undefined> {
+    await this.ready;
+
+    const cached = this.activeSessions.get(sessionId);
+    if (cached) return cached;
+
+    const record = await this.foundation.database.collaboration.findSession(sessionId);
+    if (!record) return undefined;
+
+    return this.hydrateSession(record);
+  }
+
+  private async hydrateSession(record: CollaborationSessionSchema): Promise<CycleCountSession> {
+    const repo = this.foundation.database.collaboration;
+    const session = this.fromRecord(record);
+    this.activeSessions.set(session.id, session);
+
+    if (session.status === 'completed' || session.status === 'cancelled') {
+      return session;
+    }
+
+    const [presence, locks, conflicts, counts] = await Promise.all([
+      repo.getPresence(session.id),
+      repo.getLocks(session.id),
+      repo.getOpenConflicts(session.id),
+      repo.getUnresolvedCounts(session.id)
+    ]);
+
+    const teamPresence: TeamPresence[] = presence.map(p => ({
+      userId: p.userId,
+      userName: p.userName,
+      role: p.role,
+      status: p.status,
+      currentZone: p.currentZone,
+      currentProduct: p.currentProduct,
+      lastActivity: p.lastActivity,
+      deviceInfo: p.deviceInfo as TeamPresence['deviceInfo'],
+      location: p.location as TeamPresence['location']
+    }));
+    this.userPresence.set(session.id, teamPresence);
+
+    for (const lock of locks) {
+      this.productLocks.set(`${lock.sessionId}:${lock.productId}`, lock);
+    }
+
+    for (const conflict of conflicts) {
+      this.conflictQueue.set(conflict.id, this.fromConflictRecord(conflict));
+    }
+
+    // Rebuild the per-product comparison so a count submitted after the
+    // restart is still checked against the ones made before it
+    for (const count of counts) {
+      const member = teamPresence.find(p => p.userId === count.userId);
+      const key = `${session.id}:${count.productId}`;
+      const submissions = this.countSubmissions.get(key) || [];
+      submissions.push({
+        countId: count.id,
+        userId: count.userId,
+        userName: member?.userName || count.userId,
+        role: member?.role,
+        quantity: count.quantity,
+        submittedAt: count.countedAt
+      });
+      this.countSubmissions.set(key, submissions);
+    }
+
+    if (!this.sessionChannels.has(session.id)) {
+      await this.initializeChannel(session);
+    }
+
+    return session;
+  }
+
+  private async persistSession(session: CycleCountSession, createdBy?: string): Promise<void> {
+    await this.foundation.database.collaboration.saveSession({
+      id: session.id,
+      businessId: session.businessId,
+      name: session.name,
+      description: session.description,
+      createdBy,
+      status: session.status,
+      participants: session.assignedUsers,
+      zones: session.zones,
+      progress: {
+        totalItems: session.progress.totalItems,
+        completedItems: session.progress.completedItems,
+        percentage: session.progress.percentage,
+        participantProgress: Object.fromEntries(session.progress.participantProgress)
+      },
+      settings: session.settings,
+      expectedDuration: session.expectedDuration,
+      startedAt: session.startedAt,
+      completedAt: session.completedAt
+    });
+  }
+
+  private fromRecord(record: CollaborationSessionSchema): CycleCountSession {
+    const progress = record.progress || {};
+    const participantProgress = new Map<string, ParticipantProgress>(
+      Object.entries(progress.participantProgress || {}).map(([userId, p]: [string, any]) => [
+        userId,
+        { ...p, lastActivity: new Date(p.lastActivity), joinedAt: p.joinedAt ? new Date(p.joinedAt) : undefined }
+      ])
+    );
+
+    return {
+      id: record.id,
+      businessId: record.businessId,
+      name: record.name,
+      description: record.description,
+      zones: record.zones || [],
+      assignedUsers: record.participants || [],
+      status: record.status,
+      startedAt: record.startedAt,
+      completedAt: record.completedAt,
+      expectedDuration: record.expectedDuration,
+      progress: {
+        totalItems: progress.totalItems || 0,
+        completedItems: progress.completedItems || 0,
+        percentage: progress.percentage || 0,
+        participantProgress
+      },
+      settings: record.settings as CycleCountSession['settings']
+    };
+  }
+
+  private async persistPresence(sessionId: string, presence: TeamPresence): Promise<void> {
+    await this.foundation.database.collaboration.savePresence({
+      sessionId,
+      userId: presence.userId,
+      userName: presence.userName,
+      role: presence.role,
+      status: presence.status,
+      currentZone: presence.currentZone,
+      currentProduct: presence.currentProduct,
+      deviceInfo: presence.deviceInfo,
+      location: presence.location,
+      lastActivity: presence.lastActivity
+    });
+  }
+
+  private async persistConflict(conflict: ConflictResolution): Promise<void> {
+    await this.foundation.database.collaboration.saveConflict({
+      id: conflict.conflictId,
+      sessionId: conflict.data.sessionId,
+      type: conflict.type,
+      status: conflict.status,
+      participants: conflict.participants,
+      productId: conflict.productId,
+      zoneId: conflict.zoneId,
+      data: conflict.data,
+      resolution: conflict.resolution,
+      detectedAt: conflict.detectedAt || new Date(),
+      resolvedAt: conflict.resolution?.resolvedAt
+    });
+  }
+
+  private fromConflictRecord(record: CountingConflictSchema): ConflictResolution {
+    const resolution = record.resolution as ConflictResolution['resolution'];
+    return {
+      conflictId: record.id,
+      type: record.type,
+      participants: record.participants,
+      productId: record.productId,
+      zoneId: record.zoneId,
+      data: { ...record.data, sessionId: record.sessionId },
+      status: record.status,
+      detectedAt: record.detectedAt,
+      resolution: resolution && { ...resolution, resolvedAt: new Date(resolution.resolvedAt) }
+    };
   }
 
   // Placeholder methods - would be implemented with actual database/notification calls
-  private async persistSession(session: CycleCountSession): Promise<void> {}
-  private async notifyConflict(sessionId: string, conflict: ConflictResolution): Promise<void> {}
-  private async autoResolveConflict(conflictId: string): Promise<void> {}
-  private async applyConflictResolution(conflict: ConflictResolution): Promise<void> {}
-  private async notifyConflictResolution(conflict: ConflictResolution): Promise<void> {}
   private async notifySessionCompletion(session: CycleCountSession, metrics: SessionMetrics): Promise<void> {}
   private handlePresenceChange(sessionId: string, payload: any): void {}
   private handleCollaborationEvent(sessionId: string, payload: any): void {}
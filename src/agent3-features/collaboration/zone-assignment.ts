@@ -0,0 +1,179 @@
+// Zone assignment engine for collaborative counts. Splits the remaining work
+// so every counter is projected to finish at about the same time, using each
+// counter's items-per-minute and keeping a counter's zones next to each other.
+
+import { Zone, ParticipantProgress } from '../inventory/types';
+
+export interface CounterCapacity {
+  userId: string;
+  itemsPerMinute: number;
+}
+
+export interface ZoneAssignmentOptions {
+  travelMinutes?: number; // Cost of walking to a zone that is not next to the counter's last one
+  stickinessMinutes?: number; // Keep the current counter unless another would finish this much sooner
+}
+
+export interface ZoneReassignment {
+  zoneId: string;
+  zoneName: string;
+  fromUserId?: string;
+  toUserId?: string;
+}
+
+export interface ZoneAssignmentPlan {
+  assignments: Record<string, string | undefined>; // zoneId -> userId
+  changes: ZoneReassignment[];
+  projectedMinutes: Record<string, number>; // userId -> minutes of work left
+}
+
+// The old fixed estimate of 30 seconds per item, used until a counter has history
+export const DEFAULT_ITEMS_PER_MINUTE = 2;
+
+// Live throughput replaces history once a counter has counted this many items
+export const MIN_LIVE_ITEMS = 10;
+
+const DEFAULT_TRAVEL_MINUTES = 2;
+const DEFAULT_STICKINESS_MINUTES = 3;
+
+export function remainingItems(zone: Zone): number {
+  return Math.max(0, zone.productIds.length - (zone.countedProductIds?.length || 0));
+}
+
+/**
+ * Items per minute a participant achieved between joining and their last
+ * activity. Undefined when there is not enough to measure.
+ */
+export function participantRate(progress: ParticipantProgress, until: Date = progress.lastActivity): number | undefined {
+  if (!progress.joinedAt || progress.itemsCounted <= 0) return undefined;
+
+  const minutes = (new Date(until).getTime() - new Date(progress.joinedAt).getTime()) / 60000;
+  return minutes > 0 ? progress.itemsCounted / minutes : undefined;
+}
+
+/**
+ * Pool a counter's past sessions into one rate, weighted by the items in each.
+ */
+export function historicalRate(samples: ParticipantProgress[]): number | undefined {
+  let items = 0;
+  let minutes = 0;
+
+  for (const sample of samples) {
+    const rate = participantRate(sample);
+    if (!rate) continue;
+    items += sample.itemsCounted;
+    minutes += sample.itemsCounted / rate;
+  }
+
+  return minutes > 0 ? items / minutes : undefined;
+}
+
+/**
+ * The rate to plan with: this session's pace once it is meaningful, then the
+ * counter's history, then the default estimate.
+ */
+export function counterRate(progress: ParticipantProgress | undefined, historical: number | undefined, now: Date = new Date()): number {
+  if (progress && progress.itemsCounted >= MIN_LIVE_ITEMS) {
+    const live = participantRate(progress, now);
+    if (live) return live;
+  }
+  return historical || DEFAULT_ITEMS_PER_MINUTE;
+}
+
+/**
+ * Assign zones to counters. Completed zones are left alone and zones already
+ * being counted stay with their counter while that counter is available.
+ * Everything else is placed largest first on whichever counter would finish
+ * it soonest, counting a walk between non-adjacent zones as travel time.
+ */
+export function planZoneAssignments(
+  zones: Zone[],
+  counters: CounterCapacity[],
+  options: ZoneAssignmentOptions = {}
+): ZoneAssignmentPlan {
+  const travelMinutes = options.travelMinutes ?? DEFAULT_TRAVEL_MINUTES;
+  const stickinessMinutes = options.stickinessMinutes ?? DEFAULT_STICKINESS_MINUTES;
+
+  const rates = new Map(counters.map(c => [c.userId, Math.max(c.itemsPerMinute, 0.01)]));
+  const load = new Map(counters.map(c => [c.userId, 0]));
+  const lastZone = new Map<string, string>();
+  const adjacency = buildAdjacency(zones);
+  const assignments: Record<string, string | undefined> = {};
+
+  const isAdjacent = (userId: string, zone: Zone): boolean => {
+    const previous = lastZone.get(userId);
+    return !previous || previous === zone.id || adjacency.get(previous)?.has(zone.id) === true;
+  };
+
+  const place = (zone: Zone, userId: string) => {
+    const travel = isAdjacent(userId, zone) ? 0 : travelMinutes;
+    load.set(userId, load.get(userId)! + travel + remainingItems(zone) / rates.get(userId)!);
+    lastZone.set(userId, zone.id);
+    assignments[zone.id] = userId;
+  };
+
+  const open: Zone[] = [];
+  for (const zone of zones) {
+    if (zone.status === 'completed') {
+      assignments[zone.id] = zone.assignedUserId;
+    } else if (zone.status === 'in_progress' && zone.assignedUserId && rates.has(zone.assignedUserId)) {
+      place(zone, zone.assignedUserId);
+    } else {
+      open.push(zone);
+    }
+  }
+
+  open.sort((a, b) => remainingItems(b) - remainingItems(a) || a.name.localeCompare(b.name));
+
+  for (const zone of open) {
+    if (counters.length === 0) {
+      assignments[zone.id] = undefined;
+      continue;
+    }
+
+    const finishAt = (userId: string) =>
+      load.get(userId)! + (isAdjacent(userId, zone) ? 0 : travelMinutes) + remainingItems(zone) / rates.get(userId)!;
+
+    let best = counters[0].userId;
+    for (const counter of counters) {
+      if (finishAt(counter.userId) < finishAt(best)) best = counter.userId;
+    }
+
+    // Moving a zone costs the counters a context switch, so only do it for a real gain
+    const current = zone.assignedUserId;
+    if (current && rates.has(current) && finishAt(current) <= finishAt(best) + stickinessMinutes) {
+      best = current;
+    }
+
+    place(zone, best);
+  }
+
+  const changes: ZoneReassignment[] = zones
+    .filter(zone => assignments[zone.id] !== zone.assignedUserId)
+    .map(zone => ({
+      zoneId: zone.id,
+      zoneName: zone.name,
+      fromUserId: zone.assignedUserId,
+      toUserId: assignments[zone.id]
+    }));
+
+  return {
+    assignments,
+    changes,
+    projectedMinutes: Object.fromEntries(load)
+  };
+}
+
+// Adjacency is symmetric even when only one side lists the other
+function buildAdjacency(zones: Zone[]): Map<string, Set<string>> {
+  const adjacency = new Map<string, Set<string>>(zones.map(z => [z.id, new Set<string>()]));
+
+  for (const zone of zones) {
+    for (const neighbour of zone.adjacentZoneIds || []) {
+      adjacency.get(zone.id)?.add(neighbour);
+      adjacency.get(neighbour)?.add(zone.id);
+    }
+  }
+
+  return adjacency;
+}
@@ -1,4 +1,4 @@
-import { Foundation_To_Features, ProductSchema, InventorySchema } from '../../shared/contracts/agent-interfaces';
+import { Foundation_To_Features, ProductSchema, InventorySchema, VariantOption } from '../../shared/contracts/agent-interfaces';
 
 // QuickBooks integration types
 interface QuickBooksAuth {
@@ -35,10 +35,17 @@ interface ShopifyProduct {
   handle: string;
   vendor: string;
   product_type: string;
+  options?: ShopifyOption[];
   variants: ShopifyVariant[];
   status: 'active' | 'draft' | 'archived';
 }
 
+interface ShopifyOption {
+  name: string; // e.g. 'Size'; Shopify allows up to three
+  position: number;
+  values: string[];
+}
+
 interface ShopifyVariant {
   id: number;
   product_id: number;
@@ -46,10 +53,16 @@ interface ShopifyVariant {
   price: string;
   sku: string;
   inventory_quantity: number;
+  option1?: string | null;
+  option2?: string | null;
+  option3?: string | null;
   barcode?: string;
   weight?: number;
 }
 
+const SHOPIFY_PROVIDER = 'shopify';
+const SHOPIFY_DEFAULT_OPTION = 'Title'; // Shopify's option on products without real variants
+
 // Export/Import types
 interface ExportOptions {
   format: 'csv' | 'excel' | 'pdf' | 'json';
@@ -272,12 +285,35 @@ export class IntegrationService {
 
       for (const shopifyProduct of shopifyProducts) {
         try {
+          // Products with real options become a parent with one child per variant
+          const variantOptions = this.getShopifyVariantOptions(shopifyProduct);
+          const parent = variantOptions.length > 0
+            ? await this.upsertShopifyParent(businessId, shopifyProduct, variantOptions, options)
+            : null;
+
           for (const variant of shopifyProduct.variants) {
-            // Check if product exists by SKU
-            const existingProduct = await this.findProductBySKU(businessId, variant.sku);
+            // Match on the stored Shopify variant id first, then fall back to SKU
+            const existingProduct =
+              await this.foundation.database.products.findByExternalRef(businessId, SHOPIFY_PROVIDER, String(variant.id)) ||
+              await this.findProductBySKU(businessId, variant.sku);
 
             if (existingProduct) {
               // Update existing product
+              if (parent) {
+                await this.foundation.database.products.update(existingProduct.id, {
+                  parentId: parent.id,
+                  variantAttributes: this.getShopifyVariantAttributes(shopifyProduct, variant)
+                });
+              }
+
+              await this.foundation.database.products.setExternalRef({
+                businessId,
+                productId: existingProduct.id,
+                provider: SHOPIFY_PROVIDER,
+                externalId: String(variant.id),
+                externalParentId: String(shopifyProduct.id)
+              });
+
               if (options.updateInventory) {
                 await this.updateInventoryQuantity(existingProduct.id, variant.inventory_quantity);
               }
@@ -287,7 +323,7 @@ export class IntegrationService {
               }
             } else if (options.createProducts) {
               // Create new product from Shopify variant
-              await this.createProductFromShopify(businessId, shopifyProduct, variant);
+              await this.createProductFromShopify(businessId, shopifyProduct, variant, parent);
             }
           }
         } catch (error) {
@@ -311,6 +347,22 @@ export class IntegrationService {
 
     for (const product of products) {
       try {
+        const ref = await this.foundation.database.products.getExternalRef(product.id, SHOPIFY_PROVIDER);
+
+        if (ref) {
+          // Family parents carry no stock in Shopify; each variant is pushed on its own
+          const isFamilyParent = !product.parentId && (product.variantOptions?.length ?? 0) > 0;
+
+          if (options.updateInventory && !isFamilyParent) {
+            await this.updateShopifyVariantInventory(auth, ref.externalId, product.currentQuantity);
+          }
+
+          if (isFamilyParent && options.createProducts) {
+            await this.exportNewVariantsToShopify(auth, product, ref.externalId);
+          }
+          continue;
+        }
+
         // Find corresponding Shopify product by SKU
         const shopifyProduct = await this.findShopifyProductBySKU(auth, product.sku);
 
@@ -328,6 +380,135 @@ export class IntegrationService {
     }
   }
 
+  // Variants added locally to a family that came from Shopify are created on the Shopify product
+  private async exportNewVariantsToShopify(
+    auth: ShopifyAuth,
+    parent: ProductSchema,
+    shopifyProductId: string
+  ): Promise<void> {
+    const variants = await this.foundation.database.products.getVariants(parent.id);
+    const optionNames = (parent.variantOptions || []).slice(0, 3).map(option => option.name);
+
+    for (const variant of variants) {
+      const existingRef = await this.foundation.database.products.getExternalRef(variant.id, SHOPIFY_PROVIDER);
+      if (existingRef) continue;
+
+      const attributes = variant.variantAttributes || {};
+      const response = await this.makeShopifyRequest(
+        auth,
+        'POST',
+        `/admin/api/2023-01/products/${shopifyProductId}/variants.json`,
+        {
+          variant: {
+            sku: variant.sku,
+            barcode: variant.barcode || undefined,
+            option1: optionNames[0] ? attributes[optionNames[0]] : undefined,
+            option2: optionNames[1] ? attributes[optionNames[1]] : undefined,
+            option3: optionNames[2] ? attributes[optionNames[2]] : undefined
+          }
+        }
+      );
+
+      if (response?.variant?.id) {
+        await this.foundation.database.products.setExternalRef({
+          businessId: parent.businessId,
+          productId: variant.id,
+          provider: SHOPIFY_PROVIDER,
+          externalId: String(response.variant.id),
+          externalParentId: shopifyProductId
+        });
+      }
+    }
+  }
+
+  // Create or refresh the family parent for a Shopify product with real options
+  private async upsertShopifyParent(
+    businessId: string,
+    shopifyProduct: ShopifyProduct,
+    variantOptions: VariantOption[],
+    options: any
+  ): Promise<ProductSchema | null> {
+    const products = this.foundation.database.products;
+    const existing = await products.findByExternalRef(businessId, SHOPIFY_PROVIDER, String(shopifyProduct.id));
+
+    if (existing) {
+      return products.update(existing.id, {
+        name: shopifyProduct.title,
+        variantOptions
+      });
+    }
+
+    if (!options.createProducts) return null;
+
+    const parent = await products.create({
+      businessId,
+      name: shopifyProduct.title,
+      sku: shopifyProduct.handle,
+      category: shopifyProduct.product_type,
+      variantOptions
+    });
+
+    await products.setExternalRef({
+      businessId,
+      productId: parent.id,
+      provider: SHOPIFY_PROVIDER,
+      externalId: String(shopifyProduct.id)
+    });
+
+    return parent;
+  }
+
+  private getShopifyVariantOptions(shopifyProduct: ShopifyProduct): VariantOption[] {
+    return (shopifyProduct.options || [])
+      .filter(option => option.name !== SHOPIFY_DEFAULT_OPTION)
+      .sort((a, b) => a.position - b.position)
+      .map(option => ({ name: option.name, values: option.values }));
+  }
+
+  private getShopifyVariantAttributes(
+    shopifyProduct: ShopifyProduct,
+    variant: ShopifyVariant
+  ): Record<string, string> {
+    const values = [variant.option1, variant.option2, variant.option3];
+    const attributes: Record<string, string> = {};
+
+    for (const option of shopifyProduct.options || []) {
+      const value = values[option.position - 1];
+      if (option.name !== SHOPIFY_DEFAULT_OPTION && value) {
+        attributes[option.name] = value;
+      }
+    }
+
+    return attributes;
+  }
+
+  private async createProductFromShopify(
+    businessId: string,
+    product: ShopifyProduct,
+    variant: ShopifyVariant,
+    parent: ProductSchema | null
+  ): Promise<void> {
+    const created = await this.foundation.database.products.create({
+      businessId,
+      name: parent ? `${product.title} - ${variant.title}` : product.title,
+      sku: variant.sku,
+      barcode: variant.barcode || '',
+      category: product.product_type,
+      parentId: parent?.id,
+      variantAttributes: parent ? this.getShopifyVariantAttributes(product, variant) : undefined
+    });
+
+    await this.foundation.database.products.setExternalRef({
+      businessId,
+      productId: created.id,
+      provider: SHOPIFY_PROVIDER,
+      externalId: String(variant.id),
+      externalParentId: String(product.id)
+    });
+
+    await this.updateInventoryQuantity(created.id, variant.inventory_quantity);
+  }
+
   // Export functionality
   async exportData(
     businessId: string,
@@ -524,9 +705,9 @@ export class IntegrationService {
   private async createQuickBooksItem(auth: QuickBooksAuth, item: QuickBooksItem): Promise<void> {}
   private async fetchShopifyProducts(auth: ShopifyAuth, page: number): Promise<ShopifyProduct[]> { return []; }
   private async findProductBySKU(businessId: string, sku: string): Promise<ProductSchema | null> { return null; }
-  private async createProductFromShopify(businessId: string, product: ShopifyProduct, variant: ShopifyVariant): Promise<void> {}
   private async findShopifyProductBySKU(auth: ShopifyAuth, sku: string): Promise<ShopifyProduct | null> { return null; }
   private async updateShopifyInventory(auth: ShopifyAuth, product: ShopifyProduct, quantity: number): Promise<void> {}
+  private async updateShopifyVariantInventory(auth: ShopifyAuth, variantId: string, quantity: number): Promise<void> {}
   private async gatherExportData(businessId: string, options: ExportOptions): Promise<any[]> { return []; }
   private async formatExportData(data: any[], options: ExportOptions): Promise<any> { return data; }
   private generateExportFilename(format: string, timestamp: Date): string { return `export_${timestamp.getTime()}.${format}`; }
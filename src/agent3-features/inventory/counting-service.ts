@@ -5,6 +5,21 @@
 
 import { supabase, supabaseAdmin } from '@/agent1-foundation/database/supabase-client';
 import { eventBus } from '@/shared/events/event-bus';
+import { renderPdfReport, PDF_MIME_TYPE } from '@/shared/reports/pdf';
+import { renderXlsxWorkbook, XLSX_MIME_TYPE } from '@/shared/reports/xlsx';
+import { historicalRate, DEFAULT_ITEMS_PER_MINUTE } from '@/agent3-features/collaboration/zone-assignment';
+import { classifyABC } from '@/agent3-features/analytics/abc-classification';
+import {
+  buildCountCalendar,
+  resolveCycleCountPolicy,
+  CycleCountPolicy,
+  CycleCountPolicyChanges,
+  CountableItem,
+  CalendarEntry
+} from '@/agent3-features/inventory/cycle-count-scheduler';
+
+// Team roles allowed to see expected quantities of a blind count
+const SUPERVISOR_ROLES = ['admin'];
 
 export interface CountingSession {
   id: string;
@@ -44,8 +59,10 @@ export interface SessionProgress {
 export interface SessionSettings {
   require_approval: boolean;
   approval_threshold: number;
-  allow_blind_counts: boolean;
+  allow_blind_counts: boolean; // Counters never see expected quantities or earlier counts
   enable_cycle_counting: boolean;
+  expected_revealed_at?: string; // Set when a supervisor reveals a blind count
+  expected_revealed_by?: string;
   notification_settings: {
     on_start: boolean;
     on_complete: boolean;
@@ -62,10 +79,12 @@ export interface CountEntry {
   notes?: string;
   verified: boolean;
   timestamp: string;
+  serial_numbers?: string[]; // Required for serialized products; replaces quantity
 }
 
 export interface VarianceReport {
   session_id: string;
+  blind: boolean;
   total_variance: number;
   variance_percentage: number;
   high_variance_items: VarianceItem[];
@@ -81,6 +100,95 @@ export interface VarianceItem {
   variance: number;
   variance_percentage: number;
   location: string;
+  missing_serials?: string[];
+  unexpected_serials?: string[];
+}
+
+export type PostingStatus = 'posted' | 'pending_approval' | 'approved' | 'rejected' | 'superseded';
+
+export interface CountApproval {
+  posting_status: 'posted' | 'pending_approval';
+  recount_of_id: string | null; // Set when the counter is working an open recount task
+  auto_approved: boolean; // Within threshold in a session that requires approval
+}
+
+export interface ApprovalQueueItem {
+  count_id: string;
+  product_id: string;
+  product_name: string;
+  location: string;
+  counted: number;
+  expected: number;
+  variance: number;
+  variance_percentage: number;
+  counted_by: string;
+  timestamp: string;
+  recount_of_id: string | null;
+  recount_assigned_to?: string; // Open recount, if one was ordered
+  missing_serials?: string[];
+  unexpected_serials?: string[];
+}
+
+export interface RecountTask {
+  id: string;
+  session_id: string;
+  product_id: string;
+  product_name: string;
+  sku: string;
+  location_id: string | null;
+  lot_number: string | null;
+  requested_by: string;
+  notes?: string;
+  created_at: string;
+}
+
+export interface ReviewResult {
+  count_id: string;
+  success: boolean;
+  decision?: 'approved' | 'rejected' | 'recount_requested';
+  posting_status?: PostingStatus;
+  movement_id?: string | null;
+  recount_task_id?: string | null;
+  error?: string;
+}
+
+export interface CountSheetItem {
+  product_id: string;
+  product_name: string;
+  sku: string;
+  location: string;
+  counted_by_me: boolean;
+  expected_quantity?: number; // Omitted in blind sessions
+  previous_counts?: PreviousCount[]; // Omitted in blind sessions
+}
+
+export interface PreviousCount {
+  quantity: number;
+  counted_by: string;
+  timestamp: string;
+}
+
+export interface RevealedCount {
+  product_id: string;
+  product_name: string;
+  location: string;
+  counted: number;
+  expected: number;
+  variance: number;
+  counted_by: string;
+  timestamp: string;
+}
+
+// Share of the expected quantity a count differs by; any count of an item
+// expected to be out of stock is a 100% variance
+function variancePercentage(expected: number, counted: number): number {
+  if (counted === expected) return 0;
+  return expected > 0 ? ((counted - expected) / expected) * 100 : 100;
+}
+
+// counting_sessions keeps the assigned counters in `participants`
+function toCountingSession({ participants, ...row }: any): CountingSession {
+  return { ...row, assigned_users: participants || [] };
 }
 
 class CountingService {
@@ -90,9 +198,10 @@ class CountingService {
   async createSession(
     session: Omit<CountingSession, 'id' | 'created_at' | 'updated_at'>
   ): Promise<CountingSession> {
+    const { assigned_users, ...row } = session;
     const { data, error } = await supabase
-      .from('cycle_count_sessions')
-      .insert(session)
+      .from('counting_sessions')
+      .insert({ ...row, participants: assigned_users || [] })
       .select()
       .single();
 
@@ -101,7 +210,7 @@ class CountingService {
     // Broadcast session creation
     eventBus.broadcast('counting:session:created', { sessionId: data.id });
 
-    return data;
+    return toCountingSession(data);
   }
 
   /**
@@ -109,7 +218,7 @@ class CountingService {
    */
   async startSession(sessionId: string): Promise<void> {
     const { error } = await supabase
-      .from('cycle_count_sessions')
+      .from('counting_sessions')
       .update({
         status: 'active',
         started_at: new Date().toISOString()
@@ -128,6 +237,24 @@ class CountingService {
     sessionId: string,
     entry: CountEntry
   ): Promise<void> {
+    // Serialized products are counted by scanning each unit
+    const { data: product } = await supabase
+      .from('products')
+      .select('business_id, is_serialized')
+      .eq('id', entry.product_id)
+      .single();
+
+    const businessId = product?.business_id;
+    const blind = await this.isBlindSession(businessId, sessionId);
+
+    const serialized = !!product?.is_serialized;
+    if (serialized) {
+      if (!entry.serial_numbers) {
+        throw new Error('Serialized products must be counted by scanning serial numbers');
+      }
+      entry = { ...entry, quantity: new Set(entry.serial_numbers).size };
+    }
+
     // Get current inventory
     const { data: currentInventory } = await supabase
       .from('inventory')
@@ -138,8 +265,15 @@ class CountingService {
     const previous_quantity = currentInventory?.quantity || 0;
     const difference = entry.quantity - previous_quantity;
 
+    const userId = (await supabase.auth.getUser()).data.user?.id;
+    const approval = await this.getCountApproval(businessId, sessionId, {
+      product_id: entry.product_id,
+      quantity: entry.quantity,
+      counted_by: userId
+    });
+
     // Record the count
-    const { error: countError } = await supabase
+    const { data: count, error: countError } = await supabase
       .from('inventory_counts')
       .insert({
         product_id: entry.product_id,
@@ -150,13 +284,22 @@ class CountingService {
         notes: entry.notes,
         session_id: sessionId,
         verified: entry.verified,
-        user_id: (await supabase.auth.getUser()).data.user?.id
-      });
+        scanned_serials: serialized ? entry.serial_numbers : null,
+        posting_status: approval.posting_status,
+        recount_of_id: approval.recount_of_id,
+        counted_by: userId
+      })
+      .select('id, product_id, quantity, previous_quantity, missing_serials, unexpected_serials')
+      .single();
 
     if (countError) throw countError;
 
-    // Update inventory if verified
-    if (entry.verified) {
+    if (approval.auto_approved) {
+      await this.recordAutoApproval(businessId, sessionId, count);
+    }
+
+    // Update inventory if verified; held lines wait for a supervisor
+    if (entry.verified && approval.posting_status === 'posted') {
       const { error: updateError } = await supabase
         .from('inventory')
         .update({
@@ -171,11 +314,485 @@ class CountingService {
     // Update session progress
     await this.updateSessionProgress(sessionId);
 
-    eventBus.broadcast('counting:entry:submitted', {
+    // Other counters in a blind session must not learn the expected quantity
+    eventBus.broadcast('counting:entry:submitted', blind ? {
       sessionId,
       productId: entry.product_id,
-      variance: difference
+      postingStatus: approval.posting_status
+    } : {
+      sessionId,
+      productId: entry.product_id,
+      postingStatus: approval.posting_status,
+      variance: difference,
+      missingSerials: count?.missing_serials || undefined,
+      unexpectedSerials: count?.unexpected_serials || undefined
+    });
+  }
+
+  /**
+   * True when counters in the session must not see expected quantities
+   */
+  async isBlindSession(businessId: string, sessionId: string): Promise<boolean> {
+    const { data: session } = await supabaseAdmin
+      .from('counting_sessions')
+      .select('settings')
+      .eq('id', sessionId)
+      .eq('business_id', businessId)
+      .maybeSingle();
+
+    return !!session?.settings?.allow_blind_counts;
+  }
+
+  /**
+   * Items a user should count. Blind sessions leave out the system
+   * quantity and everyone's earlier counts so counters cannot anchor to them.
+   */
+  async getCountSheet(businessId: string, sessionId: string, userId: string): Promise<CountSheetItem[]> {
+    const { data: session, error } = await supabaseAdmin
+      .from('counting_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .eq('business_id', businessId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!session) throw new Error('Counting session not found');
+
+    const blind = !!session.settings?.allow_blind_counts;
+    const zoneProducts: Array<{ productId: string; location: string }> = (session.zones || [])
+      .flatMap((zone: CountingZone) => (zone.products || []).map(productId => ({
+        productId,
+        location: zone.location
+      })));
+
+    const [{ data: products }, { data: counts }] = await Promise.all([
+      supabaseAdmin
+        .from('products')
+        .select('id, name, sku, current_quantity')
+        .eq('business_id', businessId)
+        .in('id', zoneProducts.map(p => p.productId)),
+      supabaseAdmin
+        .from('inventory_counts')
+        .select('product_id, quantity, counted_by, counted_at')
+        .eq('session_id', sessionId)
+        .order('counted_at', { ascending: true })
+    ]);
+
+    return zoneProducts.map(({ productId, location }) => {
+      const product = products?.find(p => p.id === productId);
+      const productCounts = (counts || []).filter(c => c.product_id === productId);
+
+      return {
+        product_id: productId,
+        product_name: product?.name || 'Unknown',
+        sku: product?.sku || '',
+        location,
+        counted_by_me: productCounts.some(c => c.counted_by === userId),
+        ...(blind ? {} : {
+          expected_quantity: Number(product?.current_quantity) || 0,
+          previous_counts: productCounts.map(c => ({
+            quantity: Number(c.quantity),
+            counted_by: c.counted_by,
+            timestamp: c.counted_at
+          }))
+        })
+      };
+    });
+  }
+
+  /**
+   * Show a supervisor the expected quantities behind the counts already
+   * submitted to a blind session. The reveal is recorded on the session.
+   */
+  async revealExpectedValues(businessId: string, sessionId: string, userId: string): Promise<RevealedCount[]> {
+    const { data: session, error } = await supabaseAdmin
+      .from('counting_sessions')
+      .select('settings')
+      .eq('id', sessionId)
+      .eq('business_id', businessId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!session) throw new Error('Counting session not found');
+
+    if (!(await this.isSupervisor(userId, businessId))) {
+      throw new Error('Only supervisors can reveal expected quantities');
+    }
+
+    const { data: counts } = await supabaseAdmin
+      .from('inventory_counts')
+      .select(`
+        *,
+        product:products(name)
+      `)
+      .eq('session_id', sessionId)
+      .order('counted_at', { ascending: true });
+
+    const revealed: RevealedCount[] = (counts || []).map(c => ({
+      product_id: c.product_id,
+      product_name: c.product?.name || 'Unknown',
+      location: c.location,
+      counted: c.quantity,
+      expected: c.previous_quantity,
+      variance: c.quantity_difference,
+      counted_by: c.counted_by,
+      timestamp: c.counted_at
+    }));
+
+    if (session.settings?.allow_blind_counts) {
+      await supabaseAdmin
+        .from('counting_sessions')
+        .update({
+          settings: {
+            ...session.settings,
+            expected_revealed_at: new Date().toISOString(),
+            expected_revealed_by: userId
+          }
+        })
+        .eq('id', sessionId)
+        .eq('business_id', businessId);
+    }
+
+    eventBus.broadcast('counting:expected:revealed', { sessionId, revealedBy: userId });
+
+    return revealed;
+  }
+
+  /**
+   * Decide how a count in this session posts. Sessions that require approval
+   * hold lines whose variance exceeds approval_threshold until a supervisor
+   * reviews them; a counter working a recount task replaces the original line.
+   */
+  async getCountApproval(
+    businessId: string,
+    sessionId: string,
+    count: {
+      product_id: string;
+      quantity: number;
+      counted_by?: string | null;
+      location_id?: string | null;
+      lot_number?: string | null;
+    }
+  ): Promise<CountApproval> {
+    const { data: session } = await supabaseAdmin
+      .from('counting_sessions')
+      .select('settings')
+      .eq('id', sessionId)
+      .eq('business_id', businessId)
+      .maybeSingle();
+
+    const settings: Partial<SessionSettings> = session?.settings || {};
+
+    let recountOfId: string | null = null;
+    if (count.counted_by) {
+      const { data: task } = await supabaseAdmin
+        .from('recount_tasks')
+        .select('original_count_id')
+        .eq('business_id', businessId)
+        .eq('session_id', sessionId)
+        .eq('product_id', count.product_id)
+        .eq('assigned_to', count.counted_by)
+        .eq('status', 'open')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      recountOfId = task?.original_count_id || null;
+    }
+
+    if (!settings.require_approval) {
+      return { posting_status: 'posted', recount_of_id: recountOfId, auto_approved: false };
+    }
+
+    const expected = await this.getExpectedQuantity(businessId, count.product_id, count.location_id, count.lot_number);
+    const withinThreshold = Math.abs(variancePercentage(expected, count.quantity)) <= (settings.approval_threshold ?? 0);
+
+    return {
+      posting_status: withinThreshold ? 'posted' : 'pending_approval',
+      recount_of_id: recountOfId,
+      auto_approved: withinThreshold
+    };
+  }
+
+  /**
+   * Record that a count posted without review because it was within threshold
+   */
+  async recordAutoApproval(
+    businessId: string,
+    sessionId: string,
+    count: { id: string; product_id: string; quantity: number; previous_quantity: number | null }
+  ): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('count_review_decisions')
+      .insert({
+        business_id: businessId,
+        session_id: sessionId,
+        count_id: count.id,
+        product_id: count.product_id,
+        decision: 'auto_approved',
+        counted_quantity: count.quantity,
+        expected_quantity: count.previous_quantity,
+        variance: count.quantity - (count.previous_quantity || 0)
+      });
+
+    if (error) throw error;
+  }
+
+  /**
+   * Count lines in a session waiting for a supervisor, largest variance first
+   */
+  async getApprovalQueue(
+    businessId: string,
+    sessionId: string,
+    supervisorId: string
+  ): Promise<ApprovalQueueItem[]> {
+    await this.assertSessionSupervisor(businessId, sessionId, supervisorId);
+
+    const [{ data: counts, error }, { data: tasks }] = await Promise.all([
+      supabaseAdmin
+        .from('inventory_counts')
+        .select(`
+          *,
+          product:products(name)
+        `)
+        .eq('session_id', sessionId)
+        .eq('posting_status', 'pending_approval')
+        .order('counted_at', { ascending: true }),
+      supabaseAdmin
+        .from('recount_tasks')
+        .select('original_count_id, assigned_to')
+        .eq('business_id', businessId)
+        .eq('session_id', sessionId)
+        .eq('status', 'open')
+    ]);
+
+    if (error) throw error;
+
+    return (counts || [])
+      .map(c => {
+        const expected = Number(c.previous_quantity) || 0;
+        const counted = Number(c.quantity);
+        const task = tasks?.find(t => t.original_count_id === c.id);
+
+        return {
+          count_id: c.id,
+          product_id: c.product_id,
+          product_name: c.product?.name || 'Unknown',
+          location: c.location,
+          counted,
+          expected,
+          variance: counted - expected,
+          variance_percentage: variancePercentage(expected, counted),
+          counted_by: c.counted_by || c.user_id,
+          timestamp: c.counted_at || c.created_at,
+          recount_of_id: c.recount_of_id,
+          ...(task ? { recount_assigned_to: task.assigned_to } : {}),
+          ...(c.scanned_serials ? {
+            missing_serials: c.missing_serials || [],
+            unexpected_serials: c.unexpected_serials || []
+          } : {})
+        };
+      })
+      .sort((a, b) => Math.abs(b.variance_percentage) - Math.abs(a.variance_percentage));
+  }
+
+  /**
+   * Order a recount of selected lines by a counter other than the one who
+   * counted them. The lines stay held until the recount arrives.
+   */
+  async requestRecount(
+    businessId: string,
+    sessionId: string,
+    countIds: string[],
+    assignedTo: string,
+    supervisorId: string,
+    notes?: string
+  ): Promise<ReviewResult[]> {
+    const results = await this.reviewCounts(businessId, sessionId, countIds, 'recount', supervisorId, notes, assignedTo);
+
+    eventBus.broadcast('counting:recount:requested', {
+      sessionId,
+      assignedTo,
+      countIds: results.filter(r => r.success).map(r => r.count_id)
+    });
+
+    return results;
+  }
+
+  /**
+   * Approve held lines; each posts its adjustment to stock
+   */
+  async approveCounts(
+    businessId: string,
+    sessionId: string,
+    countIds: string[],
+    supervisorId: string,
+    notes?: string
+  ): Promise<ReviewResult[]> {
+    const results = await this.reviewCounts(businessId, sessionId, countIds, 'approve', supervisorId, notes);
+
+    eventBus.broadcast('counting:counts:approved', {
+      sessionId,
+      countIds: results.filter(r => r.success).map(r => r.count_id)
     });
+
+    return results;
+  }
+
+  /**
+   * Reject held lines; stock is left as it was
+   */
+  async rejectCounts(
+    businessId: string,
+    sessionId: string,
+    countIds: string[],
+    supervisorId: string,
+    notes?: string
+  ): Promise<ReviewResult[]> {
+    const results = await this.reviewCounts(businessId, sessionId, countIds, 'reject', supervisorId, notes);
+
+    eventBus.broadcast('counting:counts:rejected', {
+      sessionId,
+      countIds: results.filter(r => r.success).map(r => r.count_id)
+    });
+
+    return results;
+  }
+
+  /**
+   * Open recount tasks assigned to a counter
+   */
+  async getRecountTasks(businessId: string, userId: string): Promise<RecountTask[]> {
+    const { data, error } = await supabaseAdmin
+      .from('recount_tasks')
+      .select(`
+        *,
+        product:products(name, sku)
+      `)
+      .eq('business_id', businessId)
+      .eq('assigned_to', userId)
+      .eq('status', 'open')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    // Expected and originally counted quantities stay hidden from the recounter
+    return (data || []).map(t => ({
+      id: t.id,
+      session_id: t.session_id,
+      product_id: t.product_id,
+      product_name: t.product?.name || 'Unknown',
+      sku: t.product?.sku || '',
+      location_id: t.location_id,
+      lot_number: t.lot_number,
+      requested_by: t.requested_by,
+      notes: t.notes || undefined,
+      created_at: t.created_at
+    }));
+  }
+
+  // Decisions are taken one line at a time so a bad line does not block the rest
+  private async reviewCounts(
+    businessId: string,
+    sessionId: string,
+    countIds: string[],
+    decision: 'approve' | 'reject' | 'recount',
+    supervisorId: string,
+    notes?: string,
+    assignedTo?: string
+  ): Promise<ReviewResult[]> {
+    await this.assertSessionSupervisor(businessId, sessionId, supervisorId);
+
+    const results: ReviewResult[] = [];
+    for (const countId of countIds) {
+      const { data, error } = await supabaseAdmin.rpc('review_inventory_count', {
+        p_count_id: countId,
+        p_decision: decision,
+        p_user_id: supervisorId,
+        p_assigned_to: assignedTo || null,
+        p_notes: notes || null
+      });
+
+      results.push(error
+        ? { count_id: countId, success: false, error: error.message }
+        : { count_id: countId, success: true, ...data });
+    }
+
+    return results;
+  }
+
+  private async assertSessionSupervisor(
+    businessId: string,
+    sessionId: string,
+    userId: string
+  ): Promise<void> {
+    const { data: session, error } = await supabaseAdmin
+      .from('counting_sessions')
+      .select('id')
+      .eq('id', sessionId)
+      .eq('business_id', businessId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!session) throw new Error('Counting session not found');
+
+    if (!(await this.isSupervisor(userId, businessId))) {
+      throw new Error('Only supervisors can review counts');
+    }
+  }
+
+  // Mirrors the balance the count trigger compares against
+  private async getExpectedQuantity(
+    businessId: string,
+    productId: string,
+    locationId?: string | null,
+    lotNumber?: string | null
+  ): Promise<number> {
+    if (lotNumber) {
+      let query = supabaseAdmin
+        .from('stock_lots')
+        .select('quantity')
+        .eq('business_id', businessId)
+        .eq('product_id', productId)
+        .eq('lot_number', lotNumber);
+      query = locationId ? query.eq('location_id', locationId) : query.is('location_id', null);
+
+      const { data } = await query.maybeSingle();
+      return Number(data?.quantity) || 0;
+    }
+
+    if (locationId) {
+      const { data } = await supabaseAdmin
+        .from('stock_levels')
+        .select('quantity')
+        .eq('business_id', businessId)
+        .eq('product_id', productId)
+        .eq('location_id', locationId)
+        .maybeSingle();
+
+      return Number(data?.quantity) || 0;
+    }
+
+    const { data } = await supabaseAdmin
+      .from('products')
+      .select('current_quantity')
+      .eq('id', productId)
+      .eq('business_id', businessId)
+      .maybeSingle();
+
+    return Number(data?.current_quantity) || 0;
+  }
+
+  private async isSupervisor(userId: string, businessId: string): Promise<boolean> {
+    const { data: member } = await supabaseAdmin
+      .from('team_members')
+      .select('role, permissions')
+      .eq('user_id', userId)
+      .eq('business_id', businessId)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    return !!member && (SUPERVISOR_ROLES.includes(member.role) || member.permissions?.admin === true);
   }
 
   /**
@@ -190,7 +807,7 @@ class CountingService {
 
     // Get session details
     const { data: session } = await supabase
-      .from('cycle_count_sessions')
+      .from('counting_sessions')
       .select('*')
       .eq('id', sessionId)
       .single();
@@ -211,7 +828,7 @@ class CountingService {
     
     // Update session
     await supabase
-      .from('cycle_count_sessions')
+      .from('counting_sessions')
       .update({ progress })
       .eq('id', sessionId);
   }
@@ -220,19 +837,35 @@ class CountingService {
    * Generate variance report
    */
   async generateVarianceReport(sessionId: string): Promise<VarianceReport> {
-    // Get all counts for session
+    // Variance is always computed here from server-side quantities, so blind
+    // sessions get the same report without counters ever seeing expected values
+    const { data: session } = await supabase
+      .from('counting_sessions')
+      .select('settings')
+      .eq('id', sessionId)
+      .single();
+
+    const blind = !!session?.settings?.allow_blind_counts;
+    const threshold = session?.settings?.approval_threshold ?? 5;
+
+    // Get all counts for session; rejected and replaced lines no longer count
     const { data: counts } = await supabase
       .from('inventory_counts')
       .select(`
         *,
         product:products(name)
       `)
-      .eq('session_id', sessionId);
+      .eq('session_id', sessionId)
+      .in('posting_status', ['posted', 'pending_approval', 'approved']);
 
     if (!counts) throw new Error('No counts found');
 
+    // A serialized count can match in total and still have swapped units,
+    // so it varies when any serial is missing or unexpected
     const varianceItems: VarianceItem[] = counts
-      .filter(c => c.difference !== 0)
+      .filter(c => c.scanned_serials
+        ? (c.missing_serials?.length || 0) + (c.unexpected_serials?.length || 0) > 0
+        : c.difference !== 0)
       .map(c => ({
         product_id: c.product_id,
         product_name: c.product?.name || 'Unknown',
@@ -242,20 +875,27 @@ class CountingService {
         variance_percentage: c.previous_quantity > 0 
           ? (c.difference / c.previous_quantity) * 100 
           : 100,
-        location: c.location
+        location: c.location,
+        ...(c.scanned_serials ? {
+          missing_serials: c.missing_serials || [],
+          unexpected_serials: c.unexpected_serials || []
+        } : {})
       }))
       .sort((a, b) => Math.abs(b.variance_percentage) - Math.abs(a.variance_percentage));
 
-    const totalVariance = varianceItems.reduce((sum, item) => sum + Math.abs(item.variance), 0);
+    const totalVariance = varianceItems.reduce((sum, item) => sum + (item.missing_serials
+      ? item.missing_serials.length + item.unexpected_serials!.length
+      : Math.abs(item.variance)), 0);
     const totalExpected = counts.reduce((sum, c) => sum + c.previous_quantity, 0);
     const variancePercentage = totalExpected > 0 ? (totalVariance / totalExpected) * 100 : 0;
 
     const report: VarianceReport = {
       session_id: sessionId,
+      blind,
       total_variance: totalVariance,
       variance_percentage: variancePercentage,
       high_variance_items: varianceItems.slice(0, 10),
-      approval_required: variancePercentage > 5, // 5% threshold
+      approval_required: variancePercentage > threshold,
       generated_at: new Date().toISOString()
     };
 
@@ -269,7 +909,7 @@ class CountingService {
     const report = await this.generateVarianceReport(sessionId);
 
     const { error } = await supabase
-      .from('cycle_count_sessions')
+      .from('counting_sessions')
       .update({
         status: 'completed',
         completed_at: new Date().toISOString()
@@ -278,10 +918,17 @@ class CountingService {
 
     if (error) throw error;
 
+    // Held lines are worked from the approval queue; the alert points supervisors there
+    const { count: pendingApprovals } = await supabase
+      .from('inventory_counts')
+      .select('id', { count: 'exact', head: true })
+      .eq('session_id', sessionId)
+      .eq('posting_status', 'pending_approval');
+
     // Create alert if approval required
-    if (report.approval_required) {
+    if (report.approval_required || (pendingApprovals || 0) > 0) {
       const { data: session } = await supabase
-        .from('cycle_count_sessions')
+        .from('counting_sessions')
         .select('business_id, name')
         .eq('id', sessionId)
         .single();
@@ -292,9 +939,11 @@ class CountingService {
           type: 'counting_approval_required',
           severity: 'high',
           title: 'Counting Session Requires Approval',
-          message: `Session "${session?.name}" has ${report.variance_percentage.toFixed(1)}% variance and requires manager approval`,
+          message: pendingApprovals
+            ? `Session "${session?.name}" has ${pendingApprovals} count line(s) awaiting supervisor approval`
+            : `Session "${session?.name}" has ${report.variance_percentage.toFixed(1)}% variance and requires manager approval`,
           business_id: session?.business_id,
-          metadata: { sessionId, report }
+          metadata: { sessionId, report, pendingApprovals: pendingApprovals || 0 }
         });
     }
 
@@ -306,103 +955,281 @@ class CountingService {
    */
   async getActiveSessions(businessId: string): Promise<CountingSession[]> {
     const { data, error } = await supabase
-      .from('cycle_count_sessions')
+      .from('counting_sessions')
       .select('*')
       .eq('business_id', businessId)
       .in('status', ['active', 'paused'])
       .order('created_at', { ascending: false });
 
+    if (error) throw error;
+    return (data || []).map(toCountingSession);
+  }
+
+  /**
+   * Cycle count policy for a business, stored in its settings
+   */
+  async getCycleCountPolicy(businessId: string): Promise<CycleCountPolicy> {
+    const { data: business, error } = await supabaseAdmin
+      .from('businesses')
+      .select('settings')
+      .eq('id', businessId)
+      .single();
+
+    if (error) throw error;
+    return resolveCycleCountPolicy(business.settings?.cycle_counting);
+  }
+
+  /**
+   * Change the count frequencies, horizon or business hours
+   */
+  async updateCycleCountPolicy(
+    businessId: string,
+    userId: string,
+    changes: CycleCountPolicyChanges
+  ): Promise<CycleCountPolicy> {
+    if (!(await this.isSupervisor(userId, businessId))) {
+      throw new Error('Only supervisors can change the cycle count policy');
+    }
+
+    const { data: business, error } = await supabaseAdmin
+      .from('businesses')
+      .select('settings')
+      .eq('id', businessId)
+      .single();
+
+    if (error) throw error;
+
+    const policy = resolveCycleCountPolicy(business.settings?.cycle_counting, changes);
+    const { error: updateError } = await supabaseAdmin
+      .from('businesses')
+      .update({ settings: { ...business.settings, cycle_counting: policy } })
+      .eq('id', businessId);
+
+    if (updateError) throw updateError;
+    return policy;
+  }
+
+  /**
+   * Calendar the current policy would produce, without saving it
+   */
+  async previewCycleCountCalendar(
+    businessId: string,
+    overrides?: CycleCountPolicyChanges
+  ): Promise<CalendarEntry[]> {
+    const policy = resolveCycleCountPolicy(await this.getCycleCountPolicy(businessId), overrides);
+    const [items, itemsPerMinute] = await Promise.all([
+      this.getCountableItems(businessId),
+      this.getTeamItemsPerMinute(businessId)
+    ]);
+
+    return buildCountCalendar(items, policy, { start: new Date(), itemsPerMinute });
+  }
+
+  /**
+   * Replace the unstarted part of the saved calendar with a fresh plan
+   */
+  async regenerateCycleCountCalendar(
+    businessId: string,
+    userId: string
+  ): Promise<{ entries: CalendarEntry[]; removed: number; inserted: number }> {
+    if (!(await this.isSupervisor(userId, businessId))) {
+      throw new Error('Only supervisors can regenerate the count calendar');
+    }
+
+    const from = new Date();
+    const entries = await this.previewCycleCountCalendar(businessId);
+
+    const { data, error } = await supabaseAdmin.rpc('replace_cycle_count_calendar', {
+      p_business_id: businessId,
+      p_from: from.toISOString(),
+      p_user_id: userId,
+      p_entries: entries.map(entry => ({
+        scheduled_date: entry.date,
+        scheduled_for: entry.scheduledFor.toISOString(),
+        ends_at: entry.endsAt.toISOString(),
+        location_id: entry.locationId,
+        location_name: entry.location,
+        items: entry.items.map(item => ({
+          product_id: item.productId,
+          product_name: item.productName,
+          category: item.category
+        })),
+        class_counts: entry.classCounts,
+        estimated_seconds: entry.estimatedSeconds
+      }))
+    });
+
+    if (error) throw error;
+
+    eventBus.broadcast('counting:calendar:regenerated', { businessId, entries: entries.length });
+
+    return { entries, removed: data?.removed || 0, inserted: data?.inserted || 0 };
+  }
+
+  /**
+   * Saved calendar entries in a date range
+   */
+  async getCycleCountCalendar(businessId: string, from: Date, to: Date): Promise<any[]> {
+    const { data, error } = await supabaseAdmin
+      .from('cycle_count_calendar')
+      .select('*')
+      .eq('business_id', businessId)
+      .gte('scheduled_for', from.toISOString())
+      .lt('scheduled_for', to.toISOString())
+      .order('scheduled_for', { ascending: true });
+
     if (error) throw error;
     return data || [];
   }
 
   /**
-   * Generate cycle count schedule
+   * Generate cycle count schedule as draft sessions, one per calendar entry
    */
   async generateCycleCountSchedule(
     businessId: string,
-    frequency: 'daily' | 'weekly' | 'monthly'
+    overrides?: CycleCountPolicyChanges
   ): Promise<CountingSession[]> {
-    // Get all products sorted by last counted date
-    const { data: products } = await supabase
-      .from('inventory')
-      .select(`
-        *,
-        product:products(*)
-      `)
-      .eq('business_id', businessId)
-      .order('last_counted', { ascending: true });
+    const entries = await this.previewCycleCountCalendar(businessId, overrides);
+
+    return entries.map((entry, index) => ({
+      id: '',
+      business_id: businessId,
+      name: `Cycle Count - ${entry.location} - ${entry.date}`,
+      description: `Scheduled cycle count for ${entry.location} (A: ${entry.classCounts.A}, B: ${entry.classCounts.B}, C: ${entry.classCounts.C})`,
+      status: 'planning',
+      assigned_users: [],
+      zones: [{
+        id: `zone-${index}`,
+        name: entry.location,
+        location: entry.location,
+        products: entry.items.map(item => item.productId),
+        status: 'pending',
+        progress: 0
+      }],
+      progress: {
+        total_items: entry.items.length,
+        counted_items: 0,
+        variance_items: 0,
+        percentage: 0,
+        estimated_time_remaining: entry.estimatedSeconds
+      },
+      settings: {
+        require_approval: true,
+        approval_threshold: 5,
+        allow_blind_counts: false,
+        enable_cycle_counting: true,
+        notification_settings: {
+          on_start: true,
+          on_complete: true,
+          on_variance: true
+        }
+      },
+      started_at: entry.scheduledFor.toISOString(),
+      expected_duration: entry.estimatedSeconds,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    }));
+  }
 
-    if (!products) return [];
+  // Every product/location balance with its ABC class (by the last year's
+  // sales value), when it was last counted and whether it keeps miscounting
+  private async getCountableItems(businessId: string): Promise<CountableItem[]> {
+    const yearAgo = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString();
 
-    // Group products into zones based on location
-    const zones = new Map<string, string[]>();
-    products.forEach(inv => {
-      const location = inv.location || 'main';
-      if (!zones.has(location)) {
-        zones.set(location, []);
+    const [productsResult, salesResult, levelsResult, countsResult] = await Promise.all([
+      supabaseAdmin
+        .from('products')
+        .select('id, name, sell_price, unit_cost, accuracy_flagged_at')
+        .eq('business_id', businessId),
+      supabaseAdmin
+        .from('stock_movements')
+        .select('product_id, quantity_change')
+        .eq('business_id', businessId)
+        .eq('reason', 'sell')
+        .gte('created_at', yearAgo),
+      supabaseAdmin
+        .from('stock_levels')
+        .select('product_id, location_id, last_counted, location:locations(name)')
+        .eq('business_id', businessId),
+      // Stock not tracked by location has no stock_levels row to carry last_counted
+      supabaseAdmin
+        .from('inventory_counts')
+        .select('product_id, counted_at, product:products!inner(business_id)')
+        .eq('product.business_id', businessId)
+        .is('location_id', null)
+        .in('posting_status', ['posted', 'approved'])
+        .gte('counted_at', yearAgo)
+    ]);
+
+    if (productsResult.error) throw productsResult.error;
+    if (salesResult.error) throw salesResult.error;
+    if (levelsResult.error) throw levelsResult.error;
+    if (countsResult.error) throw countsResult.error;
+
+    const unitsSold = new Map<string, number>();
+    for (const movement of salesResult.data || []) {
+      unitsSold.set(movement.product_id, (unitsSold.get(movement.product_id) || 0) - Number(movement.quantity_change));
+    }
+
+    const lastUnlocatedCount = new Map<string, Date>();
+    for (const count of countsResult.data || []) {
+      const countedAt = new Date(count.counted_at);
+      const previous = lastUnlocatedCount.get(count.product_id);
+      if (!previous || countedAt > previous) lastUnlocatedCount.set(count.product_id, countedAt);
+    }
+
+    const levelsByProduct = new Map<string, any[]>();
+    for (const level of levelsResult.data || []) {
+      levelsByProduct.set(level.product_id, [...(levelsByProduct.get(level.product_id) || []), level]);
+    }
+
+    const ranked = classifyABC(productsResult.data || [], product =>
+      Math.max(0, unitsSold.get(product.id) || 0) * Number(product.sell_price ?? product.unit_cost ?? 0)
+    );
+
+    return ranked.flatMap(({ item: product, category }) => {
+      const levels = levelsByProduct.get(product.id);
+      if (!levels?.length) {
+        return [{
+          productId: product.id,
+          productName: product.name,
+          locationId: null,
+          location: 'main',
+          category,
+          lastCountedAt: lastUnlocatedCount.get(product.id) || null,
+          flagged: !!product.accuracy_flagged_at
+        }];
       }
-      zones.get(location)?.push(inv.product_id);
-    });
 
-    // Create sessions based on frequency
-    const sessions: CountingSession[] = [];
-    const itemsPerSession = Math.ceil(products.length / (frequency === 'daily' ? 30 : frequency === 'weekly' ? 4 : 1));
-    
-    let sessionIndex = 0;
-    zones.forEach((productIds, location) => {
-      const chunks = this.chunkArray(productIds, itemsPerSession);
-      chunks.forEach((chunk, index) => {
-        sessions.push({
-          id: '',
-          business_id: businessId,
-          name: `Cycle Count - ${location} - Part ${index + 1}`,
-          description: `Automated cycle count for ${location}`,
-          status: 'planning',
-          assigned_users: [],
-          zones: [{
-            id: `zone-${sessionIndex}`,
-            name: location,
-            location,
-            products: chunk,
-            status: 'pending',
-            progress: 0
-          }],
-          progress: {
-            total_items: chunk.length,
-            counted_items: 0,
-            variance_items: 0,
-            percentage: 0,
-            estimated_time_remaining: chunk.length * 30 // 30 seconds per item
-          },
-          settings: {
-            require_approval: true,
-            approval_threshold: 5,
-            allow_blind_counts: false,
-            enable_cycle_counting: true,
-            notification_settings: {
-              on_start: true,
-              on_complete: true,
-              on_variance: true
-            }
-          },
-          expected_duration: chunk.length * 30,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        });
-        sessionIndex++;
-      });
+      return levels.map(level => ({
+        productId: product.id,
+        productName: product.name,
+        locationId: level.location_id,
+        location: level.location?.name || 'main',
+        category,
+        lastCountedAt: level.last_counted ? new Date(level.last_counted) : null,
+        flagged: !!product.accuracy_flagged_at
+      }));
     });
-
-    return sessions;
   }
 
-  private chunkArray<T>(array: T[], size: number): T[][] {
-    const chunks: T[][] = [];
-    for (let i = 0; i < array.length; i += size) {
-      chunks.push(array.slice(i, i + size));
-    }
-    return chunks;
+  /**
+   * Items per minute across the team's recent collaborative sessions
+   */
+  private async getTeamItemsPerMinute(businessId: string): Promise<number> {
+    const { data: sessions } = await supabaseAdmin
+      .from('counting_sessions')
+      .select('progress')
+      .eq('business_id', businessId)
+      .eq('status', 'completed')
+      .order('completed_at', { ascending: false })
+      .limit(20);
+
+    const samples = (sessions || []).flatMap(session =>
+      Object.values(session.progress?.participantProgress || {}) as any[]
+    );
+
+    return historicalRate(samples) || DEFAULT_ITEMS_PER_MINUTE;
   }
 
   /**
@@ -423,17 +1250,193 @@ class CountingService {
       `)
       .eq('session_id', sessionId);
 
-    if (format === 'csv') {
-      const csv = this.generateCSV(counts || [], report);
-      return new Blob([csv], { type: 'text/csv' });
+    if (format === 'pdf') {
+      const pdf = await this.generatePDF(sessionId, counts || [], report);
+      return new Blob([pdf as BlobPart], { type: PDF_MIME_TYPE });
+    }
+
+    if (format === 'excel') {
+      const workbook = await this.generateWorkbook(sessionId, counts || [], report);
+      return new Blob([workbook as BlobPart], { type: XLSX_MIME_TYPE });
     }
 
-    // For PDF and Excel, we'd typically use libraries like jsPDF or xlsx
-    // For now, return CSV as fallback
     const csv = this.generateCSV(counts || [], report);
     return new Blob([csv], { type: 'text/csv' });
   }
 
+  private async generatePDF(sessionId: string, counts: any[], report: VarianceReport): Promise<Uint8Array> {
+    const session = await this.getReportSession(sessionId);
+
+    return renderPdfReport({
+      title: `Count Variance Report - ${session?.name || sessionId}`,
+      subtitle: session?.business?.name,
+      brand: 'ScanStock Pro',
+      generatedAt: new Date(report.generated_at),
+      sections: [
+        {
+          heading: 'Summary',
+          summary: [
+            ['Session', session?.name || sessionId],
+            ['Status', session?.status || ''],
+            ['Completed', session?.completed_at ? new Date(session.completed_at).toLocaleString() : 'In progress'],
+            ['Lines counted', counts.length],
+            ['Total variance', report.total_variance],
+            ['Variance percentage', `${report.variance_percentage.toFixed(2)}%`],
+            ['Approval required', report.approval_required ? 'Yes' : 'No'],
+            ['Blind count', report.blind ? 'Yes' : 'No']
+          ]
+        },
+        {
+          heading: 'High Variance Items',
+          emptyMessage: 'No variances recorded',
+          table: {
+            columns: [
+              { header: 'Product', width: 3 },
+              { header: 'Location', width: 2 },
+              { header: 'Expected', align: 'right' },
+              { header: 'Counted', align: 'right' },
+              { header: 'Variance', align: 'right' },
+              { header: 'Variance %', align: 'right' }
+            ],
+            rows: report.high_variance_items.map(item => [
+              item.product_name,
+              item.location,
+              item.expected,
+              item.counted,
+              item.missing_serials ? this.formatSerialVariance(item).replace(/"/g, '') : item.variance,
+              `${item.variance_percentage.toFixed(1)}%`
+            ])
+          }
+        },
+        {
+          heading: 'Count Lines',
+          emptyMessage: 'No counts submitted',
+          table: {
+            columns: [
+              { header: 'Product', width: 3 },
+              { header: 'SKU', width: 1.5 },
+              { header: 'Location', width: 1.5 },
+              { header: 'Previous', align: 'right' },
+              { header: 'Counted', align: 'right' },
+              { header: 'Variance', align: 'right' },
+              { header: 'Status', width: 1.5 },
+              { header: 'Counted At', width: 2 }
+            ],
+            rows: counts.map(c => [
+              c.product?.name || '',
+              c.product?.sku || '',
+              c.location,
+              Number(c.previous_quantity) || 0,
+              Number(c.quantity),
+              Number(c.quantity) - (Number(c.previous_quantity) || 0),
+              (c.posting_status || 'posted').replace('_', ' '),
+              new Date(c.counted_at || c.created_at).toLocaleString()
+            ])
+          }
+        }
+      ]
+    });
+  }
+
+  private async generateWorkbook(sessionId: string, counts: any[], report: VarianceReport): Promise<Uint8Array> {
+    const session = await this.getReportSession(sessionId);
+
+    return renderXlsxWorkbook({
+      title: `Count Variance Report - ${session?.name || sessionId}`,
+      createdAt: new Date(report.generated_at),
+      sheets: [
+        {
+          name: 'Summary',
+          columns: [{ header: 'Metric', width: 24 }, { header: 'Value', width: 30 }],
+          rows: [
+            ['Business', session?.business?.name || ''],
+            ['Session', session?.name || sessionId],
+            ['Status', session?.status || ''],
+            ['Started', session?.started_at ? new Date(session.started_at) : null],
+            ['Completed', session?.completed_at ? new Date(session.completed_at) : null],
+            ['Lines counted', counts.length],
+            ['Total variance', report.total_variance],
+            ['Variance percentage', report.variance_percentage / 100],
+            ['Approval required', report.approval_required],
+            ['Blind count', report.blind],
+            ['Generated', new Date(report.generated_at)]
+          ]
+        },
+        {
+          name: 'Count Lines',
+          columns: [
+            { header: 'Product', width: 32 },
+            { header: 'SKU', width: 16 },
+            { header: 'Barcode', width: 16 },
+            { header: 'Location', width: 16 },
+            { header: 'Lot', width: 14 },
+            { header: 'Previous Qty', type: 'number' },
+            { header: 'Counted Qty', type: 'number' },
+            { header: 'Variance', type: 'number' },
+            { header: 'Variance %', type: 'percent' },
+            { header: 'Status', width: 16 },
+            { header: 'Notes', width: 30 },
+            { header: 'Counted At', type: 'datetime', width: 18 }
+          ],
+          rows: counts.map(c => {
+            const previous = Number(c.previous_quantity) || 0;
+            const counted = Number(c.quantity);
+            return [
+              c.product?.name || '',
+              c.product?.sku || '',
+              c.product?.barcode || '',
+              c.location,
+              c.lot_number,
+              previous,
+              counted,
+              counted - previous,
+              previous > 0 ? (counted - previous) / previous : counted === previous ? 0 : 1,
+              c.posting_status || 'posted',
+              c.notes,
+              new Date(c.counted_at || c.created_at)
+            ];
+          })
+        },
+        {
+          name: 'High Variance',
+          columns: [
+            { header: 'Product', width: 32 },
+            { header: 'Location', width: 16 },
+            { header: 'Expected', type: 'number' },
+            { header: 'Counted', type: 'number' },
+            { header: 'Variance', type: 'number' },
+            { header: 'Variance %', type: 'percent' },
+            { header: 'Missing Serials', width: 30 },
+            { header: 'Unexpected Serials', width: 30 }
+          ],
+          rows: report.high_variance_items.map(item => [
+            item.product_name,
+            item.location,
+            item.expected,
+            item.counted,
+            item.variance,
+            item.variance_percentage / 100,
+            item.missing_serials?.join(' '),
+            item.unexpected_serials?.join(' ')
+          ])
+        }
+      ]
+    });
+  }
+
+  private async getReportSession(sessionId: string): Promise<any> {
+    const { data } = await supabase
+      .from('counting_sessions')
+      .select(`
+        name, status, started_at, completed_at,
+        business:businesses(name)
+      `)
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    return data;
+  }
+
   private generateCSV(counts: any[], report: VarianceReport): string {
     const headers = [
       'Product Name',
@@ -456,7 +1459,7 @@ class CountingService {
       c.location,
       c.previous_quantity,
       c.quantity,
-      c.difference,
+      c.scanned_serials ? this.formatSerialVariance(c) : c.difference,
       c.previous_quantity > 0 ? ((c.difference / c.previous_quantity) * 100).toFixed(2) : '100',
       c.notes || '',
       c.verified ? 'Yes' : 'No',
@@ -473,6 +1476,16 @@ class CountingService {
 
     return [headers, ...rows, '', summary].join('\n');
   }
+
+  // Serialized rows report which units differ rather than a net number
+  private formatSerialVariance(count: any): string {
+    const parts = [
+      count.missing_serials?.length ? `Missing: ${count.missing_serials.join(' ')}` : '',
+      count.unexpected_serials?.length ? `Unexpected: ${count.unexpected_serials.join(' ')}` : ''
+    ].filter(Boolean);
+
+    return parts.length > 0 ? `"${parts.join('; ')}"` : '0';
+  }
 }
 
 export const countingService = new CountingService();
\ No newline at end of file
@@ -0,0 +1,309 @@
+// Rolling cycle count calendar. Each item is due again a class-dependent
+// interval after its last count, and due items are packed into count
+// sessions inside business hours, A items first when a day is full.
+
+import { ABCCategory } from '../analytics/abc-classification';
+
+export interface BusinessHours {
+  timezone: string; // IANA zone, e.g. 'Europe/Berlin'
+  days: number[]; // 0 = Sunday
+  open: string; // HH:MM local
+  close: string; // HH:MM local
+}
+
+export interface CycleCountPolicy {
+  frequencies: Record<ABCCategory, number>; // Counts per year; 0 never schedules the class
+  horizonDays: number;
+  businessHours: BusinessHours;
+  maxSessionMinutes: number;
+  dailyCountMinutes?: number; // Counting time per day; defaults to the whole open window
+  flaggedFrequencyMultiplier: number; // Counts products flagged for repeated inaccuracy this many times as often
+}
+
+// Stored settings and requested changes may set any part of the policy
+export type CycleCountPolicyChanges = Partial<Omit<CycleCountPolicy, 'frequencies' | 'businessHours'>> & {
+  frequencies?: Partial<CycleCountPolicy['frequencies']>;
+  businessHours?: Partial<BusinessHours>;
+};
+
+export const DEFAULT_CYCLE_COUNT_POLICY: CycleCountPolicy = {
+  frequencies: { A: 12, B: 4, C: 1 },
+  horizonDays: 28,
+  businessHours: {
+    timezone: 'UTC',
+    days: [1, 2, 3, 4, 5],
+    open: '09:00',
+    close: '17:00'
+  },
+  maxSessionMinutes: 120,
+  flaggedFrequencyMultiplier: 2
+};
+
+export interface CountableItem {
+  productId: string;
+  productName: string;
+  locationId: string | null;
+  location: string;
+  category: ABCCategory;
+  lastCountedAt: Date | null;
+  flagged?: boolean; // Repeatedly inaccurate
+}
+
+export interface CalendarItem {
+  productId: string;
+  productName: string;
+  category: ABCCategory;
+}
+
+export interface CalendarEntry {
+  date: string; // Business-local YYYY-MM-DD
+  scheduledFor: Date;
+  endsAt: Date;
+  locationId: string | null;
+  location: string;
+  items: CalendarItem[];
+  classCounts: Record<ABCCategory, number>;
+  estimatedSeconds: number;
+}
+
+interface CountDay {
+  date: string;
+  opensAt: Date;
+  closesAt: Date;
+  minutesLeft: number;
+  items: CountableItem[];
+}
+
+interface DueItem {
+  item: CountableItem;
+  dueAt: number;
+}
+
+const CATEGORY_ORDER: Record<ABCCategory, number> = { A: 0, B: 1, C: 2 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fill a partial (stored or requested) policy in from the defaults.
+ */
+export function resolveCycleCountPolicy(...overrides: Array<CycleCountPolicyChanges | undefined>): CycleCountPolicy {
+  return overrides.reduce<CycleCountPolicy>((policy, override) => ({
+    ...policy,
+    ...override,
+    frequencies: { ...policy.frequencies, ...override?.frequencies },
+    businessHours: { ...policy.businessHours, ...override?.businessHours }
+  }), DEFAULT_CYCLE_COUNT_POLICY);
+}
+
+/**
+ * Days between counts of a class, or null when the class is never counted.
+ * Flagged items are counted more often, even in a class that is otherwise skipped.
+ */
+export function countInterval(category: ABCCategory, policy: CycleCountPolicy, flagged = false): number | null {
+  const perYear = flagged
+    ? Math.max(policy.frequencies[category], 1) * policy.flaggedFrequencyMultiplier
+    : policy.frequencies[category];
+  return perYear > 0 ? 365 / perYear : null;
+}
+
+/**
+ * Build the calendar for the policy horizon starting at `start`. Items whose
+ * last count is recent enough are not due inside the horizon and are left
+ * out; items that never fit (the days are full) fall off the end and come
+ * back on the next regeneration.
+ */
+export function buildCountCalendar(
+  items: CountableItem[],
+  policy: CycleCountPolicy,
+  options: { start: Date; itemsPerMinute: number }
+): CalendarEntry[] {
+  const { start, itemsPerMinute } = options;
+  const minutesPerItem = 1 / itemsPerMinute;
+  const days = businessDays(start, policy);
+  if (days.length === 0) return [];
+
+  const horizonEnd = start.getTime() + policy.horizonDays * DAY_MS;
+
+  const queue: DueItem[] = [];
+  for (const item of items) {
+    const interval = countInterval(item.category, policy, item.flagged);
+    if (interval === null) continue;
+
+    const dueAt = item.lastCountedAt
+      ? Math.max(item.lastCountedAt.getTime() + interval * DAY_MS, start.getTime())
+      : start.getTime();
+    if (dueAt < horizonEnd) enqueue(queue, { item, dueAt });
+  }
+
+  let firstOpenDay = 0;
+  while (queue.length > 0) {
+    const { item, dueAt } = queue.shift()!;
+
+    // Earliest day that is not over before the item is due and has room
+    const dueDay = days.findIndex(d => d.closesAt.getTime() > dueAt);
+    if (dueDay < 0) continue;
+
+    let dayIndex = Math.max(firstOpenDay, dueDay);
+    while (dayIndex < days.length && days[dayIndex].minutesLeft < minutesPerItem) dayIndex++;
+    if (dayIndex >= days.length) continue;
+
+    const day = days[dayIndex];
+    day.items.push(item);
+    day.minutesLeft -= minutesPerItem;
+    while (firstOpenDay < days.length && days[firstOpenDay].minutesLeft < minutesPerItem) firstOpenDay++;
+
+    // High-frequency classes can come round again inside the horizon
+    const nextDue = Math.max(day.opensAt.getTime(), dueAt) + countInterval(item.category, policy, item.flagged)! * DAY_MS;
+    if (nextDue < horizonEnd) enqueue(queue, { item, dueAt: nextDue });
+  }
+
+  return days.flatMap(day => sessionsForDay(day, policy, minutesPerItem));
+}
+
+// Earlier due dates first, then A before B before C, so a full day bumps C items
+function enqueue(queue: DueItem[], entry: DueItem): void {
+  const before = (a: DueItem, b: DueItem) =>
+    a.dueAt < b.dueAt || (a.dueAt === b.dueAt && CATEGORY_ORDER[a.item.category] < CATEGORY_ORDER[b.item.category]);
+
+  let low = 0;
+  let high = queue.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (!before(entry, queue[mid])) low = mid + 1;
+    else high = mid;
+  }
+  queue.splice(low, 0, entry);
+}
+
+// One session per location per day, split at the session length limit and
+// laid end to end from opening time
+function sessionsForDay(day: CountDay, policy: CycleCountPolicy, minutesPerItem: number): CalendarEntry[] {
+  const byLocation = new Map<string, CountableItem[]>();
+  for (const item of day.items) {
+    const key = item.locationId || item.location;
+    byLocation.set(key, [...(byLocation.get(key) || []), item]);
+  }
+
+  const perSession = Math.max(1, Math.floor(policy.maxSessionMinutes / minutesPerItem));
+  const entries: CalendarEntry[] = [];
+  let cursor = day.opensAt.getTime();
+
+  const locations = Array.from(byLocation.values())
+    .sort((a, b) => a[0].location.localeCompare(b[0].location));
+
+  for (const locationItems of locations) {
+    locationItems.sort((a, b) =>
+      CATEGORY_ORDER[a.category] - CATEGORY_ORDER[b.category] || a.productName.localeCompare(b.productName)
+    );
+
+    for (let i = 0; i < locationItems.length; i += perSession) {
+      const chunk = locationItems.slice(i, i + perSession);
+      const estimatedSeconds = Math.round(chunk.length * minutesPerItem * 60);
+      const classCounts: Record<ABCCategory, number> = { A: 0, B: 0, C: 0 };
+      chunk.forEach(item => classCounts[item.category]++);
+
+      entries.push({
+        date: day.date,
+        scheduledFor: new Date(cursor),
+        endsAt: new Date(cursor + estimatedSeconds * 1000),
+        locationId: chunk[0].locationId,
+        location: chunk[0].location,
+        items: chunk.map(item => ({
+          productId: item.productId,
+          productName: item.productName,
+          category: item.category
+        })),
+        classCounts,
+        estimatedSeconds
+      });
+      cursor += estimatedSeconds * 1000;
+    }
+  }
+
+  return entries;
+}
+
+// Open days in the horizon with their counting capacity
+function businessDays(start: Date, policy: CycleCountPolicy): CountDay[] {
+  const { timezone, days: openDays, open, close } = policy.businessHours;
+  const [openHour, openMinute] = parseTime(open);
+  const [closeHour, closeMinute] = parseTime(close);
+  const first = localDate(start, timezone);
+  const days: CountDay[] = [];
+
+  for (let offset = 0; offset < policy.horizonDays; offset++) {
+    const calendarDay = new Date(Date.UTC(first.year, first.month - 1, first.day + offset));
+    if (!openDays.includes(calendarDay.getUTCDay())) continue;
+
+    const year = calendarDay.getUTCFullYear();
+    const month = calendarDay.getUTCMonth() + 1;
+    const day = calendarDay.getUTCDate();
+
+    const opensAt = new Date(Math.max(
+      zonedTime(year, month, day, openHour, openMinute, timezone).getTime(),
+      start.getTime()
+    ));
+    const closesAt = zonedTime(year, month, day, closeHour, closeMinute, timezone);
+
+    const windowMinutes = (closesAt.getTime() - opensAt.getTime()) / 60000;
+    if (windowMinutes <= 0) continue;
+
+    days.push({
+      date: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+      opensAt,
+      closesAt,
+      minutesLeft: Math.min(windowMinutes, policy.dailyCountMinutes ?? windowMinutes),
+      items: []
+    });
+  }
+
+  return days;
+}
+
+function parseTime(value: string): [number, number] {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) throw new Error(`Invalid time "${value}", expected HH:MM`);
+  return [Number(match[1]), Number(match[2])];
+}
+
+function localDate(date: Date, timeZone: string): { year: number; month: number; day: number } {
+  const parts = zonedParts(date, timeZone);
+  return { year: parts.year, month: parts.month, day: parts.day };
+}
+
+function zonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+}
+
+// Minutes the zone is ahead of UTC at the given instant
+function timezoneOffset(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+// The instant a wall-clock time occurs in the zone. Checked twice so days
+// that change to or from daylight saving time come out right.
+function zonedTime(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = wallClock - timezoneOffset(new Date(wallClock), timeZone) * 60000;
+  return new Date(wallClock - timezoneOffset(new Date(guess), timeZone) * 60000);
+}
@@ -1,4 +1,13 @@
-import { Foundation_To_Features, ProductRepository, InventoryRepository } from '../../shared/contracts/agent-interfaces';
+import {
+  Foundation_To_Features,
+  ProductRepository,
+  InventoryRepository,
+  StockMovementSchema,
+  StockMovementReason,
+  StockMovementOptions,
+  KitOperation,
+  KitOperationResult
+} from '../../shared/contracts/agent-interfaces';
 import {
   InventoryCount,
   DeviceInfo,
@@ -11,8 +20,17 @@ import {
   Alert,
   ProductLock,
   BatchOperation,
-  BatchItem
+  BatchItem,
+  LocationStock,
+  StockTransfer,
+  LotCountInput,
+  KitAvailability
 } from './types';
+import { dailySeries, monthlySeasonality } from '../analytics/demand-forecasting';
+
+const DEFAULT_LEAD_TIME_DAYS = 7;
+const SEASONALITY_HISTORY_DAYS = 730;
+const NEAR_EXPIRY_DAYS = 30;
 
 export class InventoryService {
   constructor(
@@ -29,14 +47,20 @@ export class InventoryService {
     deviceInfo: DeviceInfo,
     location: string = 'default',
     notes?: string,
-    sessionId?: string
+    sessionId?: string,
+    locationId?: string,
+    lot?: LotCountInput
   ): Promise<InventoryCount> {
     // Start transaction for consistency
     return await this.foundation.database.transaction([
       async () => {
-        // Get current inventory
+        // Get current inventory (the lot's or location's own balance when one is targeted)
         const currentInventory = await this.inventoryRepo.findByProduct(productId);
-        const previousQuantity = currentInventory[0]?.quantity || 0;
+        const previousQuantity = lot
+          ? await this.getLotQuantity(productId, lot.lotNumber, locationId)
+          : locationId
+            ? (await this.foundation.database.locations.getStockLevel(productId, locationId))?.quantity || 0
+            : currentInventory[0]?.quantity || 0;
 
         // Validate the quantity change
         const validation = await this.validateQuantityChange(productId, quantity, previousQuantity);
@@ -60,16 +84,24 @@ export class InventoryService {
           userId,
           deviceInfo,
           location,
+          locationId,
+          lotNumber: lot?.lotNumber,
+          expiryDate: lot?.expiryDate,
           notes,
           timestamp: new Date(),
           sessionId,
           verified: false
         };
 
-        // Update current quantity
-        await this.inventoryRepo.update(currentInventory[0]?.id, {
-          quantity,
-          lastCounted: new Date()
+        // Post the count to the movement journal, which updates the balance
+        await this.foundation.database.movements.setQuantity(productId, quantity, 'count_correction', {
+          locationId,
+          lotNumber: lot?.lotNumber,
+          expiryDate: lot?.expiryDate,
+          userId,
+          referenceType: 'inventory_count',
+          referenceId: countRecord.id,
+          notes
         });
 
         // Store count history
@@ -85,14 +117,182 @@ export class InventoryService {
           await this.broadcastCountUpdate(sessionId, countRecord);
         }
 
-        // Check for alerts
-        await this.checkAlertConditions(productId, quantity);
+        // Check for alerts against the product-wide total
+        const totalQuantity = locationId || lot ? await this.getOnHand(productId) : quantity;
+        await this.checkAlertConditions(productId, totalQuantity);
 
         return countRecord;
       }
     ]);
   }
 
+  // Movement journal
+  async postMovement(
+    productId: string,
+    quantityChange: number,
+    reason: StockMovementReason,
+    options: StockMovementOptions = {}
+  ): Promise<StockMovementSchema> {
+    if (quantityChange === 0) {
+      throw new Error('Movement quantity cannot be zero');
+    }
+
+    const movement = await this.foundation.database.movements.record(productId, quantityChange, reason, options);
+
+    await this.foundation.realtime.broadcast(`inventory:${productId}`, {
+      type: 'stock_moved',
+      movement
+    });
+
+    return movement;
+  }
+
+  async getQuantityAsOf(productId: string, asOf: Date, locationId?: string): Promise<number> {
+    return this.foundation.database.movements.getQuantityAsOf(productId, asOf, locationId);
+  }
+
+  async getMovementHistory(
+    productId: string,
+    filters: { locationId?: string; since?: Date; until?: Date; limit?: number } = {}
+  ): Promise<StockMovementSchema[]> {
+    return this.foundation.database.movements.listByProduct(productId, filters);
+  }
+
+  // Multi-location stock
+  async getStockByLocation(productId: string): Promise<LocationStock[]> {
+    const product = await this.productRepo.findById(productId);
+    if (!product) return [];
+
+    const [levels, locations] = await Promise.all([
+      this.foundation.database.locations.getStockLevels(productId),
+      this.foundation.database.locations.list(product.businessId)
+    ]);
+
+    const byLocation: LocationStock[] = levels.map(level => ({
+      locationId: level.locationId,
+      locationName: locations.find(l => l.id === level.locationId)?.name || 'Unknown',
+      quantity: level.quantity,
+      lastCounted: level.lastCounted
+    }));
+
+    // Movements without a location only reach the product total; the journal
+    // never lets them take more than the stock held outside locations
+    const unassigned = (product.currentQuantity || 0) - levels.reduce((sum, level) => sum + level.quantity, 0);
+    if (unassigned > 0) {
+      byLocation.push({ locationId: null, locationName: 'Unassigned', quantity: unassigned });
+    }
+
+    return byLocation;
+  }
+
+  async transferStock(
+    productId: string,
+    fromLocationId: string,
+    toLocationId: string,
+    quantity: number,
+    userId: string,
+    notes?: string,
+    batchId?: string
+  ): Promise<StockTransfer> {
+    if (quantity <= 0) {
+      throw new Error('Transfer quantity must be positive');
+    }
+    if (fromLocationId === toLocationId) {
+      throw new Error('Source and destination locations must differ');
+    }
+
+    const existingLock = await this.checkProductLock(productId);
+    if (existingLock && existingLock.userId !== userId) {
+      throw new Error(`Product is currently being counted by another user`);
+    }
+
+    // Source and destination balances change in a single database transaction
+    const result = await this.foundation.database.locations.transferStock(
+      productId,
+      fromLocationId,
+      toLocationId,
+      quantity,
+      userId,
+      notes,
+      batchId
+    );
+
+    const transfer: StockTransfer = {
+      id: result.transferId,
+      productId,
+      fromLocationId,
+      toLocationId,
+      quantity,
+      userId,
+      notes,
+      batchId,
+      fromQuantityAfter: result.fromQuantity,
+      toQuantityAfter: result.toQuantity,
+      timestamp: new Date()
+    };
+
+    await this.foundation.realtime.broadcast(`inventory:${productId}`, {
+      type: 'stock_transferred',
+      transfer
+    });
+
+    return transfer;
+  }
+
+  // Kits / bill of materials
+  async getKitAvailability(kitProductId: string, locationId?: string): Promise<KitAvailability> {
+    const bom = await this.productRepo.getKitComponents(kitProductId);
+
+    const [assembled, components] = await Promise.all([
+      this.getOnHand(kitProductId, locationId),
+      Promise.all(bom.map(async component => {
+        const [product, onHand] = await Promise.all([
+          this.productRepo.findById(component.componentProductId),
+          this.getOnHand(component.componentProductId, locationId)
+        ]);
+
+        return {
+          productId: component.componentProductId,
+          productName: product?.name || 'Unknown',
+          quantityPerKit: component.quantity,
+          onHand,
+          kitsSupported: Math.max(0, Math.floor(onHand / component.quantity))
+        };
+      }))
+    ]);
+
+    // The scarcest component decides how many more kits can be built
+    const limiting = components.reduce<typeof components[number] | undefined>(
+      (scarcest, component) => !scarcest || component.kitsSupported < scarcest.kitsSupported ? component : scarcest,
+      undefined
+    );
+    const buildable = limiting ? limiting.kitsSupported : 0;
+
+    return {
+      kitProductId,
+      locationId,
+      assembled,
+      buildable,
+      available: assembled + buildable,
+      limitingComponentId: limiting?.productId,
+      components
+    };
+  }
+
+  async assembleKit(kitProductId: string, quantity: number, userId: string, locationId?: string, notes?: string): Promise<KitOperationResult> {
+    return this.processKitOperation(kitProductId, 'assemble', quantity, userId, locationId, notes);
+  }
+
+  // Sells assembled kits first, then builds the rest straight from components
+  async sellKit(kitProductId: string, quantity: number, userId: string, locationId?: string, notes?: string): Promise<KitOperationResult> {
+    return this.processKitOperation(kitProductId, 'sell', quantity, userId, locationId, notes);
+  }
+
+  // Breaks assembled kits back into their components
+  async disassembleKit(kitProductId: string, quantity: number, userId: string, locationId?: string, notes?: string): Promise<KitOperationResult> {
+    return this.processKitOperation(kitProductId, 'disassemble', quantity, userId, locationId, notes);
+  }
+
   // Cycle counting
   async initiateCycleCount(
     businessId: string,
@@ -183,9 +383,17 @@ export class InventoryService {
     
     if (resolution.acceptPhysicalCount) {
       // Accept the physical count and adjust inventory
-      await this.inventoryRepo.update(discrepancy.id, {
-        quantity: discrepancy.physicalQuantity
-      });
+      await this.foundation.database.movements.setQuantity(
+        discrepancy.productId,
+        discrepancy.physicalQuantity,
+        'count_correction',
+        {
+          userId: resolution.investigatedBy,
+          referenceType: 'discrepancy',
+          referenceId: discrepancyId,
+          notes: resolution.notes
+        }
+      );
     }
 
     // Update discrepancy record
@@ -216,8 +424,9 @@ export class InventoryService {
 
     // Calculate velocity and trends
     const salesVelocity = this.calculateSalesVelocity(history);
-    const seasonalityFactor = await this.calculateSeasonality(productId);
-    const leadTimeDays = await this.getSupplierLeadTime(productId);
+    const seasonalityFactor = await this.calculateSeasonality(product.businessId, productId);
+    const terms = await this.getPurchasingTerms(productId);
+    const leadTimeDays = terms.leadTimeDays;
     const currentStock = history[0]?.quantity || 0;
 
     // AI-powered suggestion logic
@@ -226,14 +435,21 @@ export class InventoryService {
     const safetyStock = salesVelocity * 7; // 1 week buffer
 
     const suggestedReorderPoint = Math.ceil(baseReorderPoint + seasonalAdjustment + safetyStock);
-    const suggestedReorderQuantity = Math.ceil(salesVelocity * 30); // 30 days supply
+    const demandQuantity = Math.ceil(salesVelocity * 30); // 30 days supply
+    const suggestedReorderQuantity = this.roundToOrderMultiple(
+      demandQuantity,
+      terms.minOrderQuantity,
+      terms.packSize
+    );
 
     // Determine reason code
     let reasonCode: any = 'low_stock';
-    if (salesVelocity > this.getHighVelocityThreshold(productId)) {
+    if (salesVelocity > await this.getHighVelocityThreshold(productId)) {
       reasonCode = 'high_velocity';
     } else if (seasonalityFactor > 1.2) {
       reasonCode = 'seasonal_demand';
+    } else if (demandQuantity < terms.minOrderQuantity) {
+      reasonCode = 'supplier_minimum';
     }
 
     // Calculate confidence based on data quality
@@ -248,7 +464,12 @@ export class InventoryService {
       confidence,
       monthlySalesVelocity: salesVelocity * 30,
       seasonalityFactor,
-      leadTimeDays
+      leadTimeDays,
+      supplierId: terms.supplierId,
+      supplierName: terms.supplierName,
+      unitCost: terms.unitCost,
+      minOrderQuantity: terms.minOrderQuantity,
+      packSize: terms.packSize
     };
 
     // Add projected stockout date if trending towards zero
@@ -341,20 +562,29 @@ export class InventoryService {
     const reorderPoint = await this.getProductReorderPoint(productId);
     const maxStock = await this.getProductMaxStock(productId);
 
+    // A kit can still be supplied while its components can build more
+    const kit = product.isKit ? await this.getKitAvailability(productId) : undefined;
+    const availableQuantity = currentQuantity + (kit?.buildable || 0);
+
     // Low stock alert
-    if (currentQuantity <= reorderPoint) {
+    if (availableQuantity <= reorderPoint) {
       alerts.push(await this.createAlert({
         type: 'low_stock',
-        severity: currentQuantity === 0 ? 'critical' : 'high',
+        severity: availableQuantity === 0 ? 'critical' : 'high',
         title: 'Low Stock Alert',
-        message: `${product.name} is below reorder point (${currentQuantity}/${reorderPoint})`,
+        message: kit
+          ? `${product.name} is below reorder point (${currentQuantity} assembled + ${kit.buildable} buildable/${reorderPoint})`
+          : `${product.name} is below reorder point (${currentQuantity}/${reorderPoint})`,
         productId,
-        businessId: product.businessId
+        businessId: product.businessId,
+        metadata: kit
+          ? { assembled: currentQuantity, buildable: kit.buildable, limitingComponentId: kit.limitingComponentId }
+          : undefined
       }));
     }
 
     // Zero stock alert
-    if (currentQuantity === 0) {
+    if (availableQuantity === 0) {
       alerts.push(await this.createAlert({
         type: 'zero_stock',
         severity: 'critical',
@@ -377,6 +607,38 @@ export class InventoryService {
       }));
     }
 
+    // Near-expiry alert, one per lot still on hand
+    const lots = await this.foundation.database.locations.getLots(productId);
+    for (const lot of lots) {
+      const daysUntilExpiry = this.daysUntil(lot.expiryDate);
+      if (daysUntilExpiry === undefined || daysUntilExpiry > NEAR_EXPIRY_DAYS) continue;
+
+      alerts.push(await this.createAlert({
+        type: 'near_expiry',
+        severity: daysUntilExpiry < 0 ? 'critical' : daysUntilExpiry <= 7 ? 'high' : 'medium',
+        title: daysUntilExpiry < 0 ? 'Expired Stock' : 'Stock Nearing Expiry',
+        message: daysUntilExpiry < 0
+          ? `${product.name} lot ${lot.lotNumber} expired on ${lot.expiryDate} (${lot.quantity} on hand)`
+          : `${product.name} lot ${lot.lotNumber} expires on ${lot.expiryDate} (${lot.quantity} on hand)`,
+        productId,
+        businessId: product.businessId,
+        metadata: {
+          lotNumber: lot.lotNumber,
+          expiryDate: lot.expiryDate,
+          locationId: lot.locationId,
+          quantity: lot.quantity,
+          daysUntilExpiry
+        }
+      }));
+    }
+
+    // Kits built from this product may now be short; alert on those it limits
+    const kitUsages = await this.productRepo.findKitsUsingComponent(productId);
+    for (const usage of kitUsages) {
+      const kitAlert = await this.checkKitBuildability(usage.kitProductId, productId);
+      if (kitAlert) alerts.push(kitAlert);
+    }
+
     // Store alerts and broadcast
     for (const alert of alerts) {
       await this.storeAlert(alert);
@@ -441,13 +703,194 @@ export class InventoryService {
       dailyChanges.reduce((sum, change) => sum + change, 0) / dailyChanges.length : 0;
   }
 
-  private async calculateSeasonality(productId: string): Promise<number> {
-    // Simplified seasonality calculation
-    // In production, this would use more sophisticated ML models
-    const currentMonth = new Date().getMonth();
-    const historicalData = await this.getHistoricalSeasonalData(productId);
-    
-    return historicalData[currentMonth] || 1.0;
+  // This month's sales against the average month, from two years of daily
+  // sales; 1.0 until there is enough history to tell
+  private async calculateSeasonality(businessId: string, productId: string): Promise<number> {
+    const to = new Date();
+    const from = new Date(to.getTime() - SEASONALITY_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const demand = await this.foundation.database.movements.getDailyDemand(businessId, {
+      from,
+      to,
+      productIds: [productId]
+    });
+
+    const indices = monthlySeasonality(dailySeries(demand, from, to));
+    return indices?.[to.getUTCMonth()] ?? 1.0;
+  }
+
+  // Preferred supplier's terms, or defaults when the product has no supplier yet
+  private async getPurchasingTerms(productId: string): Promise<{
+    supplierId?: string;
+    supplierName?: string;
+    unitCost?: number;
+    leadTimeDays: number;
+    minOrderQuantity: number;
+    packSize: number;
+  }> {
+    const preferred = await this.foundation.database.suppliers.getPreferredSupplier(productId);
+
+    if (!preferred) {
+      return { leadTimeDays: DEFAULT_LEAD_TIME_DAYS, minOrderQuantity: 1, packSize: 1 };
+    }
+
+    return {
+      supplierId: preferred.supplierId,
+      supplierName: preferred.supplier?.name,
+      unitCost: preferred.unitCost,
+      leadTimeDays: preferred.leadTimeDays
+        ?? preferred.supplier?.defaultLeadTimeDays
+        ?? DEFAULT_LEAD_TIME_DAYS,
+      minOrderQuantity: preferred.minOrderQuantity || 1,
+      packSize: preferred.packSize || 1
+    };
+  }
+
+  // Raise to the supplier minimum, then round up to whole packs
+  private roundToOrderMultiple(quantity: number, minOrderQuantity: number, packSize: number): number {
+    if (quantity <= 0) return 0;
+    const atLeastMinimum = Math.max(quantity, minOrderQuantity);
+    return Math.ceil(atLeastMinimum / packSize) * packSize;
+  }
+
+  private async getLotQuantity(productId: string, lotNumber: string, locationId?: string): Promise<number> {
+    const lots = await this.foundation.database.locations.getLots(productId, locationId);
+    return lots.find(l => l.lotNumber === lotNumber && l.locationId === locationId)?.quantity || 0;
+  }
+
+  // Whole days from today until a YYYY-MM-DD date; negative once it has passed
+  private daysUntil(date?: string): number | undefined {
+    if (!date) return undefined;
+    const today = new Date();
+    const todayUtc = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+    return Math.round((new Date(`${date}T00:00:00Z`).getTime() - todayUtc) / (24 * 60 * 60 * 1000));
+  }
+
+  private async processKitOperation(
+    kitProductId: string,
+    operation: KitOperation,
+    quantity: number,
+    userId: string,
+    locationId?: string,
+    notes?: string
+  ): Promise<KitOperationResult> {
+    if (quantity <= 0) {
+      throw new Error('Kit quantity must be positive');
+    }
+
+    // Kit and component movements are posted in a single database transaction
+    const result = await this.foundation.database.movements.processKit(kitProductId, operation, quantity, {
+      userId,
+      locationId,
+      notes
+    });
+
+    await this.foundation.realtime.broadcast(`inventory:${kitProductId}`, {
+      type: 'kit_processed',
+      operation,
+      result
+    });
+
+    for (const component of result.components) {
+      await this.foundation.realtime.broadcast(`inventory:${component.productId}`, {
+        type: 'stock_moved',
+        referenceId: result.referenceId,
+        quantityChange: component.quantityChange,
+        quantityAfter: component.quantityAfter
+      });
+
+      const componentTotal = locationId ? await this.getOnHand(component.productId) : component.quantityAfter;
+      await this.checkAlertConditions(component.productId, componentTotal);
+    }
+
+    const kitTotal = locationId ? await this.getOnHand(kitProductId) : result.kitQuantityAfter;
+    await this.checkAlertConditions(kitProductId, kitTotal);
+
+    return result;
+  }
+
+  // Low-stock alert for a kit whose buildable quantity is capped by the given component
+  private async checkKitBuildability(kitProductId: string, componentProductId: string): Promise<Alert | null> {
+    const [kitProduct, availability, reorderPoint] = await Promise.all([
+      this.productRepo.findById(kitProductId),
+      this.getKitAvailability(kitProductId),
+      this.getProductReorderPoint(kitProductId)
+    ]);
+
+    if (!kitProduct || availability.limitingComponentId !== componentProductId) return null;
+    if (availability.available > reorderPoint) return null;
+
+    const component = availability.components.find(c => c.productId === componentProductId);
+
+    return this.createAlert({
+      type: 'low_stock',
+      severity: availability.available === 0 ? 'critical' : 'high',
+      title: 'Kit Low Stock Alert',
+      message: `${kitProduct.name} can only supply ${availability.available} kits (${availability.assembled} assembled, ${availability.buildable} buildable), limited by ${component?.productName || 'a component'}`,
+      productId: kitProductId,
+      businessId: kitProduct.businessId,
+      metadata: {
+        assembled: availability.assembled,
+        buildable: availability.buildable,
+        limitingComponentId: componentProductId
+      }
+    });
+  }
+
+  // Without a location: the product total, which includes stock not assigned to one
+  private async getOnHand(productId: string, locationId?: string): Promise<number> {
+    if (locationId) {
+      const level = await this.foundation.database.locations.getStockLevel(productId, locationId);
+      return level?.quantity || 0;
+    }
+
+    const product = await this.productRepo.findById(productId);
+    return product?.currentQuantity || 0;
+  }
+
+  private async processBatchItem(item: BatchItem, operation: BatchOperation): Promise<void> {
+    if (operation.type === 'bulk_transfer') {
+      if (!item.location || !item.toLocation) {
+        throw new Error('Transfers require a source and destination location');
+      }
+      await this.transferStock(
+        item.productId,
+        item.location,
+        item.toLocation,
+        item.quantity,
+        operation.userId,
+        item.notes,
+        operation.id
+      );
+      return;
+    }
+
+    const movementOptions: StockMovementOptions = {
+      locationId: item.location,
+      userId: operation.userId,
+      referenceType: 'batch_operation',
+      referenceId: operation.id,
+      notes: item.notes
+    };
+
+    // Absolute quantities are posted as the difference from the current balance
+    if (item.operation === 'set') {
+      const reason = operation.type === 'bulk_count' ? 'count_correction' : 'adjust';
+      await this.foundation.database.movements.setQuantity(item.productId, item.quantity, reason, movementOptions);
+      return;
+    }
+
+    const currentQuantity = await this.foundation.database.movements.getQuantityAsOf(
+      item.productId,
+      new Date(),
+      item.location
+    );
+    const quantityChange = item.operation === 'add' ? item.quantity : -item.quantity;
+
+    if (currentQuantity + quantityChange < 0) {
+      throw new Error(`Operation would leave negative stock (${currentQuantity + quantityChange})`);
+    }
+
+    await this.foundation.database.movements.record(item.productId, quantityChange, 'adjust', movementOptions);
   }
 
   private calculateSuggestionConfidence(history: any[], velocity: number): number {
@@ -471,10 +914,8 @@ export class InventoryService {
   private async updateDiscrepancy(discrepancyId: string, update: any): Promise<void> {}
   private async logDiscrepancyResolution(discrepancy: DiscrepancyRecord, resolution: any): Promise<void> {}
   private async updateDiscrepancyAnalytics(discrepancy: DiscrepancyRecord): Promise<void> {}
-  private async getSupplierLeadTime(productId: string): Promise<number> { return 7; }
   private async getHighVelocityThreshold(productId: string): Promise<number> { return 10; }
   private async updateBatchOperation(operation: BatchOperation): Promise<void> {}
-  private async processBatchItem(item: BatchItem, operation: BatchOperation): Promise<void> {}
   private async storeProductLock(lock: ProductLock): Promise<void> {}
   private async removeProductLock(productId: string, userId: string): Promise<void> {}
   private async getProductReorderPoint(productId: string): Promise<number> { return 10; }
@@ -482,5 +923,4 @@ export class InventoryService {
   private async createAlert(alert: Partial<Alert>): Promise<Alert> { return alert as Alert; }
   private async storeAlert(alert: Alert): Promise<void> {}
   private async broadcastAlert(alert: Alert): Promise<void> {}
-  private async getHistoricalSeasonalData(productId: string): Promise<number[]> { return Array(12).fill(1.0); }
 }
\ No newline at end of file
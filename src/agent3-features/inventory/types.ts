@@ -1,4 +1,4 @@
-import { User, ProductSchema, InventorySchema } from '../../shared/contracts/agent-interfaces';
+import { User, ProductSchema, InventorySchema, ConflictResolutionMethod } from '../../shared/contracts/agent-interfaces';
 
 // Core inventory types
 export interface InventoryCount {
@@ -10,6 +10,9 @@ export interface InventoryCount {
   userId: string;
   deviceInfo: DeviceInfo;
   location: string;
+  locationId?: string;
+  lotNumber?: string;
+  expiryDate?: string; // YYYY-MM-DD
   notes?: string;
   timestamp: Date;
   sessionId?: string;
@@ -57,6 +60,8 @@ export interface Zone {
   assignedUserId?: string;
   status: 'pending' | 'in_progress' | 'completed';
   estimatedTime: number; // in minutes
+  adjacentZoneIds?: string[]; // Zones a counter can walk to without crossing the site
+  countedProductIds?: string[];
 }
 
 export interface SessionProgress {
@@ -71,6 +76,7 @@ export interface ParticipantProgress {
   itemsCounted: number;
   zonesCompleted: number;
   lastActivity: Date;
+  joinedAt?: Date; // Start of the counter's pace measurement
   status: 'active' | 'idle' | 'disconnected';
 }
 
@@ -81,6 +87,7 @@ export interface CycleCountSettings {
   requireNotes: boolean;
   autoReconcile: boolean;
   notifyOnCompletion: boolean;
+  conflictStrategy?: ConflictResolutionMethod; // Applied when teammates' counts of a product disagree
 }
 
 // Discrepancy management
@@ -122,6 +129,11 @@ export interface ReorderSuggestion {
   monthlySalesVelocity: number;
   seasonalityFactor: number;
   leadTimeDays: number;
+  supplierId?: string;
+  supplierName?: string;
+  unitCost?: number;
+  minOrderQuantity?: number;
+  packSize?: number;
 }
 
 export type ReorderReason =
@@ -169,9 +181,73 @@ export type AlertType =
   | 'overstocked'
   | 'discrepancy_detected'
   | 'count_overdue'
+  | 'near_expiry'
   | 'system_error'
   | 'security_alert';
 
+// Multi-location stock
+export interface LocationStock {
+  locationId: string | null; // null: stock not assigned to a location
+  locationName: string;
+  quantity: number;
+  lastCounted?: Date;
+}
+
+export interface StockTransfer {
+  id: string;
+  productId: string;
+  fromLocationId: string;
+  toLocationId: string;
+  quantity: number;
+  userId: string;
+  notes?: string;
+  batchId?: string;
+  fromQuantityAfter: number;
+  toQuantityAfter: number;
+  timestamp: Date;
+}
+
+// Lot / expiry tracking
+export interface LotCountInput {
+  lotNumber: string;
+  expiryDate?: string; // YYYY-MM-DD
+}
+
+export interface FefoPick {
+  lotNumber: string;
+  expiryDate?: string;
+  locationId?: string;
+  quantity: number;
+  daysUntilExpiry?: number;
+}
+
+export interface FefoPickSuggestion {
+  productId: string;
+  requestedQuantity: number;
+  picks: FefoPick[];
+  shortfall: number; // Quantity not covered by unexpired lots
+  skippedExpiredQuantity: number;
+}
+
+// Kits / bill of materials
+export interface KitComponentAvailability {
+  productId: string;
+  productName: string;
+  quantityPerKit: number;
+  onHand: number;
+  kitsSupported: number; // Whole kits this component alone could build
+}
+
+export interface KitAvailability {
+  kitProductId: string;
+  locationId?: string;
+  assembled: number; // Kits already built and on hand
+  buildable: number; // Kits the components on hand can still build
+  available: number; // assembled + buildable
+  limitingComponentId?: string;
+  components: KitComponentAvailability[];
+}
+
 // Lock management for real-time collaboration
 export interface ProductLock {
   productId: string;
@@ -200,7 +276,8 @@ export interface BatchItem {
   productId: string;
   operation: 'set' | 'add' | 'subtract';
   quantity: number;
-  location?: string;
+  location?: string; // Location ID; the source location for bulk_transfer
+  toLocation?: string; // Destination location ID for bulk_transfer
   notes?: string;
 }
 
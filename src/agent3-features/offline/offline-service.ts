@@ -1,31 +1,138 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { OPERATION_ID_HEADER, DEVICE_ID_HEADER, getDeviceId } from '../../shared/sync/idempotency';
+import { SyncChange, SyncEntity, SyncPage } from '../../shared/sync/delta-sync';
+import { FieldConflict } from '../../shared/sync/field-merge';
+import { supabase } from '../../agent1-foundation/database/supabase-client';
+
+// A product as the page caches it
+export interface CachedProduct {
+  id: string;
+  name: string;
+  barcode?: string;
+  sku?: string;
+  quantity: number;
+  category?: string;
+  price?: number;
+  image_url?: string;
+  updated_at: string;
+  synced: boolean;
+  base?: Partial<CachedProduct>; // Server values of fields edited offline, until they sync
+}
+
+// The JSON body an operation replays
+export interface OperationData {
+  id?: string; // Product operations: the product
+  product_id?: string; // Counts: the product counted
+  productId?: string;
+  base?: Partial<CachedProduct>; // Product edits: the values the edit started from
+  [field: string]: unknown;
+}
+
+// An entry in the outbox. The page and the service worker both drain it, so
+// each entry carries the request it replays.
+export interface PendingOperation {
+  id: string; // Sent with every attempt so the server applies the operation once
+  device_id?: string;
+  type: 'CREATE' | 'UPDATE' | 'DELETE';
+  entity: string; // 'product', 'inventory_count', or the API path of a write the service worker caught
+  method: 'POST' | 'PUT' | 'DELETE';
+  url: string;
+  entity_key: string; // Operations with the same key replay in the order they were queued
+  data: OperationData;
+  created_at: string;
+  retries: number;
+  max_retries?: number;
+}
+
+// An operation the server would not accept, kept until the user retries,
+// edits or discards it
+export interface FailedOperation extends PendingOperation {
+  failed_at: string;
+  reason: string;
+  status: number | null; // HTTP status; null when the server was never reached
+  response: any; // Server response body, if any
+}
+
+export interface ConflictField {
+  field: string;
+  local: any;
+  server: any;
+  differs: boolean;
+}
+
+export class SyncError extends Error {
+  constructor(
+    message: string,
+    public status: number | null = null,
+    public response: any = null
+  ) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+export const MAX_RETRIES = 5;
+
+// Shared with the service worker (pwa/service-worker.js)
+const OUTBOX_SYNC_TAG = 'outbox-sync';
+const OUTBOX_LOCK = 'scanstock-outbox';
+const ACCESS_TOKEN_KEY = 'access_token';
+const DEVICE_ID_KEY = 'device_id';
+
+const OPERATION_METHODS = { CREATE: 'POST', UPDATE: 'PUT', DELETE: 'DELETE' } as const;
+
+const OPERATION_ENDPOINTS: Record<string, string> = {
+  product: '/api/products',
+  inventory_count: '/api/inventory/count'
+};
+
+const SYNC_CURSOR_KEY = 'sync_cursor';
+
+const SYNC_STORES: Record<SyncEntity, 'products' | 'locations' | 'stock_levels'> = {
+  product: 'products',
+  location: 'locations',
+  stock_level: 'stock_levels'
+};
 
 interface OfflineDB extends DBSchema {
   products: {
+    key: string;
+    value: CachedProduct;
+  };
+  locations: {
     key: string;
     value: {
       id: string;
       name: string;
-      barcode?: string;
-      sku?: string;
-      quantity: number;
-      category?: string;
-      price?: number;
-      image_url?: string;
+      code?: string;
+      type: string;
+      parent_id?: string;
+      is_default: boolean;
+      active: boolean;
       updated_at: string;
-      synced: boolean;
     };
   };
-  pending_operations: {
+  stock_levels: {
     key: string;
     value: {
       id: string;
-      type: 'CREATE' | 'UPDATE' | 'DELETE';
-      entity: 'product' | 'inventory_count';
-      data: any;
-      created_at: string;
-      retries: number;
+      product_id: string;
+      location_id: string;
+      quantity: number;
+      last_counted?: string;
+      updated_at: string;
     };
+    indexes: { product_id: string };
+  };
+  pending_operations: {
+    key: string;
+    value: PendingOperation;
+    indexes: { created_at: string };
+  };
+  failed_operations: {
+    key: string;
+    value: FailedOperation;
+    indexes: { failed_at: string };
   };
   settings: {
     key: string;
@@ -35,15 +142,25 @@ interface OfflineDB extends DBSchema {
 
 export class OfflineService {
   private db: IDBPDatabase<OfflineDB> | null = null;
+  private opening: Promise<void> | null = null;
+  private serviceWorkerListener: ((event: MessageEvent) => void) | null = null;
   private syncInProgress = false;
+  private pullInProgress = false;
   private onlineListener: (() => void) | null = null;
+  private changeListeners = new Set<() => void>();
 
-  async initialize() {
+  // Safe to call from every hook that needs the store; opens it once
+  initialize(): Promise<void> {
+    if (!this.opening) this.opening = this.openDatabase();
+    return this.opening;
+  }
+
+  private async openDatabase() {
     if (typeof window === 'undefined') return;
 
     try {
-      this.db = await openDB<OfflineDB>('scanstock-offline', 1, {
-        upgrade(db) {
+      this.db = await openDB<OfflineDB>('scanstock-offline', 4, {
+        async upgrade(db, oldVersion, newVersion, transaction) {
           // Products store
           if (!db.objectStoreNames.contains('products')) {
             const productStore = db.createObjectStore('products', { keyPath: 'id' });
@@ -51,52 +168,94 @@ export class OfflineService {
             productStore.createIndex('synced', 'synced', { unique: false });
           }
 
+          // Delta-synced locations and per-location stock
+          if (!db.objectStoreNames.contains('locations')) {
+            db.createObjectStore('locations', { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains('stock_levels')) {
+            const stockStore = db.createObjectStore('stock_levels', { keyPath: 'id' });
+            stockStore.createIndex('product_id', 'product_id', { unique: false });
+          }
+
           // Pending operations store
           if (!db.objectStoreNames.contains('pending_operations')) {
             const pendingStore = db.createObjectStore('pending_operations', { keyPath: 'id' });
             pendingStore.createIndex('created_at', 'created_at', { unique: false });
           }
 
+          // Failed operations store (dead letters)
+          if (!db.objectStoreNames.contains('failed_operations')) {
+            const failedStore = db.createObjectStore('failed_operations', { keyPath: 'id' });
+            failedStore.createIndex('failed_at', 'failed_at', { unique: false });
+          }
+
           // Settings store
           if (!db.objectStoreNames.contains('settings')) {
             db.createObjectStore('settings');
           }
+
+          // Operations queued before they carried their request
+          if (oldVersion > 0 && oldVersion < 4) {
+            for (const name of ['pending_operations', 'failed_operations'] as const) {
+              let row = await transaction.objectStore(name).openCursor();
+              while (row) {
+                await row.update({ ...row.value, ...operationRequest(row.value.id, row.value.type, row.value.entity, row.value.data) });
+                row = await row.continue();
+              }
+            }
+          }
         },
       });
 
+      // The service worker cannot read localStorage
+      await this.db.put('settings', getDeviceId(), DEVICE_ID_KEY);
+
       // Listen for online events
       this.setupOnlineListener();
-      
-      console.log('Offline database initialized');
+      this.setupServiceWorkerListener();
+
     } catch (error) {
       console.error('Failed to initialize offline database:', error);
     }
   }
 
+  // The service worker reports when its drains change the outbox
+  private setupServiceWorkerListener() {
+    if (!('serviceWorker' in navigator) || this.serviceWorkerListener) return;
+
+    this.serviceWorkerListener = async (event: MessageEvent) => {
+      if (event.data?.type !== 'OUTBOX_CHANGED') return;
+      await this.settleProducts();
+      this.notifyChange();
+    };
+
+    navigator.serviceWorker.addEventListener('message', this.serviceWorkerListener);
+  }
+
   private setupOnlineListener() {
     if (this.onlineListener) {
       window.removeEventListener('online', this.onlineListener);
     }
 
-    this.onlineListener = () => {
-      console.log('Network is back online, syncing pending operations...');
-      this.syncPendingOperations();
+    this.onlineListener = async () => {
+      await this.syncPendingOperations();
+      await this.pullChanges().catch(error => console.error('Failed to pull changes:', error));
     };
 
     window.addEventListener('online', this.onlineListener);
   }
 
-  async cacheProducts(products: any[]) {
+  // Server product rows, e.g. from realtime. Products with edits not yet
+  // synced keep the edited fields, as they do in a pull.
+  async cacheProducts(products: Record<string, any>[]) {
     if (!this.db) return;
 
     const tx = this.db.transaction('products', 'readwrite');
-    await Promise.all([
-      ...products.map(product => tx.store.put({
-        ...product,
-        synced: true
-      })),
-      tx.done
-    ]);
+    for (const product of products) {
+      const cached = withLocalEdits(await tx.store.get(product.id), product);
+      if (cached) await tx.store.put(cached);
+    }
+    await tx.done;
   }
 
   async getProducts() {
@@ -110,104 +269,371 @@ export class OfflineService {
     return await index.get(barcode);
   }
 
-  async addPendingOperation(type: 'CREATE' | 'UPDATE' | 'DELETE', entity: string, data: any) {
+  /**
+   * Pull server changes since the stored cursor, page by page. Each page and
+   * the cursor after it are written in one transaction, so an interrupted
+   * pull resumes where it stopped. Products with local edits not yet synced
+   * are left alone. Returns the number of changes applied.
+   */
+  async pullChanges(): Promise<number> {
+    if (!this.db || this.pullInProgress) return 0;
+
+    this.pullInProgress = true;
+    let applied = 0;
+
+    try {
+      const headers = await this.authHeaders();
+
+      let hasMore = true;
+      while (hasMore) {
+        const cursor = await this.db.get('settings', SYNC_CURSOR_KEY);
+        const response = await fetch(`/api/sync${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ''}`, { headers });
+        if (!response.ok) {
+          throw new SyncError(`Pull failed: ${response.status}`, response.status);
+        }
+
+        const page: SyncPage = (await response.json()).data;
+        await this.applySyncPage(page);
+
+        applied += page.changes.length;
+        hasMore = page.has_more;
+      }
+    } finally {
+      this.pullInProgress = false;
+    }
+
+    if (applied > 0) this.notifyChange();
+    return applied;
+  }
+
+  private async applySyncPage(page: SyncPage) {
+    if (!this.db) return;
+
+    const tx = this.db.transaction(['products', 'locations', 'stock_levels', 'settings'], 'readwrite');
+
+    if (page.reset) {
+      let row = await tx.objectStore('products').openCursor();
+      while (row) {
+        if (row.value.synced) await row.delete();
+        row = await row.continue();
+      }
+      await tx.objectStore('locations').clear();
+      await tx.objectStore('stock_levels').clear();
+    }
+
+    for (const change of page.changes) {
+      await this.applySyncChange(tx, change);
+    }
+
+    await tx.objectStore('settings').put(page.cursor, SYNC_CURSOR_KEY);
+    await tx.done;
+  }
+
+  private async applySyncChange(tx: any, change: SyncChange) {
+    const store = tx.objectStore(SYNC_STORES[change.entity_type]);
+
+    if (change.entity_type === 'product') {
+      const local = await store.get(change.record_id);
+      if (local && !local.synced) {
+        const cached = change.deleted || !change.data ? null : withLocalEdits(local, change.data);
+        if (cached) await store.put(cached);
+        return;
+      }
+    }
+
+    if (change.deleted || !change.data) {
+      await store.delete(change.record_id);
+      return;
+    }
+
+    await store.put(change.entity_type === 'product' ? toCachedProduct(change.data) : change.data);
+  }
+
+  /**
+   * Queue a write in the outbox. An id queued before (e.g. from an older
+   * queue) keeps its identity, so the server still applies it once.
+   */
+  async addPendingOperation(
+    type: 'CREATE' | 'UPDATE' | 'DELETE',
+    entity: string,
+    data: OperationData,
+    options: { id?: string; maxRetries?: number } = {}
+  ): Promise<string | undefined> {
     if (!this.db) return;
 
-    const operation = {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    const id = options.id || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const operation: PendingOperation = {
+      id,
+      device_id: getDeviceId(),
       type,
       entity,
+      ...operationRequest(id, type, entity, data),
       data,
       created_at: new Date().toISOString(),
-      retries: 0
+      retries: 0,
+      ...(options.maxRetries ? { max_retries: options.maxRetries } : {})
     };
 
-    await this.db.add('pending_operations', operation);
+    await this.db.put('pending_operations', operation);
+    this.notifyChange();
+
+    await this.requestSync();
+    return id;
+  }
+
+  /**
+   * Drain the outbox from the service worker through Background Sync, which
+   * also runs after the page is closed. Without it (or without a service
+   * worker controlling the page) the page drains while it is open.
+   */
+  private async requestSync() {
+    await this.authHeaders();
+
+    if ('serviceWorker' in navigator && navigator.serviceWorker.controller && 'SyncManager' in window) {
+      try {
+        const registration: any = await navigator.serviceWorker.ready;
+        await registration.sync.register(OUTBOX_SYNC_TAG);
+        return;
+      } catch (error) {
+        console.warn('Background Sync unavailable, syncing from the page:', error);
+      }
+    }
 
-    // Try to sync immediately if online
     if (navigator.onLine) {
       this.syncPendingOperations();
     }
   }
 
-  async syncPendingOperations() {
-    if (!this.db || this.syncInProgress) return;
+  // Resolves to the number of operations this drain delivered
+  async syncPendingOperations(): Promise<number> {
+    if (!this.db || this.syncInProgress) return 0;
 
     this.syncInProgress = true;
 
     try {
-      const operations = await this.db.getAll('pending_operations');
-      
-      for (const operation of operations) {
-        try {
-          await this.executePendingOperation(operation);
-          
-          // Remove successful operation
-          await this.db.delete('pending_operations', operation.id);
-        } catch (error) {
-          console.error('Failed to sync operation:', error);
-          
-          // Increment retry count
-          operation.retries++;
-          
-          if (operation.retries >= 5) {
-            // Move to failed operations or notify user
-            console.error('Operation failed after 5 retries:', operation);
-            await this.db.delete('pending_operations', operation.id);
-          } else {
-            await this.db.put('pending_operations', operation);
-          }
-        }
-      }
+      const synced = await withOutboxLock(() => this.drainOutbox());
+      await this.settleProducts();
+      return synced;
     } finally {
       this.syncInProgress = false;
+      this.notifyChange();
     }
   }
 
-  private async executePendingOperation(operation: any) {
-    const endpoint = `/api/${operation.entity}s`;
-    
-    let response;
-    switch (operation.type) {
-      case 'CREATE':
-        response = await fetch(endpoint, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(operation.data)
-        });
-        break;
+  // Oldest first. An operation that has to wait holds back the later ones for
+  // the same entity, so they never overtake it; other entities carry on.
+  private async drainOutbox(): Promise<number> {
+    if (!this.db) return 0;
+
+    const headers = await this.authHeaders();
+    const operations = await this.db.getAllFromIndex('pending_operations', 'created_at');
+    const waiting = new Set<string>();
+    let synced = 0;
+
+    for (const operation of operations) {
+      if (waiting.has(operation.entity_key)) continue;
+
+      try {
+        await this.executePendingOperation(operation, headers);
+        
+        // Remove successful operation
+        await this.db.delete('pending_operations', operation.id);
+        synced++;
+      } catch (error) {
+        console.error('Failed to sync operation:', error);
         
-      case 'UPDATE':
-        response = await fetch(endpoint, {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(operation.data)
-        });
-        break;
+        // Increment retry count
+        operation.retries++;
         
-      case 'DELETE':
-        response = await fetch(`${endpoint}?id=${operation.data.id}`, {
-          method: 'DELETE'
-        });
-        break;
+        // Rejections other than expired sessions, timeouts, rate limits and
+        // an earlier attempt still in flight fail the same way every time
+        const status = error instanceof SyncError ? error.status : null;
+        const inFlight = error instanceof SyncError && error.response?.code === 'operation_in_progress';
+        const rejected = status !== null && status >= 400 && status < 500 &&
+          status !== 401 && status !== 408 && status !== 429 && !inFlight;
+
+        if (rejected || operation.retries >= (operation.max_retries || MAX_RETRIES)) {
+          await this.moveToFailed(operation, error);
+        } else {
+          await this.db.put('pending_operations', operation);
+          waiting.add(operation.entity_key);
+        }
+      }
+    }
+
+    return synced;
+  }
+
+  async getPendingOperations(): Promise<PendingOperation[]> {
+    if (!this.db) return [];
+    return await this.db.getAllFromIndex('pending_operations', 'created_at');
+  }
+
+  async removePendingOperation(id: string) {
+    if (!this.db) return;
+
+    await this.db.delete('pending_operations', id);
+    this.notifyChange();
+  }
+
+  async clearPendingOperations() {
+    if (!this.db) return;
+
+    await this.db.clear('pending_operations');
+    this.notifyChange();
+  }
+
+  // Also kept in settings for the service worker, which cannot read the session
+  private async authHeaders(): Promise<Record<string, string>> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (this.db) {
+      await this.db.put('settings', session?.access_token ?? null, ACCESS_TOKEN_KEY);
+    }
+    return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+  }
+
+  async getFailedOperations(): Promise<FailedOperation[]> {
+    if (!this.db) return [];
+    const operations = await this.db.getAllFromIndex('failed_operations', 'failed_at');
+    return operations.reverse();
+  }
+
+  /**
+   * Queue a failed operation again, optionally with edited data
+   */
+  async retryFailedOperation(id: string, data?: OperationData) {
+    if (!this.db) return;
+
+    const tx = this.db.transaction(['failed_operations', 'pending_operations'], 'readwrite');
+    const failed = await tx.objectStore('failed_operations').get(id);
+    if (!failed) return;
+
+    const { failed_at, reason, status, response, ...operation } = failed;
+    const retryData = rebaseOnConflicts(data === undefined ? operation.data : data, status, response);
+    await tx.objectStore('pending_operations').put({
+      ...operation,
+      // Edited data may change the request (e.g. the id of a delete)
+      ...(OPERATION_ENDPOINTS[operation.entity] ? operationRequest(operation.id, operation.type, operation.entity, retryData) : {}),
+      data: retryData,
+      retries: 0
+    });
+    await tx.objectStore('failed_operations').delete(id);
+    await tx.done;
+
+    this.notifyChange();
+
+    await this.requestSync();
+  }
+
+  async discardFailedOperation(id: string) {
+    if (!this.db) return;
+
+    await this.db.delete('failed_operations', id);
+    this.notifyChange();
+  }
+
+  /**
+   * Be told when pending or failed operations change, including syncs
+   * started by the service itself. Returns an unsubscribe function.
+   */
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  private notifyChange() {
+    for (const listener of this.changeListeners) {
+      listener();
+    }
+  }
+
+  private async moveToFailed(operation: PendingOperation, error: unknown) {
+    if (!this.db) return;
+
+    console.error(`Operation ${operation.id} moved to failed operations:`, error);
+
+    const tx = this.db.transaction(['failed_operations', 'pending_operations'], 'readwrite');
+    await tx.objectStore('failed_operations').put({
+      ...operation,
+      failed_at: new Date().toISOString(),
+      reason: error instanceof Error ? error.message : String(error),
+      status: error instanceof SyncError ? error.status : null,
+      response: error instanceof SyncError ? error.response : null
+    });
+    await tx.objectStore('pending_operations').delete(operation.id);
+    await tx.done;
+  }
+
+  // Once no edits to a product are left to send (or to resolve), the cache
+  // holds what the server has and pulls may update it again
+  private async settleProducts() {
+    if (!this.db) return;
+
+    // Booleans are not valid IndexedDB keys, so the synced index cannot be queried
+    const products = (await this.db.getAll('products')).filter(product => !product.synced);
+    if (products.length === 0) return;
+
+    const operations = [
+      ...await this.db.getAll('pending_operations'),
+      ...await this.db.getAll('failed_operations')
+    ];
+    const outstanding = new Set(operations.filter(op => op.entity === 'product').map(op => op.data?.id));
+
+    for (const product of products) {
+      if (!product.base || outstanding.has(product.id)) continue;
+
+      const { base, ...settled } = product;
+      await this.db.put('products', { ...settled, synced: true });
     }
+  }
+
+  private async executePendingOperation(operation: PendingOperation, headers: Record<string, string>) {
+    const response = await fetch(operation.url, {
+      method: operation.method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+        [OPERATION_ID_HEADER]: operation.id,
+        [DEVICE_ID_HEADER]: operation.device_id || getDeviceId()
+      },
+      body: operation.method === 'DELETE' ? undefined : JSON.stringify(operation.data)
+    });
 
     if (!response?.ok) {
-      throw new Error(`Sync failed: ${response?.status}`);
+      const body = await response?.text().catch(() => '');
+      let parsed: any = body || null;
+      try {
+        parsed = body ? JSON.parse(body) : null;
+      } catch {
+        // Not JSON; keep the text
+      }
+
+      throw new SyncError(parsed?.error || `Sync failed: ${response?.status}`, response?.status ?? null, parsed);
     }
 
     return response.json();
   }
 
-  async updateProductOffline(productId: string, updates: any) {
+  async updateProductOffline(productId: string, updates: Partial<CachedProduct>) {
     if (!this.db) return;
 
     const product = await this.db.get('products', productId);
     if (!product) return;
 
+    // The edit's base is the value it replaced, which earlier queued edits
+    // will have written by the time it replays. The product keeps the
+    // server's value from before the first offline edit.
+    const operationBase: Partial<CachedProduct> = {};
+    const productBase = { ...product.base };
+    for (const field of Object.keys(updates)) {
+      operationBase[field] = product[field] ?? null;
+      if (!(field in productBase)) productBase[field] = product[field] ?? null;
+    }
+
     const updatedProduct = {
       ...product,
       ...updates,
+      base: productBase,
       updated_at: new Date().toISOString(),
       synced: false
     };
@@ -217,16 +643,22 @@ export class OfflineService {
     // Queue for sync
     await this.addPendingOperation('UPDATE', 'product', {
       id: productId,
-      ...updates
+      ...updates,
+      base: operationBase
     });
   }
 
+  // Failed operations are kept: they hold work the server never accepted
   async clearCache() {
     if (!this.db) return;
     
+    // The cursor goes too, or the next pull would skip everything cleared here
     await Promise.all([
       this.db.clear('products'),
-      this.db.clear('pending_operations')
+      this.db.clear('locations'),
+      this.db.clear('stock_levels'),
+      this.db.clear('pending_operations'),
+      this.db.delete('settings', SYNC_CURSOR_KEY)
     ]);
   }
 
@@ -240,14 +672,118 @@ export class OfflineService {
     return operations.length;
   }
 
+  async getFailedOperationsCount() {
+    if (!this.db) return 0;
+    return await this.db.count('failed_operations');
+  }
+
   destroy() {
     if (this.onlineListener) {
       window.removeEventListener('online', this.onlineListener);
     }
+    if (this.serviceWorkerListener) {
+      navigator.serviceWorker.removeEventListener('message', this.serviceWorkerListener);
+      this.serviceWorkerListener = null;
+    }
     if (this.db) {
       this.db.close();
+      this.db = null;
     }
+    this.opening = null;
+  }
+}
+
+// The request an operation replays, and the entity it is ordered with: a
+// product's counts and edits replay in the order they were made
+function operationRequest(id: string, type: PendingOperation['type'], entity: string, data: OperationData) {
+  const endpoint = OPERATION_ENDPOINTS[entity] ?? `/api/${entity}s`;
+  const productId = entity === 'product' ? data?.id : data?.product_id ?? data?.productId;
+
+  return {
+    method: OPERATION_METHODS[type],
+    url: type === 'DELETE' ? `${endpoint}?id=${encodeURIComponent(data?.id)}` : endpoint,
+    entity_key: productId ? `product:${productId}` : `${entity}:${id}`
+  };
+}
+
+// Page and service worker drain the same outbox one at a time; a drain
+// waits for the other to finish, then picks up whatever it left
+async function withOutboxLock<T>(drain: () => Promise<T>): Promise<T> {
+  if (!('locks' in navigator)) return drain();
+  return navigator.locks.request(OUTBOX_LOCK, drain);
+}
+
+// Server product row in the shape cacheProducts stores
+function toCachedProduct(product: Record<string, any>): CachedProduct {
+  const image = Array.isArray(product.images) ? product.images[0] : undefined;
+  return {
+    id: product.id,
+    name: product.name,
+    barcode: product.barcode ?? undefined,
+    sku: product.sku ?? undefined,
+    quantity: Number(product.current_quantity ?? 0),
+    category: product.category ?? undefined,
+    price: product.sell_price ?? undefined,
+    image_url: typeof image === 'string' ? image : image?.url,
+    updated_at: product.updated_at,
+    synced: true
+  };
+}
+
+// What to cache for a server product row. A local copy with edits not yet
+// synced takes the server's other fields; the edited ones are merged on
+// replay. Null when the local copy must be left as it is.
+function withLocalEdits(
+  local: CachedProduct | undefined,
+  product: Record<string, any>
+): CachedProduct | null {
+  if (!local || local.synced) return toCachedProduct(product);
+  if (!local.base) return null;
+
+  const edited = Object.fromEntries(Object.keys(local.base).map(field => [field, local[field]]));
+  return { ...toCachedProduct(product), ...edited, base: local.base, synced: false };
+}
+
+/**
+ * Field-by-field comparison of a rejected change with what the server holds,
+ * for 409 conflicts. Count conflicts report the server's quantity as
+ * `actual` against the quantity the count was based on.
+ */
+export function conflictDiff(operation: FailedOperation): ConflictField[] {
+  if (operation.status !== 409) return [];
+
+  // Field-level merge conflicts list only the fields both sides changed
+  const conflicts: FieldConflict[] | undefined = operation.response?.conflicts;
+  if (Array.isArray(conflicts)) {
+    return conflicts.map(({ field, local, server }) => ({ field, local, server, differs: true }));
+  }
+
+  const conflict = operation.response?.conflict_data;
+  const server = conflict && 'actual' in conflict
+    ? { expected_previous_quantity: conflict.actual }
+    : conflict || operation.response?.current || operation.response?.data || {};
+  const local = operation.data || {};
+
+  return Array.from(new Set([...Object.keys(local), ...Object.keys(server)]))
+    .map(field => ({
+      field,
+      local: local[field],
+      server: server[field],
+      differs: field in server && JSON.stringify(local[field]) !== JSON.stringify(server[field])
+    }));
+}
+
+// Retrying after a merge conflict keeps this device's values: the server's
+// values become the base, so the fields no longer count as changed there
+function rebaseOnConflicts(data: OperationData, status: number | null, response: any) {
+  const conflicts: FieldConflict[] | undefined = response?.conflicts;
+  if (status !== 409 || !Array.isArray(conflicts) || !data?.base) return data;
+
+  const base = { ...data.base };
+  for (const conflict of conflicts) {
+    base[conflict.field] = conflict.server;
   }
+  return { ...data, base };
 }
 
 // Singleton instance
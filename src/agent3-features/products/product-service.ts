@@ -79,13 +79,19 @@ export class ProductService {
   }
 
   /**
-   * Update an existing product
+   * Update an existing product. A new current_quantity is posted to the
+   * stock journal as an adjustment; the column itself only follows it.
    */
   static async updateProduct(productId: string, updates: ProductUpdate): Promise<Product> {
     try {
+      const { current_quantity, ...fields } = updates;
+      if (current_quantity !== undefined) {
+        await ProductService.updateProductQuantity(productId, current_quantity);
+      }
+
       const { data, error } = await supabase
         .from('products')
-        .update(updates)
+        .update(fields)
         .eq('id', productId)
         .select()
         .single();
@@ -199,10 +205,24 @@ export class ProductService {
    */
   static async updateProductQuantity(productId: string, newQuantity: number): Promise<Product> {
     try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      // The journal posts the difference and updates current_quantity
+      const { error: movementError } = await supabase.rpc('set_stock_quantity', {
+        p_product_id: productId,
+        p_quantity: newQuantity,
+        p_reason: 'adjust',
+        p_user_id: user?.id || null
+      });
+
+      if (movementError) {
+        console.error('Error adjusting product quantity:', movementError);
+        throw new Error(`Failed to update product quantity: ${movementError.message}`);
+      }
+
       const { data, error } = await supabase
         .from('products')
         .update({ 
-          current_quantity: newQuantity,
           last_accessed: new Date().toISOString(),
           access_count: supabase.rpc('increment', { row_id: productId, column_name: 'access_count' })
         })
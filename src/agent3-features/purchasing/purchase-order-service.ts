@@ -0,0 +1,548 @@
+/**
+ * Purchase Order Service
+ * Manages purchase orders from reorder suggestion through scan-based receiving
+ */
+
+import { supabaseAdmin } from '@/agent1-foundation/database/supabase-client';
+import { eventBus } from '@/shared/events/event-bus';
+import { parseGs1, gtinLookupCodes } from '@/shared/barcode/gs1';
+import type { ReorderSuggestion } from '../inventory/types';
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'closed';
+
+export interface PurchaseOrder {
+  id: string;
+  business_id: string;
+  po_number: string;
+  supplier_id?: string;
+  supplier_name: string;
+  status: PurchaseOrderStatus;
+  expected_date?: string;
+  receive_location_id?: string;
+  notes?: string;
+  created_by?: string;
+  sent_at?: string;
+  received_at?: string;
+  closed_at?: string;
+  created_at: string;
+  updated_at: string;
+  lines?: PurchaseOrderLine[];
+}
+
+export interface PurchaseOrderLine {
+  id: string;
+  purchase_order_id: string;
+  product_id: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost?: number;
+  expected_date?: string;
+  source: 'manual' | 'reorder_suggestion' | 'unexpected';
+  notes?: string;
+  product?: { name: string; sku?: string; barcode?: string };
+}
+
+export interface NewPurchaseOrder {
+  business_id: string;
+  supplier_id?: string;
+  supplier_name: string;
+  expected_date?: string;
+  receive_location_id?: string;
+  notes?: string;
+  created_by?: string;
+  lines: NewPurchaseOrderLine[];
+}
+
+export interface NewPurchaseOrderLine {
+  product_id: string;
+  quantity_ordered: number;
+  unit_cost?: number;
+  expected_date?: string;
+  source?: PurchaseOrderLine['source'];
+  notes?: string;
+}
+
+export interface ReceiveScanOptions {
+  quantity?: number; // In the scanned unit; a case barcode receives its base units
+  userId?: string;
+  locationId?: string;
+  allowUnexpected?: boolean;
+  lotNumber?: string; // Overrides the lot read from a GS1 barcode
+  expiryDate?: string; // YYYY-MM-DD
+  serialNumber?: string; // Serialized products; receives a single unit
+}
+
+export interface ReceiptResult {
+  purchase_order_id: string;
+  line_id: string;
+  product_id: string;
+  product_name: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  quantity_on_hand: number;
+  variance: number;
+  receipt_status: ReceiptVarianceStatus;
+  order_status: PurchaseOrderStatus;
+  unexpected: boolean;
+  lot_number: string | null;
+  expiry_date: string | null;
+  unit_name: string;
+  base_quantity: number; // Scanned quantity converted to base units
+}
+
+export type ReceiptVarianceStatus = 'under' | 'complete' | 'over';
+
+export interface ReceivingDiscrepancy {
+  line_id: string;
+  product_id: string;
+  product_name: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  variance: number;
+  type: 'under' | 'over';
+}
+
+interface ScannedProduct {
+  id: string;
+  name: string;
+  unitName: string;
+  conversionFactor: number;
+}
+
+// Manual status changes; receiving statuses are set by receive_purchase_order_line
+const ALLOWED_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ['sent', 'closed'],
+  sent: ['closed'],
+  partially_received: ['closed'],
+  received: ['closed'],
+  closed: []
+};
+
+class PurchaseOrderService {
+  /**
+   * Create a purchase order with its lines
+   */
+  async createPurchaseOrder(order: NewPurchaseOrder): Promise<PurchaseOrder> {
+    if (order.lines.length === 0) {
+      throw new Error('A purchase order needs at least one line');
+    }
+
+    const productIds = [...new Set(order.lines.map(line => line.product_id))];
+    const { data: products, error: productsError } = await supabaseAdmin
+      .from('products')
+      .select('id')
+      .eq('business_id', order.business_id)
+      .in('id', productIds);
+
+    if (productsError) throw productsError;
+    if ((products || []).length !== productIds.length) {
+      throw new Error('Unknown product on purchase order');
+    }
+
+    // po_number is assigned by the assign_po_number trigger
+    const { data: created, error } = await supabaseAdmin
+      .from('purchase_orders')
+      .insert({
+        business_id: order.business_id,
+        supplier_id: order.supplier_id,
+        supplier_name: order.supplier_name,
+        expected_date: order.expected_date,
+        receive_location_id: order.receive_location_id,
+        notes: order.notes,
+        created_by: order.created_by,
+        status: 'draft'
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const { data: lines, error: linesError } = await supabaseAdmin
+      .from('purchase_order_lines')
+      .insert(order.lines.map(line => ({
+        purchase_order_id: created.id,
+        product_id: line.product_id,
+        quantity_ordered: line.quantity_ordered,
+        unit_cost: line.unit_cost,
+        expected_date: line.expected_date,
+        source: line.source || 'manual',
+        notes: line.notes
+      })))
+      .select();
+
+    if (linesError) {
+      // Don't leave an empty header behind
+      await supabaseAdmin
+        .from('purchase_orders')
+        .delete()
+        .eq('id', created.id)
+        .eq('business_id', order.business_id);
+      throw linesError;
+    }
+
+    eventBus.broadcast('purchasing:order:created', {
+      purchaseOrderId: created.id,
+      businessId: order.business_id
+    });
+
+    return { ...created, lines: lines || [] };
+  }
+
+  /**
+   * Convert reorder suggestions into a single draft purchase order
+   */
+  async createDraftFromSuggestions(
+    businessId: string,
+    suggestions: ReorderSuggestion[],
+    options: {
+      supplier_id?: string;
+      supplier_name: string;
+      created_by?: string;
+      receive_location_id?: string;
+      notes?: string;
+    }
+  ): Promise<PurchaseOrder> {
+    const actionable = suggestions.filter(s => s.suggestedReorderQuantity > 0);
+    if (actionable.length === 0) {
+      throw new Error('No suggestions with a positive reorder quantity');
+    }
+
+    const { data: products } = await supabaseAdmin
+      .from('products')
+      .select('id, unit_cost')
+      .eq('business_id', businessId)
+      .in('id', actionable.map(s => s.productId));
+
+    const unitCosts = new Map<string, number>(
+      (products || []).map(p => [p.id, p.unit_cost])
+    );
+
+    const lines: NewPurchaseOrderLine[] = actionable.map(s => ({
+      product_id: s.productId,
+      quantity_ordered: Math.ceil(s.suggestedReorderQuantity),
+      unit_cost: s.unitCost ?? unitCosts.get(s.productId) ?? undefined,
+      expected_date: this.addDays(new Date(), s.leadTimeDays),
+      source: 'reorder_suggestion',
+      notes: `Suggested (${s.reasonCode}), ${Math.round(s.confidence * 100)}% confidence`
+    }));
+
+    // The order is expected when its slowest line arrives
+    const expected_date = lines
+      .map(l => l.expected_date!)
+      .sort()
+      .pop();
+
+    return this.createPurchaseOrder({
+      business_id: businessId,
+      supplier_id: options.supplier_id,
+      supplier_name: options.supplier_name,
+      expected_date,
+      receive_location_id: options.receive_location_id,
+      notes: options.notes,
+      created_by: options.created_by,
+      lines
+    });
+  }
+
+  /**
+   * Convert reorder suggestions into one draft per preferred supplier
+   */
+  async createDraftsBySupplier(
+    businessId: string,
+    suggestions: ReorderSuggestion[],
+    options: { created_by?: string; receive_location_id?: string } = {}
+  ): Promise<{ orders: PurchaseOrder[]; unassigned: string[] }> {
+    const bySupplier = new Map<string, ReorderSuggestion[]>();
+    const unassigned: string[] = [];
+
+    suggestions
+      .filter(s => s.suggestedReorderQuantity > 0)
+      .forEach(s => {
+        if (!s.supplierId) {
+          unassigned.push(s.productId);
+          return;
+        }
+        bySupplier.set(s.supplierId, [...(bySupplier.get(s.supplierId) || []), s]);
+      });
+
+    const orders: PurchaseOrder[] = [];
+    for (const [supplierId, group] of bySupplier) {
+      orders.push(await this.createDraftFromSuggestions(businessId, group, {
+        ...options,
+        supplier_id: supplierId,
+        supplier_name: group[0].supplierName || 'Unknown supplier'
+      }));
+    }
+
+    return { orders, unassigned };
+  }
+
+  /**
+   * Get a purchase order with its lines
+   */
+  async getPurchaseOrder(
+    businessId: string,
+    purchaseOrderId: string
+  ): Promise<PurchaseOrder | null> {
+    const { data, error } = await supabaseAdmin
+      .from('purchase_orders')
+      .select(`
+        *,
+        lines:purchase_order_lines(
+          *,
+          product:products(name, sku, barcode)
+        )
+      `)
+      .eq('id', purchaseOrderId)
+      .eq('business_id', businessId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Get purchase orders that can still be received against
+   */
+  async getOpenPurchaseOrders(businessId: string): Promise<PurchaseOrder[]> {
+    const { data, error } = await supabaseAdmin
+      .from('purchase_orders')
+      .select('*')
+      .eq('business_id', businessId)
+      .in('status', ['sent', 'partially_received', 'received'])
+      .order('expected_date', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * List purchase orders for a business, optionally by status
+   */
+  async listPurchaseOrders(
+    businessId: string,
+    status?: PurchaseOrderStatus[]
+  ): Promise<PurchaseOrder[]> {
+    let query = supabaseAdmin
+      .from('purchase_orders')
+      .select('*')
+      .eq('business_id', businessId)
+      .order('created_at', { ascending: false });
+
+    if (status && status.length > 0) {
+      query = query.in('status', status);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Move a purchase order to a new status (send, close)
+   */
+  async updateStatus(
+    businessId: string,
+    purchaseOrderId: string,
+    status: PurchaseOrderStatus
+  ): Promise<PurchaseOrder> {
+    const order = await this.getPurchaseOrder(businessId, purchaseOrderId);
+    if (!order) throw new Error('Purchase order not found');
+
+    if (!ALLOWED_TRANSITIONS[order.status].includes(status)) {
+      throw new Error(`Cannot change purchase order from ${order.status} to ${status}`);
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdmin
+      .from('purchase_orders')
+      .update({
+        status,
+        ...(status === 'sent' ? { sent_at: now } : {}),
+        ...(status === 'closed' ? { closed_at: now } : {})
+      })
+      .eq('id', purchaseOrderId)
+      .eq('business_id', businessId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    eventBus.broadcast(`purchasing:order:${status}`, {
+      purchaseOrderId,
+      discrepancies: status === 'closed' ? this.getDiscrepancies(order) : []
+    });
+
+    return data;
+  }
+
+  /**
+   * Receive a scanned barcode against an open purchase order.
+   * Products not on the order are added as unexpected lines (over-receipt).
+   * GS1 barcodes are matched on their GTIN and supply the lot and expiry.
+   */
+  async receiveScan(
+    businessId: string,
+    purchaseOrderId: string,
+    barcode: string,
+    options: ReceiveScanOptions = {}
+  ): Promise<ReceiptResult> {
+    const quantity = options.quantity ?? 1;
+    const allowUnexpected = options.allowUnexpected ?? true;
+
+    const order = await this.getPurchaseOrder(businessId, purchaseOrderId);
+    if (!order) throw new Error('Purchase order not found');
+
+    const gs1 = parseGs1(barcode);
+    const lotNumber = options.lotNumber || gs1?.lotNumber || null;
+    const expiryDate = options.expiryDate || gs1?.expiryDate || null;
+
+    const codes = gs1?.gtin ? gtinLookupCodes(gs1.gtin) : [barcode];
+    let scanned: ScannedProduct | null = null;
+    for (const code of codes) {
+      scanned = await this.resolveScannedCode(order.business_id, code);
+      if (scanned) break;
+    }
+    if (!scanned) {
+      throw new Error(`No product found for barcode ${barcode}`);
+    }
+    const product = scanned;
+
+    let line = order.lines?.find(l => l.product_id === product.id);
+    const unexpected = !line || line.source === 'unexpected';
+
+    if (!line) {
+      if (!allowUnexpected) {
+        throw new Error(`${product.name} is not on purchase order ${order.po_number}`);
+      }
+
+      const { data: added, error } = await supabaseAdmin
+        .from('purchase_order_lines')
+        .insert({
+          purchase_order_id: order.id,
+          product_id: product.id,
+          quantity_ordered: 0,
+          source: 'unexpected',
+          notes: 'Received without being ordered'
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      line = added;
+    }
+
+    const baseQuantity = quantity * scanned.conversionFactor;
+
+    const { data: receipt, error } = await supabaseAdmin.rpc('receive_purchase_order_line', {
+      p_line_id: line!.id,
+      p_quantity: baseQuantity,
+      p_user_id: options.userId || null,
+      p_location_id: options.locationId || null,
+      p_barcode: barcode,
+      p_lot_number: lotNumber,
+      p_expiry_date: expiryDate,
+      p_serial_number: options.serialNumber || gs1?.serialNumber || null
+    });
+
+    if (error) throw error;
+
+    const variance = receipt.quantity_received - receipt.quantity_ordered;
+    const result: ReceiptResult = {
+      purchase_order_id: order.id,
+      line_id: line!.id,
+      product_id: product.id,
+      product_name: product.name,
+      quantity_ordered: receipt.quantity_ordered,
+      quantity_received: receipt.quantity_received,
+      quantity_on_hand: receipt.quantity_after,
+      variance,
+      receipt_status: variance < 0 ? 'under' : variance > 0 ? 'over' : 'complete',
+      order_status: receipt.order_status,
+      unexpected,
+      lot_number: lotNumber,
+      expiry_date: expiryDate,
+      unit_name: scanned.unitName,
+      base_quantity: baseQuantity
+    };
+
+    eventBus.broadcast('purchasing:receipt:recorded', result);
+    eventBus.broadcast(`inventory:${product.id}`, {
+      type: 'stock_received',
+      purchaseOrderId: order.id,
+      quantity: baseQuantity,
+      quantityOnHand: receipt.quantity_after
+    });
+
+    return result;
+  }
+
+  /**
+   * Lines where the received quantity differs from what was ordered
+   */
+  async getReceivingDiscrepancies(
+    businessId: string,
+    purchaseOrderId: string
+  ): Promise<ReceivingDiscrepancy[]> {
+    const order = await this.getPurchaseOrder(businessId, purchaseOrderId);
+    if (!order) throw new Error('Purchase order not found');
+
+    return this.getDiscrepancies(order);
+  }
+
+  private getDiscrepancies(order: PurchaseOrder): ReceivingDiscrepancy[] {
+    return (order.lines || [])
+      .filter(line => line.quantity_received !== line.quantity_ordered)
+      .map(line => ({
+        line_id: line.id,
+        product_id: line.product_id,
+        product_name: line.product?.name || 'Unknown',
+        quantity_ordered: line.quantity_ordered,
+        quantity_received: line.quantity_received,
+        variance: line.quantity_received - line.quantity_ordered,
+        type: line.quantity_received > line.quantity_ordered ? 'over' as const : 'under' as const
+      }));
+  }
+
+  // Matches unit barcodes (cases, packs) first, then the product barcode or
+  // SKU, since suppliers often label cartons with our SKU
+  private async resolveScannedCode(
+    businessId: string,
+    code: string
+  ): Promise<ScannedProduct | null> {
+    const { data: resolution } = await supabaseAdmin.rpc('resolve_scanned_code', {
+      p_business_id: businessId,
+      p_code: code
+    });
+
+    if (!resolution) return null;
+
+    const { data: product } = await supabaseAdmin
+      .from('products')
+      .select('id, name')
+      .eq('id', resolution.product_id)
+      .eq('business_id', businessId)
+      .single();
+
+    if (!product) return null;
+
+    return {
+      id: product.id,
+      name: product.name,
+      unitName: resolution.unit_name,
+      conversionFactor: Number(resolution.conversion_factor)
+    };
+  }
+
+  private addDays(date: Date, days: number): string {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result.toISOString().split('T')[0];
+  }
+}
+
+export const purchaseOrderService = new PurchaseOrderService();
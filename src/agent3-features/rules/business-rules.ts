@@ -1,5 +1,5 @@
 import { Foundation_To_Features, ProductSchema } from '../../shared/contracts/agent-interfaces';
-import { ValidationResult, ValidationError, Alert, AlertType } from '../inventory/types';
+import { ValidationResult, ValidationError, Alert, AlertType, FefoPick, FefoPickSuggestion } from '../inventory/types';
 
 // Business rules configuration
 interface BusinessRuleConfig {
@@ -132,6 +132,58 @@ export class BusinessRules {
     return alerts;
   }
 
+  // FEFO picking: take from the lots that expire first, never from expired ones
+  async suggestFefoPicks(
+    productId: string,
+    quantity: number,
+    options: { locationId?: string; asOf?: Date } = {}
+  ): Promise<FefoPickSuggestion> {
+    const asOf = options.asOf || new Date();
+    const today = Date.UTC(asOf.getFullYear(), asOf.getMonth(), asOf.getDate());
+    const lots = await this.foundation.database.locations.getLots(productId, options.locationId);
+
+    const withDays = lots
+      .filter(lot => lot.quantity > 0)
+      .map(lot => ({
+        lot,
+        daysUntilExpiry: lot.expiryDate
+          ? Math.round((new Date(`${lot.expiryDate}T00:00:00Z`).getTime() - today) / (24 * 60 * 60 * 1000))
+          : undefined
+      }))
+      // Earliest expiry first; lots without an expiry date last
+      .sort((a, b) => (a.daysUntilExpiry ?? Infinity) - (b.daysUntilExpiry ?? Infinity));
+
+    const picks: FefoPick[] = [];
+    let remaining = quantity;
+    let skippedExpiredQuantity = 0;
+
+    for (const { lot, daysUntilExpiry } of withDays) {
+      if (daysUntilExpiry !== undefined && daysUntilExpiry < 0) {
+        skippedExpiredQuantity += lot.quantity;
+        continue;
+      }
+      if (remaining <= 0) break;
+
+      const take = Math.min(lot.quantity, remaining);
+      picks.push({
+        lotNumber: lot.lotNumber,
+        expiryDate: lot.expiryDate,
+        locationId: lot.locationId,
+        quantity: take,
+        daysUntilExpiry
+      });
+      remaining -= take;
+    }
+
+    return {
+      productId,
+      requestedQuantity: quantity,
+      picks,
+      shortfall: Math.max(0, remaining),
+      skippedExpiredQuantity
+    };
+  }
+
   // Default business rules
   private initializeDefaultRules(): void {
     // Negative quantity validation
@@ -0,0 +1,162 @@
+import {
+  detectAnomalies,
+  detectStockDrops,
+  detectCountSwings,
+  detectAdjustmentPatterns,
+  anomalyInsight,
+  MovementRecord,
+  CountRecord
+} from '../../../agent3-features/analytics/anomaly-detection';
+
+describe('Anomaly detection', () => {
+  const now = new Date('2024-06-01T12:00:00Z');
+  const DAY = 24 * 60 * 60 * 1000;
+  const products = ['p1', 'p2', 'p3', 'p4', 'p5'];
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+  // mulberry32: a small seeded generator so the synthetic history is the same on every run
+  const random = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // Eight weeks of small daily losses and weekly counts that land close to the record
+  const history = (seed: number) => {
+    const next = random(seed);
+    const movements: MovementRecord[] = [];
+    const counts: CountRecord[] = [];
+
+    for (let day = 57; day >= 0; day--) {
+      for (const productId of products) {
+        const at = new Date(now.getTime() - day * DAY - next() * 12 * 60 * 60 * 1000);
+        if (at > now || at < new Date(now.getTime() - 57 * DAY)) continue;
+
+        if (next() < 0.3) {
+          movements.push({
+            id: `m-${seed}-${movements.length}`,
+            productId,
+            reason: 'count_correction',
+            quantityChange: -(1 + Math.floor(next() * 2)),
+            createdAt: at
+          });
+        }
+        if (day % 7 === 3) {
+          counts.push({
+            countId: `c-${seed}-${counts.length}`,
+            productId,
+            expectedQuantity: 100,
+            countedQuantity: 100 + Math.floor(next() * 5) - 2,
+            countedBy: 'u1',
+            countedAt: at
+          });
+        }
+      }
+    }
+
+    return { movements, counts };
+  };
+
+  const adjustment = (id: string, userId: string, productId: string, units: number, at: Date): MovementRecord => ({
+    id,
+    productId,
+    reason: 'adjust',
+    quantityChange: -units,
+    performedBy: userId,
+    createdAt: at
+  });
+
+  test('raises nothing for ordinary day-to-day noise', () => {
+    for (const seed of [1, 2, 3]) {
+      const { movements, counts } = history(seed);
+      expect(detectAnomalies(movements, counts, { now })).toEqual([]);
+    }
+  });
+
+  test('flags a sudden stock drop as suspected shrinkage', () => {
+    const { movements } = history(7);
+    movements.push({ id: 'theft', productId: 'p2', reason: 'write_off', quantityChange: -12, createdAt: hoursAgo(3) });
+
+    const drops = detectStockDrops(movements, { now });
+    expect(drops).toHaveLength(1);
+    expect(drops[0]).toMatchObject({ kind: 'stock_drop', productId: 'p2', severity: 'severe' });
+    expect(drops[0].actualValue).toBeGreaterThanOrEqual(12);
+
+    const insight = anomalyInsight(drops[0], now);
+    expect(insight.type).toBe('shrinkage_suspected');
+    expect(insight.severity).toBe('severe');
+    expect(insight.impact).toBe('high');
+    expect(insight.category).toBe('risk_management');
+  });
+
+  test('flags a count far from the expected quantity', () => {
+    const { counts } = history(11);
+    counts.push({
+      countId: 'swing',
+      productId: 'p4',
+      expectedQuantity: 100,
+      countedQuantity: 40,
+      countedBy: 'u3',
+      countedAt: hoursAgo(1)
+    });
+
+    const swings = detectCountSwings(counts, { now });
+    expect(swings).toHaveLength(1);
+    expect(swings[0]).toMatchObject({ kind: 'count_swing', productId: 'p4', userId: 'u3', severity: 'moderate' });
+    expect(anomalyInsight(swings[0], now).type).toBe('count_anomaly');
+  });
+
+  test('tolerates swings on products that are always counted loosely', () => {
+    const next = random(5);
+    const counts: CountRecord[] = Array.from({ length: 8 }, (_, week) => ({
+      countId: `loose-${week}`,
+      productId: 'p1',
+      expectedQuantity: 100,
+      countedQuantity: 100 + Math.round((next() - 0.5) * 60),
+      countedAt: new Date(now.getTime() - (week * 7 + 2) * DAY)
+    }));
+    counts.push({ countId: 'latest', productId: 'p1', expectedQuantity: 100, countedQuantity: 80, countedAt: hoursAgo(2) });
+
+    expect(detectCountSwings(counts, { now })).toEqual([]);
+  });
+
+  test('flags a user who adjusts away far more stock than their peers', () => {
+    const movements = [
+      ...['u1', 'u2', 'u3'].map((userId, i) => adjustment(`peer-${i}`, userId, products[i], 4, hoursAgo(48 + i))),
+      ...Array.from({ length: 8 }, (_, i) => adjustment(`heavy-${i}`, 'u4', products[i % 5], 5, hoursAgo(24 * (i + 1))))
+    ];
+
+    const anomalies = detectAdjustmentPatterns(movements, { now });
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({ kind: 'adjustment_volume', userId: 'u4', actualValue: 40, expectedValue: 4 });
+    expect(anomalyInsight(anomalies[0], now).type).toBe('adjustment_anomaly');
+  });
+
+  test('flags the same product adjusted down again and again', () => {
+    const movements = Array.from({ length: 5 }, (_, i) => adjustment(`rep-${i}`, 'u2', 'p3', 1, hoursAgo(24 * (i * 3 + 1))));
+
+    const anomalies = detectAdjustmentPatterns(movements, { now });
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({
+      kind: 'repeated_adjustment',
+      userId: 'u2',
+      productId: 'p3',
+      severity: 'moderate',
+      fingerprint: 'repeated_adjustment:u2:p3:rep-0'
+    });
+  });
+
+  test('gives the same findings and fingerprints for the same history', () => {
+    const run = () => {
+      const { movements, counts } = history(42);
+      movements.push({ id: 'theft', productId: 'p5', reason: 'adjust', quantityChange: -20, performedBy: 'u2', createdAt: now });
+      counts.push({ countId: 'swing', productId: 'p1', expectedQuantity: 100, countedQuantity: 10, countedAt: now });
+      return detectAnomalies(movements, counts, { now });
+    };
+
+    const first = run();
+    expect(first.map(a => a.fingerprint)).toEqual(['stock_drop:p5:theft', 'count_swing:swing']);
+    expect(run()).toEqual(first);
+  });
+});
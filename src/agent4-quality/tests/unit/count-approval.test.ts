@@ -0,0 +1,156 @@
+import { countingService } from '../../../agent3-features/inventory/counting-service';
+
+// Single-row reads on a table resolve to that table's row in `rows`; other
+// queries resolve empty. Reads are recorded in `reads` and inserts and
+// updates in `writes`, each with the client that made them ('anon' for
+// supabase, 'server' for supabaseAdmin).
+jest.mock('../../../agent1-foundation/database/supabase-client', () => {
+  const rows: Record<string, unknown> = {};
+  const reads: Array<{ client: string; table: string }> = [];
+  const writes: Array<{ client: string; table: string; method: string; values: any }> = [];
+  const query = (client: string, table: string): any => new Proxy({}, {
+    get: (_, method) => {
+      if (method === 'then') {
+        return (resolve: (result: unknown) => void) => resolve({ data: null, error: null });
+      }
+      if (method === 'single' || method === 'maybeSingle') {
+        reads.push({ client, table });
+        return async () => ({ data: rows[table] ?? null, error: null });
+      }
+      return (values: unknown) => {
+        if (method === 'insert' || method === 'update') writes.push({ client, table, method, values });
+        return query(client, table);
+      };
+    }
+  });
+  const createClient = (client: string) => ({
+    from: (table: string) => query(client, table),
+    auth: { getUser: async () => ({ data: { user: { id: 'counter-1' } } }) }
+  });
+
+  return { rows, reads, writes, supabase: createClient('anon'), supabaseAdmin: createClient('server') };
+});
+
+const { rows, reads, writes } = jest.requireMock('../../../agent1-foundation/database/supabase-client');
+
+describe('Count approval', () => {
+  const count = { product_id: 'p1', quantity: 104, counted_by: 'counter-1' };
+
+  beforeEach(() => {
+    for (const table of Object.keys(rows)) delete rows[table];
+    reads.splice(0);
+    writes.splice(0);
+    rows.products = { current_quantity: 100 };
+  });
+
+  test('posts every count in a session that does not require approval', async () => {
+    rows.counting_sessions = { settings: { require_approval: false, approval_threshold: 5 } };
+
+    const approval = await countingService.getCountApproval('business-1', 'session-1', { ...count, quantity: 40 });
+
+    expect(approval).toEqual({ posting_status: 'posted', recount_of_id: null, auto_approved: false });
+  });
+
+  test('auto-approves a count within the variance threshold', async () => {
+    rows.counting_sessions = { settings: { require_approval: true, approval_threshold: 5 } };
+
+    const approval = await countingService.getCountApproval('business-1', 'session-1', count);
+
+    expect(approval).toEqual({ posting_status: 'posted', recount_of_id: null, auto_approved: true });
+  });
+
+  test('reads the session and stock through the server client', async () => {
+    rows.counting_sessions = { settings: { require_approval: true, approval_threshold: 5 } };
+
+    await countingService.getCountApproval('business-1', 'session-1', { ...count, location_id: 'shelf-1' });
+
+    expect(reads.map((read: { table: string }) => read.table)).toEqual(['counting_sessions', 'recount_tasks', 'stock_levels']);
+    expect(reads.every((read: { client: string }) => read.client === 'server')).toBe(true);
+  });
+
+  test('holds a count beyond the threshold for a supervisor', async () => {
+    rows.counting_sessions = { settings: { require_approval: true, approval_threshold: 5 } };
+
+    expect(await countingService.getCountApproval('business-1', 'session-1', { ...count, quantity: 94 }))
+      .toMatchObject({ posting_status: 'pending_approval', auto_approved: false });
+    expect(await countingService.getCountApproval('business-1', 'session-1', { ...count, quantity: 106 }))
+      .toMatchObject({ posting_status: 'pending_approval', auto_approved: false });
+  });
+
+  test('compares against the stock at the counted location', async () => {
+    rows.counting_sessions = { settings: { require_approval: true, approval_threshold: 5 } };
+    rows.stock_levels = { quantity: 20 };
+
+    const approval = await countingService.getCountApproval('business-1', 'session-1', { ...count, location_id: 'shelf-1' });
+
+    expect(approval.posting_status).toBe('pending_approval');
+  });
+
+  test('holds any variance when the threshold is zero', async () => {
+    rows.counting_sessions = { settings: { require_approval: true, approval_threshold: 0 } };
+
+    expect((await countingService.getCountApproval('business-1', 'session-1', { ...count, quantity: 100 })).posting_status).toBe('posted');
+    expect((await countingService.getCountApproval('business-1', 'session-1', { ...count, quantity: 101 })).posting_status).toBe('pending_approval');
+  });
+
+  test('links a recount to the count it replaces', async () => {
+    rows.counting_sessions = { settings: { require_approval: true, approval_threshold: 5 } };
+    rows.recount_tasks = { original_count_id: 'count-1' };
+
+    const approval = await countingService.getCountApproval('business-1', 'session-1', { ...count, quantity: 70 });
+
+    expect(approval).toEqual({ posting_status: 'pending_approval', recount_of_id: 'count-1', auto_approved: false });
+  });
+});
+
+describe('Count posting', () => {
+  const entry = {
+    product_id: 'p1',
+    quantity: 70,
+    previous_quantity: 100,
+    difference: -30,
+    location: 'A1',
+    verified: true,
+    timestamp: '2024-01-15T09:30:00Z'
+  };
+  const written = (table: string, method: string) =>
+    writes.filter((w: { table: string; method: string }) => w.table === table && w.method === method);
+
+  beforeEach(() => {
+    for (const table of Object.keys(rows)) delete rows[table];
+    reads.splice(0);
+    writes.splice(0);
+    rows.products = { business_id: 'business-1', current_quantity: 100, is_serialized: false };
+    rows.inventory = { quantity: 100 };
+    rows.counting_sessions = { settings: { require_approval: true, approval_threshold: 5 } };
+  });
+
+  test('holds a line beyond the threshold back from stock', async () => {
+    rows.inventory_counts = { id: 'count-1', product_id: 'p1', quantity: 70, previous_quantity: 100 };
+
+    await countingService.submitCount('session-1', entry);
+
+    expect(written('inventory_counts', 'insert')).toEqual([
+      expect.objectContaining({ values: expect.objectContaining({ posting_status: 'pending_approval', counted_by: 'counter-1' }) })
+    ]);
+    expect(written('inventory', 'update')).toEqual([]);
+    expect(written('count_review_decisions', 'insert')).toEqual([]);
+  });
+
+  test('posts a line within the threshold and records the auto-approval', async () => {
+    rows.inventory_counts = { id: 'count-2', product_id: 'p1', quantity: 103, previous_quantity: 100 };
+
+    await countingService.submitCount('session-1', { ...entry, quantity: 103, difference: 3 });
+
+    expect(written('inventory_counts', 'insert')[0].values.posting_status).toBe('posted');
+    expect(written('count_review_decisions', 'insert')[0]).toMatchObject({ client: 'server' });
+    expect(written('count_review_decisions', 'insert')[0].values).toMatchObject({
+      business_id: 'business-1',
+      count_id: 'count-2',
+      decision: 'auto_approved',
+      counted_quantity: 103,
+      expected_quantity: 100
+    });
+    expect(written('inventory', 'update')[0].values).toMatchObject({ quantity: 103 });
+  });
+});
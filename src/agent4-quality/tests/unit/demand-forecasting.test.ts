@@ -0,0 +1,106 @@
+import {
+  dailySeries,
+  forecastDemand,
+  forecastConfidence,
+  monthlySeasonality,
+  meanAbsolutePercentageError,
+  meanAbsoluteScaledError
+} from '../../../agent3-features/analytics/demand-forecasting';
+
+describe('Demand forecasting', () => {
+  // 2024-01-07 is a Sunday
+  const start = new Date('2024-01-07T00:00:00Z');
+  const weekly = [4, 10, 10, 10, 10, 16, 20]; // Sunday first
+
+  const series = (days: number, value: (day: number) => number) => ({
+    start,
+    values: Array.from({ length: days }, (_, day) => value(day))
+  });
+
+  test('fills days without sales with zeros', () => {
+    const result = dailySeries(
+      [{ date: '2024-01-08', quantity: 3 }, { date: '2024-01-10', quantity: 5 }],
+      start,
+      new Date('2024-01-11T15:00:00Z')
+    );
+
+    expect(result.values).toEqual([0, 3, 0, 5]);
+  });
+
+  test('follows a weekly pattern with Holt-Winters', () => {
+    const result = forecastDemand(series(84, day => weekly[day % 7]), { horizonDays: 14 });
+
+    expect(result.method).toBe('holt_winters');
+    expect(result.daily).toHaveLength(14);
+    expect(result.daily[0].date).toBe('2024-03-31'); // The Sunday after the history
+    result.daily.forEach((point, i) => {
+      expect(point.mean).toBeCloseTo(weekly[i % 7], 0);
+      expect(point.lower).toBeLessThanOrEqual(point.mean);
+      expect(point.upper).toBeGreaterThanOrEqual(point.mean);
+    });
+    expect(result.total.mean).toBeCloseTo(160, 0);
+    expect(result.weeklyIndices[6]).toBeGreaterThan(result.weeklyIndices[0]);
+  });
+
+  test('backtests a perfect model to near-zero error', () => {
+    const result = forecastDemand(series(84, day => weekly[day % 7]), { horizonDays: 14 });
+
+    expect(result.accuracy.holdoutDays).toBe(14);
+    expect(result.accuracy.mape).toBeLessThan(1);
+    expect(result.accuracy.mase).toBeLessThan(0.1);
+    expect(forecastConfidence(result)).toBeGreaterThan(0.9);
+  });
+
+  test('widens intervals on noisy demand', () => {
+    const noise = [3, -4, 1, 5, -2, -3, 4, 0, -5, 2, 3, -1, 4, -4, 1];
+    const steady = forecastDemand(series(84, () => 10), { horizonDays: 7 });
+    const noisy = forecastDemand(series(84, day => 10 + noise[day % noise.length]), { horizonDays: 7 });
+
+    const width = (r: typeof steady) => r.total.upper - r.total.lower;
+    expect(width(noisy)).toBeGreaterThan(width(steady));
+    expect(noisy.total.lower).toBeLessThan(noisy.total.mean);
+  });
+
+  test('uses Croston for intermittent demand', () => {
+    // Six units every fourth day: 1.5 a day on average
+    const result = forecastDemand(series(120, day => (day % 4 === 0 ? 6 : 0)), { horizonDays: 8 });
+
+    expect(result.method).toBe('croston');
+    expect(result.daily[0].mean).toBeGreaterThan(1);
+    expect(result.daily[0].mean).toBeLessThan(1.6);
+    expect(result.daily.every(p => p.mean === result.daily[0].mean)).toBe(true);
+    expect(result.daily[0].lower).toBeGreaterThanOrEqual(0);
+  });
+
+  test('reports insufficient history instead of guessing', () => {
+    const result = forecastDemand(series(10, () => 2), { horizonDays: 7 });
+
+    expect(result.method).toBe('insufficient_history');
+    expect(result.accuracy).toEqual({ mape: null, mase: null, holdoutDays: 0 });
+    expect(forecastConfidence(result)).toBe(0);
+  });
+
+  test('estimates annual seasonality from two years of history', () => {
+    // December sells three times as much as any other month
+    const history = series(731, day => (new Date(start.getTime() + day * 86400000).getUTCMonth() === 11 ? 30 : 10));
+
+    expect(monthlySeasonality(series(365, () => 10))).toBeNull();
+
+    const indices = monthlySeasonality(history)!;
+    expect(indices[11] / indices[5]).toBeCloseTo(3, 1);
+
+    const result = forecastDemand(history, { horizonDays: 7 });
+    expect(result.daily[0].date.slice(5, 7)).toBe('01');
+    expect(result.monthlyIndices).toEqual(indices);
+  });
+
+  test('computes MAPE over days with sales and MASE against the naive forecast', () => {
+    expect(meanAbsolutePercentageError([10, 0, 20], [12, 3, 15])).toBeCloseTo(22.5);
+    expect(meanAbsolutePercentageError([0, 0], [1, 1])).toBeNull();
+
+    // Naive in-sample error is 2 per day; forecast error is 1
+    expect(meanAbsoluteScaledError([5, 7], [6, 6], [1, 3, 5, 7], 1)).toBeCloseTo(0.5);
+    expect(meanAbsoluteScaledError([5], [4], [4, 4, 4], 1)).toBeNull();
+    expect(meanAbsoluteScaledError([4], [4], [4, 4, 4], 1)).toBe(0);
+  });
+});
@@ -0,0 +1,63 @@
+import { threeWayMerge, resolveMergeRules, PRODUCT_MERGE_RULES } from '../../../shared/sync/field-merge';
+
+describe('Three-way field merge', () => {
+  const base = { name: 'Widget', price: 10, quantity: 10, category: 'Tools' };
+
+  test('merges edits to different fields', () => {
+    const server = { ...base, name: 'Widget Pro' };
+    const result = threeWayMerge({ price: 10 }, { price: 12 }, server);
+
+    expect(result).toEqual({ changes: { price: 12 }, conflicts: [] });
+  });
+
+  test('skips fields the device did not change or already match the server', () => {
+    const server = { ...base, price: 12 };
+    const result = threeWayMerge({ name: 'Widget', price: 10 }, { name: 'Widget', price: 12 }, server);
+
+    expect(result).toEqual({ changes: {}, conflicts: [] });
+  });
+
+  test('reports fields both sides changed to different values', () => {
+    const server = { ...base, name: 'Widget Pro', price: 11 };
+    const result = threeWayMerge({ name: 'Widget', price: 10 }, { name: 'Widget XL', price: 12 }, server);
+
+    expect(result.changes).toEqual({});
+    expect(result.conflicts).toEqual([
+      { field: 'name', base: 'Widget', local: 'Widget XL', server: 'Widget Pro' },
+      { field: 'price', base: 10, local: 12, server: 11 }
+    ]);
+  });
+
+  test('settles overlapping edits by the field rule', () => {
+    const server = { ...base, quantity: 15, category: 'Hardware', price: 11 };
+    const local = { quantity: 8, category: 'Garden', price: 12 };
+    const result = threeWayMerge(base, local, server, { ...PRODUCT_MERGE_RULES, price: 'server_wins' });
+
+    expect(result).toEqual({ changes: { quantity: 13, category: 'Garden' }, conflicts: [] });
+  });
+
+  test('falls back to a conflict when the additive result is not a valid quantity', () => {
+    const server = { ...base, quantity: 1 };
+    const result = threeWayMerge(base, { quantity: 5 }, server, PRODUCT_MERGE_RULES);
+
+    expect(result.conflicts).toEqual([{ field: 'quantity', base: 10, local: 5, server: 1 }]);
+  });
+
+  test('writes fields without a base or unknown to the server as sent', () => {
+    const result = threeWayMerge({ image_url: null }, { description: 'New', image_url: 'a.png' }, base);
+
+    expect(result).toEqual({ changes: { description: 'New', image_url: 'a.png' }, conflicts: [] });
+  });
+
+  test('treats missing and null as the same value', () => {
+    const result = threeWayMerge({ category: null }, { category: 'Tools' }, { category: undefined });
+
+    expect(result).toEqual({ changes: { category: 'Tools' }, conflicts: [] });
+  });
+
+  test('applies a business\'s rules over the defaults and ignores unknown ones', () => {
+    const rules = resolveMergeRules({ quantity: 'conflict', price: 'server_wins', name: 'newest' });
+
+    expect(rules).toEqual({ ...PRODUCT_MERGE_RULES, quantity: 'conflict', price: 'server_wins' });
+  });
+});
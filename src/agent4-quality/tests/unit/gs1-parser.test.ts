@@ -0,0 +1,61 @@
+import { parseGs1, isValidGtin, gtinLookupCodes, gs1DateToIso } from '../../../shared/barcode/gs1';
+
+describe('GS1 barcode parsing', () => {
+  const GS = '\u001d';
+
+  test('parses GTIN, expiry and lot from raw scanner output', () => {
+    const result = parseGs1(`]C101095011015300031725063010AB-123${GS}2112345`);
+
+    expect(result).not.toBeNull();
+    expect(result!.gtin).toBe('09501101530003');
+    expect(result!.expiryDate).toBe('2025-06-30');
+    expect(result!.lotNumber).toBe('AB-123');
+    expect(result!.serialNumber).toBe('12345');
+  });
+
+  test('parses the bracketed human-readable form', () => {
+    const result = parseGs1('(01)09501101530003(10)LOT42(17)261100');
+
+    expect(result!.gtin).toBe('09501101530003');
+    expect(result!.lotNumber).toBe('LOT42');
+    // Day 00 means the last day of the month
+    expect(result!.expiryDate).toBe('2026-11-30');
+  });
+
+  test('accepts unmarked data only when it starts with a valid GTIN', () => {
+    expect(parseGs1('010950110153000317250630')).not.toBeNull();
+    expect(parseGs1('010950110153000417250630')).toBeNull(); // Bad check digit
+  });
+
+  test('leaves plain retail barcodes alone', () => {
+    expect(parseGs1('5901234123457')).toBeNull();
+    expect(parseGs1('012345678905')).toBeNull();
+    expect(parseGs1('SKU-001')).toBeNull();
+  });
+
+  test('rejects malformed element strings', () => {
+    expect(parseGs1('(01)0950110153')).toBeNull(); // GTIN too short
+    expect(parseGs1('(99)ABC')).toBeNull(); // Unsupported AI
+  });
+
+  test('validates GTIN check digits', () => {
+    expect(isValidGtin('09501101530003')).toBe(true);
+    expect(isValidGtin('5901234123457')).toBe(true);
+    expect(isValidGtin('5901234123458')).toBe(false);
+  });
+
+  test('expands GTIN-14 into the codes products may be stored under', () => {
+    expect(gtinLookupCodes('00012345678905')).toEqual([
+      '00012345678905',
+      '0012345678905',
+      '012345678905'
+    ]);
+  });
+
+  test('applies the sliding century window to YYMMDD dates', () => {
+    const reference = new Date('2026-01-15');
+    expect(gs1DateToIso('991231', reference)).toBe('1999-12-31');
+    expect(gs1DateToIso('300101', reference)).toBe('2030-01-01');
+    expect(gs1DateToIso('251301', reference)).toBeUndefined();
+  });
+});
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withIdempotency } from '../../../agent1-foundation/middleware/idempotency';
+import { AuthenticatedRequest } from '../../../agent1-foundation/middleware/auth';
+
+// processed_operations kept in memory, unique on (user, device, operation)
+jest.mock('../../../agent1-foundation/database/supabase-client', () => {
+  const rows: any[] = [];
+  const matches = (row: any, filter: Record<string, unknown>) =>
+    Object.entries(filter).every(([field, value]) => row[field] === value);
+
+  return {
+    processedOperations: rows,
+    supabaseAdmin: {
+      from: () => ({
+        insert: async (values: any) => {
+          const { user_id, device_id, operation_id } = values;
+          if (rows.some(row => matches(row, { user_id, device_id, operation_id }))) {
+            return { error: { code: '23505' } };
+          }
+          rows.push({ status: 'processing', claimed_at: new Date().toISOString(), ...values });
+          return { error: null };
+        },
+        select: () => ({
+          match: (filter: Record<string, unknown>) => ({
+            single: async () => {
+              const row = rows.find(r => matches(r, filter));
+              return row ? { data: row, error: null } : { data: null, error: { code: 'PGRST116' } };
+            }
+          })
+        }),
+        update: (values: any) => ({
+          match: (filter: Record<string, unknown>) => {
+            const updated = rows.filter(r => matches(r, filter));
+            updated.forEach(row => Object.assign(row, values));
+            const result = { data: updated, error: null };
+            return Object.assign(Promise.resolve(result), { select: async () => result });
+          }
+        }),
+        delete: () => ({
+          match: async (filter: Record<string, unknown>) => {
+            const remaining = rows.filter(r => !matches(r, filter));
+            rows.splice(0, rows.length, ...remaining);
+            return { error: null };
+          }
+        })
+      })
+    }
+  };
+});
+
+const { processedOperations } = jest.requireMock('../../../agent1-foundation/database/supabase-client');
+
+const context = { params: Promise.resolve({}) };
+
+function request(path: string, operationId?: string, method = 'POST'): AuthenticatedRequest {
+  const headers: Record<string, string> = { 'X-Device-ID': 'device-1' };
+  if (operationId) headers['Idempotency-Key'] = operationId;
+
+  return Object.assign(new NextRequest(`http://localhost${path}`, { method, headers }), {
+    user: { id: 'user-1', email: 'counter@example.com', role: 'user' },
+    business: { id: 'business-1', name: 'Shop' }
+  }) as AuthenticatedRequest;
+}
+
+describe('Idempotent operation replay', () => {
+  let applied: number;
+  const handler = withIdempotency(async () => {
+    applied++;
+    return NextResponse.json({ data: { id: `count-${applied}` } }, { status: 201, headers: { 'X-Count-Id': `count-${applied}` } });
+  });
+
+  beforeEach(() => {
+    applied = 0;
+    processedOperations.splice(0);
+  });
+
+  test('applies an operation once and replays the original response', async () => {
+    const first = await handler(request('/api/inventory/count', 'op-1'), context);
+    const replay = await handler(request('/api/inventory/count', 'op-1'), context);
+
+    expect(applied).toBe(1);
+    expect(first.status).toBe(201);
+    expect(replay.status).toBe(201);
+    expect(await replay.json()).toEqual({ data: { id: 'count-1' } });
+    expect(replay.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(replay.headers.get('X-Count-Id')).toBe('count-1');
+    expect(processedOperations[0]).toMatchObject({ status: 'completed', device_id: 'device-1' });
+  });
+
+  test('passes requests without an operation ID straight through', async () => {
+    await handler(request('/api/inventory/count'), context);
+    await handler(request('/api/inventory/count'), context);
+
+    expect(applied).toBe(2);
+    expect(processedOperations).toHaveLength(0);
+  });
+
+  test('releases the claim of a failed request so it can be retried', async () => {
+    const failing = withIdempotency(async () => NextResponse.json({ error: 'Unavailable' }, { status: 503 }));
+
+    expect((await failing(request('/api/inventory/count', 'op-2'), context)).status).toBe(503);
+    expect(processedOperations).toHaveLength(0);
+
+    const retry = await handler(request('/api/inventory/count', 'op-2'), context);
+    expect(retry.status).toBe(201);
+    expect(applied).toBe(1);
+  });
+
+  test('rejects an operation ID reused for a different request', async () => {
+    await handler(request('/api/inventory/count', 'op-3'), context);
+    const reused = await handler(request('/api/products', 'op-3'), context);
+
+    expect(reused.status).toBe(422);
+    expect(applied).toBe(1);
+  });
+
+  test('asks the client to retry while the operation is still being processed', async () => {
+    processedOperations.push({
+      user_id: 'user-1',
+      device_id: 'device-1',
+      operation_id: 'op-4',
+      method: 'POST',
+      path: '/api/inventory/count',
+      status: 'processing',
+      claimed_at: new Date().toISOString()
+    });
+
+    const response = await handler(request('/api/inventory/count', 'op-4'), context);
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ code: 'operation_in_progress' });
+    expect(applied).toBe(0);
+  });
+
+  test('takes over a claim left behind by a request that died', async () => {
+    processedOperations.push({
+      user_id: 'user-1',
+      device_id: 'device-1',
+      operation_id: 'op-5',
+      method: 'POST',
+      path: '/api/inventory/count',
+      status: 'processing',
+      claimed_at: new Date(Date.now() - 10 * 60 * 1000).toISOString()
+    });
+
+    const response = await handler(request('/api/inventory/count', 'op-5'), context);
+
+    expect(response.status).toBe(201);
+    expect(applied).toBe(1);
+    expect(processedOperations[0].status).toBe('completed');
+  });
+});
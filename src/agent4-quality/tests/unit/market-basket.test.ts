@@ -0,0 +1,95 @@
+import {
+  mineFrequentItemsets,
+  associationRules,
+  analyzeMarketBasket
+} from '../../../agent3-features/analytics/market-basket';
+
+describe('Market basket analysis', () => {
+  const baskets = [
+    ['bread', 'milk'],
+    ['bread', 'diapers', 'beer', 'eggs'],
+    ['milk', 'diapers', 'beer', 'cola'],
+    ['bread', 'milk', 'diapers', 'beer'],
+    ['bread', 'milk', 'diapers', 'cola']
+  ];
+  const options = { minSupport: 0.6, minBaskets: 1 };
+
+  test('finds the itemsets in at least the minimum share of baskets', () => {
+    const itemsets = mineFrequentItemsets(baskets, options);
+
+    expect(itemsets.map(set => [set.items.join('+'), set.frequency])).toEqual([
+      ['bread', 4],
+      ['diapers', 4],
+      ['milk', 4],
+      ['beer', 3],
+      ['beer+diapers', 3],
+      ['bread+diapers', 3],
+      ['bread+milk', 3],
+      ['diapers+milk', 3]
+    ]);
+    expect(itemsets[0].support).toBeCloseTo(0.8);
+  });
+
+  test('derives rules with support, confidence, lift and conviction', () => {
+    const rules = associationRules(mineFrequentItemsets(baskets, options), {}, { beer: 'Beer', diapers: 'Diapers' });
+
+    expect(rules).toHaveLength(2);
+    expect(rules[0]).toMatchObject({ antecedent: ['beer'], consequent: ['diapers'], support: 0.6, confidence: 1 });
+    expect(rules[0].lift).toBeCloseTo(1.25);
+    expect(rules[0].conviction).toBe(Infinity);
+    expect(rules[0].interpretation).toBe('100% of baskets with Beer also contain Diapers, 1.3x as often as usual');
+
+    expect(rules[1]).toMatchObject({ antecedent: ['diapers'], consequent: ['beer'] });
+    expect(rules[1].confidence).toBeCloseTo(0.75);
+    expect(rules[1].conviction).toBeCloseTo(1.6);
+  });
+
+  test('suggests cross-sells and bundles from the rules and itemsets', () => {
+    const analysis = analyzeMarketBasket(baskets, options);
+
+    expect(analysis.crossSellingOpportunities.map(o => `${o.baseProduct}>${o.suggestedProduct}`)).toEqual([
+      'beer>diapers',
+      'diapers>beer'
+    ]);
+    expect(analysis.crossSellingOpportunities[0].expectedIncrease).toBeCloseTo(25);
+    expect(analysis.bundles).toHaveLength(1);
+    expect(analysis.bundles[0].items).toEqual(['beer', 'diapers']);
+    expect(analysis.bundles[0].lift).toBeCloseTo(1.25);
+  });
+
+  test('matches brute-force counting on random baskets', () => {
+    let seed = 99;
+    const next = () => {
+      seed = (seed + 0x6d2b79f5) | 0;
+      let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    const products = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+    const random = Array.from({ length: 300 }, () => products.filter((_, i) => next() < 0.15 + i * 0.05));
+
+    const mined = mineFrequentItemsets(random, { minSupport: 0.05, minBaskets: 1 });
+
+    const expected: string[] = [];
+    const combos = (from: number, set: string[]) => {
+      for (let i = from; i < products.length; i++) {
+        const items = [...set, products[i]];
+        const frequency = random.filter(basket => items.every(item => basket.includes(item))).length;
+        if (frequency >= 15) {
+          expected.push(`${items.join('+')}:${frequency}`);
+          if (items.length < 3) combos(i + 1, items);
+        }
+      }
+    };
+    combos(0, []);
+
+    expect(mined.map(set => `${set.items.join('+')}:${set.frequency}`).sort()).toEqual(expected.sort());
+  });
+
+  test('counts a product once per basket and handles no sales', () => {
+    const itemsets = mineFrequentItemsets([['a', 'a', 'b'], ['a', 'b'], ['a']], { minBaskets: 2 });
+    expect(itemsets.map(set => [set.items.join('+'), set.frequency])).toEqual([['a', 3], ['b', 2], ['a+b', 2]]);
+
+    expect(analyzeMarketBasket([])).toEqual({ rules: [], frequentItemsets: [], crossSellingOpportunities: [], bundles: [] });
+  });
+});
@@ -0,0 +1,199 @@
+import { OfflineService } from '../../../agent3-features/offline/offline-service';
+
+// IndexedDB kept in memory. Index reads sort by the index, then by key, as
+// IndexedDB does.
+jest.mock('idb', () => ({
+  openDB: async () => {
+    const stores = new Map<string, Map<string, any>>();
+    const rows = (name: string) => {
+      if (!stores.has(name)) stores.set(name, new Map());
+      return stores.get(name)!;
+    };
+    const objectStore = (name: string) => ({
+      get: async (key: string) => rows(name).get(key),
+      put: async (value: any, key?: string) => {
+        rows(name).set(key ?? value.id, value);
+      },
+      delete: async (key: string) => {
+        rows(name).delete(key);
+      }
+    });
+
+    return {
+      get: (name: string, key: string) => objectStore(name).get(key),
+      put: (name: string, value: any, key?: string) => objectStore(name).put(value, key),
+      delete: (name: string, key: string) => objectStore(name).delete(key),
+      clear: async (name: string) => rows(name).clear(),
+      getAll: async (name: string) => [...rows(name).values()],
+      getAllFromIndex: async (name: string, index: string) =>
+        [...rows(name).entries()]
+          .sort(([keyA, a], [keyB, b]) => a[index].localeCompare(b[index]) || keyA.localeCompare(keyB))
+          .map(([, value]) => value),
+      transaction: (names: string | string[]) => ({
+        store: objectStore([names].flat()[0]),
+        objectStore,
+        done: Promise.resolve()
+      })
+    };
+  }
+}));
+
+jest.mock('../../../agent1-foundation/database/supabase-client', () => ({
+  supabase: {
+    auth: {
+      getSession: async () => ({ data: { session: { access_token: 'token' } } })
+    }
+  }
+}));
+
+// Responses by operation ID; anything else succeeds
+let responses: Record<string, Array<{ status: number; body: unknown }>>;
+let sent: Array<{ id: string; url: string; method: string; body: any }>;
+
+const fetchMock = jest.fn(async (url: string, init: RequestInit) => {
+  const headers = init.headers as Record<string, string>;
+  const id = headers['Idempotency-Key'];
+  sent.push({ id, url, method: init.method!, body: init.body ? JSON.parse(init.body as string) : undefined });
+
+  const { status, body } = responses[id]?.shift() || { status: 200, body: { data: {} } };
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+});
+
+beforeAll(() => {
+  const storage = new Map<string, string>();
+  Object.assign(globalThis, {
+    window: { addEventListener: jest.fn(), removeEventListener: jest.fn() },
+    localStorage: {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    },
+    fetch: fetchMock
+  });
+  // Offline while queueing, so each test decides when to drain
+  Object.defineProperty(globalThis, 'navigator', { value: { onLine: false }, configurable: true });
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('Offline outbox', () => {
+  let service: OfflineService;
+
+  beforeEach(async () => {
+    responses = {};
+    sent = [];
+    service = new OfflineService();
+    await service.initialize();
+  });
+
+  test('replays operations in the order they were queued', async () => {
+    await service.addPendingOperation('CREATE', 'product', { id: 'p1', name: 'Widget' }, { id: 'op-1' });
+    await service.addPendingOperation('UPDATE', 'product', { id: 'p1', quantity: 4 }, { id: 'op-2' });
+    await service.addPendingOperation('DELETE', 'product', { id: 'p1' }, { id: 'op-3' });
+
+    expect(await service.syncPendingOperations()).toBe(3);
+    expect(sent).toEqual([
+      { id: 'op-1', url: '/api/products', method: 'POST', body: { id: 'p1', name: 'Widget' } },
+      { id: 'op-2', url: '/api/products', method: 'PUT', body: { id: 'p1', quantity: 4 } },
+      { id: 'op-3', url: '/api/products?id=p1', method: 'DELETE', body: undefined }
+    ]);
+    expect(await service.getPendingOperations()).toEqual([]);
+  });
+
+  test('holds back later operations for an entity whose earlier one has to wait', async () => {
+    responses['op-1'] = [{ status: 503, body: { error: 'Unavailable' } }];
+
+    await service.addPendingOperation('UPDATE', 'product', { id: 'p1', quantity: 5 }, { id: 'op-1' });
+    await service.addPendingOperation('CREATE', 'inventory_count', { product_id: 'p2', quantity: 3 }, { id: 'op-2' });
+    await service.addPendingOperation('CREATE', 'inventory_count', { product_id: 'p1', quantity: 6 }, { id: 'op-3' });
+
+    expect(await service.syncPendingOperations()).toBe(1);
+    expect(sent.map(s => s.id)).toEqual(['op-1', 'op-2']);
+
+    const pending = await service.getPendingOperations();
+    expect(pending.map(op => [op.id, op.entity_key, op.retries])).toEqual([
+      ['op-1', 'product:p1', 1],
+      ['op-3', 'product:p1', 0]
+    ]);
+
+    sent = [];
+    expect(await service.syncPendingOperations()).toBe(2);
+    expect(sent.map(s => s.id)).toEqual(['op-1', 'op-3']);
+  });
+
+  test('moves an operation the server rejects to failed operations', async () => {
+    responses['op-1'] = [{ status: 422, body: { error: 'Quantity must not be negative' } }];
+
+    await service.addPendingOperation('CREATE', 'inventory_count', { product_id: 'p1', quantity: -1 }, { id: 'op-1' });
+    await service.addPendingOperation('CREATE', 'inventory_count', { product_id: 'p1', quantity: 2 }, { id: 'op-2' });
+
+    expect(await service.syncPendingOperations()).toBe(1);
+    expect(await service.getPendingOperations()).toEqual([]);
+    expect(await service.getFailedOperations()).toEqual([
+      expect.objectContaining({ id: 'op-1', status: 422, reason: 'Quantity must not be negative', retries: 1 })
+    ]);
+  });
+
+  test('gives up on an operation after its retries run out', async () => {
+    responses['op-1'] = [
+      { status: 503, body: { error: 'Unavailable' } },
+      { status: 503, body: { error: 'Unavailable' } }
+    ];
+
+    await service.addPendingOperation('CREATE', 'inventory_count', { product_id: 'p1', quantity: 2 }, { id: 'op-1', maxRetries: 2 });
+
+    await service.syncPendingOperations();
+    expect(await service.getFailedOperations()).toEqual([]);
+
+    await service.syncPendingOperations();
+    expect(await service.getPendingOperations()).toEqual([]);
+    expect(await service.getFailedOperations()).toEqual([
+      expect.objectContaining({ id: 'op-1', status: 503, retries: 2 })
+    ]);
+  });
+
+  test('retries a failed operation with edited data under the same ID', async () => {
+    responses['op-1'] = [{ status: 422, body: { error: 'Quantity must not be negative' } }];
+
+    await service.addPendingOperation('CREATE', 'inventory_count', { product_id: 'p1', quantity: -1 }, { id: 'op-1' });
+    await service.syncPendingOperations();
+
+    await service.retryFailedOperation('op-1', { product_id: 'p1', quantity: 4 });
+
+    expect(await service.getFailedOperations()).toEqual([]);
+    expect(await service.getPendingOperations()).toEqual([
+      expect.objectContaining({ id: 'op-1', data: { product_id: 'p1', quantity: 4 }, retries: 0 })
+    ]);
+
+    sent = [];
+    expect(await service.syncPendingOperations()).toBe(1);
+    expect(sent).toEqual([
+      { id: 'op-1', url: '/api/inventory/count', method: 'POST', body: { product_id: 'p1', quantity: 4 } }
+    ]);
+  });
+
+  test('rebases a retried edit on the server values it conflicted with', async () => {
+    responses['op-1'] = [{
+      status: 409,
+      body: { error: 'Conflicting changes', conflicts: [{ field: 'price', base: 10, local: 12, server: 11 }] }
+    }];
+
+    await service.addPendingOperation('UPDATE', 'product', { id: 'p1', price: 12, base: { price: 10 } }, { id: 'op-1' });
+    await service.syncPendingOperations();
+    await service.retryFailedOperation('op-1');
+
+    const [pending] = await service.getPendingOperations();
+    expect(pending.data).toEqual({ id: 'p1', price: 12, base: { price: 11 } });
+  });
+
+  test('discards a failed operation without sending it again', async () => {
+    responses['op-1'] = [{ status: 422, body: { error: 'Unknown product' } }];
+
+    await service.addPendingOperation('UPDATE', 'product', { id: 'p9', quantity: 1 }, { id: 'op-1' });
+    await service.syncPendingOperations();
+    await service.discardFailedOperation('op-1');
+
+    sent = [];
+    expect(await service.getFailedOperations()).toEqual([]);
+    expect(await service.syncPendingOperations()).toBe(0);
+    expect(sent).toEqual([]);
+  });
+});
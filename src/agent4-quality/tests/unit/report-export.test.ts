@@ -0,0 +1,129 @@
+import { renderXlsxWorkbook, crc32 } from '../../../shared/reports/xlsx';
+import { renderPdfReport } from '../../../shared/reports/pdf';
+
+// Entries of a stored (uncompressed) zip, read from the local file headers
+function readZip(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const entries: Array<{ path: string; crc: number; data: Uint8Array }> = [];
+  let offset = 0;
+
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const crc = view.getUint32(offset + 14, true);
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const start = offset + 30 + nameLength;
+
+    entries.push({
+      path: new TextDecoder().decode(bytes.slice(offset + 30, start)),
+      crc,
+      data: bytes.slice(start, start + size)
+    });
+    offset = start + size;
+  }
+
+  return entries;
+}
+
+describe('XLSX export', () => {
+  const workbook = renderXlsxWorkbook({
+    sheets: [
+      {
+        name: 'Variance',
+        columns: [
+          { header: 'Product' },
+          { header: 'Counted', type: 'integer' },
+          { header: 'Variance', type: 'percent' }
+        ],
+        rows: [
+          ['Widget & Co', 12, 0.05],
+          ['Gadget', null, -0.1]
+        ]
+      },
+      { name: 'Summary', columns: [{ header: 'Total', type: 'number' }], rows: [[2]] }
+    ]
+  });
+  const entries = readZip(workbook);
+  const part = (path: string) => new TextDecoder().decode(entries.find(e => e.path === path)!.data);
+
+  test('packages the SpreadsheetML parts with a sheet per tab', () => {
+    expect(entries.map(e => e.path)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'docProps/core.xml',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml'
+    ]);
+    expect(part('xl/workbook.xml')).toContain('<sheet name="Variance" sheetId="1" r:id="rId1"/>');
+    expect(part('xl/workbook.xml')).toContain('<sheet name="Summary" sheetId="2" r:id="rId2"/>');
+  });
+
+  test('stores a valid checksum for every part', () => {
+    for (const entry of entries) {
+      expect(entry.crc).toBe(crc32(entry.data));
+    }
+  });
+
+  test('writes typed cells and escapes text', () => {
+    const sheet = part('xl/worksheets/sheet1.xml');
+
+    expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t>Widget &amp; Co</t></is></c>');
+    expect(sheet).toContain('<c r="B2" s="3"><v>12</v></c>');
+    expect(sheet).toContain('<c r="C2" s="5"><v>0.05</v></c>');
+    expect(sheet).not.toContain('r="B3"');
+  });
+
+  test('rejects a workbook without sheets', () => {
+    expect(() => renderXlsxWorkbook({ sheets: [] })).toThrow('A workbook needs at least one sheet');
+  });
+});
+
+describe('PDF export', () => {
+  const render = (rows: number) => Buffer.from(renderPdfReport({
+    title: 'Variance report',
+    subtitle: 'Session (A)',
+    generatedAt: new Date(2024, 0, 15, 9, 30),
+    sections: [{
+      heading: 'Lines',
+      summary: [['Items counted', rows]],
+      table: {
+        columns: [{ header: 'Product' }, { header: 'Variance', align: 'right' }],
+        rows: Array.from({ length: rows }, (_, i) => [`Product ${i + 1}`, i])
+      }
+    }]
+  })).toString('latin1');
+
+  test('produces a PDF whose cross-reference table points at its objects', () => {
+    const pdf = render(3);
+    const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map(m => Number(m[1]));
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+    expect(offsets.length).toBeGreaterThan(0);
+    offsets.forEach((offset, i) => {
+      expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true);
+    });
+    expect(Number(pdf.match(/startxref\n(\d+)/)![1])).toBe(pdf.indexOf('xref\n'));
+  });
+
+  test('escapes text and fits a short report on one page', () => {
+    const pdf = render(3);
+
+    expect(pdf).toContain('(Session \\(A\\)) Tj');
+    expect(pdf).toContain('(Product 3) Tj');
+    expect(pdf).toContain('/Count 1 >>');
+    expect(pdf).toContain('(Page 1 of 1) Tj');
+  });
+
+  test('continues long tables on further pages', () => {
+    const pdf = render(120);
+    const pages = Number(pdf.match(/\/Count (\d+) >>/)![1]);
+
+    expect(pages).toBeGreaterThan(1);
+    expect(pdf.match(/\/Type \/Page /g)).toHaveLength(pages);
+    expect(pdf).toContain(`(Page ${pages} of ${pages}) Tj`);
+    expect(pdf).toContain('(Product 120) Tj');
+  });
+});
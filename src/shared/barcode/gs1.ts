@@ -0,0 +1,212 @@
+// GS1 Application Identifier parsing for GS1-128, GS1 DataMatrix and GS1 QR scans.
+// Used by the scanner (client) and by receiving/counting endpoints (server).
+
+export interface Gs1ParseResult {
+  gtin?: string;
+  lotNumber?: string;
+  expiryDate?: string; // YYYY-MM-DD
+  bestBeforeDate?: string;
+  productionDate?: string;
+  serialNumber?: string;
+  elements: Record<string, string>; // Every AI found, keyed by AI
+}
+
+interface AiDefinition {
+  length: number; // Exact length when fixed, maximum length otherwise
+  fixed: boolean;
+}
+
+const GROUP_SEPARATOR = '\u001d'; // FNC1 as transmitted by most scanners
+
+// Symbology identifiers some scanners prefix to GS1 data
+const SYMBOLOGY_PREFIX = /^\](C1|e0|d2|Q3|J1)/;
+
+const AI_DEFINITIONS: Record<string, AiDefinition> = {
+  '00': { length: 18, fixed: true },  // SSCC
+  '01': { length: 14, fixed: true },  // GTIN
+  '02': { length: 14, fixed: true },  // GTIN of contained items
+  '10': { length: 20, fixed: false }, // Batch / lot
+  '11': { length: 6, fixed: true },   // Production date
+  '12': { length: 6, fixed: true },   // Due date
+  '13': { length: 6, fixed: true },   // Packaging date
+  '15': { length: 6, fixed: true },   // Best before
+  '16': { length: 6, fixed: true },   // Sell by
+  '17': { length: 6, fixed: true },   // Expiration date
+  '20': { length: 2, fixed: true },   // Variant
+  '21': { length: 20, fixed: false }, // Serial number
+  '22': { length: 20, fixed: false }, // Consumer product variant
+  '30': { length: 8, fixed: false },  // Variable count
+  '37': { length: 8, fixed: false },  // Count of trade items
+  '240': { length: 30, fixed: false }, // Additional product id
+  '241': { length: 30, fixed: false }, // Customer part number
+  '400': { length: 30, fixed: false }, // Customer PO number
+  '7003': { length: 10, fixed: true }  // Expiration date and time
+};
+
+// Trade measures (310n-369n) are all six digits with an implied decimal position
+for (let prefix = 310; prefix <= 369; prefix++) {
+  for (let decimals = 0; decimals <= 9; decimals++) {
+    AI_DEFINITIONS[`${prefix}${decimals}`] = { length: 6, fixed: true };
+  }
+}
+
+/**
+ * Parse a scanned GS1 element string. Accepts raw scanner output (with
+ * FNC1/GS separators and optional symbology identifier) or the bracketed
+ * human-readable form, e.g. "(01)09501101530003(17)250630(10)AB12".
+ * Returns null for anything that is not GS1 data, such as a plain EAN-13.
+ */
+export function parseGs1(raw: string): Gs1ParseResult | null {
+  if (!raw) return null;
+
+  let data = raw.trim();
+  const hasSymbologyPrefix = SYMBOLOGY_PREFIX.test(data);
+  data = data.replace(SYMBOLOGY_PREFIX, '');
+  if (data.startsWith(GROUP_SEPARATOR)) data = data.slice(1);
+
+  const elements = data.startsWith('(')
+    ? parseBracketed(data)
+    : parseUnbracketed(data);
+
+  if (!elements || Object.keys(elements).length === 0) return null;
+
+  // Without an explicit GS1 marker, only accept data that starts with a
+  // valid GTIN and has more after it, so plain product codes pass through
+  const explicit = hasSymbologyPrefix || data.startsWith('(') || data.includes(GROUP_SEPARATOR);
+  if (!explicit) {
+    const gtin = elements['01'] || elements['02'];
+    if (!gtin || !isValidGtin(gtin) || data.length <= 16) return null;
+  }
+
+  return buildResult(elements);
+}
+
+/**
+ * True when the check digit of an 8, 12, 13 or 14 digit GTIN is correct
+ */
+export function isValidGtin(gtin: string): boolean {
+  if (!/^\d{8}$|^\d{12,14}$/.test(gtin)) return false;
+
+  const digits = gtin.split('').map(Number);
+  const checkDigit = digits.pop()!;
+  const sum = digits
+    .reverse()
+    .reduce((acc, digit, index) => acc + digit * (index % 2 === 0 ? 3 : 1), 0);
+
+  return (10 - (sum % 10)) % 10 === checkDigit;
+}
+
+/**
+ * Codes a product might be stored under for a GTIN-14: the GTIN itself
+ * and its EAN-13, UPC-A and EAN-8 forms when the leading digits are zero
+ */
+export function gtinLookupCodes(gtin: string): string[] {
+  const codes = [gtin];
+  if (gtin.length === 14 && gtin.startsWith('0')) codes.push(gtin.slice(1));
+  if (gtin.length === 14 && gtin.startsWith('00')) codes.push(gtin.slice(2));
+  if (gtin.length === 14 && gtin.startsWith('000000')) codes.push(gtin.slice(6));
+  return codes;
+}
+
+/**
+ * Convert a GS1 YYMMDD date to YYYY-MM-DD. Day "00" means the last day of
+ * the month; the century follows the GS1 sliding 50-year window.
+ */
+export function gs1DateToIso(value: string, referenceDate: Date = new Date()): string | undefined {
+  if (!/^\d{6}$/.test(value)) return undefined;
+
+  const yy = parseInt(value.slice(0, 2), 10);
+  const month = parseInt(value.slice(2, 4), 10);
+  let day = parseInt(value.slice(4, 6), 10);
+  if (month < 1 || month > 12) return undefined;
+
+  const currentYear = referenceDate.getFullYear();
+  const currentCentury = Math.floor(currentYear / 100) * 100;
+  const difference = yy - (currentYear % 100);
+  let year = currentCentury + yy;
+  if (difference >= 51) year -= 100;
+  else if (difference <= -50) year += 100;
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day === 0) day = daysInMonth;
+  if (day > daysInMonth) return undefined;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function parseBracketed(data: string): Record<string, string> | null {
+  const elements: Record<string, string> = {};
+  const pattern = /\((\d{2,4})\)([^(]*)/g;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(data)) !== null) {
+    if (match.index !== consumed) return null;
+    const [whole, ai, value] = match;
+    const definition = AI_DEFINITIONS[ai];
+    const cleanValue = value.replace(new RegExp(GROUP_SEPARATOR, 'g'), '');
+
+    if (!definition) return null;
+    if (definition.fixed ? cleanValue.length !== definition.length : cleanValue.length > definition.length) {
+      return null;
+    }
+
+    elements[ai] = cleanValue;
+    consumed += whole.length;
+  }
+
+  return consumed === data.length ? elements : null;
+}
+
+function parseUnbracketed(data: string): Record<string, string> | null {
+  const elements: Record<string, string> = {};
+  let position = 0;
+
+  while (position < data.length) {
+    if (data[position] === GROUP_SEPARATOR) {
+      position++;
+      continue;
+    }
+
+    const ai = findAi(data, position);
+    if (!ai) return null;
+
+    const definition = AI_DEFINITIONS[ai];
+    const start = position + ai.length;
+    let end: number;
+
+    if (definition.fixed) {
+      end = start + definition.length;
+      if (end > data.length) return null;
+    } else {
+      const separator = data.indexOf(GROUP_SEPARATOR, start);
+      end = separator === -1 ? data.length : separator;
+      if (end - start > definition.length) return null;
+    }
+
+    elements[ai] = data.slice(start, end);
+    position = end;
+  }
+
+  return elements;
+}
+
+function findAi(data: string, position: number): string | null {
+  for (const length of [2, 3, 4]) {
+    const candidate = data.slice(position, position + length);
+    if (AI_DEFINITIONS[candidate]) return candidate;
+  }
+  return null;
+}
+
+function buildResult(elements: Record<string, string>): Gs1ParseResult {
+  return {
+    gtin: elements['01'] || elements['02'],
+    lotNumber: elements['10'],
+    expiryDate: elements['17'] ? gs1DateToIso(elements['17']) : undefined,
+    bestBeforeDate: elements['15'] ? gs1DateToIso(elements['15']) : undefined,
+    productionDate: elements['11'] ? gs1DateToIso(elements['11']) : undefined,
+    serialNumber: elements['21'],
+    elements
+  };
+}
@@ -1,5 +1,7 @@
 // Complete interface contracts for all 4 agents - 4-way communication matrix
 
+import type { Gs1ParseResult } from '../barcode/gs1';
+
 // Core data types
 export interface User {
   id: string;
@@ -16,19 +18,227 @@ export interface ProductSchema {
   barcode: string;
   category: string;
   businessId: string;
+  currentQuantity?: number; // Cached total across locations
+  isSerialized?: boolean; // Counted by scanning each serial number
+  baseUnit?: string; // Unit all quantities are stored in, e.g. 'each' or 'kg'
+  allowFractional?: boolean;
+  parentId?: string; // Set on variants; the parent carries the family name
+  variantOptions?: VariantOption[]; // Parent only
+  variantAttributes?: Record<string, string>; // Variant only, e.g. { Size: 'M' }
+  isKit?: boolean; // Built from the components in its bill of materials
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface VariantOption {
+  name: string; // e.g. 'Size'
+  values: string[];
+}
+
+export interface ProductFamilyStock {
+  productId: string; // The parent
+  variantCount: number;
+  totalQuantity: number; // Parent's own stock plus every variant's
+  totalValue: number;
+}
+
+export interface KitComponentSchema {
+  id: string;
+  businessId: string;
+  kitProductId: string;
+  componentProductId: string;
+  quantity: number; // Component base units per kit
+}
+
+export type KitOperation = 'assemble' | 'disassemble' | 'sell';
+
+export interface KitOperationResult {
+  referenceId: string; // Shared by every movement the operation posted
+  kitQuantityChange: number;
+  kitQuantityAfter: number;
+  builtFromComponents: number; // Kits' worth of components consumed; negative when returned
+  components: Array<{ productId: string; quantityChange: number; quantityAfter: number }>;
+}
+
+export interface ProductExternalRefSchema {
+  id: string;
+  businessId: string;
+  productId: string;
+  provider: string; // e.g. 'shopify'
+  externalId: string;
+  externalParentId?: string;
+}
+
+export interface ProductUnitSchema {
+  id: string;
+  businessId: string;
+  productId: string;
+  name: string; // e.g. 'case'
+  conversionFactor: number; // Base units in one of this unit
+  barcode?: string;
+}
+
+export interface ScannedCodeResolution {
+  productId: string;
+  unitId?: string; // Unset when the code is the product's own barcode or SKU
+  unitName: string;
+  conversionFactor: number;
+}
+
 export interface InventorySchema {
   id: string;
   productId: string;
   quantity: number;
   location: string;
+  locationId?: string;
+  lotNumber?: string;
+  expiryDate?: string; // YYYY-MM-DD
   lastCounted: Date;
   businessId: string;
 }
 
+export interface LocationSchema {
+  id: string;
+  businessId: string;
+  name: string;
+  code?: string;
+  type: 'warehouse' | 'backroom' | 'sales_floor' | 'bin' | 'other';
+  parentId?: string;
+  isDefault: boolean;
+  active: boolean;
+  createdAt: Date;
+}
+
+export interface StockLevelSchema {
+  id: string;
+  productId: string;
+  locationId: string;
+  quantity: number;
+  lastCounted?: Date;
+  businessId: string;
+  updatedAt: Date;
+}
+
+export interface StockLotSchema {
+  id: string;
+  businessId: string;
+  productId: string;
+  locationId?: string;
+  lotNumber: string;
+  expiryDate?: string; // YYYY-MM-DD
+  quantity: number;
+  firstReceivedAt: Date;
+  updatedAt: Date;
+}
+
+export interface StockTransferResult {
+  transferId: string;
+  fromQuantity: number;
+  toQuantity: number;
+}
+
+// How teammates' disagreeing counts of the same product are settled
+export type ConflictResolutionMethod = 'newest_wins' | 'highest_authority' | 'average' | 'manual_review';
+
+export interface CountConflictResolution {
+  movementId: string;
+  previousQuantity: number;
+  quantityAfter: number;
+}
+
+export type StockMovementReason =
+  | 'receive'
+  | 'sell'
+  | 'adjust'
+  | 'count_correction'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'write_off'
+  | 'kit_assembly'
+  | 'kit_disassembly';
+
+export interface StockMovementSchema {
+  id: string;
+  businessId: string;
+  productId: string;
+  locationId?: string;
+  reason: StockMovementReason;
+  quantityChange: number;
+  quantityAfter: number;
+  lotNumber?: string;
+  expiryDate?: string;
+  referenceType?: string;
+  referenceId?: string;
+  performedBy?: string;
+  notes?: string;
+  createdAt: Date;
+}
+
+// Units sold of a product on one UTC day (YYYY-MM-DD)
+export interface DailyDemandPoint {
+  productId: string;
+  date: string;
+  quantity: number;
+}
+
+// Distinct products sold together in one receipt, order or checkout session
+export interface SaleBasket {
+  basketId: string;
+  productIds: string[];
+}
+
+// A product often sold with another, for "frequently bought with" lists
+export interface ProductAssociation {
+  productId: string;
+  name: string;
+  confidence: number;
+  lift: number;
+}
+
+export interface StockMovementOptions {
+  locationId?: string;
+  lotNumber?: string;
+  expiryDate?: string;
+  userId?: string;
+  referenceType?: string;
+  referenceId?: string;
+  notes?: string;
+}
+
+export interface SetQuantityResult {
+  movementId: string;
+  previousQuantity: number;
+  quantityAfter: number;
+}
+
+export interface SupplierSchema {
+  id: string;
+  businessId: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  website?: string;
+  defaultLeadTimeDays: number;
+  notes?: string;
+  active: boolean;
+  createdAt: Date;
+}
+
+export interface SupplierProductSchema {
+  id: string;
+  supplierId: string;
+  productId: string;
+  supplierSku?: string;
+  unitCost?: number;
+  minOrderQuantity: number;
+  packSize: number;
+  leadTimeDays?: number;
+  isPreferred: boolean;
+  supplier?: SupplierSchema;
+}
+
 export interface BusinessSchema {
   id: string;
   name: string;
@@ -75,6 +285,10 @@ export interface Foundation_To_Features {
     products: ProductRepository;
     inventory: InventoryRepository;
     businesses: BusinessRepository;
+    locations: LocationRepository;
+    movements: StockMovementRepository;
+    suppliers: SupplierRepository;
+    collaboration: CollaborationRepository;
     query: (sql: string) => Promise<any>;
     transaction: (operations: Function[]) => Promise<any>;
   };
@@ -162,6 +376,41 @@ export interface ProductRepository {
   delete: (id: string) => Promise<boolean>;
   search: (query: string) => Promise<ProductSchema[]>;
   list: (businessId: string, page?: number, limit?: number) => Promise<{ data: ProductSchema[], total: number }>;
+  getUnits: (productId: string) => Promise<ProductUnitSchema[]>;
+  upsertUnit: (data: Partial<ProductUnitSchema>) => Promise<ProductUnitSchema>;
+  deleteUnit: (id: string) => Promise<boolean>;
+  resolveCode: (businessId: string, code: string) => Promise<ScannedCodeResolution | null>;
+  getVariants: (parentId: string) => Promise<ProductSchema[]>;
+  getFamilyStock: (businessId: string) => Promise<ProductFamilyStock[]>;
+  findByExternalRef: (businessId: string, provider: string, externalId: string) => Promise<ProductSchema | null>;
+  getExternalRef: (productId: string, provider: string) => Promise<ProductExternalRefSchema | null>;
+  setExternalRef: (data: Partial<ProductExternalRefSchema>) => Promise<ProductExternalRefSchema>;
+  getKitComponents: (kitProductId: string) => Promise<KitComponentSchema[]>;
+  setKitComponents: (
+    kitProductId: string,
+    components: Array<{ componentProductId: string; quantity: number }>
+  ) => Promise<KitComponentSchema[]>;
+  findKitsUsingComponent: (componentProductId: string) => Promise<KitComponentSchema[]>;
+}
+
+// Inventory record accuracy (IRA): share of count lines within tolerance of the record
+export type AccuracyDimension = 'business' | 'product' | 'category' | 'location' | 'counter';
+export type AccuracyBucket = 'day' | 'week' | 'month' | 'none';
+
+export interface RecordAccuracyPoint {
+  dimensionId: string;
+  label: string;
+  bucketStart?: Date; // Unset when not bucketed
+  counted: number;
+  accurate: number;
+  accuracy: number; // Percentage
+}
+
+export interface AccuracyFlaggedProduct {
+  productId: string;
+  productName: string;
+  category?: string;
+  flaggedAt: Date;
 }
 
 export interface InventoryRepository {
@@ -170,6 +419,161 @@ export interface InventoryRepository {
   update: (id: string, data: Partial<InventorySchema>) => Promise<InventorySchema>;
   getHistory: (productId: string, days?: number) => Promise<InventorySchema[]>;
   bulkUpdate: (updates: Array<{ id: string, quantity: number }>) => Promise<InventorySchema[]>;
+  resolveCountConflict: (
+    countIds: string[],
+    finalQuantity: number,
+    method: ConflictResolutionMethod,
+    resolvedBy: string | null,
+    notes?: string
+  ) => Promise<CountConflictResolution>;
+  getRecordAccuracy: (
+    businessId: string,
+    options: { from: Date; to: Date; dimension?: AccuracyDimension; bucket?: AccuracyBucket }
+  ) => Promise<RecordAccuracyPoint[]>;
+  getAccuracyFlaggedProducts: (businessId: string) => Promise<AccuracyFlaggedProduct[]>;
+}
+
+export interface LocationRepository {
+  create: (data: Partial<LocationSchema>) => Promise<LocationSchema>;
+  findById: (id: string) => Promise<LocationSchema | null>;
+  list: (businessId: string) => Promise<LocationSchema[]>;
+  getStockLevels: (productId: string) => Promise<StockLevelSchema[]>;
+  getStockLevel: (productId: string, locationId: string) => Promise<StockLevelSchema | null>;
+  getLots: (productId: string, locationId?: string) => Promise<StockLotSchema[]>;
+  getExpiringLots: (businessId: string, withinDays: number) => Promise<StockLotSchema[]>;
+  transferStock: (
+    productId: string,
+    fromLocationId: string,
+    toLocationId: string,
+    quantity: number,
+    userId: string,
+    notes?: string,
+    batchId?: string
+  ) => Promise<StockTransferResult>;
+}
+
+export interface StockMovementRepository {
+  record: (
+    productId: string,
+    quantityChange: number,
+    reason: StockMovementReason,
+    options?: StockMovementOptions
+  ) => Promise<StockMovementSchema>;
+  setQuantity: (
+    productId: string,
+    quantity: number,
+    reason: StockMovementReason,
+    options?: StockMovementOptions
+  ) => Promise<SetQuantityResult>;
+  listByProduct: (
+    productId: string,
+    filters?: { locationId?: string; since?: Date; until?: Date; limit?: number }
+  ) => Promise<StockMovementSchema[]>;
+  getQuantityAsOf: (productId: string, asOf: Date, locationId?: string) => Promise<number>;
+  getDailyDemand: (
+    businessId: string,
+    options: { from: Date; to: Date; productIds?: string[] }
+  ) => Promise<DailyDemandPoint[]>;
+  getSaleBaskets: (
+    businessId: string,
+    options: { from: Date; to: Date; sessionGapMinutes?: number }
+  ) => Promise<SaleBasket[]>;
+  processKit: (
+    kitProductId: string,
+    operation: KitOperation,
+    quantity: number,
+    options?: { userId?: string; locationId?: string; notes?: string }
+  ) => Promise<KitOperationResult>;
+}
+
+export interface SupplierRepository {
+  create: (data: Partial<SupplierSchema>) => Promise<SupplierSchema>;
+  findById: (id: string) => Promise<SupplierSchema | null>;
+  update: (id: string, data: Partial<SupplierSchema>) => Promise<SupplierSchema>;
+  list: (businessId: string) => Promise<SupplierSchema[]>;
+  getProductSuppliers: (productId: string) => Promise<SupplierProductSchema[]>;
+  getPreferredSupplier: (productId: string) => Promise<SupplierProductSchema | null>;
+  upsertProductSupplier: (data: Partial<SupplierProductSchema>) => Promise<SupplierProductSchema>;
+}
+
+// Durable state of a collaborative counting session
+export interface CollaborationSessionSchema {
+  id: string;
+  businessId: string;
+  name: string;
+  description?: string;
+  createdBy?: string;
+  status: 'planning' | 'active' | 'paused' | 'completed' | 'cancelled';
+  participants: string[];
+  zones: any[];
+  progress: Record<string, any>; // participantProgress is stored as an object keyed by user
+  settings: Record<string, any>;
+  expectedDuration: number;
+  startedAt?: Date;
+  completedAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface SessionPresenceSchema {
+  sessionId: string;
+  userId: string;
+  userName: string;
+  role?: User['role'];
+  status: 'active' | 'idle' | 'counting' | 'offline';
+  currentZone?: string;
+  currentProduct?: string;
+  deviceInfo?: Record<string, any>;
+  location?: Record<string, any>;
+  lastActivity: Date;
+}
+
+export interface CountingLockSchema {
+  sessionId: string;
+  productId: string;
+  userId: string;
+  lockType: 'count' | 'edit' | 'transfer';
+  lockedAt: Date;
+  expiresAt: Date;
+}
+
+export interface CountingConflictSchema {
+  id: string;
+  sessionId: string;
+  type: 'simultaneous_count' | 'quantity_mismatch' | 'zone_overlap';
+  status: 'pending' | 'resolved' | 'escalated';
+  participants: string[];
+  productId?: string;
+  zoneId?: string;
+  data: Record<string, any>;
+  resolution?: Record<string, any>;
+  detectedAt: Date;
+  resolvedAt?: Date;
+}
+
+// A count submitted in a session, used to rebuild conflict detection state
+export interface SessionCountSchema {
+  id: string;
+  productId: string;
+  userId: string;
+  quantity: number;
+  countedAt: Date;
+}
+
+export interface CollaborationRepository {
+  saveSession: (session: CollaborationSessionSchema) => Promise<void>;
+  findSession: (id: string) => Promise<CollaborationSessionSchema | null>;
+  listLiveSessions: (businessId?: string) => Promise<CollaborationSessionSchema[]>;
+  listCompletedSessions: (businessId: string, limit?: number) => Promise<CollaborationSessionSchema[]>;
+  savePresence: (presence: SessionPresenceSchema) => Promise<void>;
+  removePresence: (sessionId: string, userId: string) => Promise<void>;
+  getPresence: (sessionId: string) => Promise<SessionPresenceSchema[]>;
+  claimLock: (lock: Omit<CountingLockSchema, 'lockedAt'>) => Promise<{ acquired: boolean; lock: CountingLockSchema }>;
+  releaseLock: (sessionId: string, productId: string, userId?: string) => Promise<void>;
+  getLocks: (sessionId: string) => Promise<CountingLockSchema[]>;
+  deleteExpiredLocks: () => Promise<CountingLockSchema[]>;
+  saveConflict: (conflict: CountingConflictSchema) => Promise<void>;
+  getOpenConflicts: (sessionId: string) => Promise<CountingConflictSchema[]>;
+  getUnresolvedCounts: (sessionId: string) => Promise<SessionCountSchema[]>;
 }
 
 export interface BusinessRepository {
@@ -248,6 +652,7 @@ export interface BarcodeData {
   format: string;
   confidence: number;
   timestamp: Date;
+  gs1?: Gs1ParseResult; // Set when the scan carried GS1 Application Identifiers
 }
 
 export interface AudioData {
@@ -278,6 +683,7 @@ export interface CountData {
   notes?: string;
   timestamp: Date;
   userId: string;
+  serialNumbers?: string[];
 }
 
 export interface Session {
@@ -294,6 +700,13 @@ export interface Product {
   sku: string;
   barcode: string;
   currentQuantity: number;
+  isSerialized?: boolean;
+  baseUnit?: string;
+  allowFractional?: boolean;
+  parentId?: string;
+  variantAttributes?: Record<string, string>;
+  variants?: Product[]; // Present on a family parent
+  isKit?: boolean;
 }
 
 // Legacy interfaces for backward compatibility
@@ -126,7 +126,23 @@ export const Agent1Mock = {
       list: async (businessId: string, page = 1, limit = 10) => ({
         data: mockData.products.slice((page - 1) * limit, page * limit),
         total: mockData.products.length
-      })
+      }),
+      getUnits: async (productId: string) => [],
+      upsertUnit: async (data: any) => ({ id: `unit-${Date.now()}`, ...data }),
+      deleteUnit: async (id: string) => true,
+      resolveCode: async (businessId: string, code: string) => {
+        const product = mockData.products.find(p => p.barcode === code || p.sku === code);
+        return product ? { productId: product.id, unitName: 'each', conversionFactor: 1 } : null;
+      },
+      getVariants: async (parentId: string) => [],
+      getFamilyStock: async (businessId: string) => [],
+      findByExternalRef: async (businessId: string, provider: string, externalId: string) => null,
+      getExternalRef: async (productId: string, provider: string) => null,
+      setExternalRef: async (data: any) => ({ id: `ref-${Date.now()}`, ...data }),
+      getKitComponents: async (kitProductId: string) => [],
+      setKitComponents: async (kitProductId: string, components: any[]) =>
+        components.map((c, i) => ({ id: `kit-comp-${i}`, businessId: 'business-1', kitProductId, ...c })),
+      findKitsUsingComponent: async (componentProductId: string) => []
     },
     
     inventory: {
@@ -137,7 +153,74 @@ export const Agent1Mock = {
         { id: 'hist-1', productId, quantity: 50, timestamp: new Date() }
       ],
       bulkUpdate: async (updates: Array<{ id: string, quantity: number }>) => 
-        updates.map(u => ({ id: u.id, quantity: u.quantity }))
+        updates.map(u => ({ id: u.id, quantity: u.quantity })),
+      resolveCountConflict: async (countIds: string[], finalQuantity: number) =>
+        ({ movementId: `mov-${Date.now()}`, previousQuantity: 0, quantityAfter: finalQuantity }),
+      getRecordAccuracy: async (businessId: string, options: any) => [
+        { dimensionId: businessId, label: 'All counts', counted: 120, accurate: 113, accuracy: 94.17 }
+      ],
+      getAccuracyFlaggedProducts: async (businessId: string) => []
+    },
+    
+    locations: {
+      create: async (data: any) => ({ id: 'mock-loc-id', ...data }),
+      findById: async (id: string) => ({ id, name: 'Main Warehouse', type: 'warehouse' }),
+      list: async (businessId: string) => [
+        { id: 'loc-1', businessId, name: 'Back Room', type: 'backroom' },
+        { id: 'loc-2', businessId, name: 'Sales Floor', type: 'sales_floor' }
+      ],
+      getStockLevels: async (productId: string) => [],
+      getStockLevel: async (productId: string, locationId: string) => null,
+      getLots: async (productId: string, locationId?: string) => [],
+      getExpiringLots: async (businessId: string, withinDays: number) => [],
+      transferStock: async (productId: string, from: string, to: string, quantity: number) => 
+        ({ transferId: `transfer-${Date.now()}`, fromQuantity: 0, toQuantity: quantity })
+    },
+    
+    movements: {
+      record: async (productId: string, quantityChange: number, reason: string) => 
+        ({ id: `movement-${Date.now()}`, productId, quantityChange, reason, quantityAfter: quantityChange }),
+      setQuantity: async (productId: string, quantity: number) => 
+        ({ movementId: `movement-${Date.now()}`, previousQuantity: 0, quantityAfter: quantity }),
+      listByProduct: async (productId: string) => [],
+      getQuantityAsOf: async (productId: string, asOf: Date) => 
+        mockData.inventory.find(i => i.productId === productId)?.quantity || 0,
+      getDailyDemand: async () => [],
+      getSaleBaskets: async () => [],
+      processKit: async (kitProductId: string, operation: string, quantity: number) => ({
+        referenceId: `kit-op-${Date.now()}`,
+        kitQuantityChange: operation === 'assemble' ? quantity : operation === 'disassemble' ? -quantity : 0,
+        kitQuantityAfter: operation === 'assemble' ? quantity : 0,
+        builtFromComponents: operation === 'disassemble' ? -quantity : quantity,
+        components: []
+      })
+    },
+    
+    suppliers: {
+      create: async (data: any) => ({ id: `supplier-${Date.now()}`, defaultLeadTimeDays: 7, active: true, ...data }),
+      findById: async (id: string) => ({ id, name: 'Mock Supplier', defaultLeadTimeDays: 7, active: true }),
+      update: async (id: string, data: any) => ({ id, ...data }),
+      list: async (businessId: string) => [],
+      getProductSuppliers: async (productId: string) => [],
+      getPreferredSupplier: async (productId: string) => null,
+      upsertProductSupplier: async (data: any) => ({ id: `supplier-product-${Date.now()}`, minOrderQuantity: 1, packSize: 1, isPreferred: false, ...data })
+    },
+    
+    collaboration: {
+      saveSession: async (session: any) => {},
+      findSession: async (id: string) => null,
+      listLiveSessions: async (businessId?: string) => [],
+      listCompletedSessions: async (businessId: string, limit?: number) => [],
+      savePresence: async (presence: any) => {},
+      removePresence: async (sessionId: string, userId: string) => {},
+      getPresence: async (sessionId: string) => [],
+      claimLock: async (lock: any) => ({ acquired: true, lock: { ...lock, lockedAt: new Date() } }),
+      releaseLock: async (sessionId: string, productId: string, userId?: string) => {},
+      getLocks: async (sessionId: string) => [],
+      deleteExpiredLocks: async () => [],
+      saveConflict: async (conflict: any) => {},
+      getOpenConflicts: async (sessionId: string) => [],
+      getUnresolvedCounts: async (sessionId: string) => []
     },
     
     businesses: {
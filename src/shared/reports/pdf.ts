@@ -0,0 +1,278 @@
+// Minimal PDF writer for tabular reports. Uses the built-in Helvetica fonts,
+// so files render in any viewer without embedding or external services.
+
+export type PdfCell = string | number | null | undefined;
+
+export interface PdfColumn {
+  header: string;
+  width?: number; // Relative weight; columns share the page width
+  align?: 'left' | 'right';
+}
+
+export interface PdfTable {
+  columns: PdfColumn[];
+  rows: PdfCell[][];
+}
+
+export interface PdfSection {
+  heading: string;
+  summary?: Array<[string, PdfCell]>; // Label/value pairs shown above the table
+  table?: PdfTable;
+  emptyMessage?: string; // Shown when the table has no rows
+}
+
+export interface PdfReport {
+  title: string;
+  subtitle?: string;
+  brand?: string; // Printed in the header band of every page
+  brandColor?: string; // #rrggbb
+  generatedAt?: Date;
+  sections: PdfSection[];
+}
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const HEADER_HEIGHT = 36;
+const FOOTER_HEIGHT = 24;
+const ROW_HEIGHT = 16;
+const FONT_SIZE = 9;
+const DEFAULT_BRAND_COLOR = '#2563eb';
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126, from the standard AFM
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+/**
+ * Width of a string in points. Bold is close enough to regular plus 5% for layout.
+ */
+export function measureText(text: string, size: number, bold = false): number {
+  let units = 0;
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units / 1000) * size * (bold ? 1.05 : 1);
+}
+
+/**
+ * Render a report to PDF bytes. Tables continue across pages with their
+ * header repeated; every page carries the brand band and a page number.
+ */
+export function renderPdfReport(report: PdfReport): Uint8Array {
+  const generatedAt = report.generatedAt || new Date();
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = 0;
+
+  const newPage = () => {
+    ops = [];
+    pages.push(ops);
+    y = PAGE_HEIGHT - MARGIN - HEADER_HEIGHT - 12;
+  };
+
+  const ensureSpace = (height: number): boolean => {
+    if (y - height < MARGIN + FOOTER_HEIGHT) {
+      newPage();
+      return true;
+    }
+    return false;
+  };
+
+  newPage();
+
+  // Title block on the first page only
+  ops.push(text(MARGIN, y - 16, report.title, 18, true));
+  y -= 24;
+  if (report.subtitle) {
+    ops.push(text(MARGIN, y - 12, report.subtitle, 11, false, '#4b5563'));
+    y -= 18;
+  }
+  ops.push(text(MARGIN, y - 10, `Generated ${formatTimestamp(generatedAt)}`, 8, false, '#6b7280'));
+  y -= 24;
+
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+
+  for (const section of report.sections) {
+    ensureSpace(ROW_HEIGHT * 3);
+    ops.push(text(MARGIN, y - 12, section.heading, 12, true));
+    y -= 20;
+
+    for (const [label, value] of section.summary || []) {
+      ensureSpace(ROW_HEIGHT);
+      ops.push(text(MARGIN, y - 11, label, FONT_SIZE, false, '#4b5563'));
+      ops.push(text(MARGIN + 180, y - 11, fit(formatCell(value), contentWidth - 180, FONT_SIZE), FONT_SIZE, true));
+      y -= 14;
+    }
+    if (section.summary?.length) y -= 6;
+
+    if (section.table) {
+      const { columns, rows } = section.table;
+      const weights = columns.map(c => c.width || 1);
+      const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+      const widths = weights.map(w => (w / totalWeight) * contentWidth);
+
+      const drawHeader = () => {
+        ops.push(rect(MARGIN, y - ROW_HEIGHT, contentWidth, ROW_HEIGHT, '#e5e7eb'));
+        let x = MARGIN;
+        columns.forEach((column, i) => {
+          ops.push(cellText(x, y, widths[i], column.header, column.align, true));
+          x += widths[i];
+        });
+        y -= ROW_HEIGHT;
+      };
+
+      ensureSpace(ROW_HEIGHT * 2);
+      drawHeader();
+
+      if (rows.length === 0 && section.emptyMessage) {
+        ops.push(text(MARGIN + 4, y - 11, section.emptyMessage, FONT_SIZE, false, '#6b7280'));
+        y -= ROW_HEIGHT;
+      }
+
+      rows.forEach((row, rowIndex) => {
+        if (ensureSpace(ROW_HEIGHT)) drawHeader();
+        if (rowIndex % 2 === 1) {
+          ops.push(rect(MARGIN, y - ROW_HEIGHT, contentWidth, ROW_HEIGHT, '#f9fafb'));
+        }
+        let x = MARGIN;
+        columns.forEach((column, i) => {
+          ops.push(cellText(x, y, widths[i], formatCell(row[i]), column.align, false));
+          x += widths[i];
+        });
+        y -= ROW_HEIGHT;
+      });
+    }
+
+    y -= 14;
+  }
+
+  // Header band and footer go on once the page count is known
+  const brand = report.brand || report.title;
+  const brandColor = report.brandColor || DEFAULT_BRAND_COLOR;
+  pages.forEach((pageOps, index) => {
+    pageOps.unshift(
+      rect(0, PAGE_HEIGHT - HEADER_HEIGHT, PAGE_WIDTH, HEADER_HEIGHT, brandColor),
+      text(MARGIN, PAGE_HEIGHT - 23, brand, 13, true, '#ffffff')
+    );
+    const pageLabel = `Page ${index + 1} of ${pages.length}`;
+    pageOps.push(
+      text(MARGIN, MARGIN - 10, fit(report.title, 300, 8), 8, false, '#6b7280'),
+      text(PAGE_WIDTH - MARGIN - measureText(pageLabel, 8), MARGIN - 10, pageLabel, 8, false, '#6b7280')
+    );
+  });
+
+  return serialize(pages.map(p => p.join('\n')), report.title, generatedAt);
+}
+
+export function formatCell(value: PdfCell): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') {
+    return Number.isInteger(value)
+      ? value.toLocaleString('en-US')
+      : value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+  return value;
+}
+
+function cellText(x: number, top: number, width: number, value: string, align: 'left' | 'right' = 'left', bold: boolean): string {
+  const padding = 4;
+  const fitted = fit(value, width - padding * 2, FONT_SIZE, bold);
+  const textX = align === 'right'
+    ? x + width - padding - measureText(fitted, FONT_SIZE, bold)
+    : x + padding;
+  return text(textX, top - 11, fitted, FONT_SIZE, bold);
+}
+
+// Truncate with an ellipsis so cells never overflow into their neighbours
+function fit(value: string, width: number, size: number, bold = false): string {
+  if (measureText(value, size, bold) <= width) return value;
+  let end = value.length;
+  while (end > 0 && measureText(value.slice(0, end) + '...', size, bold) > width) end--;
+  return value.slice(0, end) + '...';
+}
+
+function text(x: number, y: number, value: string, size: number, bold: boolean, color = '#111827'): string {
+  return `BT ${fill(color)} /${bold ? 'F2' : 'F1'} ${size} Tf ${num(x)} ${num(y)} Td (${escapeText(value)}) Tj ET`;
+}
+
+function rect(x: number, y: number, width: number, height: number, color: string): string {
+  return `${fill(color)} ${num(x)} ${num(y)} ${num(width)} ${num(height)} re f`;
+}
+
+function fill(color: string): string {
+  const hex = /^#?([0-9a-f]{6})$/i.exec(color)?.[1] || '000000';
+  const channels = [0, 2, 4].map(i => num(parseInt(hex.slice(i, i + 2), 16) / 255));
+  return `${channels.join(' ')} rg`;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+// Strings use WinAnsiEncoding, which matches Latin-1 for the printable range;
+// anything outside it is replaced so the file stays 7-bit clean
+function escapeText(value: string): string {
+  let out = '';
+  for (const ch of value) {
+    const code = ch.charCodeAt(0);
+    if (ch === '(' || ch === ')' || ch === '\\') out += `\\${ch}`;
+    else if (code >= 32 && code <= 126) out += ch;
+    else if (code >= 160 && code <= 255) out += `\\${code.toString(8).padStart(3, '0')}`;
+    else out += '?';
+  }
+  return out;
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+}
+
+function pdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+function serialize(contents: string[], title: string, createdAt: Date): Uint8Array {
+  const objects: string[] = [];
+  const pageIds: number[] = [];
+  // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream per page
+  const firstPageId = 6;
+  contents.forEach((content, i) => {
+    const pageId = firstPageId + i * 2;
+    pageIds.push(pageId);
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Title (${escapeText(title)}) /Producer (ScanStock Pro) /CreationDate (${pdfDate(createdAt)}) >>`;
+
+  // Everything written is ASCII, so string length is the byte offset
+  let out = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = out.length;
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = out.length;
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    out += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(out);
+}
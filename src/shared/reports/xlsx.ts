@@ -0,0 +1,353 @@
+// Minimal XLSX (Office Open XML) workbook writer. Produces typed numeric,
+// percentage and date cells across multiple sheets with no dependencies.
+
+export type XlsxCellValue = string | number | boolean | Date | null | undefined;
+
+export type XlsxColumnType = 'string' | 'number' | 'integer' | 'currency' | 'percent' | 'date' | 'datetime';
+
+export interface XlsxColumn {
+  header: string;
+  type?: XlsxColumnType; // Defaults to string; percent expects a fraction (0.05 = 5%)
+  width?: number; // In characters
+}
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxCellValue[][];
+}
+
+export interface XlsxWorkbook {
+  title?: string;
+  author?: string;
+  createdAt?: Date;
+  sheets: XlsxSheet[];
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Indexes into cellXfs in styles.xml
+const STYLE_INDEX: Record<XlsxColumnType | 'header', number> = {
+  string: 0,
+  header: 1,
+  number: 2,
+  integer: 3,
+  currency: 4,
+  percent: 5,
+  date: 6,
+  datetime: 7
+};
+
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 86400000;
+
+/**
+ * Render a workbook to XLSX bytes (a zip of SpreadsheetML parts)
+ */
+export function renderXlsxWorkbook(workbook: XlsxWorkbook): Uint8Array {
+  if (workbook.sheets.length === 0) {
+    throw new Error('A workbook needs at least one sheet');
+  }
+
+  const sheetNames = uniqueSheetNames(workbook.sheets.map(s => s.name));
+  const createdAt = workbook.createdAt || new Date();
+
+  const files: Array<{ path: string; content: string }> = [
+    { path: '[Content_Types].xml', content: contentTypes(workbook.sheets.length) },
+    { path: '_rels/.rels', content: rootRels() },
+    { path: 'docProps/core.xml', content: coreProps(workbook, createdAt) },
+    { path: 'xl/workbook.xml', content: workbookXml(sheetNames) },
+    { path: 'xl/_rels/workbook.xml.rels', content: workbookRels(workbook.sheets.length) },
+    { path: 'xl/styles.xml', content: stylesXml() },
+    ...workbook.sheets.map((sheet, i) => ({
+      path: `xl/worksheets/sheet${i + 1}.xml`,
+      content: worksheetXml(sheet)
+    }))
+  ];
+
+  const encoder = new TextEncoder();
+  return zip(files.map(f => ({ path: f.path, data: encoder.encode(f.content) })), createdAt);
+}
+
+/**
+ * Excel serial day number for a date (the 1900 date system)
+ */
+export function toExcelDate(date: Date): number {
+  return (date.getTime() - EXCEL_EPOCH_MS) / MS_PER_DAY;
+}
+
+/**
+ * Column letters for a zero-based index: 0 -> A, 26 -> AA
+ */
+export function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function worksheetXml(sheet: XlsxSheet): string {
+  const cols = sheet.columns.map((column, i) => {
+    const width = column.width || Math.min(Math.max(column.header.length + 2, 10), 50);
+    return `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`;
+  }).join('');
+
+  const header = `<row r="1">${sheet.columns.map((column, i) =>
+    inlineString(`${columnName(i)}1`, column.header, STYLE_INDEX.header)
+  ).join('')}</row>`;
+
+  const rows = sheet.rows.map((row, r) => {
+    const rowNumber = r + 2;
+    const cells = sheet.columns.map((column, i) =>
+      cellXml(`${columnName(i)}${rowNumber}`, row[i], column.type || 'string')
+    ).join('');
+    return `<row r="${rowNumber}">${cells}</row>`;
+  }).join('');
+
+  const lastCell = `${columnName(Math.max(sheet.columns.length - 1, 0))}${sheet.rows.length + 1}`;
+
+  return xmlHeader() +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    (cols ? `<cols>${cols}</cols>` : '') +
+    `<sheetData>${header}${rows}</sheetData>` +
+    (sheet.columns.length > 0 ? `<autoFilter ref="A1:${lastCell}"/>` : '') +
+    '</worksheet>';
+}
+
+function cellXml(ref: string, value: XlsxCellValue, type: XlsxColumnType): string {
+  if (value === null || value === undefined || value === '') return '';
+
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return '';
+    const style = type === 'datetime' ? STYLE_INDEX.datetime : STYLE_INDEX.date;
+    return `<c r="${ref}" s="${style}"><v>${toExcelDate(value)}</v></c>`;
+  }
+
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+
+  if (typeof value === 'number') {
+    if (!isFinite(value)) return inlineString(ref, String(value), STYLE_INDEX.string);
+    const style = type === 'string' ? STYLE_INDEX.number : STYLE_INDEX[type];
+    return `<c r="${ref}" s="${style}"><v>${value}</v></c>`;
+  }
+
+  // ISO dates in date columns become real dates so they sort and filter
+  if ((type === 'date' || type === 'datetime') && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+    return cellXml(ref, new Date(value), type);
+  }
+
+  return inlineString(ref, value, STYLE_INDEX.string);
+}
+
+function inlineString(ref: string, value: string, style: number): string {
+  const preserve = /^\s|\s$/.test(value) ? ' xml:space="preserve"' : '';
+  return `<c r="${ref}" t="inlineStr"${style ? ` s="${style}"` : ''}><is><t${preserve}>${escapeXml(value)}</t></is></c>`;
+}
+
+// Sheet names: at most 31 characters, none of : \ / ? * [ ], unique ignoring case
+function uniqueSheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name, i) => {
+    const base = (name.replace(/[:\\/?*[\]]/g, ' ').trim() || `Sheet${i + 1}`).slice(0, 31);
+    let candidate = base;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      candidate = base.slice(0, 31 - suffix.length) + suffix;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+function escapeXml(value: string): string {
+  return value
+    // Control characters other than tab and newlines are not allowed in XML
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function xmlHeader(): string {
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+}
+
+function contentTypes(sheetCount: number): string {
+  const sheets = Array.from({ length: sheetCount }, (_, i) =>
+    `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+  ).join('');
+
+  return xmlHeader() +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+    sheets +
+    '</Types>';
+}
+
+function rootRels(): string {
+  return xmlHeader() +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+    '</Relationships>';
+}
+
+function coreProps(workbook: XlsxWorkbook, createdAt: Date): string {
+  const timestamp = createdAt.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return xmlHeader() +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    (workbook.title ? `<dc:title>${escapeXml(workbook.title)}</dc:title>` : '') +
+    `<dc:creator>${escapeXml(workbook.author || 'ScanStock Pro')}</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:created>` +
+    '</cp:coreProperties>';
+}
+
+function workbookXml(sheetNames: string[]): string {
+  const sheets = sheetNames.map((name, i) =>
+    `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`
+  ).join('');
+
+  return xmlHeader() +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets>${sheets}</sheets>` +
+    '</workbook>';
+}
+
+function workbookRels(sheetCount: number): string {
+  const sheets = Array.from({ length: sheetCount }, (_, i) =>
+    `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+  ).join('');
+
+  return xmlHeader() +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    sheets +
+    `<Relationship Id="rId${sheetCount + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+}
+
+// cellXfs order must match STYLE_INDEX
+function stylesXml(): string {
+  return xmlHeader() +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<numFmts count="3">' +
+    '<numFmt numFmtId="164" formatCode="#,##0.###"/>' +
+    '<numFmt numFmtId="165" formatCode="yyyy-mm-dd"/>' +
+    '<numFmt numFmtId="166" formatCode="yyyy-mm-dd hh:mm"/>' +
+    '</numFmts>' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>' +
+    '<fill><patternFill patternType="solid"><fgColor rgb="FFE5E7EB"/><bgColor indexed="64"/></patternFill></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="8">' +
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>' +
+    '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '<xf numFmtId="166" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '</cellXfs>' +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    '</styleSheet>';
+}
+
+// Zip container using the stored method; the parts are small and viewers
+// accept uncompressed entries
+function zip(entries: Array<{ path: string; data: Uint8Array }>, modified: Date): Uint8Array {
+  const encoder = new TextEncoder();
+  const time = ((modified.getHours() << 11) | (modified.getMinutes() << 5) | (modified.getSeconds() >> 1)) & 0xffff;
+  const date = (((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate()) & 0xffff;
+
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(entry.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // Stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, entry.data.length, true);
+    central.setUint32(24, entry.data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, entry.data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + entry.data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return concat([...localParts, ...centralParts, new Uint8Array(end.buffer)]);
+}
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    out.set(part, position);
+    position += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,53 @@
+// Delta sync wire format shared by the /api/sync route and the offline store.
+// The cursor is opaque to clients: they send back what the server issued.
+
+export type SyncEntity = 'product' | 'location' | 'stock_level';
+
+export interface SyncChange {
+  entity_type: SyncEntity;
+  record_id: string;
+  deleted: boolean; // Tombstone: remove the record locally
+  data: Record<string, any> | null; // Current row; null for tombstones
+}
+
+export interface SyncPage {
+  changes: SyncChange[];
+  cursor: string;
+  has_more: boolean;
+  reset: boolean; // The client's cursor was too old: drop synced data before applying
+}
+
+export interface SyncCursor {
+  businessId: string;
+  txid: string;
+  entity: string;
+  record: string;
+  issuedAt: number;
+}
+
+// Tombstones are kept this long (see cleanup-sync-tombstones), so an older
+// cursor may have missed deletes
+export const TOMBSTONE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export function encodeSyncCursor(cursor: SyncCursor): string {
+  return btoa(JSON.stringify([cursor.businessId, cursor.txid, cursor.entity, cursor.record, cursor.issuedAt]))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+// Null when the cursor is not one the server issued
+export function decodeSyncCursor(value: string): SyncCursor | null {
+  try {
+    const [businessId, txid, entity, record, issuedAt] = JSON.parse(
+      atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+    );
+    if (typeof businessId !== 'string' || !/^\d+$/.test(txid) || typeof entity !== 'string' ||
+        typeof record !== 'string' || typeof issuedAt !== 'number') {
+      return null;
+    }
+    return { businessId, txid, entity, record, issuedAt };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,106 @@
+// Three-way merge of an offline edit: the values the device started from
+// (base), what it changed them to (local) and what the server holds now.
+// Fields only one side changed merge cleanly; fields both sides changed to
+// different values are settled by the field's rule.
+
+export type FieldMergeRule =
+  | 'conflict' // Report it; the user decides
+  | 'client_wins' // The replayed edit overwrites the server
+  | 'server_wins' // The replayed edit is dropped
+  | 'additive'; // Numbers: apply the device's delta on top of the server value
+
+export interface FieldConflict {
+  field: string;
+  base: unknown;
+  local: unknown;
+  server: unknown;
+}
+
+export interface MergeResult {
+  changes: Record<string, unknown>; // Fields to write
+  conflicts: FieldConflict[];
+}
+
+// Defaults: stock adjusted on two devices adds up; reorder settings and
+// categories follow the latest edit. Everything else is a conflict.
+export const PRODUCT_MERGE_RULES: Record<string, FieldMergeRule> = {
+  quantity: 'additive',
+  min_stock: 'client_wins',
+  max_stock: 'client_wins',
+  category: 'client_wins'
+};
+
+const MERGE_RULES: FieldMergeRule[] = ['conflict', 'client_wins', 'server_wins', 'additive'];
+
+/**
+ * A business's rules (settings.product_merge_rules) over the defaults.
+ * Entries that are not a known rule are ignored.
+ */
+export function resolveMergeRules(overrides?: Record<string, unknown> | null): Record<string, FieldMergeRule> {
+  const rules = { ...PRODUCT_MERGE_RULES };
+  for (const [field, rule] of Object.entries(overrides || {})) {
+    if (MERGE_RULES.includes(rule as FieldMergeRule)) rules[field] = rule as FieldMergeRule;
+  }
+  return rules;
+}
+
+/**
+ * Merge the fields of `local` against `server`. Fields without a base value,
+ * or that the server does not report, are written as sent (last write wins).
+ */
+export function threeWayMerge(
+  base: Record<string, unknown>,
+  local: Record<string, unknown>,
+  server: Record<string, unknown>,
+  rules: Record<string, FieldMergeRule> = {},
+  defaultRule: FieldMergeRule = 'conflict'
+): MergeResult {
+  const changes: Record<string, unknown> = {};
+  const conflicts: FieldConflict[] = [];
+
+  for (const [field, value] of Object.entries(local)) {
+    if (!(field in base) || !(field in server)) {
+      changes[field] = value;
+      continue;
+    }
+
+    const localChanged = !sameValue(value, base[field]);
+    const serverChanged = !sameValue(server[field], base[field]);
+
+    if (!localChanged || sameValue(value, server[field])) continue;
+
+    if (!serverChanged) {
+      changes[field] = value;
+      continue;
+    }
+
+    const rule = rules[field] ?? defaultRule;
+    const conflict = { field, base: base[field], local: value, server: server[field] };
+
+    if (rule === 'client_wins') {
+      changes[field] = value;
+    } else if (rule === 'additive') {
+      const merged = addDelta(base[field], value, server[field]);
+      if (merged === null) conflicts.push(conflict);
+      else changes[field] = merged;
+    } else if (rule === 'conflict') {
+      conflicts.push(conflict);
+    }
+  }
+
+  return { changes, conflicts };
+}
+
+// Null when a value is not a number or the result would go below zero
+function addDelta(base: unknown, local: unknown, server: unknown): number | null {
+  const [b, l, s] = [base, local, server].map(Number);
+  if (![b, l, s].every(Number.isFinite)) return null;
+
+  const merged = s + (l - b);
+  return merged < 0 ? null : merged;
+}
+
+// Missing and null are the same value; objects compare by content
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
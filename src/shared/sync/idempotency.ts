@@ -0,0 +1,17 @@
+// Headers that carry a queued client operation's identity, so the API can
+// apply each operation once however often the device replays it
+
+export const OPERATION_ID_HEADER = 'Idempotency-Key';
+export const DEVICE_ID_HEADER = 'X-Device-ID';
+
+const DEVICE_ID_KEY = 'scanstock_device_id';
+
+// Stable for this browser profile; generated on first use (client only)
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}